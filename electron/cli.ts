@@ -0,0 +1,462 @@
+#!/usr/bin/env node
+/**
+ * Speckit Dashboard - Command Line Interface
+ * Headless project report for CI, built on the same sync, parsers and stats
+ * as the desktop app. Nothing here may import Electron.
+ */
+
+import fs from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import { databaseService } from "./services/database";
+import { syncProjectFeatures } from "./services/feature-sync";
+
+type Command = "stats" | "features" | "tasks" | "check";
+
+const COMMANDS: Command[] = ["stats", "features", "tasks", "check"];
+
+// Exit codes
+const EXIT_OK = 0;
+const EXIT_THRESHOLD_FAILED = 1;
+const EXIT_USAGE_ERROR = 2;
+
+const USAGE = `Usage: speckit-dash <command> [project-path] [options]
+
+Commands:
+  stats      Project stats (features by status, task progress)
+  features   Features with status, completion and problems
+  tasks      Task progress per feature (task list with --feature)
+  check      Everything above; use with thresholds in CI
+
+Options:
+  --json                     Print JSON instead of text
+  --feature <number>         Only report on one feature (e.g. 001-my-feature or 001)
+  --db <path>                SQLite file to sync into (default: in memory)
+  --fail-on-errors           Exit 1 if any feature has sync or parse errors
+  --min-completion <pct>     Exit 1 if a feature with tasks is below pct% done
+  --min-avg-completion <pct> Exit 1 if average task completion is below pct%
+  -h, --help                 Show this help
+
+Exit codes: 0 ok, 1 threshold failed, 2 usage or runtime error.
+The project path defaults to the current directory.`;
+
+interface CliOptions {
+  command: Command;
+  projectPath: string;
+  json: boolean;
+  feature: string | null;
+  dbPath: string;
+  failOnErrors: boolean;
+  minCompletion: number | null;
+  minAvgCompletion: number | null;
+}
+
+interface FeatureReport {
+  featureNumber: string;
+  title: string;
+  status: string;
+  taskCompletionPct: number;
+  tasks: {
+    total: number;
+    notStarted: number;
+    inProgress: number;
+    done: number;
+    items?: Array<{
+      taskId: string;
+      status: string;
+      phase: string | null;
+      description: string;
+    }>;
+  };
+  errors: string[];
+  diagnostics: Array<{
+    file: string;
+    line: number;
+    column: number;
+    severity: string;
+    code: string;
+    message: string;
+  }>;
+}
+
+interface ProjectReport {
+  projectPath: string;
+  stats: ReturnType<typeof databaseService.getProjectStats>;
+  features: FeatureReport[];
+  errors: string[];
+  failures: string[];
+}
+
+/**
+ * Error for invalid command line usage
+ */
+class UsageError extends Error {}
+
+/**
+ * Parse a percentage option value
+ */
+function parsePercent(name: string, value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const pct = Number(value);
+  if (!Number.isFinite(pct) || pct < 0 || pct > 100) {
+    throw new UsageError(`--${name} must be a number between 0 and 100`);
+  }
+  return pct;
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseOptions(argv: string[]): CliOptions | null {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      json: { type: "boolean", default: false },
+      feature: { type: "string" },
+      db: { type: "string", default: ":memory:" },
+      "fail-on-errors": { type: "boolean", default: false },
+      "min-completion": { type: "string" },
+      "min-avg-completion": { type: "string" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help) return null;
+
+  const [command = "check", projectPath = process.cwd(), ...extra] =
+    positionals;
+  if (!COMMANDS.includes(command as Command)) {
+    throw new UsageError(`Unknown command: ${command}`);
+  }
+  if (extra.length > 0) {
+    throw new UsageError(`Unexpected arguments: ${extra.join(" ")}`);
+  }
+
+  return {
+    command: command as Command,
+    projectPath: path.resolve(projectPath),
+    json: Boolean(values.json),
+    feature: values.feature ?? null,
+    dbPath: values.db ?? ":memory:",
+    failOnErrors: Boolean(values["fail-on-errors"]),
+    minCompletion: parsePercent("min-completion", values["min-completion"]),
+    minAvgCompletion: parsePercent(
+      "min-avg-completion",
+      values["min-avg-completion"],
+    ),
+  };
+}
+
+/**
+ * Sync the project into the database and collect the report
+ */
+async function buildReport(options: CliOptions): Promise<ProjectReport> {
+  if (!fs.existsSync(path.join(options.projectPath, "specs"))) {
+    throw new UsageError(
+      `No specs directory found in ${options.projectPath}`,
+    );
+  }
+
+  // Keep stdout for the report
+  databaseService.initialize(
+    options.dbPath,
+    (message) => process.stderr.write(`${message}\n`),
+  );
+
+  const project = databaseService.getProjectByPath(options.projectPath) ??
+    databaseService.createProject(
+      path.basename(options.projectPath),
+      options.projectPath,
+    );
+  const syncResult = await syncProjectFeatures(
+    project.id,
+    options.projectPath,
+  );
+
+  let features = databaseService.getFeaturesByProject(project.id);
+  if (options.feature) {
+    const wanted = options.feature;
+    features = features.filter((f) =>
+      f.feature_number === wanted || f.feature_number.startsWith(`${wanted}-`)
+    );
+    if (features.length === 0) {
+      throw new UsageError(`Feature not found: ${wanted}`);
+    }
+  }
+
+  const featureReports = features.map((feature): FeatureReport => {
+    const tasks = databaseService.getTasksByFeature(feature.id);
+    const countStatus = (status: string) =>
+      tasks.filter((t) => t.status === status).length;
+
+    // Sync errors are prefixed with the feature directory name
+    const syncErrors = syncResult.errors
+      .filter((error) =>
+        error.startsWith(`${feature.feature_number}: `) ||
+        error.startsWith(`Failed to sync ${feature.feature_number}:`)
+      )
+      .map((error) => error.replace(`${feature.feature_number}: `, ""));
+    const diagnostics = databaseService.getParseDiagnosticsByFeature(
+      feature.id,
+    );
+
+    return {
+      featureNumber: feature.feature_number,
+      title: feature.title || feature.feature_name,
+      status: feature.status,
+      taskCompletionPct: feature.task_completion_pct,
+      tasks: {
+        total: tasks.length,
+        notStarted: countStatus("not_started"),
+        inProgress: countStatus("in_progress"),
+        done: countStatus("done"),
+        items: options.command === "tasks" && options.feature
+          ? tasks.map((t) => ({
+            taskId: t.task_id,
+            status: t.status,
+            phase: t.phase,
+            description: t.description,
+          }))
+          : undefined,
+      },
+      // Dependency cycles are reported as diagnostics too
+      errors: syncErrors.filter((error) =>
+        !diagnostics.some((d) => d.message === error)
+      ),
+      diagnostics: diagnostics.map((d) => ({
+        file: d.file_path,
+        line: d.line_number,
+        column: d.column_number,
+        severity: d.severity,
+        code: d.rule_code,
+        message: d.message,
+      })),
+    };
+  });
+
+  const allFeatureNumbers = databaseService.getFeaturesByProject(project.id)
+    .map((f) => f.feature_number);
+  const projectErrors = syncResult.errors.filter((error) =>
+    !allFeatureNumbers.some((n) =>
+      error.startsWith(`${n}: `) || error.startsWith(`Failed to sync ${n}:`)
+    )
+  );
+
+  const report: ProjectReport = {
+    projectPath: options.projectPath,
+    stats: databaseService.getProjectStats(project.id),
+    features: featureReports,
+    errors: projectErrors,
+    failures: [],
+  };
+  report.failures = checkThresholds(report, options);
+
+  return report;
+}
+
+/**
+ * Compare the report against the configured thresholds
+ */
+function checkThresholds(report: ProjectReport, options: CliOptions): string[] {
+  const failures: string[] = [];
+
+  if (options.failOnErrors) {
+    failures.push(...report.errors);
+    for (const feature of report.features) {
+      for (const error of feature.errors) {
+        failures.push(`${feature.featureNumber}: ${error}`);
+      }
+      for (const d of feature.diagnostics) {
+        if (d.severity === "error") {
+          failures.push(
+            `${feature.featureNumber}/${d.file}:${d.line}:${d.column}: ${d.message} (${d.code})`,
+          );
+        }
+      }
+    }
+  }
+
+  if (options.minCompletion !== null) {
+    for (const feature of report.features) {
+      if (
+        feature.tasks.total > 0 &&
+        feature.taskCompletionPct < options.minCompletion
+      ) {
+        failures.push(
+          `${feature.featureNumber}: ${
+            feature.taskCompletionPct.toFixed(1)
+          }% complete, below ${options.minCompletion}%`,
+        );
+      }
+    }
+  }
+
+  if (options.minAvgCompletion !== null) {
+    const withTasks = report.features.filter((f) => f.tasks.total > 0);
+    const average = withTasks.length > 0
+      ? withTasks.reduce((sum, f) => sum + f.taskCompletionPct, 0) /
+        withTasks.length
+      : 0;
+    if (average < options.minAvgCompletion) {
+      failures.push(
+        `Average completion ${
+          average.toFixed(1)
+        }% is below ${options.minAvgCompletion}%`,
+      );
+    }
+  }
+
+  return failures;
+}
+
+/**
+ * Render a progress bar for text output
+ */
+function progressBar(pct: number, width = 20): string {
+  const filled = Math.round((Math.min(Math.max(pct, 0), 100) / 100) * width);
+  return `[${"#".repeat(filled)}${"-".repeat(width - filled)}]`;
+}
+
+/**
+ * Format the report as plain text for the selected command
+ */
+function formatText(report: ProjectReport, command: Command): string {
+  const lines: string[] = [];
+  const { stats } = report;
+
+  if (command === "stats" || command === "check") {
+    lines.push(`Project: ${report.projectPath}`);
+    lines.push(
+      `Features: ${stats.totalFeatures} (` +
+        Object.entries(stats.featuresByStatus)
+          .map(([status, count]) => `${status} ${count ?? 0}`)
+          .join(", ") +
+        ")",
+    );
+    lines.push(
+      `Tasks: ${stats.totalTasks} (` +
+        Object.entries(stats.tasksByStatus)
+          .map(([status, count]) => `${status} ${count ?? 0}`)
+          .join(", ") +
+        ")",
+    );
+    lines.push(`Average completion: ${stats.avgTaskCompletion.toFixed(1)}%`);
+    lines.push("");
+  }
+
+  if (command === "features" || command === "check") {
+    lines.push("Features:");
+    for (const feature of report.features) {
+      lines.push(
+        `  ${feature.featureNumber.padEnd(36)} ${feature.status.padEnd(12)} ${
+          feature.taskCompletionPct.toFixed(1).padStart(5)
+        }%  ${feature.title}`,
+      );
+      for (const error of feature.errors) {
+        lines.push(`      ! ${error}`);
+      }
+      for (const d of feature.diagnostics) {
+        lines.push(
+          `      ${d.file}:${d.line}:${d.column} ${d.severity} ${d.message} (${d.code})`,
+        );
+      }
+    }
+    lines.push("");
+  }
+
+  if (command === "tasks" || command === "check") {
+    lines.push("Task progress:");
+    for (const feature of report.features) {
+      const { tasks } = feature;
+      lines.push(
+        `  ${feature.featureNumber.padEnd(36)} ${
+          progressBar(feature.taskCompletionPct)
+        } ${tasks.done}/${tasks.total} done, ${tasks.inProgress} in progress`,
+      );
+      for (const task of tasks.items ?? []) {
+        const mark = task.status === "done"
+          ? "x"
+          : task.status === "in_progress"
+          ? "/"
+          : " ";
+        lines.push(`      [${mark}] ${task.taskId} ${task.description}`);
+      }
+    }
+    lines.push("");
+  }
+
+  if (report.errors.length > 0) {
+    lines.push("Errors:");
+    report.errors.forEach((error) => lines.push(`  ! ${error}`));
+    lines.push("");
+  }
+
+  if (report.failures.length > 0) {
+    lines.push("Threshold failures:");
+    report.failures.forEach((failure) => lines.push(`  x ${failure}`));
+  } else {
+    lines.push("OK");
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Select the JSON payload for the selected command
+ */
+function formatJson(report: ProjectReport, command: Command): string {
+  const payload = {
+    projectPath: report.projectPath,
+    ...(command === "stats" || command === "check"
+      ? { stats: report.stats }
+      : {}),
+    ...(command !== "stats" ? { features: report.features } : {}),
+    errors: report.errors,
+    failures: report.failures,
+    passed: report.failures.length === 0,
+  };
+  return JSON.stringify(payload, null, 2);
+}
+
+async function main(argv: string[]): Promise<number> {
+  let options: CliOptions | null;
+  try {
+    options = parseOptions(argv);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    console.error(`\n${USAGE}`);
+    return EXIT_USAGE_ERROR;
+  }
+
+  if (!options) {
+    process.stdout.write(`${USAGE}\n`);
+    return EXIT_OK;
+  }
+
+  let report: ProjectReport;
+  try {
+    report = await buildReport(options);
+  } catch (error) {
+    console.error(
+      `Error: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return EXIT_USAGE_ERROR;
+  } finally {
+    databaseService.close();
+  }
+
+  process.stdout.write(
+    `${
+      options.json
+        ? formatJson(report, options.command)
+        : formatText(report, options.command)
+    }\n`,
+  );
+
+  return report.failures.length > 0 ? EXIT_THRESHOLD_FAILED : EXIT_OK;
+}
+
+main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
@@ -8,45 +8,10 @@ import path from "path";
 import isDev from "electron-is-dev";
 import { databaseService } from "./services/database";
 import { registerIPCHandlers } from "./services/ipc-handlers";
+import { windowManager } from "./services/window-manager";
+import { fileWatcherService } from "./services/file-watcher";
 import { autoUpdater } from "electron-updater";
 
-let mainWindow: BrowserWindow | null = null;
-
-function createWindow(): void {
-  mainWindow = new BrowserWindow({
-    width: 1400,
-    height: 900,
-    minWidth: 1024,
-    minHeight: 700,
-    webPreferences: {
-      preload: path.join(__dirname, "preload.js"),
-      contextIsolation: true,
-      nodeIntegration: false,
-      sandbox: false, // Required for better-sqlite3 native module
-    },
-    // titleBarStyle: "hiddenInset",
-    show: false,
-    backgroundColor: "#1f2937", // gray-800
-  });
-
-  // Load the app
-  if (isDev) {
-    mainWindow.loadURL("http://localhost:5173");
-    mainWindow.webContents.openDevTools();
-  } else {
-    mainWindow.loadFile(path.join(__dirname, "../dist/index.html"));
-  }
-
-  // Show window when ready to avoid visual flash
-  mainWindow.once("ready-to-show", () => {
-    mainWindow?.show();
-  });
-
-  mainWindow.on("closed", () => {
-    mainWindow = null;
-  });
-}
-
 // ========================================
 // Auto-Updater Configuration
 // ========================================
@@ -69,9 +34,7 @@ function setupAutoUpdater(): void {
     console.log("Update available:", info);
 
     // Show dialog to user
-    if (mainWindow) {
-      mainWindow.webContents.send("update-available", info);
-    }
+    windowManager.getMainWindow()?.webContents.send("update-available", info);
   });
 
   // Event: Update not available
@@ -84,9 +47,7 @@ function setupAutoUpdater(): void {
     console.log("Update downloaded:", info);
 
     // Notify user that update is ready to install
-    if (mainWindow) {
-      mainWindow.webContents.send("update-downloaded", info);
-    }
+    windowManager.getMainWindow()?.webContents.send("update-downloaded", info);
   });
 
   // Event: Error occurred
@@ -98,9 +59,7 @@ function setupAutoUpdater(): void {
   autoUpdater.on("download-progress", (progress) => {
     console.log(`Download progress: ${progress.percent}%`);
 
-    if (mainWindow) {
-      mainWindow.webContents.send("download-progress", progress);
-    }
+    windowManager.getMainWindow()?.webContents.send("download-progress", progress);
   });
 
   // Check for updates on startup
@@ -117,14 +76,16 @@ function setupAutoUpdater(): void {
 // ========================================
 
 app.whenReady().then(() => {
-  // Initialize database
-  databaseService.initialize();
+  // Initialize database in the app data directory
+  databaseService.initialize(
+    path.join(app.getPath("userData"), "speckit-dash", "data.db"),
+  );
 
   // Register IPC handlers
   registerIPCHandlers();
 
   // Create main window
-  createWindow();
+  windowManager.createWindow();
 
   // Setup auto-updater (only in production)
   if (!isDev) {
@@ -134,7 +95,7 @@ app.whenReady().then(() => {
   // macOS: Recreate window when dock icon clicked
   app.on("activate", () => {
     if (BrowserWindow.getAllWindows().length === 0) {
-      createWindow();
+      windowManager.createWindow();
     }
   });
 });
@@ -148,6 +109,7 @@ app.on("window-all-closed", () => {
 
 // Cleanup on quit
 app.on("before-quit", () => {
+  fileWatcherService.stop();
   databaseService.close();
 });
 
@@ -155,4 +117,4 @@ app.on("before-quit", () => {
 // Export for testing
 // ========================================
 
-export { mainWindow };
+export { windowManager };
@@ -12,6 +12,20 @@ interface FileChangeEvent {
   filePath: string;
   affectedFeatureId?: number;
 }
+interface FeatureUpdatedEvent {
+  projectId: number;
+  featureId: number;
+  featureNumber: string;
+  filePath: string;
+  eventType: FileEventType;
+  removed: boolean;
+}
+type AIProviderType = "openai" | "ollama" | "openrouter" | `custom:${string}`;
+interface AnalysisStreamEvent {
+  requestId: string;
+  delta: string;
+  partial: unknown;
+}
 
 // Expose protected methods to the renderer process
 contextBridge.exposeInMainWorld("electronAPI", {
@@ -33,6 +47,9 @@ contextBridge.exposeInMainWorld("electronAPI", {
   syncProject: (projectId: number) =>
     ipcRenderer.invoke("project:sync", { projectId }),
 
+  openProjectWindow: (projectId: number) =>
+    ipcRenderer.invoke("window:open-project", { projectId }),
+
   // ========================================
   // Feature Methods
   // ========================================
@@ -52,6 +69,29 @@ contextBridge.exposeInMainWorld("electronAPI", {
   listTasks: (featureId: number, groupBy?: "phase" | "status" | "story") =>
     ipcRenderer.invoke("tasks:list", { featureId, groupBy }),
 
+  updateTaskStatus: (
+    taskId: number,
+    status: "not_started" | "in_progress" | "done",
+    tasksHash: string,
+  ) => ipcRenderer.invoke("tasks:update-status", { taskId, status, tasksHash }),
+
+  // ========================================
+  // User Story Methods
+  // ========================================
+
+  listUserStories: (featureId: number) =>
+    ipcRenderer.invoke("stories:list", { featureId }),
+
+  // ========================================
+  // Diagnostics Methods
+  // ========================================
+
+  getFeatureDiagnostics: (featureId: number) =>
+    ipcRenderer.invoke("diagnostics:feature", { featureId }),
+
+  getProjectDiagnostics: (projectId: number) =>
+    ipcRenderer.invoke("diagnostics:project", { projectId }),
+
   // ========================================
   // Entity Methods
   // ========================================
@@ -66,6 +106,9 @@ contextBridge.exposeInMainWorld("electronAPI", {
   getStatsOverview: (projectId: number) =>
     ipcRenderer.invoke("stats:overview", { projectId }),
 
+  getStatsHistory: (projectId: number, since?: number) =>
+    ipcRenderer.invoke("stats:history", { projectId, since }),
+
   // ========================================
   // File Watcher Event Listener
   // ========================================
@@ -86,6 +129,22 @@ contextBridge.exposeInMainWorld("electronAPI", {
     };
   },
 
+  onFeatureUpdated: (callback: (event: FeatureUpdatedEvent) => void) => {
+    const handler = (
+      _event: Electron.IpcRendererEvent,
+      data: FeatureUpdatedEvent,
+    ) => {
+      callback(data);
+    };
+
+    ipcRenderer.on("feature:updated", handler);
+
+    // Return unsubscribe function
+    return () => {
+      ipcRenderer.removeListener("feature:updated", handler);
+    };
+  },
+
   // ========================================
   // AI Provider Methods
   // ========================================
@@ -97,28 +156,86 @@ contextBridge.exposeInMainWorld("electronAPI", {
 
   getAIProviderConfig: () => ipcRenderer.invoke("ai-provider:get-config"),
 
-  switchAIProvider: (provider: "openai" | "ollama" | "openrouter") =>
+  switchAIProvider: (provider: AIProviderType) =>
     ipcRenderer.invoke("ai-provider:switch", { provider }),
 
-  testAIConnection: (provider: "openai" | "ollama" | "openrouter") =>
+  testAIConnection: (provider: AIProviderType) =>
     ipcRenderer.invoke("ai-provider:test-connection", { provider }),
 
+  saveCustomProviderProfile: (profile: Record<string, unknown>) =>
+    ipcRenderer.invoke("ai-provider:save-custom-profile", { profile }),
+
+  deleteCustomProviderProfile: (profileId: string) =>
+    ipcRenderer.invoke("ai-provider:delete-custom-profile", { profileId }),
+
+  setAnalysisRouting: (routing: Record<string, unknown>) =>
+    ipcRenderer.invoke("ai-provider:set-routing", { routing }),
+
   // ========================================
   // AI Analysis Methods
   // ========================================
 
-  generateSummary: (featureId: number, filePath: string, force?: boolean) =>
+  generateSummary: (
+    featureId: number,
+    filePath: string,
+    force?: boolean,
+    requestId?: string,
+  ) =>
     ipcRenderer.invoke("ai-analysis:generate-summary", {
       featureId,
       filePath,
       force,
+      requestId,
+    }),
+
+  checkConsistency: (
+    featureId: number,
+    files: string[],
+    force?: boolean,
+    requestId?: string,
+  ) =>
+    ipcRenderer.invoke("ai-analysis:check-consistency", {
+      featureId,
+      files,
+      force,
+      requestId,
+    }),
+
+  findGaps: (
+    featureId: number,
+    filePath: string,
+    force?: boolean,
+    requestId?: string,
+  ) =>
+    ipcRenderer.invoke("ai-analysis:find-gaps", {
+      featureId,
+      filePath,
+      force,
+      requestId,
     }),
 
-  checkConsistency: (featureId: number, files: string[]) =>
-    ipcRenderer.invoke("ai-analysis:check-consistency", { featureId, files }),
+  cancelAnalysis: (requestId: string) =>
+    ipcRenderer.invoke("ai-analysis:cancel", { requestId }),
 
-  findGaps: (featureId: number, filePath: string) =>
-    ipcRenderer.invoke("ai-analysis:find-gaps", { featureId, filePath }),
+  onAnalysisStream: (
+    requestId: string,
+    callback: (event: AnalysisStreamEvent) => void,
+  ) => {
+    const channel = `ai-analysis:stream:${requestId}`;
+    const handler = (
+      _event: Electron.IpcRendererEvent,
+      data: AnalysisStreamEvent,
+    ) => {
+      callback(data);
+    };
+
+    ipcRenderer.on(channel, handler);
+
+    // Return unsubscribe function
+    return () => {
+      ipcRenderer.removeListener(channel, handler);
+    };
+  },
 
   getAnalysisHistory: (
     featureId: number,
@@ -144,12 +261,131 @@ contextBridge.exposeInMainWorld("electronAPI", {
   getEntityDetails: (entityId: number) =>
     ipcRenderer.invoke("schema:get-entity-details", { entityId }),
 
+  getProjectDataModel: (projectId: number) =>
+    ipcRenderer.invoke("schema:get-project-model", { projectId }),
+
+  // ========================================
+  // Code Generation Methods
+  // ========================================
+
+  generateCode: (featureId: number, target: string) =>
+    ipcRenderer.invoke("codegen:generate", { featureId, target }),
+
+  saveGeneratedCode: (featureId: number, fileName: string, content: string) =>
+    ipcRenderer.invoke("codegen:save", { featureId, fileName, content }),
+
+  // ========================================
+  // Diagram Export Methods
+  // ========================================
+
+  saveDiagram: (
+    featureId: number,
+    fileName: string,
+    content: string,
+    encoding: "utf-8" | "base64",
+  ) =>
+    ipcRenderer.invoke("diagram:save", {
+      featureId,
+      fileName,
+      content,
+      encoding,
+    }),
+
+  // ========================================
+  // Diagram Layout Methods
+  // ========================================
+
+  getDiagramLayout: (featureId: number, diagram: string) =>
+    ipcRenderer.invoke("layout:get", { featureId, diagram }),
+
+  saveDiagramLayout: (featureId: number, diagram: string, layout: Record<string, unknown>) =>
+    ipcRenderer.invoke("layout:save", { featureId, diagram, layout }),
+
+  resetDiagramLayout: (featureId: number, diagram: string) =>
+    ipcRenderer.invoke("layout:reset", { featureId, diagram }),
+
+  // ========================================
+  // Traceability Methods
+  // ========================================
+
+  getTraceability: (featureId: number) =>
+    ipcRenderer.invoke("traceability:get", { featureId }),
+
   // ========================================
   // Architecture Analysis Methods
   // ========================================
 
-  analyzeArchitecture: (featureId: number, force?: boolean) =>
-    ipcRenderer.invoke("architecture:analyze", { featureId, force }),
+  analyzeArchitecture: (
+    featureId: number,
+    force?: boolean,
+    requestId?: string,
+  ) =>
+    ipcRenderer.invoke("architecture:analyze", {
+      featureId,
+      force,
+      requestId,
+    }),
+
+  // ========================================
+  // Project Analysis Methods
+  // ========================================
+
+  runProjectAnalysis: (
+    projectId: number,
+    analysisType: "conflicts" | "integrity",
+    force?: boolean,
+    requestId?: string,
+  ) =>
+    ipcRenderer.invoke("project-analysis:run", {
+      projectId,
+      analysisType,
+      force,
+      requestId,
+    }),
+
+  getProjectAnalysisHistory: (
+    projectId: number,
+    analysisType?: "conflicts" | "integrity",
+    limit?: number,
+  ) =>
+    ipcRenderer.invoke("project-analysis:get-history", {
+      projectId,
+      analysisType,
+      limit,
+    }),
+
+  // ========================================
+  // Tasks Draft Methods
+  // ========================================
+
+  generateTasksDraft: (featureId: number, requestId?: string) =>
+    ipcRenderer.invoke("tasks-draft:generate", { featureId, requestId }),
+
+  writeTasksDraft: (featureId: number, content: string) =>
+    ipcRenderer.invoke("tasks-draft:write", { featureId, content }),
+
+  // ========================================
+  // Chat Methods
+  // ========================================
+
+  listChatConversations: (projectId: number, featureId: number | null) =>
+    ipcRenderer.invoke("chat:list-conversations", { projectId, featureId }),
+
+  createChatConversation: (projectId: number, featureId: number | null) =>
+    ipcRenderer.invoke("chat:create-conversation", { projectId, featureId }),
+
+  getChatMessages: (conversationId: number) =>
+    ipcRenderer.invoke("chat:get-messages", { conversationId }),
+
+  deleteChatConversation: (conversationId: number) =>
+    ipcRenderer.invoke("chat:delete-conversation", { conversationId }),
+
+  sendChatMessage: (
+    conversationId: number,
+    question: string,
+    requestId?: string,
+  ) =>
+    ipcRenderer.invoke("chat:send", { conversationId, question, requestId }),
 
   // ========================================
   // File Content Methods
@@ -157,8 +393,81 @@ contextBridge.exposeInMainWorld("electronAPI", {
 
   readSpecFile: (
     featureId: number,
-    fileType: "spec" | "plan" | "tasks" | "data-model" | "requirements",
+    fileType:
+      | "spec"
+      | "plan"
+      | "tasks"
+      | "data-model"
+      | "research"
+      | "requirements",
   ) => ipcRenderer.invoke("files:read-spec", { featureId, fileType }),
+
+  readFeatureFile: (featureId: number, filePath: string) =>
+    ipcRenderer.invoke("files:read-feature-file", { featureId, filePath }),
+
+  // ========================================
+  // Usage Methods
+  // ========================================
+
+  getUsageSummary: (since: number, projectId?: number) =>
+    ipcRenderer.invoke("usage:get-summary", { since, projectId }),
+
+  getModelPricing: () => ipcRenderer.invoke("usage:get-pricing"),
+
+  setModelPricing: (
+    model: string,
+    promptPrice: number,
+    completionPrice: number,
+  ) =>
+    ipcRenderer.invoke("usage:set-pricing", {
+      model,
+      promptPrice,
+      completionPrice,
+    }),
+
+  deleteModelPricing: (model: string) =>
+    ipcRenderer.invoke("usage:delete-pricing", { model }),
+
+  syncOpenRouterPricing: () =>
+    ipcRenderer.invoke("usage:sync-openrouter-pricing"),
+
+  getUsageBudgets: () => ipcRenderer.invoke("usage:get-budgets"),
+
+  setUsageBudget: (projectId: number | null, monthlyLimit: number | null) =>
+    ipcRenderer.invoke("usage:set-budget", { projectId, monthlyLimit }),
+
+  // ========================================
+  // Prompt Methods
+  // ========================================
+
+  listPrompts: (projectId: number) =>
+    ipcRenderer.invoke("prompts:list", { projectId }),
+
+  savePrompt: (projectId: number, promptId: string, template: string) =>
+    ipcRenderer.invoke("prompts:save", { projectId, promptId, template }),
+
+  resetPrompt: (projectId: number, promptId: string) =>
+    ipcRenderer.invoke("prompts:reset", { projectId, promptId }),
+
+  testPrompt: (
+    featureId: number,
+    promptId: string,
+    template: string,
+    requestId?: string,
+  ) =>
+    ipcRenderer.invoke("prompts:test", {
+      featureId,
+      promptId,
+      template,
+      requestId,
+    }),
+
+  // ========================================
+  // Search Methods
+  // ========================================
+
+  searchQuery: (projectId: number, query: string, limit?: number) =>
+    ipcRenderer.invoke("search:query", { projectId, query, limit }),
 });
 
 // ========================================
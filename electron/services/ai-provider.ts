@@ -1,12 +1,14 @@
 /**
  * AI Provider Service
  * Manages AI provider configuration, initialization, and switching
- * Supports OpenAI and Ollama providers via Vercel AI SDK
+ * Supports OpenAI, Ollama, OpenRouter and user-defined OpenAI-compatible
+ * endpoints via Vercel AI SDK
  */
 
+import { randomUUID } from "crypto";
 import { createOpenAI } from "@ai-sdk/openai";
 import Store from "electron-store";
-import type { LanguageModel } from "ai";
+import type { EmbeddingModel, LanguageModel } from "ai";
 import {
   decryptApiKey,
   encryptApiKey,
@@ -22,7 +24,67 @@ import {
 // Types
 // ============================================================================
 
-export type AIProviderType = "openai" | "ollama" | "openrouter";
+export type BuiltInProviderType = "openai" | "ollama" | "openrouter";
+
+/**
+ * Built-in provider, or a custom endpoint profile as "custom:<profileId>"
+ */
+export type AIProviderType = BuiltInProviderType | `custom:${string}`;
+
+const CUSTOM_PROVIDER_PREFIX = "custom:";
+
+// How long a passed connection test lets routing skip testing the provider
+const CONNECTION_CHECK_TTL = 60_000;
+
+export type AnalysisKind =
+  | "summary"
+  | "consistency"
+  | "gaps"
+  | "architecture"
+  | "conflicts"
+  | "integrity"
+  | "tasks"
+  | "chat";
+
+export interface RouteTarget {
+  provider: AIProviderType;
+  /** Overrides the provider's configured model */
+  model?: string;
+}
+
+/**
+ * Providers to use per analysis kind, in order: the first is the primary and
+ * the rest are fallbacks tried when it fails a connection test
+ * Kinds without a route use the active provider
+ */
+export type AnalysisRouting = Partial<Record<AnalysisKind, RouteTarget[]>>;
+
+/**
+ * Model chosen for an analysis
+ */
+export interface ResolvedModel {
+  model: LanguageModel;
+  provider: AIProviderType;
+  modelId: string;
+  structuredOutput: boolean;
+}
+
+/**
+ * Embedding model chosen for chat retrieval
+ */
+export interface ResolvedEmbeddingModel {
+  model: EmbeddingModel;
+  provider: AIProviderType;
+  modelId: string;
+}
+
+/**
+ * Embedding models used when a provider does not set one
+ */
+const DEFAULT_EMBEDDING_MODELS = {
+  openai: "text-embedding-3-small",
+  ollama: "nomic-embed-text",
+};
 
 export interface OpenAIConfig {
   apiKey: string;
@@ -34,6 +96,8 @@ export interface OpenAIConfig {
 export interface OllamaConfig {
   baseURL: string;
   model: string;
+  /** Local model used to embed documents for chat */
+  embeddingModel?: string;
   timeout?: number;
 }
 
@@ -44,6 +108,19 @@ export interface OpenRouterConfig {
   appName?: string;
 }
 
+export interface CustomProfileConfig {
+  /** Omitted when creating a new profile */
+  id?: string;
+  name: string;
+  baseURL: string;
+  model: string;
+  /** Optional; "__EXISTING_KEY__" keeps the stored key */
+  apiKey?: string;
+  headers?: Record<string, string>;
+  /** Whether the server honours JSON schema response formats */
+  structuredOutput?: boolean;
+}
+
 interface StoredOpenAIConfig {
   encryptedApiKey: string;
   model: string;
@@ -54,6 +131,7 @@ interface StoredOpenAIConfig {
 interface StoredOllamaConfig {
   baseURL: string;
   model: string;
+  embeddingModel?: string;
   timeout?: number;
 }
 
@@ -64,11 +142,23 @@ interface StoredOpenRouterConfig {
   appName?: string;
 }
 
+interface StoredCustomProfile {
+  id: string;
+  name: string;
+  baseURL: string;
+  model: string;
+  encryptedApiKey?: string;
+  headers: Record<string, string>;
+  structuredOutput: boolean;
+}
+
 interface AIProviderStore {
   activeProvider: AIProviderType | null;
   openai: StoredOpenAIConfig | null;
   ollama: StoredOllamaConfig | null;
   openrouter: StoredOpenRouterConfig | null;
+  customProfiles: StoredCustomProfile[];
+  routing: AnalysisRouting;
 }
 
 export interface SafeOpenAIConfig {
@@ -80,6 +170,7 @@ export interface SafeOpenAIConfig {
 export interface SafeOllamaConfig {
   baseURL: string;
   model: string;
+  embeddingModel: string;
   isRunning: boolean;
 }
 
@@ -90,11 +181,23 @@ export interface SafeOpenRouterConfig {
   appName?: string;
 }
 
+export interface SafeCustomProfile {
+  id: string;
+  name: string;
+  baseURL: string;
+  model: string;
+  hasApiKey: boolean;
+  headers: Record<string, string>;
+  structuredOutput: boolean;
+}
+
 export interface AIProviderConfigResponse {
   activeProvider: AIProviderType | null;
   openai?: SafeOpenAIConfig;
   ollama?: SafeOllamaConfig;
   openrouter?: SafeOpenRouterConfig;
+  customProfiles: SafeCustomProfile[];
+  routing: AnalysisRouting;
 }
 
 export interface TestConnectionResult {
@@ -104,6 +207,14 @@ export interface TestConnectionResult {
   error?: string;
 }
 
+/**
+ * Signal that aborts after a timeout, or earlier with the caller's signal
+ */
+function withTimeout(ms: number, signal?: AbortSignal): AbortSignal {
+  const timeout = AbortSignal.timeout(ms);
+  return signal ? AbortSignal.any([timeout, signal]) : timeout;
+}
+
 // ============================================================================
 // AI Provider Service Class
 // ============================================================================
@@ -113,6 +224,8 @@ class AIProviderService {
   private openaiProvider: ReturnType<typeof createOpenAI> | null = null;
   private ollamaProvider: OllamaProvider | null = null;
   private openrouterProvider: OpenRouterProvider | null = null;
+  // Until when each provider counts as available without a new test
+  private availableUntil = new Map<AIProviderType, number>();
 
   constructor() {
     this.store = new Store<AIProviderStore>({
@@ -122,8 +235,13 @@ class AIProviderService {
         openai: null,
         ollama: null,
         openrouter: null,
+        customProfiles: [],
+        routing: {},
       },
     });
+
+    // A changed key, URL or profile may break a provider that passed
+    this.store.onDidAnyChange(() => this.availableUntil.clear());
   }
 
   // ========================================
@@ -178,6 +296,7 @@ class AIProviderService {
     const storedConfig: StoredOllamaConfig = {
       baseURL: config.baseURL,
       model: config.model,
+      embeddingModel: config.embeddingModel,
       timeout: config.timeout,
     };
 
@@ -233,6 +352,126 @@ class AIProviderService {
     }
   }
 
+  /**
+   * Create or update a custom OpenAI-compatible endpoint profile
+   * Returns the profile ID
+   */
+  async saveCustomProfile(config: CustomProfileConfig): Promise<string> {
+    const profiles = this.store.get("customProfiles");
+    const existing = config.id
+      ? profiles.find((p) => p.id === config.id)
+      : undefined;
+
+    if (config.id && !existing) {
+      throw new Error(`Custom profile ${config.id} not found`);
+    }
+
+    const name = config.name.trim();
+    const baseURL = config.baseURL.trim().replace(/\/+$/, "");
+    if (!name || !baseURL || !config.model.trim()) {
+      throw new Error("Name, base URL and model are required");
+    }
+    if (
+      profiles.some((p) => p.id !== existing?.id && p.name === name)
+    ) {
+      throw new Error(`A custom profile named "${name}" already exists`);
+    }
+
+    // Handle API key - preserve existing if not changed, none if left empty
+    let encryptedApiKey: string | undefined;
+    if (config.apiKey === "__EXISTING_KEY__") {
+      if (!existing?.encryptedApiKey) {
+        throw new Error("No existing API key found");
+      }
+      encryptedApiKey = existing.encryptedApiKey;
+    } else if (config.apiKey) {
+      encryptedApiKey = encryptApiKey(config.apiKey).encrypted;
+    }
+
+    const storedProfile: StoredCustomProfile = {
+      id: existing?.id ?? randomUUID(),
+      name,
+      baseURL,
+      model: config.model.trim(),
+      encryptedApiKey,
+      headers: config.headers ?? {},
+      structuredOutput: config.structuredOutput ?? false,
+    };
+
+    this.store.set(
+      "customProfiles",
+      existing
+        ? profiles.map((p) => (p.id === existing.id ? storedProfile : p))
+        : [...profiles, storedProfile],
+    );
+
+    // Set as active if no provider is active
+    if (!this.store.get("activeProvider")) {
+      this.store.set(
+        "activeProvider",
+        `${CUSTOM_PROVIDER_PREFIX}${storedProfile.id}`,
+      );
+    }
+
+    return storedProfile.id;
+  }
+
+  /**
+   * Delete a custom endpoint profile
+   * Deactivates it first if it is the active provider
+   */
+  deleteCustomProfile(profileId: string): void {
+    const profiles = this.store.get("customProfiles");
+    if (!profiles.some((p) => p.id === profileId)) {
+      throw new Error(`Custom profile ${profileId} not found`);
+    }
+
+    if (
+      this.store.get("activeProvider") ===
+        `${CUSTOM_PROVIDER_PREFIX}${profileId}`
+    ) {
+      this.store.set("activeProvider", null);
+    }
+
+    this.store.set(
+      "customProfiles",
+      profiles.filter((p) => p.id !== profileId),
+    );
+
+    // Drop routes to the deleted profile
+    const provider = `${CUSTOM_PROVIDER_PREFIX}${profileId}`;
+    const routing = this.store.get("routing");
+    for (const kind of Object.keys(routing) as AnalysisKind[]) {
+      routing[kind] = routing[kind]?.filter((t) => t.provider !== provider);
+    }
+    this.setRouting(routing);
+  }
+
+  /**
+   * Replace the per-analysis routing rules
+   * Kinds with an empty chain fall back to the active provider
+   */
+  setRouting(routing: AnalysisRouting): void {
+    const cleaned: AnalysisRouting = {};
+
+    for (const [kind, targets] of Object.entries(routing)) {
+      if (!targets || targets.length === 0) continue;
+
+      for (const target of targets) {
+        if (!this.isConfigured(target.provider)) {
+          throw new Error(`Provider ${target.provider} is not configured`);
+        }
+      }
+
+      cleaned[kind as AnalysisKind] = targets.map((target) => ({
+        provider: target.provider,
+        model: target.model?.trim() || undefined,
+      }));
+    }
+
+    this.store.set("routing", cleaned);
+  }
+
   /**
    * Get current configuration (safe for renderer - no API keys)
    */
@@ -243,6 +482,16 @@ class AIProviderService {
 
     const response: AIProviderConfigResponse = {
       activeProvider,
+      routing: this.store.get("routing"),
+      customProfiles: this.store.get("customProfiles").map((profile) => ({
+        id: profile.id,
+        name: profile.name,
+        baseURL: profile.baseURL,
+        model: profile.model,
+        hasApiKey: !!profile.encryptedApiKey,
+        headers: profile.headers,
+        structuredOutput: profile.structuredOutput,
+      })),
     };
 
     if (openaiConfig) {
@@ -266,6 +515,8 @@ class AIProviderService {
       response.ollama = {
         baseURL: ollamaConfig.baseURL,
         model: ollamaConfig.model,
+        embeddingModel: ollamaConfig.embeddingModel ||
+          DEFAULT_EMBEDDING_MODELS.ollama,
         isRunning,
       };
     }
@@ -288,13 +539,7 @@ class AIProviderService {
    */
   async switchProvider(provider: AIProviderType): Promise<void> {
     // Verify provider is configured
-    const config = provider === "openai"
-      ? this.store.get("openai")
-      : provider === "ollama"
-      ? this.store.get("ollama")
-      : this.store.get("openrouter");
-
-    if (!config) {
+    if (!this.isConfigured(provider)) {
       throw new Error(`Provider ${provider} is not configured`);
     }
 
@@ -325,19 +570,180 @@ class AIProviderService {
       );
     }
 
-    if (activeProvider === "openai") {
-      return this.getOpenAIModel();
-    } else if (activeProvider === "ollama") {
-      return this.getOllamaModel();
+    return this.getModel(activeProvider);
+  }
+
+  /**
+   * Get the model for an analysis kind following its routing rule
+   * Each target of the chain is connection-tested in order and the first
+   * available one is used; a passed test is trusted for a minute. Without a
+   * rule the active provider is used as is
+   * Aborting `signal` stops the connection tests
+   */
+  async resolveModel(
+    kind: AnalysisKind,
+    signal?: AbortSignal,
+  ): Promise<ResolvedModel> {
+    const targets = this.store.get("routing")[kind];
+
+    if (!targets || targets.length === 0) {
+      const activeProvider = this.store.get("activeProvider");
+      if (!activeProvider) {
+        throw new Error(
+          "No AI provider configured. Please configure OpenAI or Ollama in settings.",
+        );
+      }
+      return this.resolveTarget({ provider: activeProvider });
+    }
+
+    const failures: string[] = [];
+    for (const target of targets) {
+      if ((this.availableUntil.get(target.provider) ?? 0) > Date.now()) {
+        return this.resolveTarget(target);
+      }
+
+      const result = await this.testConnection(target.provider, signal);
+      signal?.throwIfAborted();
+      if (result.available) {
+        this.availableUntil.set(
+          target.provider,
+          Date.now() + CONNECTION_CHECK_TTL,
+        );
+        return this.resolveTarget(target);
+      }
+      failures.push(`${target.provider}: ${result.error ?? "unavailable"}`);
+    }
+
+    throw new Error(
+      `No provider available for ${kind} analysis (${failures.join("; ")})`,
+    );
+  }
+
+  /**
+   * Provider and model pairs an analysis kind may run on, without testing
+   * connections: its routing chain, or the active provider
+   */
+  getRouteCandidates(
+    kind: AnalysisKind,
+  ): Array<{ provider: AIProviderType; model: string }> {
+    const activeProvider = this.store.get("activeProvider");
+    const targets = this.store.get("routing")[kind] ??
+      (activeProvider ? [{ provider: activeProvider }] : []);
+
+    return targets.flatMap((target) => {
+      try {
+        return [{
+          provider: target.provider,
+          model: target.model || this.getConfiguredModelId(target.provider),
+        }];
+      } catch {
+        return [];
+      }
+    });
+  }
+
+  /**
+   * Whether a provider can constrain output to a JSON schema
+   * OpenRouter depends on the routed model, so its output is only validated;
+   * custom endpoints declare support in their profile
+   */
+  supportsStructuredOutput(
+    provider: AIProviderType | null = this.store.get("activeProvider"),
+  ): boolean {
+    const customProfileId = this.getCustomProfileId(provider);
+    if (customProfileId) {
+      return this.findCustomProfile(customProfileId)?.structuredOutput ??
+        false;
+    }
+    return provider === "openai" || provider === "ollama";
+  }
+
+  private resolveTarget(target: RouteTarget): ResolvedModel {
+    const modelId = target.model || this.getConfiguredModelId(target.provider);
+    return {
+      model: this.getModel(target.provider, modelId),
+      provider: target.provider,
+      modelId,
+      structuredOutput: this.supportsStructuredOutput(target.provider),
+    };
+  }
+
+  /**
+   * Get a provider's language model, using its configured model by default
+   */
+  private getModel(provider: AIProviderType, modelId?: string): LanguageModel {
+    const customProfileId = this.getCustomProfileId(provider);
+    if (customProfileId) {
+      return this.getCustomModel(customProfileId, modelId);
+    } else if (provider === "openai") {
+      return this.getOpenAIModel(modelId);
+    } else if (provider === "ollama") {
+      return this.getOllamaModel(modelId);
     } else {
-      return this.getOpenRouterModel();
+      return this.getOpenRouterModel(modelId);
     }
   }
 
+  /**
+   * Embedding model of a provider, or null when it has none
+   * OpenRouter and custom endpoints do not serve embeddings, so retrieval
+   * falls back to keyword ranking on them
+   */
+  getEmbeddingModel(provider: AIProviderType): ResolvedEmbeddingModel | null {
+    if (provider === "openai") {
+      const config = this.store.get("openai");
+      if (!config) return null;
+      if (!this.openaiProvider) {
+        this.initializeOpenAI(decryptApiKey(config.encryptedApiKey), config);
+      }
+      const modelId = DEFAULT_EMBEDDING_MODELS.openai;
+      return {
+        model: this.openaiProvider!.embedding(modelId),
+        provider,
+        modelId,
+      };
+    }
+
+    if (provider === "ollama") {
+      const config = this.store.get("ollama");
+      if (!config) return null;
+      if (!this.ollamaProvider) {
+        this.initializeOllama(config);
+      }
+      const modelId = config.embeddingModel || DEFAULT_EMBEDDING_MODELS.ollama;
+      return {
+        model: this.ollamaProvider!.getEmbeddingModel(modelId),
+        provider,
+        modelId,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Model ID configured for a provider
+   */
+  private getConfiguredModelId(provider: AIProviderType): string {
+    const customProfileId = this.getCustomProfileId(provider);
+    const config = customProfileId
+      ? this.findCustomProfile(customProfileId)
+      : provider === "openai"
+      ? this.store.get("openai")
+      : provider === "ollama"
+      ? this.store.get("ollama")
+      : this.store.get("openrouter");
+
+    if (!config) {
+      throw new Error(`Provider ${provider} is not configured`);
+    }
+    return config.model;
+  }
+
   /**
    * Get OpenAI language model
    */
-  private getOpenAIModel(): LanguageModel {
+  private getOpenAIModel(modelId?: string): LanguageModel {
     const config = this.store.get("openai");
     if (!config) {
       throw new Error("OpenAI is not configured");
@@ -348,13 +754,13 @@ class AIProviderService {
       this.initializeOpenAI(apiKey, config);
     }
 
-    return this.openaiProvider!(config.model);
+    return this.openaiProvider!(modelId || config.model);
   }
 
   /**
    * Get Ollama language model
    */
-  private getOllamaModel(): LanguageModel {
+  private getOllamaModel(modelId?: string): LanguageModel {
     const config = this.store.get("ollama");
     if (!config) {
       throw new Error("Ollama is not configured");
@@ -364,13 +770,13 @@ class AIProviderService {
       this.initializeOllama(config);
     }
 
-    return this.ollamaProvider!.getModel(config.model);
+    return this.ollamaProvider!.getModel(modelId || config.model);
   }
 
   /**
    * Get OpenRouter language model
    */
-  private getOpenRouterModel(): LanguageModel {
+  private getOpenRouterModel(modelId?: string): LanguageModel {
     const config = this.store.get("openrouter");
     if (!config) {
       throw new Error("OpenRouter is not configured");
@@ -381,7 +787,30 @@ class AIProviderService {
       this.initializeOpenRouter(apiKey, config);
     }
 
-    return this.openrouterProvider!.getModel(config.model);
+    return this.openrouterProvider!.getModel(modelId || config.model);
+  }
+
+  /**
+   * Get a custom endpoint's language model
+   * Uses the chat completions API, which OpenAI-compatible servers implement
+   */
+  private getCustomModel(profileId: string, modelId?: string): LanguageModel {
+    const profile = this.findCustomProfile(profileId);
+    if (!profile) {
+      throw new Error("Custom provider profile not found");
+    }
+
+    const provider = createOpenAI({
+      name: profile.name,
+      baseURL: profile.baseURL,
+      // The SDK requires a key; local servers usually ignore it
+      apiKey: profile.encryptedApiKey
+        ? decryptApiKey(profile.encryptedApiKey)
+        : "not-needed",
+      headers: profile.headers,
+    });
+
+    return provider.chat(modelId || profile.model);
   }
 
   // ========================================
@@ -426,20 +855,25 @@ class AIProviderService {
    */
   async testConnection(
     provider: AIProviderType,
+    signal?: AbortSignal,
   ): Promise<TestConnectionResult> {
     const startTime = Date.now();
 
-    if (provider === "openai") {
-      return this.testOpenAIConnection(startTime);
+    const customProfileId = this.getCustomProfileId(provider);
+    if (customProfileId) {
+      return this.testCustomConnection(customProfileId, startTime, signal);
+    } else if (provider === "openai") {
+      return this.testOpenAIConnection(startTime, signal);
     } else if (provider === "ollama") {
-      return this.testOllamaConnection(startTime);
+      return this.testOllamaConnection(startTime, signal);
     } else {
-      return this.testOpenRouterConnection(startTime);
+      return this.testOpenRouterConnection(startTime, signal);
     }
   }
 
   private async testOpenAIConnection(
     startTime: number,
+    signal?: AbortSignal,
   ): Promise<TestConnectionResult> {
     const config = this.store.get("openai");
     if (!config) {
@@ -458,6 +892,7 @@ class AIProviderService {
         headers: {
           "Authorization": `Bearer ${apiKey}`,
         },
+        signal: withTimeout(10000, signal),
       });
 
       const latency = Date.now() - startTime;
@@ -575,13 +1010,14 @@ class AIProviderService {
 
   private async testOllamaConnection(
     startTime: number,
+    signal?: AbortSignal,
   ): Promise<TestConnectionResult> {
     const config = this.store.get("ollama");
     const baseURL = config?.baseURL || "http://localhost:11434";
 
     try {
       const response = await fetch(`${baseURL}/api/tags`, {
-        signal: AbortSignal.timeout(5000),
+        signal: withTimeout(5000, signal),
       });
 
       const latency = Date.now() - startTime;
@@ -613,6 +1049,7 @@ class AIProviderService {
 
   private async testOpenRouterConnection(
     startTime: number,
+    signal?: AbortSignal,
   ): Promise<TestConnectionResult> {
     const config = this.store.get("openrouter");
     if (!config) {
@@ -630,7 +1067,7 @@ class AIProviderService {
         headers: {
           "Authorization": `Bearer ${apiKey}`,
         },
-        signal: AbortSignal.timeout(10000),
+        signal: withTimeout(10000, signal),
       });
 
       const latency = Date.now() - startTime;
@@ -662,6 +1099,62 @@ class AIProviderService {
     }
   }
 
+  private async testCustomConnection(
+    profileId: string,
+    startTime: number,
+    signal?: AbortSignal,
+  ): Promise<TestConnectionResult> {
+    const profile = this.findCustomProfile(profileId);
+    if (!profile) {
+      return {
+        available: false,
+        latency: 0,
+        error: "Custom provider profile not found",
+      };
+    }
+
+    try {
+      const headers: Record<string, string> = { ...profile.headers };
+      if (profile.encryptedApiKey) {
+        headers["Authorization"] = `Bearer ${
+          decryptApiKey(profile.encryptedApiKey)
+        }`;
+      }
+
+      const response = await fetch(`${profile.baseURL}/models`, {
+        headers,
+        signal: withTimeout(10000, signal),
+      });
+
+      const latency = Date.now() - startTime;
+
+      if (!response.ok) {
+        return {
+          available: false,
+          latency,
+          error: response.status === 401
+            ? "Invalid API key"
+            : `API error: ${response.status}`,
+        };
+      }
+
+      const data = (await response.json()) as { data?: { id: string }[] };
+      const models = data.data?.map((m: { id: string }) => m.id) || [];
+
+      return {
+        available: true,
+        latency,
+        models,
+      };
+    } catch (error) {
+      return {
+        available: false,
+        latency: Date.now() - startTime,
+        error: error instanceof Error ? error.message : "Connection failed",
+      };
+    }
+  }
+
   // ========================================
   // Utility Methods
   // ========================================
@@ -687,6 +1180,29 @@ class AIProviderService {
     this.store.clear();
     this.openaiProvider = null;
     this.ollamaProvider = null;
+    this.openrouterProvider = null;
+  }
+
+  /**
+   * Profile ID of a "custom:<profileId>" provider, or null for built-ins
+   */
+  private getCustomProfileId(provider: AIProviderType | null): string | null {
+    return provider?.startsWith(CUSTOM_PROVIDER_PREFIX)
+      ? provider.slice(CUSTOM_PROVIDER_PREFIX.length)
+      : null;
+  }
+
+  private isConfigured(provider: AIProviderType): boolean {
+    const customProfileId = this.getCustomProfileId(provider);
+    if (customProfileId) {
+      return !!this.findCustomProfile(customProfileId);
+    }
+    return !!this.store.get(provider as BuiltInProviderType);
+  }
+
+  private findCustomProfile(profileId: string): StoredCustomProfile | null {
+    return this.store.get("customProfiles").find((p) => p.id === profileId) ??
+      null;
   }
 }
 
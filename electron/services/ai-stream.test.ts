@@ -0,0 +1,30 @@
+import type { LanguageModel } from "ai";
+import { describe, expect, it } from "vitest";
+import { AnalysisCancelledError, aiStreamService } from "./ai-stream";
+
+// Never called: a cancelled request must not reach the model
+const model = {} as LanguageModel;
+
+describe("aiStreamService", () => {
+  it("cancels an opened request before it streams", async () => {
+    const signal = aiStreamService.open("early");
+    expect(aiStreamService.cancel("early")).toBe(true);
+    expect(signal.aborted).toBe(true);
+
+    await expect(aiStreamService.streamCompletion({
+      requestId: "early",
+      model,
+      prompt: "Summarize",
+      temperature: 0,
+    })).rejects.toBeInstanceOf(AnalysisCancelledError);
+
+    // The request stays registered until whoever opened it closes it
+    expect(aiStreamService.isActive("early")).toBe(true);
+    aiStreamService.close("early");
+    expect(aiStreamService.isActive("early")).toBe(false);
+  });
+
+  it("reports unknown requests as not cancelled", () => {
+    expect(aiStreamService.cancel("missing")).toBe(false);
+  });
+});
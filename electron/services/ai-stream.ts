@@ -0,0 +1,194 @@
+/**
+ * AI Stream Service
+ * Runs streamed completions that report partial output as it arrives and can
+ * be cancelled by request ID
+ */
+
+import {
+  Output,
+  parsePartialJson,
+  streamText,
+  type LanguageModel,
+} from "ai";
+import type { z } from "zod";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface StreamUpdate {
+  /** Text received since the previous update */
+  delta: string;
+  /** Best-effort parse of the JSON received so far */
+  partial: unknown;
+}
+
+export interface StreamOptions {
+  /** Request ID chosen by the caller, used to cancel the stream */
+  requestId?: string;
+  /** Aborts when the request is cancelled, for the steps before streaming */
+  signal?: AbortSignal;
+  onUpdate?: (update: StreamUpdate) => void;
+}
+
+export interface StreamCompletionParams {
+  requestId: string;
+  model: LanguageModel;
+  prompt: string;
+  temperature: number;
+  /** Constrain the output to this schema using the provider's structured mode */
+  schema?: z.ZodType;
+  onUpdate?: (update: StreamUpdate) => void;
+}
+
+export interface StreamCompletionResult {
+  text: string;
+  usage?: {
+    inputTokens?: number;
+    outputTokens?: number;
+    totalTokens?: number;
+  };
+}
+
+/**
+ * Thrown when a streamed completion is cancelled before it finishes
+ */
+export class AnalysisCancelledError extends Error {
+  constructor(requestId: string) {
+    super(`Analysis ${requestId} was cancelled`);
+    this.name = "AnalysisCancelledError";
+  }
+}
+
+// ============================================================================
+// AI Stream Service Class
+// ============================================================================
+
+class AIStreamService {
+  private controllers = new Map<string, AbortController>();
+
+  /**
+   * Stream a completion, reporting each chunk until the model finishes
+   * Resolves with the full text, or rejects with AnalysisCancelledError
+   */
+  async streamCompletion(
+    params: StreamCompletionParams,
+  ): Promise<StreamCompletionResult> {
+    const { requestId, model, prompt, temperature, schema, onUpdate } = params;
+
+    // Requests opened beforehand keep their controller across attempts
+    const opened = this.controllers.get(requestId);
+    const controller = opened ?? new AbortController();
+    if (!opened) this.controllers.set(requestId, controller);
+
+    try {
+      if (controller.signal.aborted) {
+        throw new AnalysisCancelledError(requestId);
+      }
+
+      const result = streamText({
+        model,
+        prompt,
+        temperature,
+        abortSignal: controller.signal,
+        ...(schema && {
+          output: Output.object({ schema }),
+          // Strict mode would reject optional properties; the caller
+          // validates the response against the schema anyway
+          providerOptions: { openai: { strictJsonSchema: false } },
+        }),
+      });
+
+      let text = "";
+      let usage: StreamCompletionResult["usage"];
+
+      for await (const part of result.fullStream) {
+        switch (part.type) {
+          case "text-delta":
+            text += part.text;
+            if (onUpdate) {
+              onUpdate({
+                delta: part.text,
+                partial: await this.parsePartial(text),
+              });
+            }
+            break;
+          case "finish":
+            usage = part.totalUsage;
+            break;
+          case "abort":
+            throw new AnalysisCancelledError(requestId);
+          case "error":
+            throw part.error;
+        }
+      }
+
+      if (controller.signal.aborted) {
+        throw new AnalysisCancelledError(requestId);
+      }
+
+      return { text, usage };
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new AnalysisCancelledError(requestId);
+      }
+      throw error;
+    } finally {
+      if (!opened) this.controllers.delete(requestId);
+    }
+  }
+
+  /**
+   * Make a request cancellable from the moment it arrives, while its model
+   * is resolved and its inputs prepared, until close() is called
+   * Returns the signal that aborts when the request is cancelled
+   */
+  open(requestId: string): AbortSignal {
+    const controller = new AbortController();
+    this.controllers.set(requestId, controller);
+    return controller.signal;
+  }
+
+  /**
+   * Forget a request opened with open() once it has finished
+   */
+  close(requestId: string): void {
+    this.controllers.delete(requestId);
+  }
+
+  /**
+   * Cancel a running stream or opened request
+   * Returns false if no request with this ID is running
+   */
+  cancel(requestId: string): boolean {
+    const controller = this.controllers.get(requestId);
+    if (!controller) return false;
+
+    controller.abort();
+    return true;
+  }
+
+  /**
+   * Check whether a stream is still running
+   */
+  isActive(requestId: string): boolean {
+    return this.controllers.has(requestId);
+  }
+
+  /**
+   * Parse the JSON object in an incomplete response, skipping any text or
+   * markdown code fence around it
+   */
+  private async parsePartial(text: string): Promise<unknown> {
+    const start = text.indexOf("{");
+    if (start === -1) return undefined;
+
+    const json = text.slice(start).split("```")[0];
+    const { value } = await parsePartialJson(json);
+    return value ?? undefined;
+  }
+}
+
+// Export singleton instance
+export const aiStreamService = new AIStreamService();
+export default aiStreamService;
@@ -0,0 +1,77 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  fingerprintInputs,
+  hashDocuments,
+  hashInputs,
+  inputsChanged,
+} from "./analysis-inputs";
+
+const spec = { filePath: "/p/specs/001/spec.md", content: "# Spec" };
+const plan = { filePath: "/p/specs/001/plan.md", content: "# Plan" };
+
+describe("hashDocuments", () => {
+  it("does not depend on the order of the documents", () => {
+    expect(hashDocuments([spec, plan])).toBe(hashDocuments([plan, spec]));
+  });
+
+  it("changes with the content and the file names", () => {
+    const base = hashDocuments([spec, plan]);
+    expect(hashDocuments([spec, { ...plan, content: "# Plan v2" }])).not.toBe(base);
+    expect(hashDocuments([spec, { ...plan, filePath: "/p/specs/001/tasks.md" }]))
+      .not.toBe(base);
+  });
+
+  it("hashes a missing file as empty and unlike a present one", () => {
+    const missing = { ...plan, content: null };
+    expect(hashDocuments([spec, missing])).toBe(
+      hashDocuments([spec, { ...plan, content: "" }]),
+    );
+    expect(hashDocuments([spec, missing])).not.toBe(hashDocuments([spec, plan]));
+  });
+});
+
+describe("inputsChanged", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "analysis-inputs-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("detects edited, deleted and restored files", () => {
+    const specPath = path.join(dir, "spec.md");
+    const planPath = path.join(dir, "plan.md");
+    fs.writeFileSync(specPath, "# Spec");
+    fs.writeFileSync(planPath, "# Plan");
+
+    const { inputFiles, inputHash } = fingerprintInputs(
+      [
+        { filePath: specPath, content: "# Spec" },
+        { filePath: planPath, content: "# Plan" },
+      ],
+      "v1",
+    );
+    expect(inputFiles).toEqual([planPath, specPath]);
+    expect(inputsChanged(inputFiles, inputHash)).toBe(false);
+
+    fs.writeFileSync(planPath, "# Plan v2");
+    expect(inputsChanged(inputFiles, inputHash)).toBe(true);
+
+    fs.rmSync(planPath);
+    expect(hashInputs(inputFiles)).toBe(
+      hashDocuments([
+        { filePath: specPath, content: "# Spec" },
+        { filePath: planPath, content: null },
+      ]),
+    );
+
+    fs.writeFileSync(planPath, "# Plan");
+    expect(inputsChanged(inputFiles, inputHash)).toBe(false);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Analysis Inputs
+ * Fingerprints of the documents and prompt an analysis was generated from,
+ * so results are only reused while their inputs are unchanged
+ */
+
+import fs from "fs";
+import path from "path";
+import { hashContent } from "./task-writer";
+
+export interface AnalysisFingerprint {
+  inputFiles: string[];
+  /** Hash of the input files' names and content */
+  inputHash: string;
+  /** Version of the prompt template, see prompt-registry.ts */
+  promptVersion: string;
+}
+
+export interface InputDocument {
+  filePath: string;
+  /** null when the file is missing */
+  content: string | null;
+}
+
+/**
+ * Hash the names and content of a set of documents
+ * Order-independent; missing files hash as empty so their return is detected
+ */
+export function hashDocuments(documents: InputDocument[]): string {
+  const parts = documents
+    .map((doc) => `${path.basename(doc.filePath)}\n${doc.content ?? ""}`)
+    .sort();
+  return hashContent(parts.join("\n\0\n"));
+}
+
+/**
+ * Hash the current content of a set of files
+ */
+export function hashInputs(files: string[]): string {
+  return hashDocuments(files.map((filePath) => {
+    try {
+      return { filePath, content: fs.readFileSync(filePath, "utf-8") };
+    } catch {
+      return { filePath, content: null };
+    }
+  }));
+}
+
+/**
+ * Fingerprint the documents an analysis is about to read
+ */
+export function fingerprintInputs(
+  documents: InputDocument[],
+  promptVersion: string,
+): AnalysisFingerprint {
+  return {
+    inputFiles: documents.map((doc) => doc.filePath).sort(),
+    inputHash: hashDocuments(documents),
+    promptVersion,
+  };
+}
+
+/**
+ * Whether any input changed since the fingerprint was taken
+ */
+export function inputsChanged(inputFiles: string[], inputHash: string): boolean {
+  return hashInputs(inputFiles) !== inputHash;
+}
+
+export default {
+  hashDocuments,
+  hashInputs,
+  fingerprintInputs,
+  inputsChanged,
+};
@@ -0,0 +1,162 @@
+/**
+ * Analysis Schemas
+ * Zod schemas for the JSON the model must return for each analysis type
+ * Request metadata (requestId, duration, tokenCount) is added by the services
+ */
+
+import { z } from "zod";
+
+// ============================================================================
+// Summary
+// ============================================================================
+
+export const summaryOutputSchema = z.object({
+  summary: z.string().min(1),
+  keyPoints: z.array(z.string()),
+  wordCount: z.number().int().nonnegative(),
+});
+
+// ============================================================================
+// Consistency
+// ============================================================================
+
+export const discrepancySchema = z.object({
+  type: z.enum(["missing", "mismatch", "extra"]),
+  file1: z.string(),
+  file2: z.string(),
+  section: z.string(),
+  description: z.string(),
+  severity: z.enum(["high", "medium", "low"]),
+});
+
+export const consistencyOutputSchema = z.object({
+  discrepancies: z.array(discrepancySchema),
+  overallConsistency: z.number().min(0).max(100),
+});
+
+// ============================================================================
+// Gaps
+// ============================================================================
+
+export const gapSchema = z.object({
+  section: z.string(),
+  issue: z.string(),
+  suggestion: z.string(),
+  severity: z.enum(["critical", "important", "minor"]),
+});
+
+export const gapOutputSchema = z.object({
+  gaps: z.array(gapSchema),
+  completeness: z.number().min(0).max(100),
+  sectionsAnalyzed: z.array(z.string()),
+});
+
+// ============================================================================
+// Architecture
+// ============================================================================
+
+const componentFields = {
+  id: z.string().min(1),
+  label: z.string().min(1),
+  description: z.string().optional(),
+};
+
+export const architectureOutputSchema = z.object({
+  actors: z.array(z.object({
+    ...componentFields,
+    type: z.enum(["user", "admin", "system_user", "external"]),
+  })).default([]),
+  systems: z.array(z.object({
+    ...componentFields,
+    type: z.enum(["external", "internal", "module", "service"]),
+  })).default([]),
+  processes: z.array(z.object(componentFields)).default([]),
+  dataStores: z.array(z.object({
+    ...componentFields,
+    type: z.enum(["database", "cache", "storage", "queue"]),
+  })).default([]),
+  connections: z.array(z.object({
+    id: z.string().min(1),
+    from: z.string().min(1),
+    to: z.string().min(1),
+    label: z.string().optional(),
+    type: z.enum(["data_flow", "control_flow", "interaction"]).optional(),
+  })).default([]),
+});
+
+// ============================================================================
+// Project Conflicts
+// ============================================================================
+
+export const requirementConflictSchema = z.object({
+  features: z.array(z.string()).min(2),
+  kind: z.enum(["overlap", "conflict"]),
+  topic: z.string(),
+  description: z.string(),
+  suggestion: z.string(),
+  severity: z.enum(["high", "medium", "low"]),
+});
+
+export const conflictsOutputSchema = z.object({
+  conflicts: z.array(requirementConflictSchema),
+});
+
+// ============================================================================
+// Project Integrity
+// ============================================================================
+
+export const duplicateEntitySchema = z.object({
+  entity: z.string(),
+  features: z.array(z.string()).min(2),
+  differences: z.string(),
+  suggestion: z.string(),
+});
+
+export const statusMismatchSchema = z.object({
+  feature: z.string(),
+  status: z.string(),
+  taskCompletion: z.number().min(0).max(100),
+  issue: z.string(),
+  suggestion: z.string(),
+});
+
+export const integrityOutputSchema = z.object({
+  duplicateEntities: z.array(duplicateEntitySchema),
+  statusMismatches: z.array(statusMismatchSchema),
+});
+
+// ============================================================================
+// Tasks Draft
+// ============================================================================
+
+const taskIdSchema = z.string().regex(/^T\d{3}$/, "Task IDs look like T001");
+
+export const draftTaskSchema = z.object({
+  id: taskIdSchema,
+  description: z.string().min(1),
+  parallel: z.boolean().default(false),
+  story: z.string().regex(/^US\d+$/, "Story labels look like US1").nullable()
+    .default(null),
+  filePath: z.string().nullable().default(null),
+  dependsOn: z.array(taskIdSchema).default([]),
+});
+
+export const draftPhaseSchema = z.object({
+  name: z.string().min(1),
+  purpose: z.string().optional(),
+  tasks: z.array(draftTaskSchema).min(1),
+});
+
+export const tasksDraftOutputSchema = z.object({
+  phases: z.array(draftPhaseSchema).min(1),
+});
+
+export default {
+  summaryOutputSchema,
+  consistencyOutputSchema,
+  gapOutputSchema,
+  architectureOutputSchema,
+  conflictsOutputSchema,
+  integrityOutputSchema,
+  tasksDraftOutputSchema,
+};
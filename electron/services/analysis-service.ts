@@ -2,11 +2,52 @@
  * Analysis Service
  * Orchestrates AI-powered analysis of specification documents
  * Supports summary generation, consistency checking, and gap analysis
+ * Responses are streamed so callers can show progress and cancel, and are
+ * validated against the schemas in analysis-schemas.ts
  */
 
-import { generateText } from "ai";
 import { aiProviderService } from "./ai-provider";
-import { databaseService } from "./database";
+import type { StreamOptions } from "./ai-stream";
+import {
+  architectureOutputSchema,
+  conflictsOutputSchema,
+  consistencyOutputSchema,
+  gapOutputSchema,
+  integrityOutputSchema,
+  summaryOutputSchema,
+} from "./analysis-schemas";
+import {
+  type AnalysisFingerprint,
+  fingerprintInputs,
+  type InputDocument,
+  inputsChanged,
+} from "./analysis-inputs";
+import {
+  architectureAnalyzer,
+  formatFeatureDocuments,
+} from "./architecture-analyzer";
+import {
+  type AnalysisModel,
+  databaseService,
+  type DbAnalysisResult,
+} from "./database";
+import {
+  generateStructured,
+  invalidOutputError,
+  type StructuredResult,
+  validationOf,
+} from "./structured-output";
+import { projectAnalysisService } from "./project-analysis-service";
+import {
+  type PromptId,
+  PromptValidationError,
+  renderPrompt,
+  resolvePrompt,
+  validateTemplate,
+} from "./prompt-registry";
+import { tasksDraftSchema } from "./tasks-draft-service";
+import { usageService } from "./usage-service";
+import type { z } from "zod";
 import fs from "fs";
 import path from "path";
 
@@ -58,6 +99,19 @@ export interface ConsistencyResult {
   tokenCount?: number;
 }
 
+export interface PromptTestResult {
+  requestId: string;
+  promptId: PromptId;
+  /** Output matching the analysis schema, null when every attempt failed */
+  output: unknown | null;
+  rawResponse: string;
+  errors: string[];
+  provider: string;
+  model: string;
+  duration: number;
+  tokenCount?: number;
+}
+
 export interface GapResult {
   requestId: string;
   gaps: Gap[];
@@ -67,6 +121,20 @@ export interface GapResult {
   tokenCount?: number;
 }
 
+// Schema each prompt's output is validated against
+const PROMPT_SCHEMAS: Record<PromptId, z.ZodType<unknown>> = {
+  summary: summaryOutputSchema,
+  consistency: consistencyOutputSchema,
+  gaps: gapOutputSchema,
+  architecture: architectureOutputSchema,
+  conflicts: conflictsOutputSchema,
+  integrity: integrityOutputSchema,
+  tasks: tasksDraftSchema,
+};
+
+// Documents a consistency prompt test compares, when present
+const CONSISTENCY_TEST_FILES = ["spec.md", "plan.md", "tasks.md", "data-model.md"];
+
 // ============================================================================
 // In-Memory Cache
 // ============================================================================
@@ -112,89 +180,6 @@ class AnalysisCache {
   }
 }
 
-// ============================================================================
-// Prompt Templates
-// ============================================================================
-
-const SUMMARY_PROMPT =
-  `You are analyzing a software specification document. Generate a concise summary that captures the key requirements and objectives.
-
-Document content:
----
-{content}
----
-
-Respond with a JSON object in this exact format:
-{
-  "summary": "A 2-3 paragraph summary of the document's main purpose and requirements",
-  "keyPoints": ["Key point 1", "Key point 2", "Key point 3", "Key point 4", "Key point 5"],
-  "wordCount": <number of words in the original document>
-}
-
-Focus on:
-- The main goal or feature being specified
-- Key user requirements and acceptance criteria
-- Important constraints or dependencies
-- Success metrics if defined`;
-
-const CONSISTENCY_PROMPT =
-  `You are analyzing multiple specification documents for a software feature. Check for consistency and identify any discrepancies between them.
-
-Documents to analyze:
-{documents}
-
-Respond with a JSON object in this exact format:
-{
-  "discrepancies": [
-    {
-      "type": "missing" | "mismatch" | "extra",
-      "file1": "filename1",
-      "file2": "filename2",
-      "section": "Section name where issue was found",
-      "description": "Clear description of the discrepancy",
-      "severity": "high" | "medium" | "low"
-    }
-  ],
-  "overallConsistency": <0-100 percentage score>
-}
-
-Look for:
-- Requirements in spec.md that don't have corresponding tasks
-- Tasks that reference features not in the spec
-- Mismatched terminology or naming
-- Conflicting priorities or status information
-- Missing or incomplete connections between documents`;
-
-const GAP_PROMPT =
-  `You are analyzing a software specification document to identify gaps and areas needing improvement.
-
-Document content:
----
-{content}
----
-
-Respond with a JSON object in this exact format:
-{
-  "gaps": [
-    {
-      "section": "Section name",
-      "issue": "Description of what's missing or unclear",
-      "suggestion": "Recommendation for improvement",
-      "severity": "critical" | "important" | "minor"
-    }
-  ],
-  "completeness": <0-100 percentage score>,
-  "sectionsAnalyzed": ["Section 1", "Section 2", ...]
-}
-
-Look for:
-- Missing acceptance criteria for requirements
-- Unclear or ambiguous requirements
-- Missing edge case handling
-- Incomplete user stories
-- Undefined success metrics
-- Missing dependencies or assumptions`;
-
 // ============================================================================
 // Analysis Service Class
 // ============================================================================
@@ -206,7 +191,6 @@ class AnalysisService {
   // Summary Generation
   // ========================================
 
-  /**
   /**
    * Generate or retrieve a summary of a specification document
    */
@@ -214,23 +198,29 @@ class AnalysisService {
     featureId: number,
     filePath: string,
     force: boolean = false,
+    options: StreamOptions = {},
   ): Promise<SummaryResult> {
-    const cacheKey = `feature:${featureId}:summary:${filePath}`;
+    // Read file content; results are only reused for this exact content
+    const content = this.readFile(filePath);
+    const template = resolvePrompt("summary", featureId);
+    const inputs = fingerprintInputs([{ filePath, content }], template.version);
+    const cacheKey = this.cacheKeyOf(featureId, "summary", inputs, filePath);
 
     // 1. Check in-memory cache if not forced
     if (!force) {
       const cached = this.cache.get<SummaryResult>(cacheKey);
       if (cached) return cached;
 
-      // 2. Check database
-      const latest = databaseService.getLatestAnalysisResult(
+      // 2. Check database for a result of the same content, prompt and model
+      const reusable = this.findReusableResult(
         featureId,
         "summary",
+        inputs,
         filePath,
       );
-      if (latest) {
+      if (reusable) {
         try {
-          const result = JSON.parse(latest.content) as SummaryResult;
+          const result = JSON.parse(reusable.content) as SummaryResult;
           // Refresh cache
           this.cache.set(cacheKey, result);
           return result;
@@ -242,47 +232,52 @@ class AnalysisService {
     }
 
     const startTime = Date.now();
-    const requestId = await generateUUID();
-
-    // Read file content
-    const content = this.readFile(filePath);
+    const requestId = options.requestId ?? await generateUUID();
 
     if (!content) {
       throw new Error(`File not found: ${filePath}`);
     }
 
+    // Refuse to start once a monthly budget is used up
+    usageService.assertWithinBudget(featureId);
+
     // Get AI provider and generate
-    const model = await aiProviderService.getActiveProvider();
-    const prompt = SUMMARY_PROMPT.replace("{content}", content);
+    const route = await aiProviderService.resolveModel(
+      "summary",
+      options.signal,
+    );
+    const producedBy = { provider: route.provider, model: route.modelId };
+    const prompt = renderPrompt(template.template, { content });
 
-    const { text, usage } = await generateText({
-      model,
+    const output = await generateStructured({
+      requestId,
+      model: route.model,
       prompt,
       temperature: 0.3,
+      schema: summaryOutputSchema,
+      structuredOutput: route.structuredOutput,
+      onUpdate: options.onUpdate,
     });
 
-    // Parse response
-    let parsed: { summary: string; keyPoints: string[]; wordCount: number };
-    try {
-      parsed = JSON.parse(this.extractJSON(text));
-    } catch (error) {
-      console.error("JSON parsing of AI response failed", error);
-      // Fallback if JSON parsing fails
-      parsed = {
-        summary: text,
-        keyPoints: [],
-        wordCount: content.split(/\s+/).length,
-      };
-    }
-
     const duration = Date.now() - startTime;
-    const tokenCount = usage?.totalTokens;
+    const tokenCount = output.totalTokens;
+
+    if (!output.object) {
+      throw this.recordInvalidResult(
+        requestId,
+        featureId,
+        "summary",
+        output,
+        duration,
+        producedBy,
+        inputs,
+        filePath,
+      );
+    }
 
     const result: SummaryResult = {
       requestId,
-      summary: parsed.summary,
-      keyPoints: parsed.keyPoints,
-      wordCount: parsed.wordCount,
+      ...output.object,
       duration,
       tokenCount,
     };
@@ -296,6 +291,10 @@ class AnalysisService {
       duration,
       tokenCount,
       filePath,
+      validationOf(output),
+      producedBy,
+      usageService.usageOf(producedBy, output),
+      inputs,
     );
 
     // Cache result
@@ -314,51 +313,86 @@ class AnalysisService {
   async checkConsistency(
     featureId: number,
     files: string[],
+    force: boolean = false,
+    options: StreamOptions = {},
   ): Promise<ConsistencyResult> {
-    const cacheKey = `feature:${featureId}:consistency:${
-      files.sort().join(",")
-    }`;
-    const cached = this.cache.get<ConsistencyResult>(cacheKey);
-    if (cached) return cached;
+    // Read all files
+    const inputDocuments = files.map((filePath) => ({
+      filePath,
+      content: this.readFile(filePath),
+    }));
+    const template = resolvePrompt("consistency", featureId);
+    const inputs = fingerprintInputs(inputDocuments, template.version);
+    const cacheKey = this.cacheKeyOf(featureId, "consistency", inputs);
+
+    if (!force) {
+      const cached = this.cache.get<ConsistencyResult>(cacheKey);
+      if (cached) return cached;
+
+      // Check database for a result of the same files, prompt and model
+      const reusable = this.findReusableResult(
+        featureId,
+        "consistency",
+        inputs,
+      );
+      if (reusable) {
+        try {
+          const result = JSON.parse(reusable.content) as ConsistencyResult;
+          this.cache.set(cacheKey, result);
+          return result;
+        } catch (err) {
+          console.error(
+            "Failed to parse cached consistency check from DB",
+            err,
+          );
+        }
+      }
+    }
 
     const startTime = Date.now();
-    const requestId = await generateUUID();
+    const requestId = options.requestId ?? await generateUUID();
 
-    // Read all files
-    const documents = files.map((filePath) => {
-      const content = this.readFile(filePath);
-      const fileName = path.basename(filePath);
-      return `=== ${fileName} ===\n${content || "(File not found)"}`;
-    }).join("\n\n");
+    const documents = this.formatDocuments(inputDocuments);
+
+    // Refuse to start once a monthly budget is used up
+    usageService.assertWithinBudget(featureId);
 
     // Get AI provider and generate
-    const model = await aiProviderService.getActiveProvider();
-    const prompt = CONSISTENCY_PROMPT.replace("{documents}", documents);
+    const route = await aiProviderService.resolveModel(
+      "consistency",
+      options.signal,
+    );
+    const producedBy = { provider: route.provider, model: route.modelId };
+    const prompt = renderPrompt(template.template, { documents });
 
-    const { text, usage } = await generateText({
-      model,
+    const output = await generateStructured({
+      requestId,
+      model: route.model,
       prompt,
       temperature: 0.2,
+      schema: consistencyOutputSchema,
+      structuredOutput: route.structuredOutput,
+      onUpdate: options.onUpdate,
     });
 
-    // Parse response
-    let parsed: { discrepancies: Discrepancy[]; overallConsistency: number };
-    try {
-      parsed = JSON.parse(this.extractJSON(text));
-    } catch {
-      parsed = {
-        discrepancies: [],
-        overallConsistency: 100,
-      };
-    }
-
     const duration = Date.now() - startTime;
-    const tokenCount = usage?.totalTokens;
+    const tokenCount = output.totalTokens;
+
+    if (!output.object) {
+      throw this.recordInvalidResult(
+        requestId,
+        featureId,
+        "consistency",
+        output,
+        duration,
+        producedBy,
+        inputs,
+      );
+    }
 
     const result: ConsistencyResult = {
       requestId,
-      discrepancies: parsed.discrepancies,
-      overallConsistency: parsed.overallConsistency,
+      ...output.object,
       filesAnalyzed: files.map((f) => path.basename(f)),
       duration,
       tokenCount,
@@ -372,6 +406,11 @@ class AnalysisService {
       JSON.stringify(result),
       duration,
       tokenCount,
+      undefined,
+      validationOf(output),
+      producedBy,
+      usageService.usageOf(producedBy, output),
+      inputs,
     );
 
     // Cache result
@@ -387,54 +426,84 @@ class AnalysisService {
   /**
    * Identify gaps in a specification document
    */
-  async findGaps(featureId: number, filePath: string): Promise<GapResult> {
-    const cacheKey = `feature:${featureId}:gaps:${filePath}`;
-    const cached = this.cache.get<GapResult>(cacheKey);
-    if (cached) return cached;
+  async findGaps(
+    featureId: number,
+    filePath: string,
+    force: boolean = false,
+    options: StreamOptions = {},
+  ): Promise<GapResult> {
+    // Read file content
+    const content = this.readFile(filePath);
+    const template = resolvePrompt("gaps", featureId);
+    const inputs = fingerprintInputs([{ filePath, content }], template.version);
+    const cacheKey = this.cacheKeyOf(featureId, "gaps", inputs, filePath);
+
+    if (!force) {
+      const cached = this.cache.get<GapResult>(cacheKey);
+      if (cached) return cached;
+
+      // Check database for a result of the same content, prompt and model
+      const reusable = this.findReusableResult(
+        featureId,
+        "gaps",
+        inputs,
+        filePath,
+      );
+      if (reusable) {
+        try {
+          const result = JSON.parse(reusable.content) as GapResult;
+          this.cache.set(cacheKey, result);
+          return result;
+        } catch (err) {
+          console.error("Failed to parse cached gap analysis from DB", err);
+        }
+      }
+    }
 
     const startTime = Date.now();
-    const requestId = await generateUUID();
+    const requestId = options.requestId ?? await generateUUID();
 
-    // Read file content
-    const content = this.readFile(filePath);
     if (!content) {
       throw new Error(`File not found: ${filePath}`);
     }
 
+    // Refuse to start once a monthly budget is used up
+    usageService.assertWithinBudget(featureId);
+
     // Get AI provider and generate
-    const model = await aiProviderService.getActiveProvider();
-    const prompt = GAP_PROMPT.replace("{content}", content);
+    const route = await aiProviderService.resolveModel("gaps", options.signal);
+    const producedBy = { provider: route.provider, model: route.modelId };
+    const prompt = renderPrompt(template.template, { content });
 
-    const { text, usage } = await generateText({
-      model,
+    const output = await generateStructured({
+      requestId,
+      model: route.model,
       prompt,
       temperature: 0.3,
+      schema: gapOutputSchema,
+      structuredOutput: route.structuredOutput,
+      onUpdate: options.onUpdate,
     });
 
-    // Parse response
-    let parsed: {
-      gaps: Gap[];
-      completeness: number;
-      sectionsAnalyzed: string[];
-    };
-    try {
-      parsed = JSON.parse(this.extractJSON(text));
-    } catch {
-      parsed = {
-        gaps: [],
-        completeness: 100,
-        sectionsAnalyzed: [],
-      };
-    }
-
     const duration = Date.now() - startTime;
-    const tokenCount = usage?.totalTokens;
+    const tokenCount = output.totalTokens;
+
+    if (!output.object) {
+      throw this.recordInvalidResult(
+        requestId,
+        featureId,
+        "gaps",
+        output,
+        duration,
+        producedBy,
+        inputs,
+        filePath,
+      );
+    }
 
     const result: GapResult = {
       requestId,
-      gaps: parsed.gaps,
-      completeness: parsed.completeness,
-      sectionsAnalyzed: parsed.sectionsAnalyzed,
+      ...output.object,
       duration,
       tokenCount,
     };
@@ -447,6 +516,11 @@ class AnalysisService {
       JSON.stringify(result),
       duration,
       tokenCount,
+      filePath,
+      validationOf(output),
+      producedBy,
+      usageService.usageOf(producedBy, output),
+      inputs,
     );
 
     // Cache result
@@ -455,6 +529,109 @@ class AnalysisService {
     return result;
   }
 
+  // ========================================
+  // Prompt Test Runs
+  // ========================================
+
+  /**
+   * Run a prompt template on a feature without storing or caching the result,
+   * so edits can be tried before they are saved as the project's override
+   * Its usage is recorded all the same
+   */
+  async testPrompt(
+    featureId: number,
+    promptId: PromptId,
+    template: string,
+    options: StreamOptions = {},
+  ): Promise<PromptTestResult> {
+    const errors = validateTemplate(promptId, template);
+    if (errors.length > 0) {
+      throw new PromptValidationError(errors);
+    }
+
+    const feature = databaseService.getFeatureById(featureId);
+    if (!feature) {
+      throw new Error(`Feature with ID ${featureId} not found`);
+    }
+    const featurePath = path.dirname(feature.spec_path);
+
+    // Same inputs the analysis reads when run from the feature's views;
+    // project prompts run on the first chunk of the feature's project
+    const values: Record<string, string> = {};
+    if (promptId === "conflicts" || promptId === "integrity") {
+      values.features = projectAnalysisService.buildChunks(
+        feature.project_id,
+        promptId,
+      )[0];
+    } else if (promptId === "tasks") {
+      values.spec = this.readFile(feature.spec_path) ?? "";
+      values.plan = this.readFile(path.join(featurePath, "plan.md")) ?? "";
+    } else if (promptId === "architecture") {
+      values.documents = formatFeatureDocuments(
+        await architectureAnalyzer.readFeatureDocuments(featurePath),
+      );
+    } else if (promptId === "consistency") {
+      values.documents = this.formatDocuments(
+        CONSISTENCY_TEST_FILES
+          .map((fileName) => path.join(featurePath, fileName))
+          .filter((filePath) => fs.existsSync(filePath))
+          .map((filePath) => ({ filePath, content: this.readFile(filePath) })),
+      );
+    } else {
+      const content = this.readFile(feature.spec_path);
+      if (!content) {
+        throw new Error(`File not found: ${feature.spec_path}`);
+      }
+      values.content = content;
+    }
+
+    const startTime = Date.now();
+    const requestId = options.requestId ?? await generateUUID();
+
+    // Refuse to start once a monthly budget is used up
+    usageService.assertWithinBudget(featureId);
+
+    const route = await aiProviderService.resolveModel(
+      promptId,
+      options.signal,
+    );
+    const output = await generateStructured<unknown>({
+      requestId,
+      model: route.model,
+      prompt: renderPrompt(template, values),
+      temperature: 0.3,
+      schema: PROMPT_SCHEMAS[promptId],
+      structuredOutput: route.structuredOutput,
+      onUpdate: options.onUpdate,
+    });
+    const duration = Date.now() - startTime;
+
+    // Test runs are paid for like any other analysis
+    const producedBy = { provider: route.provider, model: route.modelId };
+    databaseService.recordPromptTest(
+      requestId,
+      featureId,
+      promptId,
+      validationOf(output),
+      duration,
+      producedBy,
+      usageService.usageOf(producedBy, output),
+      output.totalTokens,
+    );
+
+    return {
+      requestId,
+      promptId,
+      output: output.object,
+      rawResponse: output.text,
+      errors: output.errors,
+      provider: route.provider,
+      model: route.modelId,
+      duration,
+      tokenCount: output.totalTokens,
+    };
+  }
+
   // ========================================
   // History & Result Retrieval
   // ========================================
@@ -464,7 +641,7 @@ class AnalysisService {
    */
   getAnalysisHistory(
     featureId: number,
-    analysisType?: AnalysisType,
+    analysisType?: AnalysisType | "architecture",
     limit: number = 10,
   ): Array<{
     id: number;
@@ -473,6 +650,11 @@ class AnalysisService {
     createdAt: number;
     duration: number;
     tokenCount: number | null;
+    validationStatus: "valid" | "repaired" | "invalid";
+    provider: string | null;
+    model: string | null;
+    /** An input document changed since the analysis ran */
+    stale: boolean;
     preview: string;
   }> {
     const results = databaseService.getAnalysisResultsByFeature(
@@ -486,7 +668,10 @@ class AnalysisService {
       let preview = "";
       try {
         const content = JSON.parse(r.content);
-        if (content.summary) {
+        if (r.validation_status === "invalid") {
+          const errors: string[] = JSON.parse(r.validation_errors ?? "[]");
+          preview = `Invalid response: ${errors[errors.length - 1] ?? "unknown error"}`;
+        } else if (content.summary) {
           preview = content.summary.substring(0, 200);
         } else if (content.discrepancies) {
           preview = `${content.discrepancies.length} discrepancies found`;
@@ -504,6 +689,12 @@ class AnalysisService {
         createdAt: r.created_at,
         duration: r.duration,
         tokenCount: r.token_count,
+        validationStatus: r.validation_status,
+        provider: r.provider,
+        model: r.model,
+        stale: r.input_files && r.input_hash
+          ? inputsChanged(JSON.parse(r.input_files), r.input_hash)
+          : false,
         preview: preview + (preview.length >= 200 ? "..." : ""),
       };
     });
@@ -545,22 +736,83 @@ class AnalysisService {
   }
 
   /**
-   * Extract JSON from text that may contain markdown code blocks
+   * Join documents into the {documents} variable of the consistency prompt
    */
-  private extractJSON(text: string): string {
-    // Try to find JSON in markdown code blocks
-    const jsonMatch = text.match(/```(?:json)?\s*([\s\S]*?)```/);
-    if (jsonMatch) {
-      return jsonMatch[1].trim();
-    }
+  private formatDocuments(documents: InputDocument[]): string {
+    return documents.map(({ filePath, content }) => {
+      const fileName = path.basename(filePath);
+      return `=== ${fileName} ===\n${content || "(File not found)"}`;
+    }).join("\n\n");
+  }
 
-    // Try to find raw JSON object
-    const objectMatch = text.match(/\{[\s\S]*\}/);
-    if (objectMatch) {
-      return objectMatch[0];
-    }
+  /**
+   * Store a response that never matched its schema, keeping the raw text for
+   * inspection, and return the error to report
+   */
+  private recordInvalidResult(
+    requestId: string,
+    featureId: number,
+    analysisType: AnalysisType,
+    output: StructuredResult<unknown>,
+    duration: number,
+    producedBy: AnalysisModel,
+    inputs: AnalysisFingerprint,
+    filePath?: string,
+  ): Error {
+    databaseService.createAnalysisResult(
+      requestId,
+      featureId,
+      analysisType,
+      JSON.stringify({ rawResponse: output.text }),
+      duration,
+      output.totalTokens,
+      filePath,
+      validationOf(output),
+      producedBy,
+      usageService.usageOf(producedBy, output),
+      inputs,
+    );
+    return invalidOutputError(output);
+  }
 
-    return text;
+  /**
+   * Newest stored result generated from the same inputs and prompt by a
+   * model this analysis kind may currently run on
+   */
+  private findReusableResult(
+    featureId: number,
+    analysisType: AnalysisType,
+    inputs: AnalysisFingerprint,
+    filePath?: string,
+  ): DbAnalysisResult | null {
+    const candidates = aiProviderService.getRouteCandidates(analysisType);
+    const results = databaseService.getReusableAnalysisResults(
+      featureId,
+      analysisType,
+      inputs.inputHash,
+      inputs.promptVersion,
+      filePath,
+    );
+
+    return results.find((r) =>
+      candidates.some((c) => c.provider === r.provider && c.model === r.model)
+    ) ?? null;
+  }
+
+  /**
+   * In-memory cache key of an analysis, covering the models it may run on so
+   * a changed route is not answered from another model's result
+   */
+  private cacheKeyOf(
+    featureId: number,
+    analysisType: AnalysisType,
+    inputs: AnalysisFingerprint,
+    filePath: string = "",
+  ): string {
+    const models = aiProviderService.getRouteCandidates(analysisType)
+      .map((c) => `${c.provider}/${c.model}`)
+      .join(",");
+    return `feature:${featureId}:${analysisType}:${filePath}:${inputs.inputHash}:${inputs.promptVersion}:${models}`;
   }
 
   /**
@@ -4,9 +4,18 @@
  * Supports workflow visualization with actors, systems, processes, and data stores
  */
 
-import { generateText } from "ai";
 import { aiProviderService } from "./ai-provider";
+import { AnalysisCancelledError, type StreamOptions } from "./ai-stream";
+import { fingerprintInputs } from "./analysis-inputs";
+import { architectureOutputSchema } from "./analysis-schemas";
 import { databaseService } from "./database";
+import { renderPrompt, resolvePrompt } from "./prompt-registry";
+import { usageService } from "./usage-service";
+import {
+    generateStructured,
+    invalidOutputError,
+    validationOf,
+} from "./structured-output";
 import fs from "fs";
 import path from "path";
 
@@ -115,73 +124,20 @@ class ArchitectureCache {
 }
 
 // ============================================================================
-// Prompt Template
+// Prompt Documents
 // ============================================================================
 
-const ARCHITECTURE_PROMPT = `You are analyzing software feature documentation to extract architectural workflow information.
-
-Your task is to identify the key architectural components and their interactions:
-- **Actors**: Users, roles, or external entities that interact with the system
-- **Systems**: External systems, modules, services, or components
-- **Processes**: Actions, operations, workflows, or business logic steps
-- **Data Stores**: Databases, caches, storage systems, or data repositories
-- **Connections**: How these components interact (data flow, control flow, interactions)
-
-Documentation files:
-{documents}
-
-Respond with a JSON object in this exact format:
-{
-  "actors": [
-    {
-      "id": "unique_id",
-      "label": "Actor Name",
-      "type": "user" | "admin" | "system_user" | "external",
-      "description": "Optional description"
-    }
-  ],
-  "systems": [
-    {
-      "id": "unique_id",
-      "label": "System/Module Name",
-      "type": "external" | "internal" | "module" | "service",
-      "description": "Optional description"
-    }
-  ],
-  "processes": [
-    {
-      "id": "unique_id",
-      "label": "Process/Action Name",
-      "description": "Optional description of what this process does"
-    }
-  ],
-  "dataStores": [
-    {
-      "id": "unique_id",
-      "label": "Database/Storage Name",
-      "type": "database" | "cache" | "storage" | "queue",
-      "description": "Optional description"
-    }
-  ],
-  "connections": [
-    {
-      "id": "unique_id",
-      "from": "source_component_id",
-      "to": "target_component_id",
-      "label": "Optional description of the interaction",
-      "type": "data_flow" | "control_flow" | "interaction"
-    }
-  ]
+/**
+ * Join documentation files into the {documents} variable of the prompt
+ */
+export function formatFeatureDocuments(
+    documents: Array<{ fileName: string; content: string }>,
+): string {
+    return documents
+        .map((doc) => `## File: ${doc.fileName}\n\n${doc.content}`)
+        .join("\n\n---\n\n");
 }
 
-Guidelines:
-- Use snake_case for IDs (e.g., "teacher_actor", "moodle_system", "score_process")
-- Be specific and concise with labels
-- Connections should link actual component IDs from actors, systems, processes, or dataStores
-- Focus on the main workflow, not every minor detail
-- If no components found in a category, return empty array
-- Ensure valid JSON format`;
-
 // ============================================================================
 // Architecture Analyzer Service Class
 // ============================================================================
@@ -195,6 +151,7 @@ class ArchitectureAnalyzer {
     async analyzeArchitecture(
         featureId: number,
         force: boolean = false,
+        options: StreamOptions = {},
     ): Promise<ArchitectureResult> {
         const startTime = Date.now();
 
@@ -246,32 +203,65 @@ class ArchitectureAnalyzer {
         }
 
         // Generate AI analysis
-        const requestId = await generateUUID();
-        const model = await aiProviderService.getActiveProvider();
+        const requestId = options.requestId ?? await generateUUID();
 
-        // Format documents for prompt
-        const documentsText = documents
-            .map((doc) => `## File: ${doc.fileName}\n\n${doc.content}`)
-            .join("\n\n---\n\n");
+        // Refuse to start once a monthly budget is used up
+        usageService.assertWithinBudget(featureId);
 
-        const prompt = ARCHITECTURE_PROMPT.replace("{documents}", documentsText);
+        const route = await aiProviderService.resolveModel(
+          "architecture",
+          options.signal,
+        );
+        const producedBy = { provider: route.provider, model: route.modelId };
+
+        const template = resolvePrompt("architecture", featureId);
+        const prompt = renderPrompt(template.template, {
+            documents: formatFeatureDocuments(documents),
+        });
+        const inputs = fingerprintInputs(
+            documents.map((doc) => ({
+                filePath: path.join(featurePath, doc.fileName),
+                content: doc.content,
+            })),
+            template.version,
+        );
 
         try {
-            const result = await generateText({
-                model,
+            const output = await generateStructured({
+                requestId,
+                model: route.model,
                 prompt,
                 temperature: 0.3, // Lower temperature for more consistent results
+                schema: architectureOutputSchema,
+                structuredOutput: route.structuredOutput,
+                onUpdate: options.onUpdate,
             });
 
-            // Parse JSON response
-            const architectureData = this.parseArchitectureResponse(result.text);
-
             const duration = Date.now() - startTime;
+
+            if (!output.object) {
+                // Keep the raw response with the analyses for inspection
+                databaseService.createAnalysisResult(
+                    requestId,
+                    featureId,
+                    "architecture",
+                    JSON.stringify({ rawResponse: output.text }),
+                    duration,
+                    output.totalTokens,
+                    undefined,
+                    validationOf(output),
+                    producedBy,
+                    usageService.usageOf(producedBy, output),
+                    inputs,
+                );
+                throw invalidOutputError(output);
+            }
+
             const analysisResult: ArchitectureResult = {
                 requestId,
-                ...architectureData,
+                ...output.object,
                 duration,
-                tokenCount: result.usage?.totalTokens,
+                tokenCount: output.totalTokens,
             };
 
             // Save to database
@@ -284,7 +274,7 @@ class ArchitectureAnalyzer {
                 analysisResult.dataStores,
                 analysisResult.connections,
                 duration,
-                result.usage?.totalTokens,
+                output.totalTokens,
             );
 
             // Cache the result in memory
@@ -293,6 +283,9 @@ class ArchitectureAnalyzer {
 
             return analysisResult;
         } catch (error) {
+            if (error instanceof AnalysisCancelledError) {
+                throw error;
+            }
             throw new Error(
                 `Architecture analysis failed: ${error instanceof Error ? error.message : "Unknown error"}`,
             );
@@ -302,7 +295,7 @@ class ArchitectureAnalyzer {
     /**
      * Read all markdown documentation files for a feature
      */
-    private async readFeatureDocuments(
+    async readFeatureDocuments(
         featurePath: string,
     ): Promise<Array<{ fileName: string; content: string }>> {
         const documents: Array<{ fileName: string; content: string }> = [];
@@ -348,55 +341,6 @@ class ArchitectureAnalyzer {
         return documents;
     }
 
-    /**
-     * Parse AI response and extract architecture data
-     */
-    private parseArchitectureResponse(responseText: string): {
-        actors: ArchitectureActor[];
-        systems: ArchitectureSystem[];
-        processes: ArchitectureProcess[];
-        dataStores: ArchitectureData[];
-        connections: ArchitectureConnection[];
-    } {
-        // Extract JSON from response (may be wrapped in markdown code blocks)
-        const jsonText = this.extractJSON(responseText);
-
-        try {
-            const parsed = JSON.parse(jsonText);
-
-            return {
-                actors: parsed.actors || [],
-                systems: parsed.systems || [],
-                processes: parsed.processes || [],
-                dataStores: parsed.dataStores || [],
-                connections: parsed.connections || [],
-            };
-        } catch (error) {
-            console.error("Failed to parse architecture response:", error);
-            console.error("Response text:", responseText);
-            throw new Error("Failed to parse AI response as valid JSON");
-        }
-    }
-
-    /**
-     * Extract JSON from text that may contain markdown code blocks
-     */
-    private extractJSON(text: string): string {
-        // Try to find JSON in markdown code blocks
-        const codeBlockMatch = text.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/);
-        if (codeBlockMatch) {
-            return codeBlockMatch[1];
-        }
-
-        // Try to find raw JSON object
-        const jsonMatch = text.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-            return jsonMatch[0];
-        }
-
-        return text;
-    }
-
     /**
      * Invalidate cache for a feature
      */
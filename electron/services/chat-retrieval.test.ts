@@ -0,0 +1,64 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  type ChatPassage,
+  fuseRankings,
+  rankByIds,
+  rankByKeywords,
+} from "./chat-retrieval";
+
+// Ranking works on passages already collected; the database needs Electron
+vi.mock("./database", () => ({ databaseService: {} }));
+
+const passage = (heading: string, text: string): ChatPassage => ({
+  kind: "section",
+  featureId: 1,
+  featureNumber: "001",
+  filePath: "spec.md",
+  heading,
+  line: 1,
+  lineEnd: 1,
+  text,
+});
+
+const passages = [
+  passage("Overview", "The dashboard shows features and their progress."),
+  passage("FR-002", "Users can export diagrams as SVG."),
+  passage("T014", "Implement the export menu for FR-002."),
+  passage("Kanban board", "Tasks are grouped by story on the kanban board."),
+  passage("Export formats", "Diagrams are saved as SVG, PNG or Mermaid."),
+];
+
+describe("rankByKeywords", () => {
+  it("ranks matching headings first and leaves out passages without a term", () => {
+    expect(rankByKeywords(passages, "How does the kanban board work?")).toEqual([3]);
+
+    const ranking = rankByKeywords(passages, "export");
+    expect(ranking[0]).toBe(4);
+    expect([...ranking].sort()).toEqual([1, 2, 4]);
+  });
+
+  it("ignores questions made only of stopwords", () => {
+    expect(rankByKeywords(passages, "what is the")).toEqual([]);
+  });
+});
+
+describe("rankByIds", () => {
+  it("puts the passage parsed for an ID before passages mentioning it", () => {
+    expect(rankByIds(passages, "What does fr002 require?")).toEqual([1, 2]);
+    expect(rankByIds(passages, "Is T-014 done?")).toEqual([2]);
+  });
+
+  it("returns nothing without an ID in the question", () => {
+    expect(rankByIds(passages, "export")).toEqual([]);
+  });
+});
+
+describe("fuseRankings", () => {
+  it("lifts passages ranked by several lists above a single top rank", () => {
+    expect(fuseRankings([[0, 2], [2, 1], [3]])).toEqual([2, 0, 3, 1]);
+  });
+
+  it("returns nothing for empty rankings", () => {
+    expect(fuseRankings([[], []])).toEqual([]);
+  });
+});
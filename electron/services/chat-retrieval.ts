@@ -0,0 +1,401 @@
+/**
+ * Chat Retrieval
+ * Finds the passages of a feature or project that best answer a question:
+ * indexed spec-kit sections plus requirement, task and research decision rows,
+ * ranked by keywords, exact IDs and, when the provider has one, an embedding
+ * model, with the rankings fused by reciprocal rank
+ */
+
+import fs from "fs";
+import path from "path";
+import { cosineSimilarity, embedMany } from "ai";
+import type { ResolvedEmbeddingModel } from "./ai-provider";
+import { databaseService } from "./database";
+import { hashContent } from "./task-writer";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ChatPassageKind = "section" | "requirement" | "task" | "decision";
+
+/**
+ * Piece of a feature's documents or parsed data that can be cited
+ */
+export interface ChatPassage {
+  kind: ChatPassageKind;
+  featureId: number;
+  featureNumber: string;
+  /** Relative to the feature directory */
+  filePath: string;
+  heading: string;
+  /** 1-based line the passage starts at */
+  line: number;
+  lineEnd: number;
+  text: string;
+}
+
+export interface RetrievalResult {
+  passages: ChatPassage[];
+  /** Whether embeddings took part in the ranking */
+  semantic: boolean;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MAX_PASSAGES = 8;
+
+// Characters of passage text sent to the model in total, and per passage
+const CONTEXT_CHAR_BUDGET = 12000;
+const PASSAGE_CHAR_LIMIT = 3000;
+
+// Reciprocal rank fusion constant; higher values flatten the top ranks
+const RRF_K = 60;
+
+// BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "can", "do", "does",
+  "for", "from", "how", "if", "in", "is", "it", "of", "on", "or", "should",
+  "that", "the", "this", "to", "was", "what", "when", "where", "which",
+  "who", "why", "will", "with", "we", "our", "there", "any", "all",
+]);
+
+// Requirement, success criterion, user story and task IDs
+const ID_PATTERN = /\b(?:FR|NFR|SC|US|T)-?\d+\b/gi;
+
+// ============================================================================
+// Passages
+// ============================================================================
+
+/**
+ * 1-based line of the first line matching a predicate, or null
+ */
+function findLine(lines: string[], matches: (line: string) => boolean): number | null {
+  const index = lines.findIndex(matches);
+  return index === -1 ? null : index + 1;
+}
+
+function parseJsonArray(value: string | null): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Requirement, task and research decision rows of a feature as passages,
+ * located in the file they were parsed from
+ */
+function featureRowPassages(featureId: number): ChatPassage[] {
+  const feature = databaseService.getFeatureById(featureId);
+  if (!feature) return [];
+
+  const featurePath = path.dirname(feature.spec_path);
+  const readLines = (name: string): string[] => {
+    const filePath = path.join(featurePath, name);
+    return fs.existsSync(filePath)
+      ? fs.readFileSync(filePath, "utf-8").split("\n")
+      : [];
+  };
+  const base = { featureId, featureNumber: feature.feature_number };
+  const passages: ChatPassage[] = [];
+
+  const specLines = readLines("spec.md");
+  for (const requirement of databaseService.getRequirementsByFeature(featureId)) {
+    const line = findLine(
+      specLines,
+      (l) => l.includes(requirement.requirement_id),
+    ) ?? 1;
+    const criteria = parseJsonArray(requirement.acceptance_criteria);
+    const linkedTasks = parseJsonArray(requirement.linked_tasks);
+    passages.push({
+      ...base,
+      kind: "requirement",
+      filePath: "spec.md",
+      heading: requirement.requirement_id,
+      line,
+      lineEnd: line,
+      text: [
+        `${requirement.requirement_id} (${requirement.type}${requirement.priority ? `, ${requirement.priority}` : ""}): ${requirement.description}`,
+        criteria.length > 0 ? `Acceptance criteria: ${criteria.join("; ")}` : "",
+        linkedTasks.length > 0 ? `Implemented by tasks: ${linkedTasks.join(", ")}` : "",
+      ].filter(Boolean).join("\n"),
+    });
+  }
+
+  for (const task of databaseService.getTasksByFeature(featureId)) {
+    const line = task.line_number ?? 1;
+    const dependencies = parseJsonArray(task.dependencies);
+    passages.push({
+      ...base,
+      kind: "task",
+      filePath: "tasks.md",
+      heading: task.task_id,
+      line,
+      lineEnd: line,
+      text: [
+        `${task.task_id} [${task.status}]${task.phase ? ` in ${task.phase}` : ""}: ${task.description}`,
+        task.story_label ? `User story: ${task.story_label}` : "",
+        task.file_path ? `File: ${task.file_path}` : "",
+        dependencies.length > 0 ? `Depends on: ${dependencies.join(", ")}` : "",
+      ].filter(Boolean).join("\n"),
+    });
+  }
+
+  const researchLines = readLines("research.md");
+  for (const decision of databaseService.getResearchDecisionsByFeature(featureId)) {
+    const line = findLine(
+      researchLines,
+      (l) => /^#{1,6}\s/.test(l) && l.includes(decision.title),
+    ) ?? 1;
+    const alternatives = parseJsonArray(decision.alternatives);
+    passages.push({
+      ...base,
+      kind: "decision",
+      filePath: "research.md",
+      heading: decision.title,
+      line,
+      lineEnd: line,
+      text: [
+        `${decision.title}: ${decision.decision}`,
+        decision.rationale ? `Rationale: ${decision.rationale}` : "",
+        alternatives.length > 0 ? `Alternatives considered: ${alternatives.join("; ")}` : "",
+      ].filter(Boolean).join("\n"),
+    });
+  }
+
+  return passages;
+}
+
+/**
+ * Every passage of a feature, or of all features of a project when
+ * featureId is null
+ */
+export function collectPassages(
+  projectId: number,
+  featureId: number | null,
+): ChatPassage[] {
+  const sections = databaseService.getSearchSections(
+    projectId,
+    featureId ?? undefined,
+  );
+  const passages: ChatPassage[] = sections.map((section) => ({
+    kind: "section",
+    featureId: section.feature_id,
+    featureNumber: section.feature_number,
+    filePath: section.file_path,
+    heading: section.heading,
+    line: section.line_start,
+    lineEnd: section.line_end,
+    text: section.content.slice(0, PASSAGE_CHAR_LIMIT),
+  }));
+
+  const featureIds = featureId !== null
+    ? [featureId]
+    : databaseService.getFeaturesByProject(projectId).map((f) => f.id);
+  for (const id of featureIds) {
+    passages.push(...featureRowPassages(id));
+  }
+
+  return passages.filter((passage) => passage.text.trim());
+}
+
+// ============================================================================
+// Ranking
+// ============================================================================
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [])
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token));
+}
+
+/**
+ * Passage indexes ordered by BM25 score against the question; passages
+ * without any question term are left out
+ */
+export function rankByKeywords(passages: ChatPassage[], question: string): number[] {
+  const terms = [...new Set(tokenize(question))];
+  if (terms.length === 0) return [];
+
+  // Headings count twice so a matching title outranks a passing mention
+  const documents = passages.map((p) => tokenize(`${p.heading} ${p.heading} ${p.text}`));
+  const averageLength = documents.reduce((sum, d) => sum + d.length, 0) /
+    Math.max(documents.length, 1);
+
+  const documentFrequency = new Map<string, number>();
+  for (const document of documents) {
+    for (const term of new Set(document)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  const scores = documents.map((document) => {
+    const counts = new Map<string, number>();
+    for (const token of document) {
+      counts.set(token, (counts.get(token) ?? 0) + 1);
+    }
+
+    let score = 0;
+    for (const term of terms) {
+      const frequency = counts.get(term);
+      if (!frequency) continue;
+      const df = documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+      score += idf * (frequency * (BM25_K1 + 1)) /
+        (frequency + BM25_K1 * (1 - BM25_B + BM25_B * document.length / averageLength));
+    }
+    return score;
+  });
+
+  return scores
+    .map((score, index) => ({ score, index }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(({ index }) => index);
+}
+
+/**
+ * Passages naming an ID the question asks about, the passage parsed for
+ * that ID first
+ */
+export function rankByIds(passages: ChatPassage[], question: string): number[] {
+  const ids = [...new Set(
+    (question.match(ID_PATTERN) ?? []).map((id) => id.toUpperCase()),
+  )];
+  if (ids.length === 0) return [];
+
+  const normalize = (value: string) => value.toUpperCase().replace("-", "");
+  const wanted = ids.map(normalize);
+  const matches = passages
+    .map((passage, index) => ({
+      index,
+      exact: wanted.includes(normalize(passage.heading)),
+      mentions: (passage.text.match(ID_PATTERN) ?? [])
+        .some((id) => wanted.includes(normalize(id))),
+    }))
+    .filter(({ exact, mentions }) => exact || mentions);
+
+  return [
+    ...matches.filter((m) => m.exact),
+    ...matches.filter((m) => !m.exact),
+  ].map(({ index }) => index);
+}
+
+/**
+ * Passage indexes ordered by embedding similarity to the question
+ * Passage vectors are cached per content and model, so only new or changed
+ * passages are embedded
+ */
+async function rankByEmbeddings(
+  passages: ChatPassage[],
+  question: string,
+  embedding: ResolvedEmbeddingModel,
+  signal?: AbortSignal,
+): Promise<number[]> {
+  const modelKey = `${embedding.provider}:${embedding.modelId}`;
+  const hashes = passages.map((passage) => hashContent(passage.text));
+  const cached = databaseService.getChatEmbeddings(modelKey, hashes);
+
+  const missing = new Map<string, string>();
+  passages.forEach((passage, index) => {
+    if (!cached.has(hashes[index])) missing.set(hashes[index], passage.text);
+  });
+
+  const { embeddings } = await embedMany({
+    model: embedding.model,
+    values: [question, ...missing.values()],
+    maxRetries: 1,
+    abortSignal: signal,
+  });
+
+  const fresh = new Map<string, Float32Array>();
+  [...missing.keys()].forEach((hash, index) => {
+    fresh.set(hash, Float32Array.from(embeddings[index + 1]));
+  });
+  if (fresh.size > 0) {
+    databaseService.saveChatEmbeddings(modelKey, fresh);
+  }
+
+  const questionVector = embeddings[0];
+  return passages
+    .map((_, index) => {
+      const vector = cached.get(hashes[index]) ?? fresh.get(hashes[index])!;
+      return { index, score: cosineSimilarity(questionVector, Array.from(vector)) };
+    })
+    .sort((a, b) => b.score - a.score)
+    .map(({ index }) => index);
+}
+
+/**
+ * Fuse rankings by reciprocal rank: passages ranked high by several lists
+ * rise above ones ranked high by a single list
+ */
+export function fuseRankings(rankings: number[][]): number[] {
+  const scores = new Map<number, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((index, rank) => {
+      scores.set(index, (scores.get(index) ?? 0) + 1 / (RRF_K + rank + 1));
+    });
+  }
+
+  return [...scores.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([index]) => index);
+}
+
+/**
+ * Retrieve the passages that best answer a question, within the context budget
+ * Falls back to keyword ranking when there is no embedding model or it fails
+ * Aborting `signal` stops embedding the passages
+ */
+export async function retrievePassages(
+  projectId: number,
+  featureId: number | null,
+  question: string,
+  embedding: ResolvedEmbeddingModel | null,
+  signal?: AbortSignal,
+): Promise<RetrievalResult> {
+  const passages = collectPassages(projectId, featureId);
+  const rankings = [
+    rankByIds(passages, question),
+    rankByKeywords(passages, question),
+  ];
+
+  let semantic = false;
+  if (embedding && passages.length > 0) {
+    try {
+      rankings.push(
+        await rankByEmbeddings(passages, question, embedding, signal),
+      );
+      semantic = true;
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn("Embedding retrieval failed, using keywords only:", error);
+    }
+  }
+
+  const selected: ChatPassage[] = [];
+  let budget = CONTEXT_CHAR_BUDGET;
+  for (const index of fuseRankings(rankings)) {
+    const passage = passages[index];
+    if (passage.text.length > budget) continue;
+    selected.push(passage);
+    budget -= passage.text.length;
+    if (selected.length === MAX_PASSAGES) break;
+  }
+
+  return { passages: selected, semantic };
+}
+
+export default {
+  collectPassages,
+  retrievePassages,
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it, vi } from "vitest";
+import { CHAT_PROMPT, citedSources } from "./chat-service";
+import type { ChatPassage } from "./chat-retrieval";
+import { renderPrompt } from "./prompt-registry";
+
+// Neither rendering nor citing reaches the database or a model, both of
+// which need Electron
+vi.mock("./ai-provider", () => ({ aiProviderService: {} }));
+vi.mock("./database", () => ({ databaseService: {} }));
+
+const passage = (heading: string): ChatPassage => ({
+  kind: "section",
+  featureId: 1,
+  featureNumber: "001",
+  filePath: "spec.md",
+  heading,
+  line: 1,
+  lineEnd: 2,
+  text: `About ${heading}`,
+});
+
+describe("CHAT_PROMPT", () => {
+  it("renders without leaving braces around the values", () => {
+    const prompt = renderPrompt(CHAT_PROMPT, {
+      sources: "SOURCES",
+      history: "HISTORY",
+      question: "QUESTION",
+    });
+
+    expect(prompt).toContain("## Sources\n\nSOURCES\n");
+    expect(prompt).toContain("## Conversation so far\n\nHISTORY\n");
+    expect(prompt).toMatch(/## Question\n\nQUESTION$/);
+    expect(prompt).not.toMatch(/[{}]/);
+  });
+});
+
+describe("citedSources", () => {
+  it("keeps the passages the answer cites, in source order", () => {
+    const passages = [passage("Scope"), passage("FR-001"), passage("T004")];
+    expect(
+      citedSources("Tasks follow [3], see [1][3] and [9].", passages)
+        .map((citation) => [citation.index, citation.heading]),
+    ).toEqual([
+      [1, "Scope"],
+      [3, "T004"],
+    ]);
+  });
+
+  it("returns nothing for an answer without citations", () => {
+    expect(citedSources("No sources cover this.", [passage("Scope")])).toEqual([]);
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * Chat Service
+ * Answers questions about a feature or a whole project from retrieved
+ * passages of its documents, citing them, and keeps the conversations
+ */
+
+import { aiProviderService } from "./ai-provider";
+import { aiStreamService, type StreamOptions } from "./ai-stream";
+import { type ChatPassage, retrievePassages } from "./chat-retrieval";
+import {
+  databaseService,
+  type DbChatConversation,
+  type DbChatMessage,
+} from "./database";
+import { renderPrompt } from "./prompt-registry";
+import { usageService } from "./usage-service";
+
+// Dynamic import for uuid (ES module in CommonJS context)
+// Using Function constructor to prevent TypeScript from converting to require()
+async function generateUUID(): Promise<string> {
+  const importFn = new Function("specifier", "return import(specifier)");
+  const { v4 } = await importFn("uuid");
+  return v4();
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Passage an answer cites, numbered as in the answer text
+ */
+export interface ChatCitation {
+  index: number;
+  kind: ChatPassage["kind"];
+  featureId: number;
+  featureNumber: string;
+  filePath: string;
+  heading: string;
+  line: number;
+  lineEnd: number;
+}
+
+export interface ChatConversation {
+  id: number;
+  projectId: number;
+  featureId: number | null;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ChatMessage {
+  id: number;
+  conversationId: number;
+  role: "user" | "assistant";
+  content: string;
+  citations: ChatCitation[];
+  model: string | null;
+  tokenCount: number | null;
+  cost: number | null;
+  createdAt: number;
+}
+
+export interface ChatReply {
+  requestId: string;
+  question: ChatMessage;
+  answer: ChatMessage;
+  /** Whether embeddings took part in finding the sources */
+  semanticSearch: boolean;
+  duration: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const CHAT_PROMPT =
+  `You answer questions about a software project documented with spec-kit (spec.md, plan.md, tasks.md, data-model.md, research.md, contracts and checklists).
+
+Answer only from the numbered sources below. Cite every claim with the source numbers in square brackets, like [1] or [2][3]. If the sources do not answer the question, say so plainly instead of guessing. Quote requirement and task IDs exactly. Keep the answer concise and use markdown.
+
+## Sources
+
+{sources}
+
+## Conversation so far
+
+{history}
+
+## Question
+
+{question}`;
+
+// Earlier messages sent along with a question, and their length cap
+const HISTORY_MESSAGES = 6;
+const HISTORY_CHAR_LIMIT = 1500;
+
+const TITLE_LENGTH = 60;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toConversation(row: DbChatConversation): ChatConversation {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    featureId: row.feature_id,
+    title: row.title,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toMessage(row: DbChatMessage): ChatMessage {
+  let citations: ChatCitation[] = [];
+  if (row.citations) {
+    try {
+      citations = JSON.parse(row.citations) as ChatCitation[];
+    } catch (err) {
+      console.error("Failed to parse chat citations from DB", err);
+    }
+  }
+
+  return {
+    id: row.id,
+    conversationId: row.conversation_id,
+    role: row.role,
+    content: row.content,
+    citations,
+    model: row.model,
+    tokenCount: row.token_count,
+    cost: row.cost,
+    createdAt: row.created_at,
+  };
+}
+
+function formatSources(passages: ChatPassage[]): string {
+  if (passages.length === 0) {
+    return "(no matching sources)";
+  }
+
+  return passages
+    .map((passage, index) =>
+      `[${index + 1}] ${passage.featureNumber}/${passage.filePath} line ${passage.line} - ${passage.heading}\n${passage.text}`
+    )
+    .join("\n\n");
+}
+
+function formatHistory(messages: DbChatMessage[]): string {
+  if (messages.length === 0) {
+    return "(none)";
+  }
+
+  return messages
+    .map((message) => {
+      const content = message.content.length > HISTORY_CHAR_LIMIT
+        ? `${message.content.slice(0, HISTORY_CHAR_LIMIT)}…`
+        : message.content;
+      return `${message.role === "user" ? "User" : "Assistant"}: ${content}`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * Sources an answer refers to, in the order they were given
+ */
+export function citedSources(answer: string, passages: ChatPassage[]): ChatCitation[] {
+  const cited = new Set(
+    [...answer.matchAll(/\[(\d+)\]/g)].map((match) => Number(match[1])),
+  );
+
+  return passages.flatMap((passage, position) => {
+    const index = position + 1;
+    return cited.has(index)
+      ? [{
+        index,
+        kind: passage.kind,
+        featureId: passage.featureId,
+        featureNumber: passage.featureNumber,
+        filePath: passage.filePath,
+        heading: passage.heading,
+        line: passage.line,
+        lineEnd: passage.lineEnd,
+      }]
+      : [];
+  });
+}
+
+function titleFrom(question: string): string {
+  const title = question.replace(/\s+/g, " ").trim();
+  return title.length > TITLE_LENGTH
+    ? `${title.slice(0, TITLE_LENGTH - 1)}…`
+    : title;
+}
+
+// ============================================================================
+// Chat Service Class
+// ============================================================================
+
+class ChatService {
+  /**
+   * Conversations about a feature, or the project-wide ones when featureId
+   * is null
+   */
+  listConversations(
+    projectId: number,
+    featureId: number | null,
+  ): ChatConversation[] {
+    return databaseService.getChatConversations(projectId, featureId)
+      .map(toConversation);
+  }
+
+  createConversation(
+    projectId: number,
+    featureId: number | null,
+  ): ChatConversation {
+    if (!databaseService.getProjectById(projectId)) {
+      throw new Error(`Project with ID ${projectId} not found`);
+    }
+    if (featureId !== null && !databaseService.getFeatureById(featureId)) {
+      throw new Error(`Feature with ID ${featureId} not found`);
+    }
+
+    return toConversation(
+      databaseService.createChatConversation(projectId, featureId, "New chat"),
+    );
+  }
+
+  deleteConversation(conversationId: number): void {
+    databaseService.deleteChatConversation(conversationId);
+  }
+
+  getMessages(conversationId: number): ChatMessage[] {
+    return databaseService.getChatMessages(conversationId).map(toMessage);
+  }
+
+  /**
+   * Answer a question in a conversation, streaming the answer text
+   * The question is kept even when answering fails or is cancelled
+   */
+  async sendMessage(
+    conversationId: number,
+    question: string,
+    options: StreamOptions = {},
+  ): Promise<ChatReply> {
+    const conversation = databaseService.getChatConversation(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation with ID ${conversationId} not found`);
+    }
+    if (!question.trim()) {
+      throw new Error("Ask a question first");
+    }
+
+    const startTime = Date.now();
+    const requestId = options.requestId ?? await generateUUID();
+
+    // Refuse to start once a monthly budget is used up
+    usageService.assertProjectWithinBudget(conversation.project_id);
+
+    const history = databaseService.getChatMessages(conversationId)
+      .slice(-HISTORY_MESSAGES);
+    const questionRow = databaseService.addChatMessage(
+      conversationId,
+      "user",
+      question.trim(),
+    );
+    if (history.length === 0) {
+      databaseService.updateChatConversation(conversationId, titleFrom(question));
+    }
+
+    const route = await aiProviderService.resolveModel("chat", options.signal);
+    const producedBy = { provider: route.provider, model: route.modelId };
+    const retrieval = await retrievePassages(
+      conversation.project_id,
+      conversation.feature_id,
+      question,
+      aiProviderService.getEmbeddingModel(route.provider),
+      options.signal,
+    );
+
+    const result = await aiStreamService.streamCompletion({
+      requestId,
+      model: route.model,
+      prompt: renderPrompt(CHAT_PROMPT, {
+        sources: formatSources(retrieval.passages),
+        history: formatHistory(history),
+        question: question.trim(),
+      }),
+      temperature: 0.2,
+      onUpdate: options.onUpdate,
+    });
+
+    const answerRow = databaseService.addChatMessage(
+      conversationId,
+      "assistant",
+      result.text.trim(),
+      citedSources(result.text, retrieval.passages),
+      producedBy,
+      usageService.usageOf(producedBy, {
+        promptTokens: result.usage?.inputTokens,
+        completionTokens: result.usage?.outputTokens,
+      }),
+      result.usage?.totalTokens,
+    );
+    databaseService.updateChatConversation(conversationId);
+
+    return {
+      requestId,
+      question: toMessage(questionRow),
+      answer: toMessage(answerRow),
+      semanticSearch: retrieval.semantic,
+      duration: Date.now() - startTime,
+    };
+  }
+}
+
+export const chatService = new ChatService();
+export default chatService;
@@ -0,0 +1,84 @@
+/**
+ * Speckit Dashboard - Code Generation
+ * Generates SQL DDL, a Prisma schema, TypeScript interfaces or zod schemas
+ * from the entities parsed out of a feature's data-model.md
+ */
+
+import { databaseService } from "../database";
+import { buildCodegenModel, type SourceEntity } from "./model";
+import { renderPrisma } from "./prisma";
+import { renderSql } from "./sql";
+import { renderTypeScript, renderZod } from "./typescript";
+
+export type CodegenTarget = "sqlite" | "postgres" | "prisma" | "typescript" | "zod";
+
+export interface GeneratedCode {
+  target: CodegenTarget;
+  code: string;
+  /** Suggested file name when saving */
+  fileName: string;
+  entityCount: number;
+  /** Attributes and relationships that could not be generated as written */
+  warnings: string[];
+}
+
+const FILE_NAMES: Record<CodegenTarget, string> = {
+  sqlite: "schema.sqlite.sql",
+  postgres: "schema.postgres.sql",
+  prisma: "schema.prisma",
+  typescript: "types.ts",
+  zod: "schemas.ts",
+};
+
+function parseJsonArray<T>(value: string | null): T[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Entities of a feature as the data-model parser produced them
+ */
+function loadEntities(featureId: number): SourceEntity[] {
+  return databaseService.getEntitiesByFeature(featureId).map((entity) => ({
+    name: entity.entity_name,
+    description: entity.description,
+    attributes: parseJsonArray(entity.attributes),
+    relationships: parseJsonArray(entity.relationships),
+  }));
+}
+
+/**
+ * Generate code for a feature's entities
+ * Returns null when the feature has no entities
+ */
+export function generateCode(
+  featureId: number,
+  target: CodegenTarget,
+): GeneratedCode | null {
+  const entities = loadEntities(featureId);
+  if (entities.length === 0) return null;
+
+  const model = buildCodegenModel(entities);
+  const code = target === "sqlite" || target === "postgres"
+    ? renderSql(model, target)
+    : target === "prisma"
+    ? renderPrisma(model)
+    : target === "typescript"
+    ? renderTypeScript(model)
+    : renderZod(model);
+
+  return {
+    target,
+    code,
+    fileName: FILE_NAMES[target],
+    entityCount: entities.length,
+    warnings: model.warnings,
+  };
+}
+
+export default { generateCode };
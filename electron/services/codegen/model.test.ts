@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { buildCodegenModel, type SourceEntity } from "./model";
+
+const entity = (
+  name: string,
+  attributes: SourceEntity["attributes"] = [],
+  relationships: SourceEntity["relationships"] = [],
+): SourceEntity => ({ name, description: null, attributes, relationships });
+
+const attribute = (name: string, type: string, constraints: string | null = null) => ({
+  name,
+  type,
+  constraints,
+});
+
+describe("buildCodegenModel", () => {
+  it("puts the foreign key on the many side and orders parents first", () => {
+    const model = buildCodegenModel([
+      entity("Task", [attribute("id", "INTEGER", "PRIMARY KEY")], [
+        { target: "Feature", type: "N:1", description: "Task belongs to Feature" },
+      ]),
+      entity("Feature", [attribute("id", "INTEGER", "PRIMARY KEY")], [
+        { target: "Tasks", type: "1:N", description: "Feature has many Tasks" },
+      ]),
+    ]);
+
+    expect(model.tables.map((table) => table.entity)).toEqual(["Feature", "Task"]);
+    const task = model.tables.find((table) => table.entity === "Task")!;
+    expect(task.foreignKeys).toEqual([
+      { column: "feature_id", references: "Feature", referencesColumn: "id", oneToOne: false },
+    ]);
+    expect(task.columns.find((column) => column.name === "feature_id")).toMatchObject({
+      kind: "integer",
+      nullable: true,
+      generated: true,
+    });
+    expect(model.warnings).toEqual([]);
+  });
+
+  it("uses foreign keys declared on attributes", () => {
+    const model = buildCodegenModel([
+      entity("Project", [attribute("id", "TEXT", "PRIMARY KEY")]),
+      entity("Feature", [
+        attribute("id", "INTEGER", "PRIMARY KEY"),
+        attribute("project_id", "TEXT", "NOT NULL, FOREIGN KEY → projects.id"),
+      ]),
+    ]);
+
+    const feature = model.tables.find((table) => table.entity === "Feature")!;
+    expect(feature.foreignKeys).toEqual([
+      { column: "project_id", references: "Project", referencesColumn: "id", oneToOne: false },
+    ]);
+    expect(feature.columns.find((column) => column.name === "project_id")?.nullable).toBe(false);
+  });
+
+  it("makes the key of a 1:1 relation unique on the owned side", () => {
+    const model = buildCodegenModel([
+      entity("Feature", [], [
+        { target: "Plan", type: "1:1", description: "Feature has one Plan" },
+      ]),
+      entity("Plan"),
+    ]);
+
+    const plan = model.tables.find((table) => table.entity === "Plan")!;
+    expect(plan.foreignKeys).toEqual([
+      { column: "feature_id", references: "Feature", referencesColumn: "id", oneToOne: true },
+    ]);
+    expect(plan.columns.find((column) => column.name === "feature_id")?.unique).toBe(true);
+  });
+
+  it("adds one join table per N:N pair declared from either side", () => {
+    const model = buildCodegenModel([
+      entity("Tag", [attribute("id", "UUID", "PRIMARY KEY")], [
+        { target: "Tasks", type: "N:N", description: "Tag has many Tasks" },
+      ]),
+      entity("Task", [], [
+        { target: "Tags", type: "N:N", description: "Task has many Tags" },
+      ]),
+    ]);
+
+    expect(model.joinTables).toEqual([
+      {
+        name: "tag_task",
+        left: { entity: "Tag", column: "tag_id", referencesColumn: "id" },
+        right: { entity: "Task", column: "task_id", referencesColumn: "id" },
+      },
+    ]);
+    // Neither side gets a foreign key column for an N:N relation
+    expect(model.tables.every((table) => table.foreignKeys.length === 0)).toBe(true);
+  });
+
+  it("warns about relations it cannot generate", () => {
+    const model = buildCodegenModel([
+      entity("Task", [], [
+        { target: "Tasks", type: "N:N", description: "Task has many Tasks" },
+        { target: "Sprint", type: "N:1", description: "Task belongs to Sprint" },
+      ]),
+    ]);
+
+    expect(model.joinTables).toEqual([]);
+    expect(model.warnings).toEqual([
+      "Task: N:N relationships with itself are not generated",
+      'Task: relationship target "Sprint" is not an entity',
+    ]);
+  });
+});
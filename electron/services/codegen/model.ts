@@ -0,0 +1,477 @@
+/**
+ * Speckit Dashboard - Code Generation Model
+ * Normalizes parsed data-model.md entities into tables with typed columns,
+ * keys and relations that every code generator renders from
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Entity as stored from the data-model parser
+ */
+export interface SourceEntity {
+  name: string;
+  description: string | null;
+  attributes: Array<{ name: string; type: string; constraints: string | null }>;
+  relationships: Array<{
+    target: string;
+    type: "1:1" | "1:N" | "N:1" | "N:N";
+    description: string | null;
+  }>;
+}
+
+export type ColumnKind =
+  | "string"
+  | "uuid"
+  | "integer"
+  | "number"
+  | "decimal"
+  | "boolean"
+  | "date"
+  | "datetime"
+  | "json"
+  | "enum";
+
+export interface Column {
+  name: string;
+  kind: ColumnKind;
+  /** List of values of the kind; stored as JSON by SQL */
+  list: boolean;
+  nullable: boolean;
+  primaryKey: boolean;
+  autoIncrement: boolean;
+  unique: boolean;
+  /** Literal default, already unquoted */
+  defaultValue: string | null;
+  enumValues: string[];
+  /** Added for a relationship or a missing primary key */
+  generated: boolean;
+}
+
+export interface ForeignKey {
+  column: string;
+  /** Entity name of the referenced table */
+  references: string;
+  referencesColumn: string;
+  /** 1:1 relations put a unique foreign key on the owning side */
+  oneToOne: boolean;
+}
+
+export interface Table {
+  entity: string;
+  /** snake_case table name */
+  name: string;
+  description: string | null;
+  columns: Column[];
+  foreignKeys: ForeignKey[];
+}
+
+/**
+ * Join table of an N:N relationship
+ */
+export interface JoinTable {
+  name: string;
+  left: { entity: string; column: string; referencesColumn: string };
+  right: { entity: string; column: string; referencesColumn: string };
+}
+
+export interface CodegenModel {
+  /** Parents before the tables that reference them, where possible */
+  tables: Table[];
+  joinTables: JoinTable[];
+  warnings: string[];
+}
+
+// ============================================================================
+// Names
+// ============================================================================
+
+export function toSnakeCase(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1_$2")
+    .replace(/[^A-Za-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .toLowerCase();
+}
+
+export function toCamelCase(name: string): string {
+  const snake = toSnakeCase(name);
+  return snake.replace(/_([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+}
+
+export function toPascalCase(name: string): string {
+  const camel = toCamelCase(name);
+  return camel.charAt(0).toUpperCase() + camel.slice(1);
+}
+
+/**
+ * Entity a relationship target names, allowing plurals ("has many Tasks")
+ */
+function resolveEntity(target: string, names: string[]): string | null {
+  const wanted = target.toLowerCase();
+  const candidates = [
+    wanted,
+    wanted.replace(/ies$/, "y"),
+    wanted.replace(/es$/, ""),
+    wanted.replace(/s$/, ""),
+  ];
+  for (const candidate of candidates) {
+    const match = names.find((name) => name.toLowerCase() === candidate);
+    if (match) return match;
+  }
+  return null;
+}
+
+// ============================================================================
+// Columns
+// ============================================================================
+
+const KIND_PATTERNS: Array<[RegExp, ColumnKind]> = [
+  [/^(uuid|guid)$/, "uuid"],
+  [/^(int|integer|bigint|smallint|tinyint|serial|bigserial|long|short)$/, "integer"],
+  [/^(float|double|real|number)$/, "number"],
+  [/^(decimal|numeric|money|currency)$/, "decimal"],
+  [/^(bool|boolean)$/, "boolean"],
+  [/^date$/, "date"],
+  [/^(datetime|timestamp|timestamptz|instant|time)$/, "datetime"],
+  [/^(json|jsonb|object|map|record|dict|blob)$/, "json"],
+  [/^enum$/, "enum"],
+  [/^(string|text|varchar|char|email|url|uri|path)$/, "string"],
+];
+
+/**
+ * First word of a type, or of the element type of a list
+ */
+function baseTypeOf(type: string): string {
+  const trimmed = type.trim();
+  return (trimmed.match(/^(?:array|list)<\s*(\w+)/i)?.[1] ??
+    trimmed.match(/^[A-Za-z]\w*/)?.[0] ?? "").toLowerCase();
+}
+
+/**
+ * Kind of an attribute type, or null when the type has no mapping
+ */
+export function typeKind(type: string): ColumnKind | null {
+  const baseType = baseTypeOf(type);
+  return KIND_PATTERNS.find(([pattern]) => pattern.test(baseType))?.[1] ?? null;
+}
+
+/**
+ * Strip quotes and whitespace from an enum value or default
+ */
+function unquote(value: string): string {
+  let text = value.trim();
+  // Values are often quoted twice in markdown: `'draft'`
+  while (/^(["'`]).*\1$/.test(text) && text.length > 1) {
+    text = text.slice(1, -1).trim();
+  }
+  return text;
+}
+
+/**
+ * Values of an enum written as "enum(a, b)", "Enum: a | b" or
+ * "one of: 'a', 'b'"
+ */
+export function parseEnumValues(text: string): string[] {
+  const listed = text.match(/(?:enum\s*[([:]|one of:?)\s*([^)\]]+)/i)?.[1];
+  if (!listed) return [];
+  return listed
+    .split(/[|,/]/)
+    .map(unquote)
+    .filter((value) => /^[\w.-]+$/.test(value));
+}
+
+/**
+ * Column from an attribute: the first word of the type picks the kind, the
+ * comma-separated parts of the constraints pick keys, nullability and defaults
+ * Descriptions end up in the constraints when there are none, so only parts
+ * that read as a whole constraint count
+ */
+function toColumn(
+  entity: string,
+  attribute: SourceEntity["attributes"][number],
+  warnings: string[],
+): { column: Column; reference: string | null } {
+  const type = attribute.type.trim();
+  const nullableType = /\|\s*null\b|\?$/i.test(type);
+  const arrayType = /\[\]|^(array|list)\b|^(array|list)</i.test(type);
+  const baseType = baseTypeOf(type);
+
+  let kind = typeKind(type);
+  if (!kind) {
+    kind = "string";
+    if (baseType) {
+      warnings.push(
+        `${entity}.${attribute.name}: type "${type}" has no mapping and is generated as text`,
+      );
+    }
+  }
+
+  const column: Column = {
+    name: attribute.name.replace(/[`*]/g, "").trim(),
+    kind,
+    list: arrayType,
+    nullable: true,
+    primaryKey: false,
+    autoIncrement: /serial/i.test(baseType),
+    unique: false,
+    defaultValue: null,
+    enumValues: [],
+    generated: false,
+  };
+  let reference: string | null = null;
+  let required = false;
+
+  const parts = (attribute.constraints ?? "").split(",").map((p) => p.trim());
+  for (const part of parts) {
+    if (/^(primary key|pk)$/i.test(part)) column.primaryKey = true;
+    else if (/^unique$/i.test(part)) column.unique = true;
+    else if (/^(not null|required|non-null)$/i.test(part)) required = true;
+    else if (/^(nullable|optional|null)$/i.test(part)) required = false;
+    else if (/^auto[ _-]?increment$/i.test(part)) column.autoIncrement = true;
+    else {
+      const foreignKey = part.match(
+        /^(?:foreign key|fk|references)\s*(?:→|->|to)?\s*`?(\w+)/i,
+      );
+      const defaultValue = part.match(/^default(?:\s*[:=]\s*|\s+)(.+)$/i);
+      if (foreignKey) reference = foreignKey[1];
+      else if (defaultValue) column.defaultValue = unquote(defaultValue[1]);
+    }
+  }
+
+  // Text columns listing their values ("one of: 'draft', 'done'") are enums
+  const enumValues = parseEnumValues(`${type}, ${attribute.constraints ?? ""}`);
+  if (kind === "enum" || (kind === "string" && enumValues.length > 1)) {
+    column.kind = "enum";
+    column.enumValues = enumValues;
+  }
+  column.nullable = !column.primaryKey && (nullableType || !required);
+  if (column.list) {
+    column.autoIncrement = false;
+  }
+
+  return { column, reference };
+}
+
+function generatedColumn(name: string, kind: ColumnKind): Column {
+  return {
+    name,
+    kind,
+    list: false,
+    nullable: false,
+    primaryKey: false,
+    autoIncrement: false,
+    unique: false,
+    defaultValue: null,
+    enumValues: [],
+    generated: true,
+  };
+}
+
+// ============================================================================
+// Model
+// ============================================================================
+
+/**
+ * Build the model of a feature's entities
+ * Relationships become foreign keys on the "many" (or "belongs to") side and
+ * join tables for N:N; each pair of entities is related once even when both
+ * entities declare it
+ */
+export function buildCodegenModel(entities: SourceEntity[]): CodegenModel {
+  const warnings: string[] = [];
+  const names = entities.map((entity) => entity.name);
+  const tables = new Map<string, Table>();
+  const declaredReferences: Array<{ entity: string; column: string; target: string }> = [];
+
+  for (const entity of entities) {
+    const columns: Column[] = [];
+    for (const attribute of entity.attributes) {
+      const { column, reference } = toColumn(entity.name, attribute, warnings);
+      if (columns.some((c) => c.name === column.name)) continue;
+      columns.push(column);
+      if (reference) {
+        declaredReferences.push({ entity: entity.name, column: column.name, target: reference });
+      }
+    }
+
+    // Every table needs a key to be referenced by
+    if (!columns.some((c) => c.primaryKey)) {
+      const id = columns.find((c) => c.name.toLowerCase() === "id");
+      if (id) {
+        id.primaryKey = true;
+        id.nullable = false;
+      } else {
+        columns.unshift({
+          ...generatedColumn("id", "integer"),
+          primaryKey: true,
+          autoIncrement: true,
+        });
+      }
+    }
+
+    tables.set(entity.name, {
+      entity: entity.name,
+      name: toSnakeCase(entity.name),
+      description: entity.description,
+      columns,
+      foreignKeys: [],
+    });
+  }
+
+  const primaryKeyOf = (entity: string): Column => {
+    const table = tables.get(entity)!;
+    const keys = table.columns.filter((c) => c.primaryKey);
+    if (keys.length > 1) {
+      warnings.push(
+        `${entity} has a composite primary key; references use ${keys[0].name}`,
+      );
+    }
+    return keys[0];
+  };
+
+  // Column naming follows the table: camelCase tables get camelCase keys.
+  // A table referencing itself gets a "parent" key so it never reuses its own
+  const foreignKeyName = (child: Table, parent: string): string => {
+    const camel = child.columns.some((c) => /[a-z][A-Z]/.test(c.name)) &&
+      !child.columns.some((c) => c.name.includes("_"));
+    const base = child.entity === parent ? `Parent ${parent}` : parent;
+    return camel ? `${toCamelCase(base)}Id` : `${toSnakeCase(base)}_id`;
+  };
+
+  const addForeignKey = (childName: string, parent: string, oneToOne: boolean) => {
+    const child = tables.get(childName)!;
+    if (child.foreignKeys.some((fk) => fk.references === parent)) return;
+
+    const parentKey = primaryKeyOf(parent);
+    const name = foreignKeyName(child, parent);
+    let column = child.columns.find((c) => c.name === name);
+    if (!column) {
+      column = {
+        ...generatedColumn(name, parentKey.kind),
+        nullable: true,
+      };
+      child.columns.push(column);
+    }
+    if (oneToOne) column.unique = true;
+
+    child.foreignKeys.push({
+      column: column.name,
+      references: parent,
+      referencesColumn: parentKey.name,
+      oneToOne,
+    });
+  };
+
+  // Foreign keys written as attribute constraints ("FOREIGN KEY → projects.id")
+  for (const declared of declaredReferences) {
+    const parent = resolveEntity(declared.target, names) ??
+      names.find((name) => toSnakeCase(name) === toSnakeCase(declared.target).replace(/s$/, ""));
+    if (!parent) {
+      warnings.push(
+        `${declared.entity}.${declared.column} references "${declared.target}", which is not an entity`,
+      );
+      continue;
+    }
+    const child = tables.get(declared.entity)!;
+    if (child.foreignKeys.some((fk) => fk.column === declared.column)) continue;
+    child.foreignKeys.push({
+      column: declared.column,
+      references: parent,
+      referencesColumn: primaryKeyOf(parent).name,
+      oneToOne: false,
+    });
+  }
+
+  const joinTables = new Map<string, JoinTable>();
+  for (const entity of entities) {
+    for (const relationship of entity.relationships) {
+      const target = resolveEntity(relationship.target, names);
+      if (!target) {
+        warnings.push(
+          `${entity.name}: relationship target "${relationship.target}" is not an entity`,
+        );
+        continue;
+      }
+      const description = relationship.description ?? "";
+
+      switch (relationship.type) {
+        case "N:1":
+          addForeignKey(entity.name, target, false);
+          break;
+        case "1:N":
+          addForeignKey(target, entity.name, false);
+          break;
+        case "1:1":
+          // "A has one B" puts the key on B; "A belongs to B" on A
+          if (/\bhas\s+(?:zero or one|one|a|an)\b/i.test(description)) {
+            if (!tables.get(entity.name)!.foreignKeys.some((fk) => fk.references === target)) {
+              addForeignKey(target, entity.name, true);
+            }
+          } else if (!tables.get(target)!.foreignKeys.some((fk) => fk.references === entity.name)) {
+            addForeignKey(entity.name, target, true);
+          }
+          break;
+        case "N:N": {
+          if (target === entity.name) {
+            warnings.push(`${entity.name}: N:N relationships with itself are not generated`);
+            break;
+          }
+          const [left, right] = [entity.name, target].sort();
+          const name = `${toSnakeCase(left)}_${toSnakeCase(right)}`;
+          if (!joinTables.has(name)) {
+            joinTables.set(name, {
+              name,
+              left: {
+                entity: left,
+                column: `${toSnakeCase(left)}_id`,
+                referencesColumn: primaryKeyOf(left).name,
+              },
+              right: {
+                entity: right,
+                column: `${toSnakeCase(right)}_id`,
+                referencesColumn: primaryKeyOf(right).name,
+              },
+            });
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  return {
+    tables: orderByDependencies([...tables.values()]),
+    joinTables: [...joinTables.values()],
+    warnings,
+  };
+}
+
+/**
+ * Order tables so referenced tables come first; tables in a reference cycle
+ * keep their original order after the rest
+ */
+function orderByDependencies(tables: Table[]): Table[] {
+  const ordered: Table[] = [];
+  const placed = new Set<string>();
+  let remaining = tables;
+
+  while (remaining.length > 0) {
+    const ready = remaining.filter((table) =>
+      table.foreignKeys.every((fk) =>
+        fk.references === table.entity || placed.has(fk.references)
+      )
+    );
+    const next = ready.length > 0 ? ready : remaining;
+    for (const table of next) {
+      ordered.push(table);
+      placed.add(table.entity);
+    }
+    remaining = remaining.filter((table) => !placed.has(table.entity));
+  }
+
+  return ordered;
+}
@@ -0,0 +1,230 @@
+/**
+ * Speckit Dashboard - Prisma Generator
+ * Prisma schema for a code generation model, with relation fields on both
+ * sides and implicit many-to-many relations for join tables
+ */
+
+import {
+  type CodegenModel,
+  type Column,
+  type ColumnKind,
+  type Table,
+  toCamelCase,
+  toPascalCase,
+} from "./model";
+
+const PRISMA_TYPES: Record<ColumnKind, string> = {
+  string: "String",
+  uuid: "String",
+  integer: "Int",
+  number: "Float",
+  decimal: "Decimal",
+  boolean: "Boolean",
+  date: "DateTime",
+  datetime: "DateTime",
+  json: "Json",
+  enum: "String",
+};
+
+interface ModelField {
+  name: string;
+  type: string;
+  attributes: string[];
+}
+
+/**
+ * Field name not yet used by a model, suffixing a number when taken
+ */
+function uniqueName(wanted: string, taken: Set<string>): string {
+  let name = wanted;
+  for (let i = 2; taken.has(name); i++) {
+    name = `${wanted}${i}`;
+  }
+  taken.add(name);
+  return name;
+}
+
+function pluralize(name: string): string {
+  if (/[^aeiou]y$/.test(name)) return `${name.slice(0, -1)}ies`;
+  if (/(s|x|z|ch|sh)$/.test(name)) return `${name}es`;
+  return `${name}s`;
+}
+
+function defaultAttribute(column: Column): string | null {
+  if (column.autoIncrement && column.kind === "integer") {
+    return "@default(autoincrement())";
+  }
+  if (column.primaryKey && column.kind === "uuid") {
+    return "@default(uuid())";
+  }
+
+  const value = column.defaultValue;
+  if (value === null) return null;
+  if (/^(now\(\)|current_timestamp)$/i.test(value) && column.kind.startsWith("date")) {
+    return "@default(now())";
+  }
+  if (column.kind === "boolean" && /^(true|false)$/i.test(value)) {
+    return `@default(${value.toLowerCase()})`;
+  }
+  if (["integer", "number", "decimal"].includes(column.kind)) {
+    return /^-?\d+(\.\d+)?$/.test(value) ? `@default(${value})` : null;
+  }
+  if (column.kind === "enum" && column.enumValues.includes(value)) {
+    return /^[A-Za-z]\w*$/.test(value) ? `@default(${value})` : null;
+  }
+  if (column.kind === "string") {
+    return `@default(${JSON.stringify(value)})`;
+  }
+  return null;
+}
+
+/**
+ * Prisma enums need identifier values; other enums stay strings
+ */
+function enumName(table: Table, column: Column): string | null {
+  if (
+    column.kind !== "enum" || column.enumValues.length === 0 ||
+    !column.enumValues.every((value) => /^[A-Za-z]\w*$/.test(value))
+  ) {
+    return null;
+  }
+  return `${toPascalCase(table.entity)}${toPascalCase(column.name)}`;
+}
+
+/**
+ * Prisma schema for a model, targeting PostgreSQL
+ */
+export function renderPrisma(model: CodegenModel): string {
+  const tables = new Map(model.tables.map((t) => [t.entity, t]));
+  const fields = new Map<string, ModelField[]>();
+  const taken = new Map<string, Set<string>>();
+  const enums: string[] = [];
+
+  for (const table of model.tables) {
+    const names = new Set(table.columns.map((c) => c.name));
+    taken.set(table.entity, names);
+    const keys = table.columns.filter((c) => c.primaryKey);
+
+    fields.set(table.entity, table.columns.map((column) => {
+      const enumType = enumName(table, column);
+      if (enumType) {
+        enums.push(
+          `enum ${enumType} {\n${column.enumValues.map((v) => `  ${v}`).join("\n")}\n}`,
+        );
+      }
+
+      const attributes: string[] = [];
+      if (column.primaryKey && keys.length === 1) attributes.push("@id");
+      const defaultValue = defaultAttribute(column);
+      if (defaultValue) attributes.push(defaultValue);
+      if (column.unique && !column.primaryKey) attributes.push("@unique");
+      if (column.kind === "date") attributes.push("@db.Date");
+      if (column.kind === "uuid") attributes.push("@db.Uuid");
+
+      const base = enumType ?? PRISMA_TYPES[column.kind];
+      const type = column.list
+        ? (column.kind === "json" ? "Json" : `${base}[]`)
+        : `${base}${column.nullable ? "?" : ""}`;
+      return { name: column.name, type, attributes };
+    }));
+  }
+
+  // Relations between the same two models need names to tell them apart
+  const pairCounts = new Map<string, number>();
+  const pairKey = (a: string, b: string) => [a, b].sort().join("|");
+  for (const table of model.tables) {
+    for (const fk of table.foreignKeys) {
+      const key = pairKey(table.entity, fk.references);
+      pairCounts.set(key, (pairCounts.get(key) ?? 0) + 1);
+    }
+  }
+  for (const join of model.joinTables) {
+    const key = pairKey(join.left.entity, join.right.entity);
+    pairCounts.set(key, (pairCounts.get(key) ?? 0) + 1);
+  }
+
+  for (const table of model.tables) {
+    for (const fk of table.foreignKeys) {
+      const parent = tables.get(fk.references)!;
+      const named = (pairCounts.get(pairKey(table.entity, parent.entity)) ?? 0) > 1 ||
+        table.entity === parent.entity;
+      const relationName = named ? `"${table.name}_${fk.column}"` : null;
+      const column = table.columns.find((c) => c.name === fk.column)!;
+
+      const childField = uniqueName(
+        toCamelCase(parent.entity),
+        taken.get(table.entity)!,
+      );
+      fields.get(table.entity)!.push({
+        name: childField,
+        type: `${toPascalCase(parent.entity)}${column.nullable ? "?" : ""}`,
+        attributes: [
+          `@relation(${relationName ? `${relationName}, ` : ""}fields: [${fk.column}], references: [${fk.referencesColumn}])`,
+        ],
+      });
+
+      const parentField = uniqueName(
+        fk.oneToOne ? toCamelCase(table.entity) : pluralize(toCamelCase(table.entity)),
+        taken.get(parent.entity)!,
+      );
+      fields.get(parent.entity)!.push({
+        name: parentField,
+        type: `${toPascalCase(table.entity)}${fk.oneToOne ? "?" : "[]"}`,
+        attributes: relationName ? [`@relation(${relationName})`] : [],
+      });
+    }
+  }
+
+  for (const join of model.joinTables) {
+    const named = (pairCounts.get(pairKey(join.left.entity, join.right.entity)) ?? 0) > 1;
+    const attributes = named ? [`@relation("${join.name}")`] : [];
+    for (const [from, to] of [[join.left.entity, join.right.entity], [join.right.entity, join.left.entity]]) {
+      fields.get(from)!.push({
+        name: uniqueName(pluralize(toCamelCase(to)), taken.get(from)!),
+        type: `${toPascalCase(to)}[]`,
+        attributes,
+      });
+    }
+  }
+
+  const models = model.tables.map((table) => {
+    const modelFields = fields.get(table.entity)!;
+    const nameWidth = Math.max(...modelFields.map((f) => f.name.length));
+    const typeWidth = Math.max(...modelFields.map((f) => f.type.length));
+    const lines = modelFields.map((field) =>
+      `  ${field.name.padEnd(nameWidth)} ${
+        field.attributes.length > 0
+          ? `${field.type.padEnd(typeWidth)} ${field.attributes.join(" ")}`
+          : field.type
+      }`
+    );
+
+    const keys = table.columns.filter((c) => c.primaryKey);
+    const blockAttributes: string[] = [];
+    if (keys.length > 1) {
+      blockAttributes.push(`@@id([${keys.map((k) => k.name).join(", ")}])`);
+    }
+    if (toPascalCase(table.entity) !== table.name) {
+      blockAttributes.push(`@@map("${table.name}")`);
+    }
+    if (blockAttributes.length > 0) {
+      lines.push("", ...blockAttributes.map((attribute) => `  ${attribute}`));
+    }
+
+    const comment = table.description
+      ? `/// ${table.description.replace(/\s+/g, " ")}\n`
+      : "";
+    return `${comment}model ${toPascalCase(table.entity)} {\n${lines.join("\n")}\n}`;
+  });
+
+  return [
+    "// Prisma schema generated from data-model.md",
+    "",
+    "generator client {\n  provider = \"prisma-client-js\"\n}",
+    "",
+    "datasource db {\n  provider = \"postgresql\"\n  url      = env(\"DATABASE_URL\")\n}",
+    "",
+    [...models, ...enums].join("\n\n"),
+    "",
+  ].join("\n");
+}
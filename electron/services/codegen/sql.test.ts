@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { buildCodegenModel, type SourceEntity } from "./model";
+import { renderSql } from "./sql";
+
+const entities: SourceEntity[] = [
+  {
+    name: "Feature",
+    description: null,
+    attributes: [{ name: "id", type: "INTEGER", constraints: "PRIMARY KEY" }],
+    relationships: [
+      { target: "Tasks", type: "1:N", description: "Feature has many Tasks" },
+    ],
+  },
+  {
+    name: "Task",
+    description: null,
+    attributes: [{ name: "id", type: "INTEGER", constraints: "PRIMARY KEY" }],
+    relationships: [
+      { target: "Tags", type: "N:N", description: "Task has many Tags" },
+    ],
+  },
+  {
+    name: "Tag",
+    description: null,
+    attributes: [{ name: "id", type: "UUID", constraints: "PRIMARY KEY" }],
+    relationships: [],
+  },
+];
+
+describe("renderSql", () => {
+  it("writes SQLite foreign keys inside the tables and a join table for N:N", () => {
+    const sql = renderSql(buildCodegenModel(entities), "sqlite");
+
+    expect(sql).toContain("PRAGMA foreign_keys = ON;");
+    expect(sql).toContain("FOREIGN KEY (feature_id) REFERENCES feature(id)");
+    expect(sql).toContain([
+      "CREATE TABLE IF NOT EXISTS tag_task (",
+      "  tag_id TEXT NOT NULL,",
+      "  task_id INTEGER NOT NULL,",
+      "  PRIMARY KEY (tag_id, task_id),",
+      "  FOREIGN KEY (tag_id) REFERENCES tag(id) ON DELETE CASCADE,",
+      "  FOREIGN KEY (task_id) REFERENCES task(id) ON DELETE CASCADE",
+      ");",
+    ].join("\n"));
+    // Referenced tables are created before the tables that reference them
+    expect(sql.indexOf("CREATE TABLE IF NOT EXISTS feature ("))
+      .toBeLessThan(sql.indexOf("CREATE TABLE IF NOT EXISTS task ("));
+  });
+
+  it("adds PostgreSQL foreign keys once every table exists", () => {
+    const sql = renderSql(buildCodegenModel(entities), "postgres");
+
+    expect(sql).not.toContain("FOREIGN KEY (feature_id) REFERENCES feature(id),");
+    expect(sql).toContain(
+      "ALTER TABLE task ADD CONSTRAINT task_feature_id_fkey FOREIGN KEY (feature_id) REFERENCES feature(id);",
+    );
+    expect(sql).toContain("tag_id UUID NOT NULL");
+    expect(sql.lastIndexOf("CREATE TABLE")).toBeLessThan(sql.indexOf("ALTER TABLE"));
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Speckit Dashboard - SQL Generator
+ * SQLite and PostgreSQL DDL for a code generation model
+ */
+
+import type { CodegenModel, Column, ColumnKind, Table } from "./model";
+
+export type SqlDialect = "sqlite" | "postgres";
+
+const SQL_TYPES: Record<SqlDialect, Record<ColumnKind, string>> = {
+  sqlite: {
+    string: "TEXT",
+    uuid: "TEXT",
+    integer: "INTEGER",
+    number: "REAL",
+    decimal: "NUMERIC",
+    boolean: "INTEGER",
+    date: "TEXT",
+    datetime: "TEXT",
+    json: "TEXT",
+    enum: "TEXT",
+  },
+  postgres: {
+    string: "TEXT",
+    uuid: "UUID",
+    integer: "INTEGER",
+    number: "DOUBLE PRECISION",
+    decimal: "NUMERIC",
+    boolean: "BOOLEAN",
+    date: "DATE",
+    datetime: "TIMESTAMPTZ",
+    json: "JSONB",
+    enum: "TEXT",
+  },
+};
+
+const RESERVED = new Set([
+  "user", "order", "group", "table", "column", "select", "where", "from",
+  "to", "index", "key", "default", "check", "references", "primary",
+]);
+
+/**
+ * Identifier, quoted when it is reserved or not a plain name
+ */
+function quote(name: string): string {
+  return /^[a-z_][a-z0-9_]*$/.test(name) && !RESERVED.has(name)
+    ? name
+    : `"${name.replace(/"/g, '""')}"`;
+}
+
+function sqlLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Default clause of a literal default, or null when it cannot be written
+ */
+function defaultClause(column: Column, dialect: SqlDialect): string | null {
+  const value = column.defaultValue;
+  if (value === null) return null;
+
+  if (column.kind === "boolean" && /^(true|false)$/i.test(value)) {
+    const on = value.toLowerCase() === "true";
+    return dialect === "sqlite" ? (on ? "1" : "0") : (on ? "TRUE" : "FALSE");
+  }
+  if (["integer", "number", "decimal"].includes(column.kind)) {
+    return /^-?\d+(\.\d+)?$/.test(value) ? value : null;
+  }
+  if (/^(now\(\)|current_timestamp)$/i.test(value)) {
+    return "CURRENT_TIMESTAMP";
+  }
+  // Other function calls and expressions are left to the implementation
+  if (/\(.*\)/.test(value)) return null;
+  return sqlLiteral(value);
+}
+
+function columnType(column: Column, dialect: SqlDialect): string {
+  if (column.list) {
+    return dialect === "sqlite" ? "TEXT" : "JSONB";
+  }
+  return SQL_TYPES[dialect][column.kind];
+}
+
+function columnDefinition(
+  column: Column,
+  singlePrimaryKey: boolean,
+  dialect: SqlDialect,
+): string {
+  const parts = [quote(column.name), columnType(column, dialect)];
+
+  if (column.primaryKey && singlePrimaryKey) {
+    parts.push("PRIMARY KEY");
+    if (column.autoIncrement && column.kind === "integer") {
+      parts.push(
+        dialect === "sqlite" ? "AUTOINCREMENT" : "GENERATED ALWAYS AS IDENTITY",
+      );
+    }
+  } else if (!column.nullable) {
+    parts.push("NOT NULL");
+  }
+  if (column.unique && !column.primaryKey) {
+    parts.push("UNIQUE");
+  }
+
+  const defaultValue = defaultClause(column, dialect);
+  if (defaultValue) {
+    parts.push(`DEFAULT ${defaultValue}`);
+  }
+  if (column.kind === "enum" && column.enumValues.length > 0 && !column.list) {
+    parts.push(
+      `CHECK (${quote(column.name)} IN (${column.enumValues.map(sqlLiteral).join(", ")}))`,
+    );
+  }
+
+  return parts.join(" ");
+}
+
+function renderTable(
+  table: Table,
+  tableNames: Map<string, string>,
+  dialect: SqlDialect,
+): string {
+  const keys = table.columns.filter((column) => column.primaryKey);
+  const lines = table.columns.map((column) =>
+    columnDefinition(column, keys.length === 1, dialect)
+  );
+
+  if (keys.length > 1) {
+    lines.push(`PRIMARY KEY (${keys.map((k) => quote(k.name)).join(", ")})`);
+  }
+  // PostgreSQL foreign keys are added once every table exists
+  if (dialect === "sqlite") {
+    for (const fk of table.foreignKeys) {
+      lines.push(
+        `FOREIGN KEY (${quote(fk.column)}) REFERENCES ${
+          quote(tableNames.get(fk.references)!)
+        }(${quote(fk.referencesColumn)})`,
+      );
+    }
+  }
+
+  const comment = table.description ? `-- ${table.description.replace(/\s+/g, " ")}\n` : "";
+  return `${comment}CREATE TABLE IF NOT EXISTS ${quote(table.name)} (\n  ${lines.join(",\n  ")}\n);`;
+}
+
+/**
+ * DDL for every table, join table and foreign key of a model
+ */
+export function renderSql(model: CodegenModel, dialect: SqlDialect): string {
+  const tableNames = new Map(model.tables.map((t) => [t.entity, t.name]));
+  const tables = new Map(model.tables.map((t) => [t.entity, t]));
+  const statements = model.tables.map((table) =>
+    renderTable(table, tableNames, dialect)
+  );
+
+  for (const join of model.joinTables) {
+    const side = (ref: typeof join.left) => {
+      const target = tables.get(ref.entity)!;
+      const key = target.columns.find((c) => c.name === ref.referencesColumn)!;
+      return {
+        definition: `${quote(ref.column)} ${SQL_TYPES[dialect][key.kind]} NOT NULL`,
+        foreignKey: `FOREIGN KEY (${quote(ref.column)}) REFERENCES ${
+          quote(target.name)
+        }(${quote(ref.referencesColumn)}) ON DELETE CASCADE`,
+      };
+    };
+    const left = side(join.left);
+    const right = side(join.right);
+
+    statements.push(
+      `-- ${join.left.entity} and ${join.right.entity} (N:N)\nCREATE TABLE IF NOT EXISTS ${quote(join.name)} (\n  ${
+        [
+          left.definition,
+          right.definition,
+          `PRIMARY KEY (${quote(join.left.column)}, ${quote(join.right.column)})`,
+          left.foreignKey,
+          right.foreignKey,
+        ].join(",\n  ")
+      }\n);`,
+    );
+  }
+
+  if (dialect === "postgres") {
+    for (const table of model.tables) {
+      for (const fk of table.foreignKeys) {
+        statements.push(
+          `ALTER TABLE ${quote(table.name)} ADD CONSTRAINT ${
+            quote(`${table.name}_${fk.column}_fkey`.toLowerCase())
+          } FOREIGN KEY (${quote(fk.column)}) REFERENCES ${
+            quote(tableNames.get(fk.references)!)
+          }(${quote(fk.referencesColumn)});`,
+        );
+      }
+    }
+  }
+
+  // Foreign keys are only enforced when the connection turns them on
+  const header = dialect === "sqlite"
+    ? "-- SQLite schema generated from data-model.md\nPRAGMA foreign_keys = ON;"
+    : "-- PostgreSQL schema generated from data-model.md";
+
+  return `${header}\n\n${statements.join("\n\n")}\n`;
+}
@@ -0,0 +1,133 @@
+/**
+ * Speckit Dashboard - TypeScript Generator
+ * TypeScript interfaces and zod schemas for the rows of a code generation
+ * model
+ */
+
+import {
+  type CodegenModel,
+  type Column,
+  type ColumnKind,
+  type JoinTable,
+  type Table,
+  toCamelCase,
+  toPascalCase,
+} from "./model";
+
+const TS_TYPES: Record<Exclude<ColumnKind, "enum">, string> = {
+  string: "string",
+  uuid: "string",
+  integer: "number",
+  number: "number",
+  decimal: "string",
+  boolean: "boolean",
+  date: "string",
+  datetime: "string",
+  json: "unknown",
+};
+
+const ZOD_TYPES: Record<Exclude<ColumnKind, "enum">, string> = {
+  string: "z.string()",
+  uuid: "z.string().uuid()",
+  integer: "z.number().int()",
+  number: "z.number()",
+  decimal: "z.string()",
+  boolean: "z.boolean()",
+  date: "z.coerce.date()",
+  datetime: "z.coerce.date()",
+  json: "z.unknown()",
+};
+
+/**
+ * Property name, quoted when it is not a plain identifier
+ */
+function propertyName(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function tsType(column: Column): string {
+  const base = column.kind === "enum"
+    ? column.enumValues.length > 0
+      ? column.enumValues.map((v) => JSON.stringify(v)).join(" | ")
+      : "string"
+    : TS_TYPES[column.kind];
+  const type = column.list
+    ? (base.includes("|") ? `Array<${base}>` : `${base}[]`)
+    : base;
+  return column.nullable ? `${type} | null` : type;
+}
+
+function zodType(column: Column): string {
+  let type = column.kind === "enum"
+    ? column.enumValues.length > 0
+      ? `z.enum([${column.enumValues.map((v) => JSON.stringify(v)).join(", ")}])`
+      : "z.string()"
+    : ZOD_TYPES[column.kind];
+  if (column.list) type = `z.array(${type})`;
+  if (column.nullable) type = `${type}.nullable()`;
+  return type;
+}
+
+/**
+ * Columns of a join table, typed as the keys they reference
+ */
+function joinColumns(join: JoinTable, tables: Map<string, Table>): Column[] {
+  return [join.left, join.right].map((side) => {
+    const key = tables.get(side.entity)!.columns
+      .find((c) => c.name === side.referencesColumn)!;
+    return { ...key, name: side.column, nullable: false, list: false };
+  });
+}
+
+function rowTypes(model: CodegenModel): Array<{
+  name: string;
+  description: string | null;
+  columns: Column[];
+}> {
+  const tables = new Map(model.tables.map((t) => [t.entity, t]));
+  return [
+    ...model.tables.map((table) => ({
+      name: toPascalCase(table.entity),
+      description: table.description,
+      columns: table.columns,
+    })),
+    ...model.joinTables.map((join) => ({
+      name: toPascalCase(join.name),
+      description: `${join.left.entity} and ${join.right.entity} (N:N)`,
+      columns: joinColumns(join, tables),
+    })),
+  ];
+}
+
+function docComment(description: string | null): string {
+  return description ? `/**\n * ${description.replace(/\s+/g, " ")}\n */\n` : "";
+}
+
+/**
+ * An interface per table and join table
+ */
+export function renderTypeScript(model: CodegenModel): string {
+  const interfaces = rowTypes(model).map(({ name, description, columns }) =>
+    `${docComment(description)}export interface ${name} {\n${
+      columns.map((c) => `  ${propertyName(c.name)}: ${tsType(c)};`).join("\n")
+    }\n}`
+  );
+
+  return `// Types generated from data-model.md\n\n${interfaces.join("\n\n")}\n`;
+}
+
+/**
+ * A zod schema and inferred type per table and join table
+ */
+export function renderZod(model: CodegenModel): string {
+  const schemas = rowTypes(model).map(({ name, description, columns }) => {
+    const schemaName = `${toCamelCase(name)}Schema`;
+    return `${docComment(description)}export const ${schemaName} = z.object({\n${
+      columns.map((c) => `  ${propertyName(c.name)}: ${zodType(c)},`).join("\n")
+    }\n});\n\nexport type ${name} = z.infer<typeof ${schemaName}>;`;
+  });
+
+  return `// Schemas generated from data-model.md\n\nimport { z } from "zod";\n\n${
+    schemas.join("\n\n")
+  }\n`;
+}
@@ -4,7 +4,6 @@
  */
 
 import Database from "better-sqlite3";
-import { app } from "electron";
 import path from "path";
 import fs from "fs";
 
@@ -29,6 +28,8 @@ interface DbFeature {
   priority: string | null;
   created_date: string | null;
   task_completion_pct: number;
+  dependency_errors: string | null;
+  tasks_hash: string | null;
   created_at: number;
   updated_at: number;
 }
@@ -46,6 +47,7 @@ interface DbTask {
   story_label: string | null;
   file_path: string | null;
   line_number: number | null;
+  requirement_refs: string | null;
   created_at: number;
   updated_at: number;
 }
@@ -63,30 +65,328 @@ interface DbEntity {
   updated_at: number;
 }
 
-class DatabaseService {
-  private db: Database.Database | null = null;
-  private dbPath: string;
+interface DbUserStory {
+  id: number;
+  feature_id: number;
+  story_label: string;
+  title: string;
+  priority: string;
+  description: string | null;
+  acceptance_scenarios: string | null;
+  story_order: number;
+  created_at: number;
+  updated_at: number;
+}
 
-  constructor() {
-    // Use app data directory for persistent storage
-    const userDataPath = app.getPath("userData");
-    const dbDir = path.join(userDataPath, "speckit-dash");
+interface DbParseDiagnostic {
+  id: number;
+  feature_id: number;
+  file_path: string;
+  line_number: number;
+  column_number: number;
+  severity: "error" | "warning" | "info";
+  rule_code: string;
+  message: string;
+  created_at: number;
+}
 
-    // Ensure directory exists
-    if (!fs.existsSync(dbDir)) {
-      fs.mkdirSync(dbDir, { recursive: true });
-    }
+interface DbSearchResult {
+  feature_id: number;
+  feature_number: string;
+  feature_title: string | null;
+  file_path: string;
+  heading: string;
+  line_start: number;
+  line_end: number;
+  snippet: string;
+}
 
-    this.dbPath = path.join(dbDir, "data.db");
-  }
+type DbAnalysisType = "summary" | "consistency" | "gaps" | "architecture";
+
+export interface DbAnalysisResult {
+  id: number;
+  request_id: string;
+  feature_id: number;
+  file_path: string | null;
+  analysis_type: DbAnalysisType;
+  content: string;
+  token_count: number | null;
+  duration: number;
+  validation_status: "valid" | "repaired" | "invalid";
+  validation_errors: string | null; // JSON array
+  attempts: number;
+  provider: string | null;
+  model: string | null;
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  cost: number | null;
+  input_files: string | null; // JSON array
+  input_hash: string | null;
+  prompt_version: string | null;
+  created_at: number;
+}
+
+type DbProjectAnalysisType = "conflicts" | "integrity";
+
+export interface DbProjectAnalysisResult {
+  id: number;
+  request_id: string;
+  project_id: number;
+  analysis_type: DbProjectAnalysisType;
+  content: string;
+  token_count: number | null;
+  duration: number;
+  validation_status: "valid" | "repaired" | "invalid";
+  validation_errors: string | null; // JSON array
+  attempts: number;
+  provider: string | null;
+  model: string | null;
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  cost: number | null;
+  chunk_count: number;
+  input_hash: string | null;
+  prompt_version: string | null;
+  created_at: number;
+}
+
+export interface DbChatConversation {
+  id: number;
+  project_id: number;
+  feature_id: number | null; // null for project-wide conversations
+  title: string;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface DbChatMessage {
+  id: number;
+  conversation_id: number;
+  role: "user" | "assistant";
+  content: string;
+  citations: string | null; // JSON array
+  provider: string | null;
+  model: string | null;
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  token_count: number | null;
+  cost: number | null;
+  created_at: number;
+}
+
+export interface DbDiagramLayout {
+  feature_id: number;
+  diagram: "schema" | "architecture";
+  direction: "TB" | "LR";
+  positions: string; // JSON object
+  collapsed: string; // JSON array
+  viewport: string | null; // JSON object
+  updated_at: number;
+}
+
+/**
+ * Indexed section of a spec artifact, with its content
+ */
+export interface DbSearchSection {
+  feature_id: number;
+  feature_number: string;
+  file_path: string;
+  heading: string;
+  content: string;
+  line_start: number;
+  line_end: number;
+}
+
+export interface DbModelPricing {
+  model: string;
+  prompt_price: number; // USD per million tokens
+  completion_price: number;
+  source: "manual" | "openrouter";
+  updated_at: number;
+}
+
+export interface DbUsageBudget {
+  id: number;
+  project_id: number | null; // null for the global budget
+  monthly_limit: number;
+  updated_at: number;
+}
+
+export type UsageGroup = "project" | "feature" | "type" | "day" | "model";
+
+export interface DbUsageRow {
+  key: string;
+  label: string;
+  analyses: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost: number;
+  unpriced: number; // analyses with tokens but no price
+}
+
+// Grouping expressions for usage breakdowns, over USAGE_ROWS ar joined with
+// projects p and, for feature analyses, features f
+const USAGE_GROUPS: Record<UsageGroup, { key: string; label: string }> = {
+  project: { key: "p.id", label: "p.name" },
+  feature: {
+    key: "COALESCE(f.id, 'project')",
+    label: "COALESCE(f.feature_number || '-' || f.feature_name, 'Project-wide')",
+  },
+  type: { key: "ar.analysis_type", label: "ar.analysis_type" },
+  day: {
+    key: "date(ar.created_at / 1000, 'unixepoch', 'localtime')",
+    label: "date(ar.created_at / 1000, 'unixepoch', 'localtime')",
+  },
+  model: {
+    key: "COALESCE(ar.model, 'unknown')",
+    label: "COALESCE(ar.model, 'unknown')",
+  },
+};
+
+// Feature and project analyses, tasks drafts, prompt test runs and chat
+// answers as one set of rows for usage accounting; feature_id is NULL for
+// project-wide ones
+const USAGE_ROWS = `
+  SELECT f.project_id, ar.feature_id, ar.analysis_type, ar.model,
+    ar.prompt_tokens, ar.completion_tokens, ar.token_count, ar.cost,
+    ar.created_at
+  FROM analysis_results ar
+  JOIN features f ON f.id = ar.feature_id
+  UNION ALL
+  SELECT pr.project_id, NULL, pr.analysis_type, pr.model,
+    pr.prompt_tokens, pr.completion_tokens, pr.token_count, pr.cost,
+    pr.created_at
+  FROM project_analysis_results pr
+  UNION ALL
+  SELECT f.project_id, td.feature_id, 'tasks', td.model,
+    td.prompt_tokens, td.completion_tokens, td.token_count, td.cost,
+    td.created_at
+  FROM tasks_drafts td
+  JOIN features f ON f.id = td.feature_id
+  UNION ALL
+  SELECT f.project_id, pt.feature_id, 'prompt-test', pt.model,
+    pt.prompt_tokens, pt.completion_tokens, pt.token_count, pt.cost,
+    pt.created_at
+  FROM prompt_tests pt
+  JOIN features f ON f.id = pt.feature_id
+  UNION ALL
+  SELECT cc.project_id, cc.feature_id, 'chat', cm.model,
+    cm.prompt_tokens, cm.completion_tokens, cm.token_count, cm.cost,
+    cm.created_at
+  FROM chat_messages cm
+  JOIN chat_conversations cc ON cc.id = cm.conversation_id
+  WHERE cm.role = 'assistant'
+`;
+
+/**
+ * Outcome of validating an AI response against its schema
+ * "repaired" results needed re-prompting; "invalid" ones never matched and
+ * are kept for inspection only
+ */
+export interface AnalysisValidation {
+  status: "valid" | "repaired" | "invalid";
+  errors: string[];
+  attempts: number;
+}
+
+/**
+ * Provider and model that produced an analysis result
+ */
+export interface AnalysisModel {
+  provider: string;
+  model: string;
+}
+
+/**
+ * Inputs an analysis result was generated from
+ */
+export interface AnalysisInputs {
+  inputFiles: string[];
+  inputHash: string;
+  promptVersion: string;
+}
+
+/**
+ * Token split and cost of an analysis result
+ */
+export interface AnalysisUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+  /** USD, or null when the model has no price */
+  cost: number | null;
+}
+
+interface DbProjectSnapshot {
+  id: number;
+  project_id: number;
+  total_features: number;
+  features_draft: number;
+  features_approved: number;
+  features_in_progress: number;
+  features_complete: number;
+  avg_task_completion: number;
+  total_tasks: number;
+  tasks_not_started: number;
+  tasks_in_progress: number;
+  tasks_done: number;
+  created_at: number;
+}
+
+// Current analysis_results definition, shared by the safeguard below and the
+// migration that rebuilds older tables
+const ANALYSIS_RESULTS_TABLE = `
+  CREATE TABLE IF NOT EXISTS analysis_results (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    request_id TEXT UNIQUE NOT NULL,
+    feature_id INTEGER NOT NULL,
+    file_path TEXT,
+    analysis_type TEXT NOT NULL CHECK(analysis_type IN ('summary', 'consistency', 'gaps', 'architecture')),
+    content TEXT NOT NULL,
+    token_count INTEGER,
+    duration INTEGER NOT NULL,
+    validation_status TEXT NOT NULL DEFAULT 'valid' CHECK(validation_status IN ('valid', 'repaired', 'invalid')),
+    validation_errors TEXT,
+    attempts INTEGER NOT NULL DEFAULT 1,
+    provider TEXT,
+    model TEXT,
+    prompt_tokens INTEGER,
+    completion_tokens INTEGER,
+    cost REAL,
+    input_files TEXT,
+    input_hash TEXT,
+    prompt_version TEXT,
+    created_at INTEGER NOT NULL,
+    FOREIGN KEY (feature_id) REFERENCES features(id) ON DELETE CASCADE
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_analysis_feature ON analysis_results(feature_id);
+  CREATE INDEX IF NOT EXISTS idx_analysis_request ON analysis_results(request_id);
+`;
+
+class DatabaseService {
+  private db: Database.Database | null = null;
+  private log: (message: string) => void = (message) => console.log(message);
 
   /**
    * Initialize the database connection and create schema
+   * The caller picks the location (the app data directory for the desktop
+   * app, any path or ":memory:" for the CLI), which keeps Electron out of
+   * this module
+   * Migration progress goes to `log`, which the CLI points at stderr to keep
+   * stdout for its report
    */
-  initialize(): void {
+  initialize(dbPath: string, log?: (message: string) => void): void {
     if (this.db) return;
+    if (log) this.log = log;
+
+    // Ensure directory exists
+    const dbDir = path.dirname(dbPath);
+    if (dbPath !== ":memory:" && !fs.existsSync(dbDir)) {
+      fs.mkdirSync(dbDir, { recursive: true });
+    }
 
-    this.db = new Database(this.dbPath);
+    this.db = new Database(dbPath);
 
     // Enable WAL mode for better performance
     this.db.pragma("journal_mode = WAL");
@@ -122,6 +422,13 @@ class DatabaseService {
 
     // Migrations
     this.ensureProjectIsActiveColumn();
+    this.ensureFeatureDependencyErrorsColumn();
+    this.ensureFeatureTasksHashColumn();
+    this.ensureTaskRequirementRefsColumn();
+    this.ensureAnalysisResultsValidationColumns();
+    this.ensureAnalysisResultsModelColumns();
+    this.ensureAnalysisResultsUsageColumns();
+    this.ensureAnalysisResultsInputColumns();
   }
 
   /**
@@ -137,13 +444,151 @@ class DatabaseService {
     if (!hasIsActive) {
       try {
         this.db.exec("ALTER TABLE projects ADD COLUMN is_active INTEGER DEFAULT 1");
-        console.log("Added is_active column to projects table");
+        this.log("Added is_active column to projects table");
       } catch (err) {
         console.error("Failed to add is_active column to projects", err);
       }
     }
   }
 
+  /**
+   * Ensure dependency_errors column exists in features table
+   */
+  private ensureFeatureDependencyErrorsColumn(): void {
+    if (!this.db) return;
+
+    const info = this.db.prepare("PRAGMA table_info(features)")
+      .all() as Array<{ name: string }>;
+    const hasColumn = info.some((col) => col.name === "dependency_errors");
+
+    if (!hasColumn) {
+      try {
+        this.db.exec("ALTER TABLE features ADD COLUMN dependency_errors TEXT");
+        this.log("Added dependency_errors column to features table");
+      } catch (err) {
+        console.error("Failed to add dependency_errors column to features", err);
+      }
+    }
+  }
+
+  /**
+   * Ensure tasks_hash column exists in features table
+   */
+  private ensureFeatureTasksHashColumn(): void {
+    if (!this.db) return;
+
+    const info = this.db.prepare("PRAGMA table_info(features)")
+      .all() as Array<{ name: string }>;
+    const hasColumn = info.some((col) => col.name === "tasks_hash");
+
+    if (!hasColumn) {
+      try {
+        this.db.exec("ALTER TABLE features ADD COLUMN tasks_hash TEXT");
+        this.log("Added tasks_hash column to features table");
+      } catch (err) {
+        console.error("Failed to add tasks_hash column to features", err);
+      }
+    }
+  }
+
+  /**
+   * Ensure requirement_refs column exists in tasks table
+   * Filled in by the next sync of each feature
+   */
+  private ensureTaskRequirementRefsColumn(): void {
+    if (!this.db) return;
+
+    const info = this.db.prepare("PRAGMA table_info(tasks)")
+      .all() as Array<{ name: string }>;
+    const hasColumn = info.some((col) => col.name === "requirement_refs");
+
+    if (!hasColumn) {
+      try {
+        this.db.exec("ALTER TABLE tasks ADD COLUMN requirement_refs TEXT");
+        this.log("Added requirement_refs column to tasks table");
+      } catch (err) {
+        console.error("Failed to add requirement_refs column to tasks", err);
+      }
+    }
+  }
+
+  /**
+   * Ensure provider and model columns exist in analysis_results table
+   */
+  private ensureAnalysisResultsModelColumns(): void {
+    if (!this.db) return;
+
+    const info = this.db.prepare("PRAGMA table_info(analysis_results)")
+      .all() as Array<{ name: string }>;
+    const hasColumn = info.some((col) => col.name === "provider");
+
+    if (!hasColumn) {
+      try {
+        this.db.exec(`
+          ALTER TABLE analysis_results ADD COLUMN provider TEXT;
+          ALTER TABLE analysis_results ADD COLUMN model TEXT;
+        `);
+        this.log("Added provider and model columns to analysis_results table");
+      } catch (err) {
+        console.error(
+          "Failed to add provider and model columns to analysis_results",
+          err,
+        );
+      }
+    }
+  }
+
+  /**
+   * Ensure token split and cost columns exist in analysis_results table
+   */
+  private ensureAnalysisResultsUsageColumns(): void {
+    if (!this.db) return;
+
+    const info = this.db.prepare("PRAGMA table_info(analysis_results)")
+      .all() as Array<{ name: string }>;
+    const hasColumn = info.some((col) => col.name === "cost");
+
+    if (!hasColumn) {
+      try {
+        this.db.exec(`
+          ALTER TABLE analysis_results ADD COLUMN prompt_tokens INTEGER;
+          ALTER TABLE analysis_results ADD COLUMN completion_tokens INTEGER;
+          ALTER TABLE analysis_results ADD COLUMN cost REAL;
+        `);
+        this.log("Added usage columns to analysis_results table");
+      } catch (err) {
+        console.error("Failed to add usage columns to analysis_results", err);
+      }
+    }
+  }
+
+  /**
+   * Ensure input fingerprint columns exist in analysis_results table
+   */
+  private ensureAnalysisResultsInputColumns(): void {
+    if (!this.db) return;
+
+    const info = this.db.prepare("PRAGMA table_info(analysis_results)")
+      .all() as Array<{ name: string }>;
+    const hasColumn = info.some((col) => col.name === "input_hash");
+
+    if (!hasColumn) {
+      try {
+        this.db.exec(`
+          ALTER TABLE analysis_results ADD COLUMN input_files TEXT;
+          ALTER TABLE analysis_results ADD COLUMN input_hash TEXT;
+          ALTER TABLE analysis_results ADD COLUMN prompt_version TEXT;
+        `);
+        this.log("Added input fingerprint columns to analysis_results table");
+      } catch (err) {
+        console.error(
+          "Failed to add input fingerprint columns to analysis_results",
+          err,
+        );
+      }
+    }
+  }
+
   /**
    * Ensure the architecture_analysis table exists
    */
@@ -177,23 +622,7 @@ class DatabaseService {
   private ensureAnalysisResultsTable(): void {
     if (!this.db) return;
 
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS analysis_results (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        request_id TEXT UNIQUE NOT NULL,
-        feature_id INTEGER NOT NULL,
-        file_path TEXT,
-        analysis_type TEXT NOT NULL CHECK(analysis_type IN ('summary', 'consistency', 'gaps')),
-        content TEXT NOT NULL,
-        token_count INTEGER,
-        duration INTEGER NOT NULL,
-        created_at INTEGER NOT NULL,
-        FOREIGN KEY (feature_id) REFERENCES features(id) ON DELETE CASCADE
-      );
-
-      CREATE INDEX IF NOT EXISTS idx_analysis_feature ON analysis_results(feature_id);
-      CREATE INDEX IF NOT EXISTS idx_analysis_request ON analysis_results(request_id);
-    `);
+    this.db.exec(ANALYSIS_RESULTS_TABLE);
 
     // Check if file_path column exists (migration)
     const info = this.db.prepare("PRAGMA table_info(analysis_results)")
@@ -212,6 +641,50 @@ class DatabaseService {
     }
   }
 
+  /**
+   * Rebuild analysis_results with the validation columns
+   * SQLite cannot alter the analysis_type CHECK constraint in place, so the
+   * table is recreated and its rows copied over
+   */
+  private ensureAnalysisResultsValidationColumns(): void {
+    if (!this.db) return;
+
+    const info = this.db.prepare("PRAGMA table_info(analysis_results)")
+      .all() as Array<{ name: string }>;
+    const hasColumn = info.some((col) => col.name === "validation_status");
+
+    if (!hasColumn) {
+      try {
+        this.db.transaction(() => {
+          this.db!.exec(`
+            ALTER TABLE analysis_results RENAME TO analysis_results_old;
+            DROP INDEX IF EXISTS idx_analysis_feature;
+            DROP INDEX IF EXISTS idx_analysis_request;
+          `);
+          this.db!.exec(ANALYSIS_RESULTS_TABLE);
+          this.db!.exec(`
+            INSERT INTO analysis_results (
+              id, request_id, feature_id, file_path, analysis_type, content,
+              token_count, duration, created_at
+            )
+            SELECT
+              id, request_id, feature_id, file_path, analysis_type, content,
+              token_count, duration, created_at
+            FROM analysis_results_old;
+
+            DROP TABLE analysis_results_old;
+          `);
+        })();
+        this.log("Added validation columns to analysis_results table");
+      } catch (err) {
+        console.error(
+          "Failed to add validation columns to analysis_results",
+          err,
+        );
+      }
+    }
+  }
+
   /**
    * Close the database connection
    */
@@ -387,7 +860,26 @@ class DatabaseService {
     );
   }
 
+  updateFeatureDependencyErrors(featureId: number, errors: string[]): void {
+    this.db!.prepare(
+      "UPDATE features SET dependency_errors = ?, updated_at = ? WHERE id = ?",
+    ).run(
+      errors.length > 0 ? JSON.stringify(errors) : null,
+      Date.now(),
+      featureId,
+    );
+  }
+
+  updateFeatureTasksHash(featureId: number, tasksHash: string | null): void {
+    this.db!.prepare(
+      "UPDATE features SET tasks_hash = ? WHERE id = ?",
+    ).run(tasksHash, featureId);
+  }
+
   deleteFeature(id: number): void {
+    // The FTS index is a virtual table, so it is not covered by ON DELETE CASCADE
+    this.deleteSearchSections(id);
+
     const stmt = this.db!.prepare("DELETE FROM features WHERE id = ?");
     stmt.run(id);
   }
@@ -409,6 +901,7 @@ class DatabaseService {
       storyLabel?: string;
       filePath?: string;
       lineNumber?: number;
+      requirementRefs?: string[];
     },
   ): DbTask {
     const now = Date.now();
@@ -419,7 +912,7 @@ class DatabaseService {
         UPDATE tasks SET 
           description = ?, status = ?, phase = ?, phase_order = ?,
           is_parallel = ?, dependencies = ?, story_label = ?,
-          file_path = ?, line_number = ?, updated_at = ?
+          file_path = ?, line_number = ?, requirement_refs = ?, updated_at = ?
         WHERE id = ?
       `);
       stmt.run(
@@ -434,6 +927,9 @@ class DatabaseService {
         options?.storyLabel ?? existing.story_label,
         options?.filePath ?? existing.file_path,
         options?.lineNumber ?? existing.line_number,
+        options?.requirementRefs
+          ? JSON.stringify(options.requirementRefs)
+          : existing.requirement_refs,
         now,
         existing.id,
       );
@@ -446,9 +942,9 @@ class DatabaseService {
       INSERT INTO tasks (
         feature_id, task_id, description, status, phase, phase_order,
         is_parallel, dependencies, story_label, file_path, line_number,
-        created_at, updated_at
+        requirement_refs, created_at, updated_at
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
     const result = stmt.run(
       featureId,
@@ -462,6 +958,9 @@ class DatabaseService {
       options?.storyLabel ?? null,
       options?.filePath ?? null,
       options?.lineNumber ?? null,
+      options?.requirementRefs
+        ? JSON.stringify(options.requirementRefs)
+        : null,
       now,
       now,
     );
@@ -471,6 +970,11 @@ class DatabaseService {
     ) as DbTask;
   }
 
+  getTaskById(id: number): DbTask | null {
+    const stmt = this.db!.prepare("SELECT * FROM tasks WHERE id = ?");
+    return stmt.get(id) as DbTask | null;
+  }
+
   getTaskByTaskId(featureId: number, taskId: string): DbTask | null {
     const stmt = this.db!.prepare(
       "SELECT * FROM tasks WHERE feature_id = ? AND task_id = ?",
@@ -501,6 +1005,8 @@ class DatabaseService {
       attributes?: unknown[];
       relationships?: unknown[];
       validationRules?: string[];
+      /** Null clears transitions removed from the file */
+      stateTransitions?: unknown | null;
     },
   ): DbEntity {
     const now = Date.now();
@@ -509,7 +1015,8 @@ class DatabaseService {
     if (existing) {
       const stmt = this.db!.prepare(`
         UPDATE entities SET 
-          description = ?, attributes = ?, relationships = ?, validation_rules = ?, updated_at = ?
+          description = ?, attributes = ?, relationships = ?, validation_rules = ?,
+          state_transitions = ?, updated_at = ?
         WHERE id = ?
       `);
       stmt.run(
@@ -523,6 +1030,11 @@ class DatabaseService {
         options?.validationRules
           ? JSON.stringify(options.validationRules)
           : existing.validation_rules,
+        options?.stateTransitions !== undefined
+          ? options.stateTransitions
+            ? JSON.stringify(options.stateTransitions)
+            : null
+          : existing.state_transitions,
         now,
         existing.id,
       );
@@ -534,9 +1046,9 @@ class DatabaseService {
     const stmt = this.db!.prepare(`
       INSERT INTO entities (
         feature_id, entity_name, description, attributes, relationships, validation_rules,
-        created_at, updated_at
+        state_transitions, created_at, updated_at
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
     const result = stmt.run(
       featureId,
@@ -545,6 +1057,9 @@ class DatabaseService {
       options?.attributes ? JSON.stringify(options.attributes) : null,
       options?.relationships ? JSON.stringify(options.relationships) : null,
       options?.validationRules ? JSON.stringify(options.validationRules) : null,
+      options?.stateTransitions
+        ? JSON.stringify(options.stateTransitions)
+        : null,
       now,
       now,
     );
@@ -568,6 +1083,23 @@ class DatabaseService {
     return stmt.all(featureId) as DbEntity[];
   }
 
+  /**
+   * Delete a feature's entities, optionally keeping the given entity names
+   */
+  deleteEntitiesByFeature(featureId: number, keepNames: string[] = []): void {
+    if (keepNames.length === 0) {
+      this.db!.prepare("DELETE FROM entities WHERE feature_id = ?").run(
+        featureId,
+      );
+      return;
+    }
+
+    const placeholders = keepNames.map(() => "?").join(", ");
+    this.db!.prepare(
+      `DELETE FROM entities WHERE feature_id = ? AND entity_name NOT IN (${placeholders})`,
+    ).run(featureId, ...keepNames);
+  }
+
   // ========================================
   // Requirement Operations
   // ========================================
@@ -694,6 +1226,12 @@ class DatabaseService {
     }>;
   }
 
+  updateRequirementLinkedTasks(id: number, linkedTasks: string[]): void {
+    this.db!.prepare(
+      "UPDATE requirements SET linked_tasks = ?, updated_at = ? WHERE id = ?",
+    ).run(JSON.stringify(linkedTasks), Date.now(), id);
+  }
+
   deleteRequirementsByFeature(featureId: number): void {
     this.db!.prepare("DELETE FROM requirements WHERE feature_id = ?").run(
       featureId,
@@ -701,37 +1239,41 @@ class DatabaseService {
   }
 
   // ========================================
-  // Research Decision Operations
+  // User Story Operations
   // ========================================
 
-  upsertResearchDecision(
+  upsertUserStory(
     featureId: number,
+    storyLabel: string,
     title: string,
-    decision: string,
     options?: {
-      rationale?: string;
-      alternatives?: string[];
-      context?: string;
+      priority?: string;
+      description?: string;
+      acceptanceScenarios?: string[];
+      storyOrder?: number;
     },
   ): { id: number } {
     const now = Date.now();
 
-    // Check for existing by title
     const existing = this.db!.prepare(
-      "SELECT * FROM research_decisions WHERE feature_id = ? AND title = ?",
-    ).get(featureId, title) as { id: number } | undefined;
+      "SELECT id FROM user_stories WHERE feature_id = ? AND story_label = ?",
+    ).get(featureId, storyLabel) as { id: number } | undefined;
 
     if (existing) {
       const stmt = this.db!.prepare(`
-        UPDATE research_decisions SET 
-          decision = ?, rationale = ?, alternatives = ?, context = ?, updated_at = ?
+        UPDATE user_stories SET
+          title = ?, priority = ?, description = ?, acceptance_scenarios = ?,
+          story_order = ?, updated_at = ?
         WHERE id = ?
       `);
       stmt.run(
-        decision,
-        options?.rationale ?? null,
-        options?.alternatives ? JSON.stringify(options.alternatives) : null,
-        options?.context ?? null,
+        title,
+        options?.priority ?? "P2",
+        options?.description ?? null,
+        options?.acceptanceScenarios
+          ? JSON.stringify(options.acceptanceScenarios)
+          : null,
+        options?.storyOrder ?? 0,
         now,
         existing.id,
       );
@@ -739,18 +1281,186 @@ class DatabaseService {
     }
 
     const stmt = this.db!.prepare(`
-      INSERT INTO research_decisions (
-        feature_id, title, decision, rationale, alternatives, context,
-        created_at, updated_at
+      INSERT INTO user_stories (
+        feature_id, story_label, title, priority, description,
+        acceptance_scenarios, story_order, created_at, updated_at
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
     const result = stmt.run(
       featureId,
+      storyLabel,
       title,
-      decision,
-      options?.rationale ?? null,
-      options?.alternatives ? JSON.stringify(options.alternatives) : null,
+      options?.priority ?? "P2",
+      options?.description ?? null,
+      options?.acceptanceScenarios
+        ? JSON.stringify(options.acceptanceScenarios)
+        : null,
+      options?.storyOrder ?? 0,
+      now,
+      now,
+    );
+
+    return { id: result.lastInsertRowid as number };
+  }
+
+  getUserStoriesByFeature(featureId: number): DbUserStory[] {
+    const stmt = this.db!.prepare(
+      "SELECT * FROM user_stories WHERE feature_id = ? ORDER BY story_order",
+    );
+    return stmt.all(featureId) as DbUserStory[];
+  }
+
+  /**
+   * Delete a feature's user stories, except those listed in keepLabels
+   */
+  deleteUserStoriesByFeature(featureId: number, keepLabels: string[] = []): void {
+    if (keepLabels.length === 0) {
+      this.db!.prepare("DELETE FROM user_stories WHERE feature_id = ?").run(
+        featureId,
+      );
+      return;
+    }
+
+    const placeholders = keepLabels.map(() => "?").join(", ");
+    this.db!.prepare(
+      `DELETE FROM user_stories WHERE feature_id = ? AND story_label NOT IN (${placeholders})`,
+    ).run(featureId, ...keepLabels);
+  }
+
+  // ========================================
+  // Parse Diagnostic Operations
+  // ========================================
+
+  /**
+   * Replace the diagnostics recorded for one file of a feature
+   */
+  replaceParseDiagnostics(
+    featureId: number,
+    filePath: string,
+    diagnostics: Array<{
+      line: number;
+      column: number;
+      severity: "error" | "warning" | "info";
+      code: string;
+      message: string;
+    }>,
+  ): void {
+    const now = Date.now();
+    const insert = this.db!.prepare(`
+      INSERT INTO parse_diagnostics (
+        feature_id, file_path, line_number, column_number, severity,
+        rule_code, message, created_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.db!.transaction(() => {
+      this.deleteParseDiagnostics(featureId, filePath);
+      for (const diagnostic of diagnostics) {
+        insert.run(
+          featureId,
+          filePath,
+          diagnostic.line,
+          diagnostic.column,
+          diagnostic.severity,
+          diagnostic.code,
+          diagnostic.message,
+          now,
+        );
+      }
+    })();
+  }
+
+  /**
+   * Delete a feature's diagnostics, optionally only those of one file
+   */
+  deleteParseDiagnostics(featureId: number, filePath?: string): void {
+    if (filePath) {
+      this.db!.prepare(
+        "DELETE FROM parse_diagnostics WHERE feature_id = ? AND file_path = ?",
+      ).run(featureId, filePath);
+    } else {
+      this.db!.prepare("DELETE FROM parse_diagnostics WHERE feature_id = ?")
+        .run(featureId);
+    }
+  }
+
+  getParseDiagnosticsByFeature(featureId: number): DbParseDiagnostic[] {
+    const stmt = this.db!.prepare(`
+      SELECT * FROM parse_diagnostics
+      WHERE feature_id = ?
+      ORDER BY file_path, line_number, column_number
+    `);
+    return stmt.all(featureId) as DbParseDiagnostic[];
+  }
+
+  getParseDiagnosticsByProject(
+    projectId: number,
+  ): Array<DbParseDiagnostic & { feature_number: string }> {
+    const stmt = this.db!.prepare(`
+      SELECT d.*, f.feature_number
+      FROM parse_diagnostics d
+      JOIN features f ON f.id = d.feature_id
+      WHERE f.project_id = ?
+      ORDER BY f.feature_number, d.file_path, d.line_number, d.column_number
+    `);
+    return stmt.all(projectId) as Array<
+      DbParseDiagnostic & { feature_number: string }
+    >;
+  }
+
+  // ========================================
+  // Research Decision Operations
+  // ========================================
+
+  upsertResearchDecision(
+    featureId: number,
+    title: string,
+    decision: string,
+    options?: {
+      rationale?: string;
+      alternatives?: string[];
+      context?: string;
+    },
+  ): { id: number } {
+    const now = Date.now();
+
+    // Check for existing by title
+    const existing = this.db!.prepare(
+      "SELECT * FROM research_decisions WHERE feature_id = ? AND title = ?",
+    ).get(featureId, title) as { id: number } | undefined;
+
+    if (existing) {
+      const stmt = this.db!.prepare(`
+        UPDATE research_decisions SET 
+          decision = ?, rationale = ?, alternatives = ?, context = ?, updated_at = ?
+        WHERE id = ?
+      `);
+      stmt.run(
+        decision,
+        options?.rationale ?? null,
+        options?.alternatives ? JSON.stringify(options.alternatives) : null,
+        options?.context ?? null,
+        now,
+        existing.id,
+      );
+      return { id: existing.id };
+    }
+
+    const stmt = this.db!.prepare(`
+      INSERT INTO research_decisions (
+        feature_id, title, decision, rationale, alternatives, context,
+        created_at, updated_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const result = stmt.run(
+      featureId,
+      title,
+      decision,
+      options?.rationale ?? null,
+      options?.alternatives ? JSON.stringify(options.alternatives) : null,
       options?.context ?? null,
       now,
       now,
@@ -896,6 +1606,7 @@ class DatabaseService {
     attributes: string | null;
     relationships: string | null;
     validation_rules: string | null;
+    state_transitions: string | null;
     source_file: string | null;
     line_number: number | null;
   } | null {
@@ -1104,6 +1815,189 @@ class DatabaseService {
     };
   }
 
+  // ========================================
+  // Project Snapshot Operations
+  // ========================================
+
+  /**
+   * Record the current project stats as a snapshot
+   * Skips the insert when nothing changed since the latest snapshot
+   */
+  recordProjectSnapshot(projectId: number): DbProjectSnapshot | null {
+    const stats = this.getProjectStats(projectId);
+    const values = [
+      stats.totalFeatures ?? 0,
+      stats.featuresByStatus.draft ?? 0,
+      stats.featuresByStatus.approved ?? 0,
+      stats.featuresByStatus.in_progress ?? 0,
+      stats.featuresByStatus.complete ?? 0,
+      stats.avgTaskCompletion ?? 0,
+      stats.totalTasks ?? 0,
+      stats.tasksByStatus.not_started ?? 0,
+      stats.tasksByStatus.in_progress ?? 0,
+      stats.tasksByStatus.done ?? 0,
+    ];
+
+    const latest = this.getLatestProjectSnapshot(projectId);
+    if (
+      latest &&
+      [
+        latest.total_features,
+        latest.features_draft,
+        latest.features_approved,
+        latest.features_in_progress,
+        latest.features_complete,
+        latest.avg_task_completion,
+        latest.total_tasks,
+        latest.tasks_not_started,
+        latest.tasks_in_progress,
+        latest.tasks_done,
+      ].every((value, i) => value === values[i])
+    ) {
+      return null;
+    }
+
+    const result = this.db!.prepare(`
+      INSERT INTO project_snapshots (
+        project_id, total_features, features_draft, features_approved,
+        features_in_progress, features_complete, avg_task_completion,
+        total_tasks, tasks_not_started, tasks_in_progress, tasks_done, created_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(projectId, ...values, Date.now());
+
+    return this.db!.prepare("SELECT * FROM project_snapshots WHERE id = ?").get(
+      result.lastInsertRowid,
+    ) as DbProjectSnapshot;
+  }
+
+  getLatestProjectSnapshot(projectId: number): DbProjectSnapshot | null {
+    const stmt = this.db!.prepare(`
+      SELECT * FROM project_snapshots
+      WHERE project_id = ?
+      ORDER BY created_at DESC, id DESC
+      LIMIT 1
+    `);
+    return (stmt.get(projectId) as DbProjectSnapshot | undefined) ?? null;
+  }
+
+  getProjectSnapshots(projectId: number, since?: number): DbProjectSnapshot[] {
+    const stmt = this.db!.prepare(`
+      SELECT * FROM project_snapshots
+      WHERE project_id = ? AND created_at >= ?
+      ORDER BY created_at ASC, id ASC
+    `);
+    return stmt.all(projectId, since ?? 0) as DbProjectSnapshot[];
+  }
+
+  // ========================================
+  // Search Index Operations
+  // ========================================
+
+  /**
+   * Replace the indexed sections of one feature file
+   */
+  replaceSearchSections(
+    projectId: number,
+    featureId: number,
+    filePath: string,
+    sections: Array<{
+      heading: string;
+      content: string;
+      lineStart: number;
+      lineEnd: number;
+    }>,
+  ): void {
+    const insert = this.db!.prepare(`
+      INSERT INTO search_index (
+        heading, content, project_id, feature_id, file_path,
+        line_start, line_end
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const replace = this.db!.transaction(() => {
+      this.deleteSearchSections(featureId, filePath);
+      for (const section of sections) {
+        insert.run(
+          section.heading,
+          section.content,
+          projectId,
+          featureId,
+          filePath,
+          section.lineStart,
+          section.lineEnd,
+        );
+      }
+    });
+    replace();
+  }
+
+  /**
+   * Delete indexed sections of a feature, or of a single file when given
+   */
+  deleteSearchSections(featureId: number, filePath?: string): void {
+    if (filePath === undefined) {
+      this.db!.prepare("DELETE FROM search_index WHERE feature_id = ?").run(
+        featureId,
+      );
+      return;
+    }
+
+    this.db!.prepare(
+      "DELETE FROM search_index WHERE feature_id = ? AND file_path = ?",
+    ).run(featureId, filePath);
+  }
+
+  /**
+   * Run an FTS5 match expression against a project's indexed sections
+   * Headings weigh more than body text; snippets wrap hits in the given marks
+   */
+  searchSections(
+    projectId: number,
+    matchExpression: string,
+    options: { limit: number; markStart: string; markEnd: string },
+  ): DbSearchResult[] {
+    const stmt = this.db!.prepare(`
+      SELECT
+        s.feature_id, f.feature_number, f.title AS feature_title,
+        s.file_path, s.heading, s.line_start, s.line_end,
+        snippet(search_index, 1, ?, ?, '…', 16) AS snippet
+      FROM search_index s
+      JOIN features f ON f.id = s.feature_id
+      WHERE search_index MATCH ? AND s.project_id = ?
+      ORDER BY bm25(search_index, 5.0, 1.0)
+      LIMIT ?
+    `);
+    return stmt.all(
+      options.markStart,
+      options.markEnd,
+      matchExpression,
+      projectId,
+      options.limit,
+    ) as DbSearchResult[];
+  }
+
+  /**
+   * Get the indexed sections of a project, or of one of its features
+   */
+  getSearchSections(projectId: number, featureId?: number): DbSearchSection[] {
+    const stmt = this.db!.prepare(`
+      SELECT
+        s.feature_id, f.feature_number, s.file_path, s.heading, s.content,
+        s.line_start, s.line_end
+      FROM search_index s
+      JOIN features f ON f.id = s.feature_id
+      WHERE s.project_id = ? AND (? IS NULL OR s.feature_id = ?)
+      ORDER BY f.feature_number, s.file_path, s.line_start
+    `);
+    return stmt.all(
+      projectId,
+      featureId ?? null,
+      featureId ?? null,
+    ) as DbSearchSection[];
+  }
+
   // ========================================
   // Analysis Results Operations
   // ========================================
@@ -1114,17 +2008,24 @@ class DatabaseService {
   createAnalysisResult(
     requestId: string,
     featureId: number,
-    analysisType: "summary" | "consistency" | "gaps",
+    analysisType: DbAnalysisType,
     content: string,
     duration: number,
     tokenCount?: number,
     filePath?: string,
+    validation?: AnalysisValidation,
+    producedBy?: AnalysisModel,
+    usage?: AnalysisUsage,
+    inputs?: AnalysisInputs,
   ): { id: number; requestId: string } {
     const stmt = this.db!.prepare(`
       INSERT INTO analysis_results (
-        request_id, feature_id, analysis_type, content, token_count, duration, file_path, created_at
+        request_id, feature_id, analysis_type, content, token_count, duration, file_path,
+        validation_status, validation_errors, attempts, provider, model,
+        prompt_tokens, completion_tokens, cost, input_files, input_hash,
+        prompt_version, created_at
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
     const result = stmt.run(
       requestId,
@@ -1134,6 +2035,19 @@ class DatabaseService {
       tokenCount ?? null,
       duration,
       filePath ?? null,
+      validation?.status ?? "valid",
+      validation && validation.errors.length > 0
+        ? JSON.stringify(validation.errors)
+        : null,
+      validation?.attempts ?? 1,
+      producedBy?.provider ?? null,
+      producedBy?.model ?? null,
+      usage?.promptTokens ?? null,
+      usage?.completionTokens ?? null,
+      usage?.cost ?? null,
+      inputs ? JSON.stringify(inputs.inputFiles) : null,
+      inputs?.inputHash ?? null,
+      inputs?.promptVersion ?? null,
       Date.now(),
     );
     return { id: result.lastInsertRowid as number, requestId };
@@ -1142,48 +2056,22 @@ class DatabaseService {
   /**
    * Get analysis result by request ID
    */
-  getAnalysisResultByRequestId(requestId: string): {
-    id: number;
-    request_id: string;
-    feature_id: number;
-    analysis_type: string;
-    content: string;
-    token_count: number | null;
-    duration: number;
-    created_at: number;
-  } | null {
+  getAnalysisResultByRequestId(requestId: string): DbAnalysisResult | null {
     const stmt = this.db!.prepare(
       "SELECT * FROM analysis_results WHERE request_id = ?",
     );
-    return stmt.get(requestId) as {
-      id: number;
-      request_id: string;
-      feature_id: number;
-      analysis_type: string;
-      content: string;
-      token_count: number | null;
-      duration: number;
-      created_at: number;
-    } | null;
+    return (stmt.get(requestId) as DbAnalysisResult | undefined) ?? null;
   }
 
   /**
    * Get analysis results by feature with optional type filter
+   * Includes results that failed validation
    */
   getAnalysisResultsByFeature(
     featureId: number,
-    analysisType?: "summary" | "consistency" | "gaps",
+    analysisType?: DbAnalysisType,
     limit: number = 10,
-  ): Array<{
-    id: number;
-    request_id: string;
-    feature_id: number;
-    analysis_type: string;
-    content: string;
-    token_count: number | null;
-    duration: number;
-    created_at: number;
-  }> {
+  ): DbAnalysisResult[] {
     if (analysisType) {
       const stmt = this.db!.prepare(`
         SELECT * FROM analysis_results 
@@ -1191,16 +2079,7 @@ class DatabaseService {
         ORDER BY created_at DESC
         LIMIT ?
       `);
-      return stmt.all(featureId, analysisType, limit) as Array<{
-        id: number;
-        request_id: string;
-        feature_id: number;
-        analysis_type: string;
-        content: string;
-        token_count: number | null;
-        duration: number;
-        created_at: number;
-      }>;
+      return stmt.all(featureId, analysisType, limit) as DbAnalysisResult[];
     }
     const stmt = this.db!.prepare(`
       SELECT * FROM analysis_results 
@@ -1208,66 +2087,37 @@ class DatabaseService {
       ORDER BY created_at DESC
       LIMIT ?
     `);
-    return stmt.all(featureId, limit) as Array<{
-      id: number;
-      request_id: string;
-      feature_id: number;
-      analysis_type: string;
-      content: string;
-      token_count: number | null;
-      duration: number;
-      created_at: number;
-      file_path: string | null;
-    }>;
+    return stmt.all(featureId, limit) as DbAnalysisResult[];
   }
 
   /**
-   * Get the latest analysis result for a specific feature, type, and optional file
+   * Get valid results generated from exactly these inputs and prompt,
+   * newest first
+   * Rows from before input fingerprints were recorded never match
    */
-  getLatestAnalysisResult(
+  getReusableAnalysisResults(
     featureId: number,
-    analysisType: "summary" | "consistency" | "gaps",
+    analysisType: DbAnalysisType,
+    inputHash: string,
+    promptVersion: string,
     filePath?: string,
-  ): {
-    id: number;
-    request_id: string;
-    feature_id: number;
-    analysis_type: string;
-    content: string;
-    token_count: number | null;
-    duration: number;
-    created_at: number;
-    file_path: string | null;
-  } | null {
-    type AnalysisResult = {
-      id: number;
-      request_id: string;
-      feature_id: number;
-      analysis_type: string;
-      content: string;
-      token_count: number | null;
-      duration: number;
-      created_at: number;
-      file_path: string | null;
-    };
-
-    if (filePath) {
-      const stmt = this.db!.prepare(`
-          SELECT * FROM analysis_results 
-          WHERE feature_id = ? AND analysis_type = ? AND file_path = ?
-          ORDER BY created_at DESC
-          LIMIT 1
-        `);
-      return (stmt.get(featureId, analysisType, filePath) as AnalysisResult | undefined) ?? null;
-    }
-
+  ): DbAnalysisResult[] {
     const stmt = this.db!.prepare(`
-        SELECT * FROM analysis_results 
-        WHERE feature_id = ? AND analysis_type = ?
-        ORDER BY created_at DESC
-        LIMIT 1
-      `);
-    return (stmt.get(featureId, analysisType) as AnalysisResult | undefined) ?? null;
+      SELECT * FROM analysis_results
+      WHERE feature_id = ? AND analysis_type = ?
+        AND input_hash = ? AND prompt_version = ?
+        AND (? IS NULL OR file_path = ?)
+        AND validation_status != 'invalid'
+      ORDER BY created_at DESC
+    `);
+    return stmt.all(
+      featureId,
+      analysisType,
+      inputHash,
+      promptVersion,
+      filePath ?? null,
+      filePath ?? null,
+    ) as DbAnalysisResult[];
   }
 
   /**
@@ -1279,6 +2129,508 @@ class DatabaseService {
     );
   }
 
+  // ========================================
+  // Project Analysis Results Operations
+  // ========================================
+
+  /**
+   * Create a project analysis result record
+   */
+  createProjectAnalysisResult(
+    requestId: string,
+    projectId: number,
+    analysisType: DbProjectAnalysisType,
+    content: string,
+    duration: number,
+    chunkCount: number,
+    tokenCount?: number,
+    validation?: AnalysisValidation,
+    producedBy?: AnalysisModel,
+    usage?: AnalysisUsage,
+    inputs?: Omit<AnalysisInputs, "inputFiles">,
+  ): { id: number; requestId: string } {
+    const stmt = this.db!.prepare(`
+      INSERT INTO project_analysis_results (
+        request_id, project_id, analysis_type, content, token_count, duration,
+        validation_status, validation_errors, attempts, provider, model,
+        prompt_tokens, completion_tokens, cost, chunk_count, input_hash,
+        prompt_version, created_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const result = stmt.run(
+      requestId,
+      projectId,
+      analysisType,
+      content,
+      tokenCount ?? null,
+      duration,
+      validation?.status ?? "valid",
+      validation && validation.errors.length > 0
+        ? JSON.stringify(validation.errors)
+        : null,
+      validation?.attempts ?? 1,
+      producedBy?.provider ?? null,
+      producedBy?.model ?? null,
+      usage?.promptTokens ?? null,
+      usage?.completionTokens ?? null,
+      usage?.cost ?? null,
+      chunkCount,
+      inputs?.inputHash ?? null,
+      inputs?.promptVersion ?? null,
+      Date.now(),
+    );
+    return { id: result.lastInsertRowid as number, requestId };
+  }
+
+  /**
+   * Get project analysis results with optional type filter, newest first
+   * Includes results that failed validation
+   */
+  getProjectAnalysisResults(
+    projectId: number,
+    analysisType?: DbProjectAnalysisType,
+    limit: number = 10,
+  ): DbProjectAnalysisResult[] {
+    const stmt = this.db!.prepare(`
+      SELECT * FROM project_analysis_results
+      WHERE project_id = ? AND (? IS NULL OR analysis_type = ?)
+      ORDER BY created_at DESC
+      LIMIT ?
+    `);
+    return stmt.all(
+      projectId,
+      analysisType ?? null,
+      analysisType ?? null,
+      limit,
+    ) as DbProjectAnalysisResult[];
+  }
+
+  /**
+   * Get valid project results generated from exactly these inputs and
+   * prompt, newest first
+   */
+  getReusableProjectAnalysisResults(
+    projectId: number,
+    analysisType: DbProjectAnalysisType,
+    inputHash: string,
+    promptVersion: string,
+  ): DbProjectAnalysisResult[] {
+    const stmt = this.db!.prepare(`
+      SELECT * FROM project_analysis_results
+      WHERE project_id = ? AND analysis_type = ?
+        AND input_hash = ? AND prompt_version = ?
+        AND validation_status != 'invalid'
+      ORDER BY created_at DESC
+    `);
+    return stmt.all(
+      projectId,
+      analysisType,
+      inputHash,
+      promptVersion,
+    ) as DbProjectAnalysisResult[];
+  }
+
+  // ========================================
+  // Tasks Draft Operations
+  // ========================================
+
+  /**
+   * Record the model calls of a tasks draft, valid or not, so they count
+   * towards usage and budgets
+   */
+  recordTasksDraft(
+    requestId: string,
+    featureId: number,
+    validation: AnalysisValidation,
+    duration: number,
+    producedBy: AnalysisModel,
+    usage: AnalysisUsage,
+    tokenCount?: number,
+  ): void {
+    this.db!.prepare(`
+      INSERT INTO tasks_drafts (
+        request_id, feature_id, validation_status, attempts, provider, model,
+        prompt_tokens, completion_tokens, token_count, cost, duration, created_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      requestId,
+      featureId,
+      validation.status,
+      validation.attempts,
+      producedBy.provider,
+      producedBy.model,
+      usage.promptTokens ?? null,
+      usage.completionTokens ?? null,
+      tokenCount ?? null,
+      usage.cost ?? null,
+      duration,
+      Date.now(),
+    );
+  }
+
+  // ========================================
+  // Prompt Test Operations
+  // ========================================
+
+  /**
+   * Record the model calls of a prompt test run so they count towards usage
+   * and budgets; the output itself is not kept
+   */
+  recordPromptTest(
+    requestId: string,
+    featureId: number,
+    promptId: string,
+    validation: AnalysisValidation,
+    duration: number,
+    producedBy: AnalysisModel,
+    usage: AnalysisUsage,
+    tokenCount?: number,
+  ): void {
+    this.db!.prepare(`
+      INSERT INTO prompt_tests (
+        request_id, feature_id, prompt_id, validation_status, attempts,
+        provider, model, prompt_tokens, completion_tokens, token_count, cost,
+        duration, created_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      requestId,
+      featureId,
+      promptId,
+      validation.status,
+      validation.attempts,
+      producedBy.provider,
+      producedBy.model,
+      usage.promptTokens ?? null,
+      usage.completionTokens ?? null,
+      tokenCount ?? null,
+      usage.cost ?? null,
+      duration,
+      Date.now(),
+    );
+  }
+
+  // ========================================
+  // Chat Operations
+  // ========================================
+
+  createChatConversation(
+    projectId: number,
+    featureId: number | null,
+    title: string,
+  ): DbChatConversation {
+    const now = Date.now();
+    const result = this.db!.prepare(`
+      INSERT INTO chat_conversations (project_id, feature_id, title, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(projectId, featureId, title, now, now);
+
+    return {
+      id: result.lastInsertRowid as number,
+      project_id: projectId,
+      feature_id: featureId,
+      title,
+      created_at: now,
+      updated_at: now,
+    };
+  }
+
+  getChatConversation(conversationId: number): DbChatConversation | null {
+    const stmt = this.db!.prepare(
+      "SELECT * FROM chat_conversations WHERE id = ?",
+    );
+    return (stmt.get(conversationId) as DbChatConversation | undefined) ??
+      null;
+  }
+
+  /**
+   * Get the conversations of a feature, or the project-wide ones when
+   * featureId is null, most recently active first
+   */
+  getChatConversations(
+    projectId: number,
+    featureId: number | null,
+  ): DbChatConversation[] {
+    const stmt = this.db!.prepare(`
+      SELECT * FROM chat_conversations
+      WHERE project_id = ? AND feature_id IS ?
+      ORDER BY updated_at DESC
+    `);
+    return stmt.all(projectId, featureId) as DbChatConversation[];
+  }
+
+  updateChatConversation(conversationId: number, title?: string): void {
+    this.db!.prepare(`
+      UPDATE chat_conversations
+      SET title = COALESCE(?, title), updated_at = ?
+      WHERE id = ?
+    `).run(title ?? null, Date.now(), conversationId);
+  }
+
+  deleteChatConversation(conversationId: number): void {
+    this.db!.prepare("DELETE FROM chat_conversations WHERE id = ?").run(
+      conversationId,
+    );
+  }
+
+  addChatMessage(
+    conversationId: number,
+    role: DbChatMessage["role"],
+    content: string,
+    citations?: unknown[],
+    producedBy?: AnalysisModel,
+    usage?: AnalysisUsage,
+    tokenCount?: number,
+  ): DbChatMessage {
+    const now = Date.now();
+    const result = this.db!.prepare(`
+      INSERT INTO chat_messages (
+        conversation_id, role, content, citations, provider, model,
+        prompt_tokens, completion_tokens, token_count, cost, created_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      conversationId,
+      role,
+      content,
+      citations ? JSON.stringify(citations) : null,
+      producedBy?.provider ?? null,
+      producedBy?.model ?? null,
+      usage?.promptTokens ?? null,
+      usage?.completionTokens ?? null,
+      tokenCount ?? null,
+      usage?.cost ?? null,
+      now,
+    );
+
+    return this.db!.prepare("SELECT * FROM chat_messages WHERE id = ?").get(
+      result.lastInsertRowid,
+    ) as DbChatMessage;
+  }
+
+  getChatMessages(conversationId: number): DbChatMessage[] {
+    const stmt = this.db!.prepare(`
+      SELECT * FROM chat_messages
+      WHERE conversation_id = ?
+      ORDER BY created_at ASC, id ASC
+    `);
+    return stmt.all(conversationId) as DbChatMessage[];
+  }
+
+  /**
+   * Get cached embeddings of a model by content hash
+   */
+  getChatEmbeddings(model: string, contentHashes: string[]): Map<string, Float32Array> {
+    const vectors = new Map<string, Float32Array>();
+    const stmt = this.db!.prepare(
+      "SELECT vector FROM chat_embeddings WHERE content_hash = ? AND model = ?",
+    );
+
+    for (const hash of new Set(contentHashes)) {
+      const row = stmt.get(hash, model) as { vector: Buffer } | undefined;
+      if (row) {
+        vectors.set(
+          hash,
+          new Float32Array(
+            row.vector.buffer.slice(
+              row.vector.byteOffset,
+              row.vector.byteOffset + row.vector.byteLength,
+            ),
+          ),
+        );
+      }
+    }
+    return vectors;
+  }
+
+  saveChatEmbeddings(model: string, vectors: Map<string, Float32Array>): void {
+    const insert = this.db!.prepare(`
+      INSERT OR REPLACE INTO chat_embeddings (content_hash, model, vector, created_at)
+      VALUES (?, ?, ?, ?)
+    `);
+    const now = Date.now();
+
+    this.db!.transaction(() => {
+      for (const [hash, vector] of vectors) {
+        insert.run(
+          hash,
+          model,
+          Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength),
+          now,
+        );
+      }
+    })();
+  }
+
+  // ========================================
+  // Diagram Layout Operations
+  // ========================================
+
+  getDiagramLayout(
+    featureId: number,
+    diagram: DbDiagramLayout["diagram"],
+  ): DbDiagramLayout | null {
+    const stmt = this.db!.prepare(
+      "SELECT * FROM diagram_layouts WHERE feature_id = ? AND diagram = ?",
+    );
+    return (stmt.get(featureId, diagram) as DbDiagramLayout | undefined) ??
+      null;
+  }
+
+  saveDiagramLayout(
+    layout: Omit<DbDiagramLayout, "updated_at">,
+  ): void {
+    this.db!.prepare(`
+      INSERT OR REPLACE INTO diagram_layouts (
+        feature_id, diagram, direction, positions, collapsed, viewport, updated_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      layout.feature_id,
+      layout.diagram,
+      layout.direction,
+      layout.positions,
+      layout.collapsed,
+      layout.viewport,
+      Date.now(),
+    );
+  }
+
+  deleteDiagramLayout(
+    featureId: number,
+    diagram: DbDiagramLayout["diagram"],
+  ): void {
+    this.db!.prepare(
+      "DELETE FROM diagram_layouts WHERE feature_id = ? AND diagram = ?",
+    ).run(featureId, diagram);
+  }
+
+  // ========================================
+  // Usage & Pricing Operations
+  // ========================================
+
+  /**
+   * Get all model prices
+   */
+  getModelPricing(): DbModelPricing[] {
+    return this.db!.prepare(
+      "SELECT * FROM model_pricing ORDER BY model",
+    ).all() as DbModelPricing[];
+  }
+
+  /**
+   * Get the price of a model
+   */
+  getModelPrice(model: string): DbModelPricing | null {
+    const stmt = this.db!.prepare(
+      "SELECT * FROM model_pricing WHERE model = ?",
+    );
+    return (stmt.get(model) as DbModelPricing | undefined) ?? null;
+  }
+
+  /**
+   * Insert or update a model price
+   * Imported prices never replace ones entered manually
+   */
+  upsertModelPricing(
+    model: string,
+    promptPrice: number,
+    completionPrice: number,
+    source: DbModelPricing["source"],
+  ): void {
+    this.db!.prepare(`
+      INSERT INTO model_pricing (model, prompt_price, completion_price, source, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(model) DO UPDATE SET
+        prompt_price = excluded.prompt_price,
+        completion_price = excluded.completion_price,
+        source = excluded.source,
+        updated_at = excluded.updated_at
+      WHERE excluded.source = 'manual' OR model_pricing.source = 'openrouter'
+    `).run(model, promptPrice, completionPrice, source, Date.now());
+  }
+
+  /**
+   * Delete a model price
+   */
+  deleteModelPricing(model: string): void {
+    this.db!.prepare("DELETE FROM model_pricing WHERE model = ?").run(model);
+  }
+
+  /**
+   * Get all monthly budgets
+   */
+  getUsageBudgets(): DbUsageBudget[] {
+    return this.db!.prepare(
+      "SELECT * FROM usage_budgets ORDER BY project_id",
+    ).all() as DbUsageBudget[];
+  }
+
+  /**
+   * Set the monthly budget of a project, or the global one when projectId is
+   * null; a null limit removes the budget
+   */
+  setUsageBudget(projectId: number | null, monthlyLimit: number | null): void {
+    this.db!.transaction(() => {
+      this.db!.prepare("DELETE FROM usage_budgets WHERE project_id IS ?").run(
+        projectId,
+      );
+      if (monthlyLimit !== null) {
+        this.db!.prepare(`
+          INSERT INTO usage_budgets (project_id, monthly_limit, updated_at)
+          VALUES (?, ?, ?)
+        `).run(projectId, monthlyLimit, Date.now());
+      }
+    })();
+  }
+
+  /**
+   * Total cost of analyses since a timestamp, optionally for one project
+   */
+  getSpendSince(since: number, projectId?: number): number {
+    const stmt = this.db!.prepare(`
+      SELECT COALESCE(SUM(ar.cost), 0) AS total
+      FROM (${USAGE_ROWS}) ar
+      WHERE ar.created_at >= ? AND (? IS NULL OR ar.project_id = ?)
+    `);
+    const row = stmt.get(since, projectId ?? null, projectId ?? null) as {
+      total: number;
+    };
+    return row.total;
+  }
+
+  /**
+   * Tokens and cost of analyses since a timestamp, grouped by project,
+   * feature, analysis type, day or model
+   */
+  getUsageBreakdown(
+    groupBy: UsageGroup,
+    since: number,
+    projectId?: number,
+  ): DbUsageRow[] {
+    const group = USAGE_GROUPS[groupBy];
+    const stmt = this.db!.prepare(`
+      SELECT
+        CAST(${group.key} AS TEXT) AS key,
+        ${group.label} AS label,
+        COUNT(*) AS analyses,
+        COALESCE(SUM(ar.prompt_tokens), 0) AS prompt_tokens,
+        COALESCE(SUM(ar.completion_tokens), 0) AS completion_tokens,
+        COALESCE(SUM(ar.token_count), 0) AS total_tokens,
+        COALESCE(SUM(ar.cost), 0) AS cost,
+        SUM(CASE WHEN ar.cost IS NULL AND ar.token_count IS NOT NULL THEN 1 ELSE 0 END) AS unpriced
+      FROM (${USAGE_ROWS}) ar
+      JOIN projects p ON p.id = ar.project_id
+      LEFT JOIN features f ON f.id = ar.feature_id
+      WHERE ar.created_at >= ? AND (? IS NULL OR ar.project_id = ?)
+      GROUP BY ${group.key}
+      ORDER BY ${groupBy === "day" ? "key" : "cost DESC, total_tokens DESC"}
+    `);
+    return stmt.all(since, projectId ?? null, projectId ?? null) as DbUsageRow[];
+  }
+
   // ========================================
   // Enhanced Entity Operations (with source tracking)
   // ========================================
@@ -11,6 +11,21 @@ import { parseTasksContent } from "./parser/tasks-parser";
 import { parseDataModelContent } from "./parser/data-model-parser";
 import { parsePlanContent } from "./parser/plan-parser";
 import { parseResearchContent } from "./parser/research-parser";
+import { type ParseDiagnostic, parseFailure } from "./parser/diagnostics";
+import { hashContent } from "./task-writer";
+import { syncRequirementLinks } from "./traceability";
+import { indexFeatureDirectory, indexFeatureFile } from "./search-index";
+
+type FileEventType = "add" | "change" | "unlink";
+
+/**
+ * Result of syncing a single feature after a file change
+ */
+export interface FeatureSyncResult {
+  featureId: number;
+  featureNumber: string;
+  removed: boolean;
+}
 
 /**
  * Scan and sync all features from a project
@@ -38,246 +53,465 @@ export async function syncProjectFeatures(
 
   for (const featureDir of featureDirs) {
     try {
-      const featurePath = path.join(specsDir, featureDir.name);
-      const featureNumber = featureDir.name;
-      const featureName = featureDir.name.substring(4);
-
-      // Parse spec.md if exists
-      const specPath = path.join(featurePath, "spec.md");
-
-      let specData = {
-        title: featureName,
-        status: "draft",
-        createdDate: null as string | null,
-      };
-      let requirements: Array<
-        {
-          id: string;
-          description: string;
-          type: "functional" | "non_functional" | "constraint";
-        }
-      > = [];
-
-      if (fs.existsSync(specPath)) {
-        const content = fs.readFileSync(specPath, "utf-8");
-
-        try {
-          const parsed = await parseSpecContent(content);
-          specData = {
-            title: parsed.title || featureName,
-            status: parsed.status,
-            createdDate: parsed.createdDate,
-          };
-
-          // Extract requirements
-          requirements = parsed.requirements.map((req) => ({
-            id: req.id,
-            description: req.description,
-            type: req.id.startsWith("NFR")
-              ? "non_functional" as const
-              : "functional" as const,
-          }));
-        } catch (error) {
-          console.error("Error parsing spec.md:", error);
-        }
-      }
-
-      // Upsert feature
-      const feature = databaseService.upsertFeature(
+      const result = await syncFeatureDirectory(
         projectId,
-        featureNumber,
-        featureName,
-        specPath,
-        {
-          title: specData.title,
-          status: specData.status,
-          createdDate: specData.createdDate || undefined,
-        },
+        path.join(specsDir, featureDir.name),
       );
-
-      // Parse and sync tasks.md if exists
-      const tasksPath = path.join(featurePath, "tasks.md");
-      if (fs.existsSync(tasksPath)) {
-        const content = fs.readFileSync(tasksPath, "utf-8");
-        const parsed = parseTasksContent(content);
-
-        // Clear and re-sync tasks
-        databaseService.deleteTasksByFeature(feature.id);
-
-        for (const task of parsed.tasks) {
-          databaseService.upsertTask(
-            feature.id,
-            task.taskId,
-            task.description,
-            task.status,
-            {
-              phase: task.phase || undefined,
-              phaseOrder: task.phaseOrder,
-              isParallel: task.isParallel,
-              storyLabel: task.storyLabel || undefined,
-              filePath: task.filePath || undefined,
-              lineNumber: task.lineNumber,
-            },
-          );
-        }
-
-        // Update feature task completion
-        databaseService.updateFeatureTaskCompletion(feature.id);
-      }
-
-      // Parse and sync data-model.md if exists
-      const dataModelPath = path.join(featurePath, "data-model.md");
-      if (fs.existsSync(dataModelPath)) {
-        const content = fs.readFileSync(dataModelPath, "utf-8");
-        const parsed = await parseDataModelContent(content);
-
-        for (const entity of parsed.entities) {
-          databaseService.upsertEntity(feature.id, entity.name, {
-            description: entity.description || undefined,
-            attributes: entity.attributes,
-            relationships: entity.relationships,
-            validationRules: entity.validationRules,
-          });
-        }
-      }
-
-      // Parse and sync requirements from spec.md
-      if (requirements.length > 0) {
-        // Clear existing requirements
-        databaseService.deleteRequirementsByFeature(feature.id);
-
-        for (const req of requirements) {
-          databaseService.upsertRequirement(
-            feature.id,
-            req.id,
-            req.description,
-            req.type,
-          );
-        }
-      }
-
-      // Parse and sync plan.md if exists
-      const planPath = path.join(featurePath, "plan.md");
-      if (fs.existsSync(planPath)) {
-        const content = fs.readFileSync(planPath, "utf-8");
-        const parsed = await parsePlanContent(content);
-
-        databaseService.upsertPlan(feature.id, {
-          summary: parsed.summary || undefined,
-          techStack: parsed.techStack,
-          phases: parsed.phases,
-          dependencies: parsed.dependencies,
-          risks: parsed.risks,
-        });
-      }
-
-      // Parse and sync research.md if exists
-      const researchPath = path.join(featurePath, "research.md");
-      if (fs.existsSync(researchPath)) {
-        const content = fs.readFileSync(researchPath, "utf-8");
-        const parsed = await parseResearchContent(content);
-
-        // Clear existing research decisions
-        databaseService.deleteResearchDecisionsByFeature(feature.id);
-
-        for (const decision of parsed.decisions) {
-          databaseService.upsertResearchDecision(
-            feature.id,
-            decision.title,
-            decision.decision,
-            {
-              rationale: decision.rationale || undefined,
-              alternatives: decision.alternatives,
-              context: decision.context || undefined,
-            },
-          );
-        }
-      }
-
       synced++;
+      errors.push(
+        ...result.errors.map((error) => `${featureDir.name}: ${error}`),
+      );
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : "Unknown error";
       errors.push(`Failed to sync ${featureDir.name}: ${errorMsg}`);
     }
   }
 
+  // Record project stats history for trends
+  databaseService.recordProjectSnapshot(projectId);
+
   return { synced, errors };
 }
 
+/**
+ * Parse every spec-kit file of a single feature directory and sync it
+ */
+async function syncFeatureDirectory(
+  projectId: number,
+  featurePath: string,
+): Promise<{ featureId: number; errors: string[] }> {
+  const featureId = await syncSpecFile(projectId, featurePath);
+
+  const errors = syncTasksFile(featureId, path.join(featurePath, "tasks.md"));
+  await syncDataModelFile(featureId, path.join(featurePath, "data-model.md"));
+  await syncPlanFile(featureId, path.join(featurePath, "plan.md"));
+  await syncResearchFile(featureId, path.join(featurePath, "research.md"));
+  syncRequirementLinks(featureId);
+  indexFeatureDirectory(projectId, featureId, featurePath);
+
+  return { featureId, errors };
+}
+
+/**
+ * Parse spec.md (if present) and upsert the feature with its requirements
+ */
+async function syncSpecFile(
+  projectId: number,
+  featurePath: string,
+): Promise<number> {
+  const featureNumber = path.basename(featurePath);
+  const featureName = featureNumber.substring(4);
+  const specPath = path.join(featurePath, "spec.md");
+
+  let specData = {
+    title: featureName,
+    status: "draft",
+    createdDate: null as string | null,
+  };
+  let requirements: Array<
+    {
+      id: string;
+      description: string;
+      type: "functional" | "non_functional" | "constraint";
+    }
+  > = [];
+  let userStories: Array<
+    {
+      label: string;
+      title: string;
+      priority: string;
+      description: string;
+      acceptanceScenarios: string[];
+    }
+  > = [];
+  let specParsed = false;
+  let diagnostics: ParseDiagnostic[] = [];
+
+  if (fs.existsSync(specPath)) {
+    const content = fs.readFileSync(specPath, "utf-8");
+
+    try {
+      const parsed = await parseSpecContent(content);
+      specData = {
+        title: parsed.title || featureName,
+        status: parsed.status,
+        createdDate: parsed.createdDate,
+      };
+
+      // Extract requirements
+      requirements = parsed.requirements.map((req) => ({
+        id: req.id,
+        description: req.description,
+        type: req.id.startsWith("NFR")
+          ? "non_functional" as const
+          : "functional" as const,
+      }));
+
+      userStories = parsed.userStories;
+      diagnostics = parsed.diagnostics;
+      specParsed = true;
+    } catch (error) {
+      diagnostics = [parseFailure("spec.md", error)];
+    }
+  }
+
+  // Upsert feature
+  const feature = databaseService.upsertFeature(
+    projectId,
+    featureNumber,
+    featureName,
+    specPath,
+    {
+      title: specData.title,
+      status: specData.status,
+      createdDate: specData.createdDate || undefined,
+    },
+  );
+
+  databaseService.replaceParseDiagnostics(feature.id, "spec.md", diagnostics);
+
+  // Sync requirements from spec.md, dropping ones no longer listed
+  if (specParsed) {
+    databaseService.deleteRequirementsByFeature(feature.id);
+
+    for (const req of requirements) {
+      databaseService.upsertRequirement(
+        feature.id,
+        req.id,
+        req.description,
+        req.type,
+      );
+    }
+  }
+
+  // Sync user stories, dropping stories removed from spec.md
+  if (specParsed) {
+    databaseService.deleteUserStoriesByFeature(
+      feature.id,
+      userStories.map((story) => story.label),
+    );
+
+    userStories.forEach((story, index) => {
+      databaseService.upsertUserStory(feature.id, story.label, story.title, {
+        priority: story.priority,
+        description: story.description || undefined,
+        acceptanceScenarios: story.acceptanceScenarios,
+        storyOrder: index,
+      });
+    });
+  }
+
+  return feature.id;
+}
+
+/**
+ * Parse tasks.md and replace the feature's tasks
+ * Returns dependency problems (cycles), which are also stored on the feature
+ */
+function syncTasksFile(featureId: number, tasksPath: string): string[] {
+  if (!fs.existsSync(tasksPath)) {
+    databaseService.deleteParseDiagnostics(featureId, "tasks.md");
+    return [];
+  }
+
+  const content = fs.readFileSync(tasksPath, "utf-8");
+  const parsed = parseTasksContent(content);
+  databaseService.replaceParseDiagnostics(
+    featureId,
+    "tasks.md",
+    parsed.diagnostics,
+  );
+
+  // Clear and re-sync tasks
+  databaseService.deleteTasksByFeature(featureId);
+
+  for (const task of parsed.tasks) {
+    databaseService.upsertTask(
+      featureId,
+      task.taskId,
+      task.description,
+      task.status,
+      {
+        phase: task.phase || undefined,
+        phaseOrder: task.phaseOrder,
+        isParallel: task.isParallel,
+        storyLabel: task.storyLabel || undefined,
+        filePath: task.filePath || undefined,
+        lineNumber: task.lineNumber,
+        dependencies: task.dependencies,
+        requirementRefs: task.requirementRefs,
+      },
+    );
+  }
+
+  // Update feature task completion
+  databaseService.updateFeatureTaskCompletion(featureId);
+
+  // Remember which file content the tasks came from, for safe write-back
+  databaseService.updateFeatureTasksHash(featureId, hashContent(content));
+
+  // Keep cyclic edges but flag the feature so the cycle gets fixed
+  const errors = parsed.diagnostics
+    .filter((diagnostic) => diagnostic.code === "tasks/dependency-cycle")
+    .map((diagnostic) => diagnostic.message);
+  databaseService.updateFeatureDependencyErrors(featureId, errors);
+
+  return errors;
+}
+
+/**
+ * Parse data-model.md and replace the feature's entities
+ */
+async function syncDataModelFile(
+  featureId: number,
+  dataModelPath: string,
+): Promise<void> {
+  if (!fs.existsSync(dataModelPath)) {
+    databaseService.deleteParseDiagnostics(featureId, "data-model.md");
+    return;
+  }
+
+  const content = fs.readFileSync(dataModelPath, "utf-8");
+  let parsed: Awaited<ReturnType<typeof parseDataModelContent>>;
+  try {
+    parsed = await parseDataModelContent(content);
+  } catch (error) {
+    databaseService.replaceParseDiagnostics(featureId, "data-model.md", [
+      parseFailure("data-model.md", error),
+    ]);
+    return;
+  }
+  databaseService.replaceParseDiagnostics(
+    featureId,
+    "data-model.md",
+    parsed.diagnostics,
+  );
+
+  // Drop entities that were renamed or removed from the file
+  databaseService.deleteEntitiesByFeature(
+    featureId,
+    parsed.entities.map((entity) => entity.name),
+  );
+
+  for (const entity of parsed.entities) {
+    databaseService.upsertEntity(featureId, entity.name, {
+      description: entity.description || undefined,
+      attributes: entity.attributes,
+      relationships: entity.relationships,
+      validationRules: entity.validationRules,
+      stateTransitions: entity.stateTransitions,
+    });
+  }
+}
+
+/**
+ * Parse plan.md and upsert the feature's plan
+ */
+async function syncPlanFile(
+  featureId: number,
+  planPath: string,
+): Promise<void> {
+  if (!fs.existsSync(planPath)) {
+    databaseService.deleteParseDiagnostics(featureId, "plan.md");
+    return;
+  }
+
+  const content = fs.readFileSync(planPath, "utf-8");
+  let parsed: Awaited<ReturnType<typeof parsePlanContent>>;
+  try {
+    parsed = await parsePlanContent(content);
+  } catch (error) {
+    databaseService.replaceParseDiagnostics(featureId, "plan.md", [
+      parseFailure("plan.md", error),
+    ]);
+    return;
+  }
+  databaseService.replaceParseDiagnostics(
+    featureId,
+    "plan.md",
+    parsed.diagnostics,
+  );
+
+  databaseService.upsertPlan(featureId, {
+    summary: parsed.summary || undefined,
+    techStack: parsed.techStack,
+    phases: parsed.phases,
+    dependencies: parsed.dependencies,
+    risks: parsed.risks,
+  });
+}
+
+/**
+ * Parse research.md and replace the feature's research decisions
+ */
+async function syncResearchFile(
+  featureId: number,
+  researchPath: string,
+): Promise<void> {
+  if (!fs.existsSync(researchPath)) {
+    databaseService.deleteParseDiagnostics(featureId, "research.md");
+    return;
+  }
+
+  const content = fs.readFileSync(researchPath, "utf-8");
+  let parsed: Awaited<ReturnType<typeof parseResearchContent>>;
+  try {
+    parsed = await parseResearchContent(content);
+  } catch (error) {
+    databaseService.replaceParseDiagnostics(featureId, "research.md", [
+      parseFailure("research.md", error),
+    ]);
+    return;
+  }
+  databaseService.replaceParseDiagnostics(
+    featureId,
+    "research.md",
+    parsed.diagnostics,
+  );
+
+  // Clear existing research decisions
+  databaseService.deleteResearchDecisionsByFeature(featureId);
+
+  for (const decision of parsed.decisions) {
+    databaseService.upsertResearchDecision(
+      featureId,
+      decision.title,
+      decision.decision,
+      {
+        rationale: decision.rationale || undefined,
+        alternatives: decision.alternatives,
+        context: decision.context || undefined,
+      },
+    );
+  }
+}
+
+/**
+ * Drop the rows that were parsed from a file that no longer exists
+ */
+function clearFileData(featureId: number, fileName: string): void {
+  databaseService.deleteParseDiagnostics(featureId, fileName);
+
+  switch (fileName) {
+    case "spec.md":
+      databaseService.deleteRequirementsByFeature(featureId);
+      databaseService.deleteUserStoriesByFeature(featureId);
+      break;
+    case "tasks.md":
+      databaseService.deleteTasksByFeature(featureId);
+      databaseService.updateFeatureTaskCompletion(featureId);
+      databaseService.updateFeatureDependencyErrors(featureId, []);
+      databaseService.updateFeatureTasksHash(featureId, null);
+      break;
+    case "data-model.md":
+      databaseService.deleteEntitiesByFeature(featureId);
+      break;
+    case "plan.md":
+      databaseService.deletePlanByFeature(featureId);
+      break;
+    case "research.md":
+      databaseService.deleteResearchDecisionsByFeature(featureId);
+      break;
+  }
+}
+
 /**
  * Sync a single feature by file path
+ * Re-parses only the changed file of the affected feature; returns null when
+ * the path is not part of a feature directory
  */
 export async function syncFeatureByPath(
   projectId: number,
   filePath: string,
-): Promise<boolean> {
-  // Extract feature directory from path
-  const match = filePath.match(/specs[/\\](\d{3}-[^/\\]+)/);
-  if (!match) return false;
-
-  const featureDir = match[1];
-  const featureNumber = featureDir;
+  eventType: FileEventType = "change",
+): Promise<FeatureSyncResult | null> {
+  const result = await syncChangedFeature(projectId, filePath, eventType);
 
-  // Check if feature exists in database
-  const feature = databaseService.getFeatureByNumber(projectId, featureNumber);
-  if (!feature) {
-    // Feature doesn't exist yet, trigger full sync
-    const projectRoot = filePath.substring(0, filePath.indexOf("specs") - 1);
-    await syncProjectFeatures(projectId, projectRoot);
-    return true;
+  // Record project stats history for trends
+  if (result) {
+    databaseService.recordProjectSnapshot(projectId);
   }
 
-  // Determine which file changed and re-parse it
-  const fileName = path.basename(filePath);
+  return result;
+}
 
-  if (fileName === "spec.md" || fileName === "plan.md") {
-    // For now, just update the feature status if spec changed
-    // Full implementation would re-parse and update
-    return true;
+/**
+ * Re-parse the file of a feature that changed on disk
+ */
+async function syncChangedFeature(
+  projectId: number,
+  filePath: string,
+  eventType: FileEventType,
+): Promise<FeatureSyncResult | null> {
+  // Extract feature directory from path
+  const match = filePath.match(/^(.*specs)[/\\](\d{3}-[^/\\]+)/);
+  if (!match) return null;
+
+  const featureNumber = match[2];
+  const featurePath = path.join(match[1], featureNumber);
+  const feature = databaseService.getFeatureByNumber(projectId, featureNumber);
+
+  // Whole feature directory was removed
+  if (!fs.existsSync(featurePath)) {
+    if (!feature) return null;
+    databaseService.deleteFeature(feature.id);
+    return { featureId: feature.id, featureNumber, removed: true };
   }
 
-  if (fileName === "tasks.md") {
-    const content = fs.readFileSync(filePath, "utf-8");
-    const parsed = parseTasksContent(content);
+  // Feature doesn't exist yet, sync the whole feature directory
+  if (!feature) {
+    const { featureId } = await syncFeatureDirectory(projectId, featurePath);
+    return { featureId, featureNumber, removed: false };
+  }
 
-    databaseService.deleteTasksByFeature(feature.id);
+  // Determine which file changed and re-parse it; files in subdirectories
+  // (checklists, contracts) are only indexed for search
+  const fileName = path.dirname(filePath) === featurePath
+    ? path.basename(filePath)
+    : null;
 
-    for (const task of parsed.tasks) {
-      databaseService.upsertTask(
-        feature.id,
-        task.taskId,
-        task.description,
-        task.status,
-        {
-          phase: task.phase || undefined,
-          phaseOrder: task.phaseOrder,
-          isParallel: task.isParallel,
-          storyLabel: task.storyLabel || undefined,
-          filePath: task.filePath || undefined,
-          lineNumber: task.lineNumber,
-        },
-      );
-    }
+  if (fileName && eventType === "unlink") {
+    clearFileData(feature.id, fileName);
+  } else if (fileName) {
+    await syncFeatureFile(projectId, feature.id, featurePath, filePath);
+  }
 
-    databaseService.updateFeatureTaskCompletion(feature.id);
-    return true;
+  // Requirements and tasks are linked across spec.md and tasks.md
+  if (fileName === "spec.md" || fileName === "tasks.md") {
+    syncRequirementLinks(feature.id);
   }
 
-  if (fileName === "data-model.md") {
-    const content = fs.readFileSync(filePath, "utf-8");
-    const parsed = await parseDataModelContent(content);
+  indexFeatureFile(projectId, feature.id, featurePath, filePath);
 
-    for (const entity of parsed.entities) {
-      databaseService.upsertEntity(feature.id, entity.name, {
-        description: entity.description || undefined,
-        attributes: entity.attributes,
-        relationships: entity.relationships,
-      });
-    }
-    return true;
-  }
+  return { featureId: feature.id, featureNumber, removed: false };
+}
 
-  return false;
+/**
+ * Re-parse a single changed file of an existing feature
+ */
+async function syncFeatureFile(
+  projectId: number,
+  featureId: number,
+  featurePath: string,
+  filePath: string,
+): Promise<void> {
+  switch (path.basename(filePath)) {
+    case "spec.md":
+      await syncSpecFile(projectId, featurePath);
+      break;
+    case "tasks.md":
+      syncTasksFile(featureId, filePath);
+      break;
+    case "data-model.md":
+      await syncDataModelFile(featureId, filePath);
+      break;
+    case "plan.md":
+      await syncPlanFile(featureId, filePath);
+      break;
+    case "research.md":
+      await syncResearchFile(featureId, filePath);
+      break;
+  }
 }
 
 export default { syncProjectFeatures, syncFeatureByPath };
@@ -1,11 +1,15 @@
 /**
  * Speckit Dashboard - File Watcher Service
- * Watch Spec-kit files for changes and trigger updates
+ * Watch Spec-kit files for changes and trigger updates, with one watcher per
+ * open project and events routed to the windows showing that project
  */
 
-import { BrowserWindow } from "electron";
+import { webContents, type WebContents } from "electron";
 import chokidar, { FSWatcher } from "chokidar";
 import path from "path";
+import { syncFeatureByPath } from "./feature-sync";
+import { analysisService } from "./analysis-service";
+import { architectureAnalyzer } from "./architecture-analyzer";
 
 interface FileChangeEvent {
   eventType: "add" | "change" | "unlink";
@@ -13,28 +17,90 @@ interface FileChangeEvent {
   affectedFeatureId?: number;
 }
 
+interface FeatureUpdatedEvent {
+  projectId: number;
+  featureId: number;
+  featureNumber: string;
+  filePath: string;
+  eventType: "add" | "change" | "unlink";
+  removed: boolean;
+}
+
+/**
+ * Watcher of one open project
+ */
+interface ProjectWatch {
+  projectPath: string;
+  watcher: FSWatcher;
+  debounceTimers: Map<string, NodeJS.Timeout>;
+}
+
 class FileWatcherService {
-  private watcher: FSWatcher | null = null;
-  private projectPath: string | null = null;
-  private debounceTimers: Map<string, NodeJS.Timeout> = new Map();
+  private watches: Map<number, ProjectWatch> = new Map();
+  // Project each window is bound to, by webContents ID
+  private windowProjects: Map<number, number> = new Map();
+  private syncQueue: Promise<void> = Promise.resolve();
   private debounceMs = 500;
 
   /**
-   * Start watching a project directory
+   * Bind a window to a project
+   * A project is watched while at least one window is bound to it, and its
+   * events are only sent to those windows
    */
-  start(projectPath: string): void {
-    // Stop any existing watcher
-    this.stop();
+  bindWindow(
+    contents: WebContents,
+    projectId: number,
+    projectPath: string,
+  ): void {
+    const previous = this.windowProjects.get(contents.id);
+    if (previous === undefined) {
+      const windowId = contents.id;
+      contents.once("destroyed", () => this.unbindWindow(windowId));
+    } else if (previous !== projectId) {
+      this.unbindWindow(contents.id);
+    }
+
+    this.windowProjects.set(contents.id, projectId);
+    if (!this.watches.has(projectId)) {
+      this.start(projectId, projectPath);
+    }
+  }
+
+  /**
+   * Release a window's project, stopping its watcher if no window shows it
+   */
+  unbindWindow(windowId: number): void {
+    const projectId = this.windowProjects.get(windowId);
+    if (projectId === undefined) return;
+
+    this.windowProjects.delete(windowId);
+    if (this.getWindowIds(projectId).length === 0) {
+      this.stop(projectId);
+    }
+  }
 
-    this.projectPath = projectPath;
+  /**
+   * Release every window bound to a project and stop watching it, before
+   * the project is removed
+   */
+  releaseProject(projectId: number): void {
+    for (const windowId of this.getWindowIds(projectId)) {
+      this.windowProjects.delete(windowId);
+    }
+    this.stop(projectId);
+  }
 
+  /**
+   * Start watching a project directory
+   */
+  private start(projectId: number, projectPath: string): void {
     // Watch specs directory and .specify folder
     const watchPaths = [
       path.join(projectPath, "specs"),
       path.join(projectPath, ".specify"),
     ];
 
-    this.watcher = chokidar.watch(watchPaths, {
+    const watcher = chokidar.watch(watchPaths, {
       ignored: [
         /(^|[/\\])\../, // dotfiles except .specify
         /node_modules/,
@@ -48,93 +114,175 @@ class FileWatcherService {
       },
     });
 
+    this.watches.set(projectId, {
+      projectPath,
+      watcher,
+      debounceTimers: new Map(),
+    });
+
     // Handle file events with debouncing
-    this.watcher
-      .on("add", (filePath) => this.handleFileEvent("add", filePath))
-      .on("change", (filePath) => this.handleFileEvent("change", filePath))
-      .on("unlink", (filePath) => this.handleFileEvent("unlink", filePath))
+    watcher
+      .on("add", (filePath) => this.handleFileEvent(projectId, "add", filePath))
+      .on(
+        "change",
+        (filePath) => this.handleFileEvent(projectId, "change", filePath),
+      )
+      .on(
+        "unlink",
+        (filePath) => this.handleFileEvent(projectId, "unlink", filePath),
+      )
       .on("error", (error) => console.error("File watcher error:", error));
   }
 
   /**
-   * Stop watching files
+   * Stop watching one project, or every project when no ID is given
    */
-  stop(): void {
-    if (this.watcher) {
-      this.watcher.close();
-      this.watcher = null;
-    }
-    this.projectPath = null;
+  stop(projectId?: number): void {
+    const projectIds = projectId === undefined
+      ? [...this.watches.keys()]
+      : [projectId];
+
+    for (const id of projectIds) {
+      const watch = this.watches.get(id);
+      if (!watch) continue;
+
+      watch.watcher.close();
 
-    // Clear all debounce timers
-    this.debounceTimers.forEach((timer) => clearTimeout(timer));
-    this.debounceTimers.clear();
+      // Clear all debounce timers
+      watch.debounceTimers.forEach((timer) => clearTimeout(timer));
+      this.watches.delete(id);
+    }
   }
 
   /**
    * Handle a file change event with debouncing
    */
   private handleFileEvent(
+    projectId: number,
     eventType: "add" | "change" | "unlink",
     filePath: string,
   ): void {
-    // Only process markdown files
-    if (!filePath.endsWith(".md")) return;
+    // Only process markdown files and API contracts
+    if (!/\.(md|ya?ml|json)$/i.test(filePath)) return;
+
+    const watch = this.watches.get(projectId);
+    if (!watch) return;
 
     // Debounce by file path
-    const existingTimer = this.debounceTimers.get(filePath);
+    const existingTimer = watch.debounceTimers.get(filePath);
     if (existingTimer) {
       clearTimeout(existingTimer);
     }
 
     const timer = setTimeout(() => {
-      this.debounceTimers.delete(filePath);
-      this.emitFileChange({
-        eventType,
-        filePath,
-        affectedFeatureId: this.extractFeatureId(filePath),
-      });
+      watch.debounceTimers.delete(filePath);
+      this.enqueueSync(projectId, eventType, filePath);
     }, this.debounceMs);
 
-    this.debounceTimers.set(filePath, timer);
+    watch.debounceTimers.set(filePath, timer);
+  }
+
+  /**
+   * Re-sync a file the app itself wrote, without waiting for the watcher
+   */
+  resyncFile(projectId: number, filePath: string): Promise<void> {
+    return this.enqueueSync(projectId, "change", filePath);
+  }
+
+  /**
+   * Queue a re-sync so that concurrent changes are applied one at a time
+   */
+  private enqueueSync(
+    projectId: number,
+    eventType: "add" | "change" | "unlink",
+    filePath: string,
+  ): Promise<void> {
+    this.syncQueue = this.syncQueue
+      .then(() => this.syncChangedFile(projectId, eventType, filePath))
+      .catch((error) => console.error("Failed to re-sync feature:", error));
+    return this.syncQueue;
   }
 
   /**
-   * Extract feature ID from file path if possible
+   * Re-parse the affected feature, drop its cached analyses and notify windows
    */
-  private extractFeatureId(filePath: string): number | undefined {
-    // Match feature directory pattern like "001-feature-name"
-    const match = filePath.match(/\/specs\/(\d+)-[^/]+\//);
-    if (match) {
-      return parseInt(match[1], 10);
+  private async syncChangedFile(
+    projectId: number,
+    eventType: "add" | "change" | "unlink",
+    filePath: string,
+  ): Promise<void> {
+    const result = await syncFeatureByPath(projectId, filePath, eventType);
+
+    if (result) {
+      analysisService.invalidateCache(result.featureId);
+      architectureAnalyzer.invalidateCache(result.featureId);
+    }
+
+    this.emitFileChange(projectId, {
+      eventType,
+      filePath,
+      affectedFeatureId: result?.featureId,
+    });
+
+    if (result) {
+      this.emitFeatureUpdated({
+        projectId,
+        featureId: result.featureId,
+        featureNumber: result.featureNumber,
+        filePath,
+        eventType,
+        removed: result.removed,
+      });
     }
-    return undefined;
   }
 
   /**
-   * Emit file change event to all renderer windows
+   * Send an event to the windows bound to a project
    */
-  private emitFileChange(event: FileChangeEvent): void {
-    const windows = BrowserWindow.getAllWindows();
-    windows.forEach((window) => {
-      if (!window.isDestroyed()) {
-        window.webContents.send("file-watcher:change", event);
+  private sendToProject(projectId: number, channel: string, event: unknown) {
+    for (const windowId of this.getWindowIds(projectId)) {
+      const contents = webContents.fromId(windowId);
+      if (contents && !contents.isDestroyed()) {
+        contents.send(channel, event);
       }
-    });
+    }
+  }
+
+  /**
+   * Emit file change event to the project's windows
+   */
+  private emitFileChange(projectId: number, event: FileChangeEvent): void {
+    this.sendToProject(projectId, "file-watcher:change", event);
+  }
+
+  /**
+   * Emit feature updated event to the project's windows
+   */
+  private emitFeatureUpdated(event: FeatureUpdatedEvent): void {
+    this.sendToProject(event.projectId, "feature:updated", event);
+  }
+
+  /**
+   * webContents IDs of the windows bound to a project
+   */
+  getWindowIds(projectId: number): number[] {
+    return [...this.windowProjects.entries()]
+      .filter(([, boundProjectId]) => boundProjectId === projectId)
+      .map(([windowId]) => windowId);
   }
 
   /**
    * Get current watch status
    */
-  isWatching(): boolean {
-    return this.watcher !== null;
+  isWatching(projectId: number): boolean {
+    return this.watches.has(projectId);
   }
 
   /**
-   * Get the path being watched
+   * Get the path being watched for a project
    */
-  getWatchPath(): string | null {
-    return this.projectPath;
+  getWatchPath(projectId: number): string | null {
+    return this.watches.get(projectId)?.projectPath ?? null;
   }
 }
 
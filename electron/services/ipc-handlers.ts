@@ -3,16 +3,48 @@
  * Handle IPC communication from renderer process
  */
 
-import { ipcMain } from "electron";
+import { BrowserWindow, dialog, ipcMain, type WebContents } from "electron";
 import fs from "fs";
 import path from "path";
-import { databaseService } from "./database";
+import { databaseService, type DbDiagramLayout } from "./database";
 import { fileWatcherService } from "./file-watcher";
+import { windowManager } from "./window-manager";
 import { syncProjectFeatures } from "./feature-sync";
 import { aiProviderService } from "./ai-provider";
 import { analysisService } from "./analysis-service";
+import { chatService } from "./chat-service";
+import { type CodegenTarget, generateCode } from "./codegen";
+import {
+  AnalysisCancelledError,
+  aiStreamService,
+  type StreamOptions,
+} from "./ai-stream";
 import { architectureAnalyzer } from "./architecture-analyzer";
+import {
+  projectAnalysisService,
+  type ProjectAnalysisType,
+} from "./project-analysis-service";
+import { BudgetExceededError, usageService } from "./usage-service";
+import {
+  deleteOverride,
+  isPromptId,
+  listPrompts,
+  PromptValidationError,
+  saveOverride,
+} from "./prompt-registry";
+import { writeFileAtomic, writeTaskStatus } from "./task-writer";
+import { tasksDraftService } from "./tasks-draft-service";
+import { computeFeatureTraceLinks } from "./traceability";
+import { buildUnifiedModel } from "./unified-model";
+import {
+  extractMarkdownSections,
+  isIndexedFile,
+  searchProject,
+} from "./search-index";
 import type {
+  AIProviderType,
+  AnalysisRouting,
+  CustomProfileConfig,
   OllamaConfig,
   OpenAIConfig,
   OpenRouterConfig,
@@ -96,6 +128,105 @@ function validateProjectPath(
   return { valid: true };
 }
 
+/**
+ * Stream options that forward partial AI output to the requesting window on
+ * its per-request channel ("ai-analysis:stream:<requestId>")
+ */
+function streamToSender(
+  sender: WebContents,
+  requestId?: string,
+): StreamOptions {
+  if (!requestId) return {};
+
+  return {
+    requestId,
+    onUpdate: (update) => {
+      // Nobody is left to show the result
+      if (sender.isDestroyed()) {
+        aiStreamService.cancel(requestId);
+        return;
+      }
+      sender.send(`ai-analysis:stream:${requestId}`, { requestId, ...update });
+    },
+  };
+}
+
+/**
+ * Run an AI request with stream options for the requesting window
+ * The request can be cancelled as soon as it arrives, and a failure caused
+ * by the cancel is reported as the cancel
+ */
+async function runStreamed<T>(
+  sender: WebContents,
+  requestId: string | undefined,
+  run: (options: StreamOptions) => Promise<T>,
+): Promise<T> {
+  const options = streamToSender(sender, requestId);
+  if (!requestId) return run(options);
+
+  const signal = aiStreamService.open(requestId);
+  try {
+    return await run({ ...options, signal });
+  } catch (error) {
+    if (signal.aborted) throw new AnalysisCancelledError(requestId);
+    throw error;
+  } finally {
+    aiStreamService.close(requestId);
+  }
+}
+
+/**
+ * Error response for a failed or cancelled AI analysis
+ */
+function aiErrorResponse(error: unknown, fallback: string) {
+  if (error instanceof AnalysisCancelledError) {
+    return {
+      success: false,
+      error: "Analysis cancelled",
+      code: "CANCELLED",
+    };
+  }
+  if (error instanceof BudgetExceededError) {
+    return {
+      success: false,
+      error: error.message,
+      code: "BUDGET_EXCEEDED",
+    };
+  }
+  if (error instanceof PromptValidationError) {
+    return {
+      success: false,
+      error: error.message,
+      code: "INVALID_PROMPT",
+    };
+  }
+  return {
+    success: false,
+    error: error instanceof Error ? error.message : fallback,
+    code: "AI_ERROR",
+  };
+}
+
+/**
+ * Ask the requesting window where to save a file and write it there
+ * Resolves to the chosen path, or null when the dialog was cancelled
+ */
+async function saveThroughDialog(
+  sender: WebContents,
+  defaultPath: string,
+  content: string | Buffer,
+): Promise<string | null> {
+  const window = BrowserWindow.fromWebContents(sender) ??
+    windowManager.getMainWindow();
+  const { canceled, filePath } = window
+    ? await dialog.showSaveDialog(window, { defaultPath })
+    : await dialog.showSaveDialog({ defaultPath });
+  if (canceled || !filePath) return null;
+
+  writeFileAtomic(filePath, content);
+  return filePath;
+}
+
 /**
  * Register all IPC handlers
  */
@@ -201,7 +332,7 @@ export function registerIPCHandlers(): void {
 
   ipcMain.handle(
     "project:select",
-    async (_event, { projectId }: { projectId: number }) => {
+    async (event, { projectId }: { projectId: number }) => {
       try {
         const project = databaseService.getProjectById(projectId);
         if (!project) {
@@ -214,8 +345,13 @@ export function registerIPCHandlers(): void {
 
         databaseService.updateProjectLastOpened(projectId);
 
-        // Start file watcher for this project
-        fileWatcherService.start(project.root_path);
+        // Bind the calling window to this project; the project is watched
+        // while any window shows it
+        fileWatcherService.bindWindow(
+          event.sender,
+          projectId,
+          project.root_path,
+        );
 
         return { success: true };
       } catch (error) {
@@ -228,10 +364,37 @@ export function registerIPCHandlers(): void {
     },
   );
 
+  ipcMain.handle(
+    "window:open-project",
+    async (_event, { projectId }: { projectId: number }) => {
+      try {
+        const project = databaseService.getProjectById(projectId);
+        if (!project) {
+          return {
+            success: false,
+            error: "Project not found",
+            code: "NOT_FOUND",
+          };
+        }
+
+        windowManager.createWindow(projectId);
+        return { success: true };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+          code: "WINDOW_ERROR",
+        };
+      }
+    },
+  );
+
   ipcMain.handle(
     "project:remove",
     async (_event, { projectId }: { projectId: number }) => {
       try {
+        // File events would otherwise sync into a project that is gone
+        fileWatcherService.releaseProject(projectId);
         databaseService.deleteProject(projectId);
         return { success: true };
       } catch (error) {
@@ -307,6 +470,9 @@ export function registerIPCHandlers(): void {
               priority: f.priority,
               createdDate: f.created_date,
               taskCompletionPct: f.task_completion_pct,
+              dependencyErrors: f.dependency_errors
+                ? JSON.parse(f.dependency_errors)
+                : [],
               createdAt: f.created_at,
               updatedAt: f.updated_at,
             })),
@@ -340,6 +506,7 @@ export function registerIPCHandlers(): void {
         const requirements = databaseService.getRequirementsByFeature(
           featureId,
         );
+        const userStories = databaseService.getUserStoriesByFeature(featureId);
         const plan = databaseService.getPlanByFeature(featureId);
         const researchDecisions = databaseService.getResearchDecisionsByFeature(
           featureId,
@@ -359,6 +526,10 @@ export function registerIPCHandlers(): void {
               priority: feature.priority,
               createdDate: feature.created_date,
               taskCompletionPct: feature.task_completion_pct,
+              dependencyErrors: feature.dependency_errors
+                ? JSON.parse(feature.dependency_errors)
+                : [],
+              tasksHash: feature.tasks_hash,
               createdAt: feature.created_at,
               updatedAt: feature.updated_at,
             },
@@ -407,6 +578,19 @@ export function registerIPCHandlers(): void {
               createdAt: r.created_at,
               updatedAt: r.updated_at,
             })),
+            userStories: userStories.map((s) => ({
+              id: s.id,
+              featureId: s.feature_id,
+              storyLabel: s.story_label,
+              title: s.title,
+              priority: s.priority,
+              description: s.description,
+              acceptanceScenarios: s.acceptance_scenarios
+                ? JSON.parse(s.acceptance_scenarios)
+                : [],
+              createdAt: s.created_at,
+              updatedAt: s.updated_at,
+            })),
             plan: plan
               ? {
                 id: plan.id,
@@ -483,6 +667,169 @@ export function registerIPCHandlers(): void {
     },
   );
 
+  ipcMain.handle(
+    "tasks:update-status",
+    async (
+      _event,
+      { taskId, status, tasksHash }: {
+        taskId: number;
+        status: "not_started" | "in_progress" | "done";
+        tasksHash: string;
+      },
+    ) => {
+      try {
+        const task = databaseService.getTaskById(taskId);
+        const feature = task ? databaseService.getFeatureById(task.feature_id) : null;
+        if (!task || !feature || task.line_number === null) {
+          return {
+            success: false,
+            error: "Task not found",
+            code: "NOT_FOUND",
+          };
+        }
+
+        const tasksPath = path.join(path.dirname(feature.spec_path), "tasks.md");
+        const result = writeTaskStatus(
+          tasksPath,
+          task.task_id,
+          task.line_number,
+          status,
+          tasksHash,
+        );
+        if (!result.success) {
+          return result;
+        }
+
+        // Re-sync so tasks and task_completion_pct reflect the new file
+        await fileWatcherService.resyncFile(feature.project_id, tasksPath);
+
+        return { success: true, data: { tasksHash: result.contentHash } };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+          code: "FILE_SYSTEM_ERROR",
+        };
+      }
+    },
+  );
+
+  // ========================================
+  // User Story Handlers
+  // ========================================
+
+  ipcMain.handle(
+    "stories:list",
+    async (_event, { featureId }: { featureId: number }) => {
+      try {
+        const userStories = databaseService.getUserStoriesByFeature(featureId);
+        return {
+          success: true,
+          data: {
+            userStories: userStories.map((s) => ({
+              id: s.id,
+              featureId: s.feature_id,
+              storyLabel: s.story_label,
+              title: s.title,
+              priority: s.priority,
+              description: s.description,
+              acceptanceScenarios: s.acceptance_scenarios
+                ? JSON.parse(s.acceptance_scenarios)
+                : [],
+              createdAt: s.created_at,
+              updatedAt: s.updated_at,
+            })),
+          },
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+          code: "DB_ERROR",
+        };
+      }
+    },
+  );
+
+  // ========================================
+  // Diagnostics Handlers
+  // ========================================
+
+  ipcMain.handle(
+    "diagnostics:feature",
+    async (_event, { featureId }: { featureId: number }) => {
+      try {
+        const feature = databaseService.getFeatureById(featureId);
+        if (!feature) {
+          return {
+            success: false,
+            error: "Feature not found",
+            code: "NOT_FOUND",
+          };
+        }
+
+        const diagnostics = databaseService.getParseDiagnosticsByFeature(
+          featureId,
+        );
+        return {
+          success: true,
+          data: {
+            diagnostics: diagnostics.map((d) => ({
+              id: d.id,
+              featureId: d.feature_id,
+              featureNumber: feature.feature_number,
+              filePath: d.file_path,
+              line: d.line_number,
+              column: d.column_number,
+              severity: d.severity,
+              code: d.rule_code,
+              message: d.message,
+            })),
+          },
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+          code: "DB_ERROR",
+        };
+      }
+    },
+  );
+
+  ipcMain.handle(
+    "diagnostics:project",
+    async (_event, { projectId }: { projectId: number }) => {
+      try {
+        const diagnostics = databaseService.getParseDiagnosticsByProject(
+          projectId,
+        );
+        return {
+          success: true,
+          data: {
+            diagnostics: diagnostics.map((d) => ({
+              id: d.id,
+              featureId: d.feature_id,
+              featureNumber: d.feature_number,
+              filePath: d.file_path,
+              line: d.line_number,
+              column: d.column_number,
+              severity: d.severity,
+              code: d.rule_code,
+              message: d.message,
+            })),
+          },
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+          code: "DB_ERROR",
+        };
+      }
+    },
+  );
+
   // ========================================
   // Entity Handlers
   // ========================================
@@ -554,6 +901,50 @@ export function registerIPCHandlers(): void {
     },
   );
 
+  ipcMain.handle(
+    "stats:history",
+    async (
+      _event,
+      { projectId, since }: { projectId: number; since?: number },
+    ) => {
+      try {
+        const snapshots = databaseService.getProjectSnapshots(projectId, since);
+        return {
+          success: true,
+          data: {
+            snapshots: snapshots.map((s) => ({
+              id: s.id,
+              projectId: s.project_id,
+              stats: {
+                totalFeatures: s.total_features,
+                featuresByStatus: {
+                  draft: s.features_draft,
+                  approved: s.features_approved,
+                  in_progress: s.features_in_progress,
+                  complete: s.features_complete,
+                },
+                avgTaskCompletion: s.avg_task_completion,
+                totalTasks: s.total_tasks,
+                tasksByStatus: {
+                  not_started: s.tasks_not_started,
+                  in_progress: s.tasks_in_progress,
+                  done: s.tasks_done,
+                },
+              },
+              createdAt: s.created_at,
+            })),
+          },
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+          code: "DB_ERROR",
+        };
+      }
+    },
+  );
+
   // ========================================
   // AI Provider Handlers
   // ========================================
@@ -614,10 +1005,12 @@ export function registerIPCHandlers(): void {
     "ai-provider:switch",
     async (
       _event,
-      { provider }: { provider: "openai" | "ollama" | "openrouter" },
+      { provider }: { provider: AIProviderType },
     ) => {
       try {
         await aiProviderService.switchProvider(provider);
+        // In-memory results were produced by the previous model
+        analysisService.clearCache();
         return {
           success: true,
           data: { activeProvider: provider },
@@ -638,7 +1031,7 @@ export function registerIPCHandlers(): void {
     "ai-provider:test-connection",
     async (
       _event,
-      { provider }: { provider: "openai" | "ollama" | "openrouter" },
+      { provider }: { provider: AIProviderType },
     ) => {
       try {
         const result = await aiProviderService.testConnection(provider);
@@ -658,138 +1051,229 @@ export function registerIPCHandlers(): void {
     },
   );
 
-  // ========================================
-  // AI Analysis Handlers
-  // ========================================
-
   ipcMain.handle(
-    "ai-analysis:generate-summary",
-    async (
-      _event,
-      { featureId, filePath, force }: {
-        featureId: number;
-        filePath: string;
-        force?: boolean;
-      },
-    ) => {
+    "ai-provider:save-custom-profile",
+    async (_event, { profile }: { profile: CustomProfileConfig }) => {
       try {
-        const result = await analysisService.generateSummary(
-          featureId,
-          filePath,
-          force,
-        );
+        const profileId = await aiProviderService.saveCustomProfile(profile);
         return {
           success: true,
-          data: result,
+          data: { profileId },
         };
       } catch (error) {
         return {
           success: false,
           error: error instanceof Error
             ? error.message
-            : "Summary generation failed",
-          code: "AI_ERROR",
+            : "Failed to save custom provider",
+          code: "CONFIG_ERROR",
         };
       }
     },
   );
 
   ipcMain.handle(
-    "ai-analysis:check-consistency",
-    async (
-      _event,
-      { featureId, files }: { featureId: number; files: string[] },
-    ) => {
+    "ai-provider:delete-custom-profile",
+    async (_event, { profileId }: { profileId: string }) => {
       try {
-        const result = await analysisService.checkConsistency(featureId, files);
+        aiProviderService.deleteCustomProfile(profileId);
         return {
           success: true,
-          data: result,
+          data: { deleted: true },
         };
       } catch (error) {
         return {
           success: false,
           error: error instanceof Error
             ? error.message
-            : "Consistency check failed",
-          code: "AI_ERROR",
+            : "Failed to delete custom provider",
+          code: "CONFIG_ERROR",
         };
       }
     },
   );
 
   ipcMain.handle(
-    "ai-analysis:find-gaps",
-    async (
-      _event,
-      { featureId, filePath }: { featureId: number; filePath: string },
-    ) => {
+    "ai-provider:set-routing",
+    async (_event, { routing }: { routing: AnalysisRouting }) => {
       try {
-        const result = await analysisService.findGaps(featureId, filePath);
+        aiProviderService.setRouting(routing);
+        analysisService.clearCache();
         return {
           success: true,
-          data: result,
+          data: { routing },
         };
       } catch (error) {
         return {
           success: false,
-          error: error instanceof Error ? error.message : "Gap analysis failed",
-          code: "AI_ERROR",
+          error: error instanceof Error
+            ? error.message
+            : "Failed to save routing",
+          code: "CONFIG_ERROR",
         };
       }
     },
   );
 
+  // ========================================
+  // AI Analysis Handlers
+  // ========================================
+
   ipcMain.handle(
-    "ai-analysis:get-history",
+    "ai-analysis:generate-summary",
     async (
-      _event,
-      { featureId, analysisType, limit }: {
+      event,
+      { featureId, filePath, force, requestId }: {
         featureId: number;
-        analysisType?: string;
-        limit?: number;
+        filePath: string;
+        force?: boolean;
+        requestId?: string;
       },
     ) => {
       try {
-        const history = analysisService.getAnalysisHistory(
-          featureId,
-          analysisType as "summary" | "consistency" | "gaps" | undefined,
-          limit,
+        const result = await runStreamed(event.sender, requestId, (options) =>
+          analysisService.generateSummary(
+            featureId,
+            filePath,
+            force,
+            options,
+          ),
         );
         return {
           success: true,
-          data: { analyses: history },
+          data: result,
         };
       } catch (error) {
-        return {
-          success: false,
-          error: error instanceof Error
-            ? error.message
-            : "Failed to get history",
-          code: "DB_ERROR",
-        };
+        return aiErrorResponse(error, "Summary generation failed");
       }
     },
   );
 
   ipcMain.handle(
-    "ai-analysis:get-result",
-    async (_event, { requestId }: { requestId: string }) => {
+    "ai-analysis:check-consistency",
+    async (
+      event,
+      { featureId, files, force, requestId }: {
+        featureId: number;
+        files: string[];
+        force?: boolean;
+        requestId?: string;
+      },
+    ) => {
       try {
-        const result = analysisService.getAnalysisResult(requestId);
-        if (!result) {
-          return {
-            success: false,
-            error: "Analysis result not found",
-            code: "NOT_FOUND",
-          };
-        }
+        const result = await runStreamed(event.sender, requestId, (options) =>
+          analysisService.checkConsistency(
+            featureId,
+            files,
+            force,
+            options,
+          ),
+        );
         return {
           success: true,
           data: result,
         };
       } catch (error) {
-        return {
+        return aiErrorResponse(error, "Consistency check failed");
+      }
+    },
+  );
+
+  ipcMain.handle(
+    "ai-analysis:find-gaps",
+    async (
+      event,
+      { featureId, filePath, force, requestId }: {
+        featureId: number;
+        filePath: string;
+        force?: boolean;
+        requestId?: string;
+      },
+    ) => {
+      try {
+        const result = await runStreamed(event.sender, requestId, (options) =>
+          analysisService.findGaps(
+            featureId,
+            filePath,
+            force,
+            options,
+          ),
+        );
+        return {
+          success: true,
+          data: result,
+        };
+      } catch (error) {
+        return aiErrorResponse(error, "Gap analysis failed");
+      }
+    },
+  );
+
+  ipcMain.handle(
+    "ai-analysis:cancel",
+    async (_event, { requestId }: { requestId: string }) => {
+      return {
+        success: true,
+        data: { cancelled: aiStreamService.cancel(requestId) },
+      };
+    },
+  );
+
+  ipcMain.handle(
+    "ai-analysis:get-history",
+    async (
+      _event,
+      { featureId, analysisType, limit }: {
+        featureId: number;
+        analysisType?: string;
+        limit?: number;
+      },
+    ) => {
+      try {
+        const history = analysisService.getAnalysisHistory(
+          featureId,
+          analysisType as
+            | "summary"
+            | "consistency"
+            | "gaps"
+            | "architecture"
+            | undefined,
+          limit,
+        );
+        return {
+          success: true,
+          data: { analyses: history },
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error
+            ? error.message
+            : "Failed to get history",
+          code: "DB_ERROR",
+        };
+      }
+    },
+  );
+
+  ipcMain.handle(
+    "ai-analysis:get-result",
+    async (_event, { requestId }: { requestId: string }) => {
+      try {
+        const result = analysisService.getAnalysisResult(requestId);
+        if (!result) {
+          return {
+            success: false,
+            error: "Analysis result not found",
+            code: "NOT_FOUND",
+          };
+        }
+        return {
+          success: true,
+          data: result,
+        };
+      } catch (error) {
+        return {
           success: false,
           error: error instanceof Error
             ? error.message
@@ -897,6 +1381,23 @@ export function registerIPCHandlers(): void {
     },
   );
 
+  ipcMain.handle(
+    "schema:get-project-model",
+    async (_event, { projectId }: { projectId: number }) => {
+      try {
+        return { success: true, data: buildUnifiedModel(projectId) };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error
+            ? error.message
+            : "Failed to merge the project data model",
+          code: "DB_ERROR",
+        };
+      }
+    },
+  );
+
   ipcMain.handle(
     "schema:get-entity-details",
     async (_event, { entityId }: { entityId: number }) => {
@@ -926,6 +1427,9 @@ export function registerIPCHandlers(): void {
               validationRules: entity.validation_rules
                 ? JSON.parse(entity.validation_rules)
                 : [],
+              stateTransitions: entity.state_transitions
+                ? JSON.parse(entity.state_transitions)
+                : null,
               sourceFile: entity.source_file || null,
               lineNumber: entity.line_number || null,
             },
@@ -944,47 +1448,45 @@ export function registerIPCHandlers(): void {
   );
 
   // ========================================
-  // Architecture Analysis Handler
+  // Code Generation Handlers
   // ========================================
 
   ipcMain.handle(
-    "architecture:analyze",
+    "codegen:generate",
     async (
       _event,
-      { featureId, force }: { featureId: number; force?: boolean },
+      { featureId, target }: { featureId: number; target: CodegenTarget },
     ) => {
       try {
-        const result = await architectureAnalyzer.analyzeArchitecture(
-          featureId,
-          force,
-        );
-        return {
-          success: true,
-          data: result,
-        };
+        const generated = generateCode(featureId, target);
+        if (!generated) {
+          return {
+            success: false,
+            error: "No entities found in data-model.md for this feature",
+            code: "NOT_FOUND",
+          };
+        }
+        return { success: true, data: generated };
       } catch (error) {
         return {
           success: false,
           error: error instanceof Error
             ? error.message
-            : "Architecture analysis failed",
-          code: "AI_ERROR",
+            : "Failed to generate code",
+          code: "PARSE_ERROR",
         };
       }
     },
   );
 
-  // ========================================
-  // File Content Handler
-  // ========================================
-
   ipcMain.handle(
-    "files:read-spec",
+    "codegen:save",
     async (
-      _event,
-      { featureId, fileType }: {
+      event,
+      { featureId, fileName, content }: {
         featureId: number;
-        fileType: "spec" | "plan" | "tasks" | "data-model" | "requirements";
+        fileName: string;
+        content: string;
       },
     ) => {
       try {
@@ -997,87 +1499,982 @@ export function registerIPCHandlers(): void {
           };
         }
 
-        // Construct file path based on spec_path
-        const specDir = path.dirname(feature.spec_path);
-        const fileName = `${
-          fileType === "data-model"
-            ? "data-model"
-            : fileType === "requirements"
-            ? "requirements"
-            : fileType
-        }.md`;
-        const filePath = fileType === "requirements"
-          ? path.join(specDir, "checklists", "requirements.md")
-          : path.join(specDir, fileName);
+        const filePath = await saveThroughDialog(
+          event.sender,
+          path.join(path.dirname(feature.spec_path), fileName),
+          content,
+        );
+        return { success: true, data: { filePath } };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+          code: "FILE_SYSTEM_ERROR",
+        };
+      }
+    },
+  );
 
-        if (!fs.existsSync(filePath)) {
+  // ========================================
+  // Diagram Export Handler
+  // ========================================
+
+  ipcMain.handle(
+    "diagram:save",
+    async (
+      event,
+      { featureId, fileName, content, encoding }: {
+        featureId: number;
+        fileName: string;
+        content: string;
+        encoding: "utf-8" | "base64";
+      },
+    ) => {
+      try {
+        const feature = databaseService.getFeatureById(featureId);
+        if (!feature) {
           return {
             success: false,
-            error: `File not found: ${fileName}`,
-            code: "FILE_NOT_FOUND",
+            error: "Feature not found",
+            code: "NOT_FOUND",
           };
         }
 
-        const content = fs.readFileSync(filePath, "utf-8");
-
-        // Extract sections (basic markdown parsing)
-        const sections: Array<{
-          heading: string;
-          level: number;
-          lineStart: number;
-          lineEnd: number;
-        }> = [];
-
-        const lines = content.split("\n");
-        let currentSection: {
-          heading: string;
-          level: number;
-          lineStart: number;
-        } | null = null;
-
-        for (let i = 0; i < lines.length; i++) {
-          const line = lines[i];
-          const headingMatch = line.match(/^(#{1,6})\s+(.+)$/);
-
-          if (headingMatch) {
-            if (currentSection) {
-              sections.push({
-                ...currentSection,
-                lineEnd: i,
-              });
-            }
-            currentSection = {
-              heading: headingMatch[2],
-              level: headingMatch[1].length,
-              lineStart: i + 1,
-            };
-          }
-        }
+        // PNG images arrive base64-encoded, SVG and Mermaid as text
+        const filePath = await saveThroughDialog(
+          event.sender,
+          path.join(path.dirname(feature.spec_path), fileName),
+          encoding === "base64" ? Buffer.from(content, "base64") : content,
+        );
+        return { success: true, data: { filePath } };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+          code: "FILE_SYSTEM_ERROR",
+        };
+      }
+    },
+  );
 
-        if (currentSection) {
-          sections.push({
-            ...currentSection,
-            lineEnd: lines.length,
-          });
-        }
+  // ========================================
+  // Diagram Layout Handlers
+  // ========================================
 
+  ipcMain.handle(
+    "layout:get",
+    async (
+      _event,
+      { featureId, diagram }: {
+        featureId: number;
+        diagram: DbDiagramLayout["diagram"];
+      },
+    ) => {
+      try {
+        const row = databaseService.getDiagramLayout(featureId, diagram);
         return {
           success: true,
           data: {
-            content,
-            sections,
-            metadata: {
-              title: feature.title || feature.feature_name,
-              status: feature.status,
-              created: feature.created_date,
-            },
+            layout: row
+              ? {
+                direction: row.direction,
+                positions: JSON.parse(row.positions),
+                collapsed: JSON.parse(row.collapsed),
+                viewport: row.viewport ? JSON.parse(row.viewport) : null,
+              }
+              : null,
           },
         };
       } catch (error) {
         return {
           success: false,
-          error: error instanceof Error ? error.message : "Failed to read file",
-          code: "FILE_ERROR",
+          error: error instanceof Error ? error.message : "Unknown error",
+          code: "DB_ERROR",
+        };
+      }
+    },
+  );
+
+  ipcMain.handle(
+    "layout:save",
+    async (
+      _event,
+      { featureId, diagram, layout }: {
+        featureId: number;
+        diagram: DbDiagramLayout["diagram"];
+        layout: {
+          direction: DbDiagramLayout["direction"];
+          positions: Record<string, { x: number; y: number }>;
+          collapsed: string[];
+          viewport: { x: number; y: number; zoom: number } | null;
+        };
+      },
+    ) => {
+      try {
+        databaseService.saveDiagramLayout({
+          feature_id: featureId,
+          diagram,
+          direction: layout.direction,
+          positions: JSON.stringify(layout.positions),
+          collapsed: JSON.stringify(layout.collapsed),
+          viewport: layout.viewport ? JSON.stringify(layout.viewport) : null,
+        });
+        return { success: true };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+          code: "DB_ERROR",
+        };
+      }
+    },
+  );
+
+  ipcMain.handle(
+    "layout:reset",
+    async (
+      _event,
+      { featureId, diagram }: {
+        featureId: number;
+        diagram: DbDiagramLayout["diagram"];
+      },
+    ) => {
+      try {
+        databaseService.deleteDiagramLayout(featureId, diagram);
+        return { success: true };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+          code: "DB_ERROR",
+        };
+      }
+    },
+  );
+
+  // ========================================
+  // Traceability Handler
+  // ========================================
+
+  ipcMain.handle(
+    "traceability:get",
+    async (_event, { featureId }: { featureId: number }) => {
+      try {
+        const feature = databaseService.getFeatureById(featureId);
+        if (!feature) {
+          return {
+            success: false,
+            error: "Feature not found",
+            code: "NOT_FOUND",
+          };
+        }
+
+        const requirements = databaseService.getRequirementsByFeature(
+          featureId,
+        );
+        const tasks = databaseService.getTasksByFeature(featureId);
+        const links = computeFeatureTraceLinks(featureId);
+
+        const linkedRequirements = new Set(
+          links.map((link) => link.requirementId),
+        );
+        const linkedTasks = new Set(links.map((link) => link.taskId));
+        const orphanRequirements = requirements
+          .map((r) => r.requirement_id)
+          .filter((id) => !linkedRequirements.has(id));
+        const orphanTasks = tasks
+          .map((t) => t.task_id)
+          .filter((id) => !linkedTasks.has(id));
+
+        return {
+          success: true,
+          data: {
+            requirements: requirements.map((r) => ({
+              requirementId: r.requirement_id,
+              type: r.type,
+              description: r.description,
+            })),
+            tasks: tasks.map((t) => ({
+              taskId: t.task_id,
+              description: t.description,
+              status: t.status,
+              phase: t.phase,
+              storyLabel: t.story_label,
+            })),
+            links,
+            orphanRequirements,
+            orphanTasks,
+            coverage: requirements.length > 0
+              ? Math.round(
+                ((requirements.length - orphanRequirements.length) /
+                  requirements.length) * 100,
+              )
+              : 0,
+          },
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error
+            ? error.message
+            : "Failed to build traceability",
+          code: "DB_ERROR",
+        };
+      }
+    },
+  );
+
+  // ========================================
+  // Architecture Analysis Handler
+  // ========================================
+
+  ipcMain.handle(
+    "architecture:analyze",
+    async (
+      event,
+      { featureId, force, requestId }: {
+        featureId: number;
+        force?: boolean;
+        requestId?: string;
+      },
+    ) => {
+      try {
+        const result = await runStreamed(event.sender, requestId, (options) =>
+          architectureAnalyzer.analyzeArchitecture(
+            featureId,
+            force,
+            options,
+          ),
+        );
+        return {
+          success: true,
+          data: result,
+        };
+      } catch (error) {
+        return aiErrorResponse(error, "Architecture analysis failed");
+      }
+    },
+  );
+
+  // ========================================
+  // Project Analysis Handlers
+  // ========================================
+
+  ipcMain.handle(
+    "project-analysis:run",
+    async (
+      event,
+      { projectId, analysisType, force, requestId }: {
+        projectId: number;
+        analysisType: ProjectAnalysisType;
+        force?: boolean;
+        requestId?: string;
+      },
+    ) => {
+      try {
+        const result = await runStreamed(event.sender, requestId, (options) =>
+          projectAnalysisService.analyzeProject(
+            projectId,
+            analysisType,
+            force,
+            options,
+          ),
+        );
+        return {
+          success: true,
+          data: result,
+        };
+      } catch (error) {
+        return aiErrorResponse(error, "Project analysis failed");
+      }
+    },
+  );
+
+  ipcMain.handle(
+    "project-analysis:get-history",
+    async (
+      _event,
+      { projectId, analysisType, limit }: {
+        projectId: number;
+        analysisType?: ProjectAnalysisType;
+        limit?: number;
+      },
+    ) => {
+      try {
+        return {
+          success: true,
+          data: {
+            analyses: projectAnalysisService.getHistory(
+              projectId,
+              analysisType,
+              limit,
+            ),
+          },
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error
+            ? error.message
+            : "Failed to get history",
+          code: "DB_ERROR",
+        };
+      }
+    },
+  );
+
+  // ========================================
+  // Tasks Draft Handlers
+  // ========================================
+
+  ipcMain.handle(
+    "tasks-draft:generate",
+    async (
+      event,
+      { featureId, requestId }: { featureId: number; requestId?: string },
+    ) => {
+      try {
+        const result = await runStreamed(event.sender, requestId, (options) =>
+          tasksDraftService.generateDraft(
+            featureId,
+            options,
+          ),
+        );
+        return {
+          success: true,
+          data: result,
+        };
+      } catch (error) {
+        return aiErrorResponse(error, "Tasks draft generation failed");
+      }
+    },
+  );
+
+  ipcMain.handle(
+    "tasks-draft:write",
+    async (
+      _event,
+      { featureId, content }: { featureId: number; content: string },
+    ) => {
+      try {
+        const result = tasksDraftService.writeDraft(featureId, content);
+        if (!result.success) {
+          return result;
+        }
+
+        // Sync right away so the board shows the new tasks
+        const feature = databaseService.getFeatureById(featureId);
+        if (feature) {
+          await fileWatcherService.resyncFile(
+            feature.project_id,
+            path.join(path.dirname(feature.spec_path), "tasks.md"),
+          );
+        }
+
+        return { success: true, data: { tasksHash: result.contentHash } };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+          code: "FILE_SYSTEM_ERROR",
+        };
+      }
+    },
+  );
+
+  // ========================================
+  // Chat Handlers
+  // ========================================
+
+  ipcMain.handle(
+    "chat:list-conversations",
+    async (
+      _event,
+      { projectId, featureId }: { projectId: number; featureId: number | null },
+    ) => {
+      try {
+        return {
+          success: true,
+          data: {
+            conversations: chatService.listConversations(projectId, featureId),
+          },
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error
+            ? error.message
+            : "Failed to list conversations",
+          code: "DB_ERROR",
+        };
+      }
+    },
+  );
+
+  ipcMain.handle(
+    "chat:create-conversation",
+    async (
+      _event,
+      { projectId, featureId }: { projectId: number; featureId: number | null },
+    ) => {
+      try {
+        return {
+          success: true,
+          data: chatService.createConversation(projectId, featureId),
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error
+            ? error.message
+            : "Failed to create conversation",
+          code: "DB_ERROR",
+        };
+      }
+    },
+  );
+
+  ipcMain.handle(
+    "chat:get-messages",
+    async (_event, { conversationId }: { conversationId: number }) => {
+      try {
+        return {
+          success: true,
+          data: { messages: chatService.getMessages(conversationId) },
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error
+            ? error.message
+            : "Failed to get messages",
+          code: "DB_ERROR",
+        };
+      }
+    },
+  );
+
+  ipcMain.handle(
+    "chat:delete-conversation",
+    async (_event, { conversationId }: { conversationId: number }) => {
+      try {
+        chatService.deleteConversation(conversationId);
+        return { success: true, data: { deleted: true } };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error
+            ? error.message
+            : "Failed to delete conversation",
+          code: "DB_ERROR",
+        };
+      }
+    },
+  );
+
+  ipcMain.handle(
+    "chat:send",
+    async (
+      event,
+      { conversationId, question, requestId }: {
+        conversationId: number;
+        question: string;
+        requestId?: string;
+      },
+    ) => {
+      try {
+        const reply = await runStreamed(event.sender, requestId, (options) =>
+          chatService.sendMessage(
+            conversationId,
+            question,
+            options,
+          ),
+        );
+        return {
+          success: true,
+          data: reply,
+        };
+      } catch (error) {
+        return aiErrorResponse(error, "Chat failed");
+      }
+    },
+  );
+
+  // ========================================
+  // Usage Handlers
+  // ========================================
+
+  ipcMain.handle(
+    "usage:get-summary",
+    async (
+      _event,
+      { since, projectId }: { since: number; projectId?: number },
+    ) => {
+      try {
+        return {
+          success: true,
+          data: usageService.getSummary(since, projectId),
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+          code: "DB_ERROR",
+        };
+      }
+    },
+  );
+
+  ipcMain.handle("usage:get-pricing", async () => {
+    try {
+      return {
+        success: true,
+        data: { pricing: usageService.getPricing() },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        code: "DB_ERROR",
+      };
+    }
+  });
+
+  ipcMain.handle(
+    "usage:set-pricing",
+    async (
+      _event,
+      { model, promptPrice, completionPrice }: {
+        model: string;
+        promptPrice: number;
+        completionPrice: number;
+      },
+    ) => {
+      try {
+        usageService.setPricing(model, promptPrice, completionPrice);
+        return {
+          success: true,
+          data: { pricing: usageService.getPricing() },
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+          code: "DB_ERROR",
+        };
+      }
+    },
+  );
+
+  ipcMain.handle(
+    "usage:delete-pricing",
+    async (_event, { model }: { model: string }) => {
+      try {
+        usageService.deletePricing(model);
+        return {
+          success: true,
+          data: { pricing: usageService.getPricing() },
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+          code: "DB_ERROR",
+        };
+      }
+    },
+  );
+
+  ipcMain.handle("usage:sync-openrouter-pricing", async () => {
+    try {
+      const imported = await usageService.syncOpenRouterPricing();
+      return {
+        success: true,
+        data: { imported, pricing: usageService.getPricing() },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error
+          ? error.message
+          : "Failed to fetch OpenRouter prices",
+        code: "CONNECTION_ERROR",
+      };
+    }
+  });
+
+  ipcMain.handle("usage:get-budgets", async () => {
+    try {
+      return {
+        success: true,
+        data: { budgets: usageService.getBudgets() },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        code: "DB_ERROR",
+      };
+    }
+  });
+
+  ipcMain.handle(
+    "usage:set-budget",
+    async (
+      _event,
+      { projectId, monthlyLimit }: {
+        projectId: number | null;
+        monthlyLimit: number | null;
+      },
+    ) => {
+      try {
+        usageService.setBudget(projectId, monthlyLimit);
+        return {
+          success: true,
+          data: { budgets: usageService.getBudgets() },
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+          code: "DB_ERROR",
+        };
+      }
+    },
+  );
+
+  // ========================================
+  // Prompt Handlers
+  // ========================================
+
+  ipcMain.handle(
+    "prompts:list",
+    async (_event, { projectId }: { projectId: number }) => {
+      const project = databaseService.getProjectById(projectId);
+      if (!project) {
+        return {
+          success: false,
+          error: `Project with ID ${projectId} not found`,
+          code: "NOT_FOUND",
+        };
+      }
+
+      return {
+        success: true,
+        data: { prompts: listPrompts(project.root_path) },
+      };
+    },
+  );
+
+  ipcMain.handle(
+    "prompts:save",
+    async (
+      _event,
+      { projectId, promptId, template }: {
+        projectId: number;
+        promptId: string;
+        template: string;
+      },
+    ) => {
+      const project = databaseService.getProjectById(projectId);
+      if (!project || !isPromptId(promptId)) {
+        return {
+          success: false,
+          error: project ? `Unknown prompt: ${promptId}` : "Project not found",
+          code: "NOT_FOUND",
+        };
+      }
+
+      try {
+        saveOverride(project.root_path, promptId, template);
+        return {
+          success: true,
+          data: { prompts: listPrompts(project.root_path) },
+        };
+      } catch (error) {
+        if (error instanceof PromptValidationError) {
+          return {
+            success: false,
+            error: error.message,
+            code: "INVALID_PROMPT",
+          };
+        }
+        return {
+          success: false,
+          error: error instanceof Error
+            ? error.message
+            : "Failed to save prompt",
+          code: "FILE_SYSTEM_ERROR",
+        };
+      }
+    },
+  );
+
+  ipcMain.handle(
+    "prompts:reset",
+    async (
+      _event,
+      { projectId, promptId }: { projectId: number; promptId: string },
+    ) => {
+      const project = databaseService.getProjectById(projectId);
+      if (!project || !isPromptId(promptId)) {
+        return {
+          success: false,
+          error: project ? `Unknown prompt: ${promptId}` : "Project not found",
+          code: "NOT_FOUND",
+        };
+      }
+
+      try {
+        deleteOverride(project.root_path, promptId);
+        return {
+          success: true,
+          data: { prompts: listPrompts(project.root_path) },
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error
+            ? error.message
+            : "Failed to reset prompt",
+          code: "FILE_SYSTEM_ERROR",
+        };
+      }
+    },
+  );
+
+  ipcMain.handle(
+    "prompts:test",
+    async (
+      event,
+      { featureId, promptId, template, requestId }: {
+        featureId: number;
+        promptId: string;
+        template: string;
+        requestId?: string;
+      },
+    ) => {
+      if (!isPromptId(promptId)) {
+        return {
+          success: false,
+          error: `Unknown prompt: ${promptId}`,
+          code: "NOT_FOUND",
+        };
+      }
+
+      try {
+        const result = await runStreamed(event.sender, requestId, (options) =>
+          analysisService.testPrompt(
+            featureId,
+            promptId,
+            template,
+            options,
+          ),
+        );
+        return {
+          success: true,
+          data: result,
+        };
+      } catch (error) {
+        return aiErrorResponse(error, "Prompt test failed");
+      }
+    },
+  );
+
+  // ========================================
+  // File Content Handler
+  // ========================================
+
+  ipcMain.handle(
+    "files:read-spec",
+    async (
+      _event,
+      { featureId, fileType }: {
+        featureId: number;
+        fileType:
+          | "spec"
+          | "plan"
+          | "tasks"
+          | "data-model"
+          | "research"
+          | "requirements";
+      },
+    ) => {
+      try {
+        const feature = databaseService.getFeatureById(featureId);
+        if (!feature) {
+          return {
+            success: false,
+            error: "Feature not found",
+            code: "NOT_FOUND",
+          };
+        }
+
+        // Construct file path based on spec_path
+        const specDir = path.dirname(feature.spec_path);
+        const fileName = `${
+          fileType === "data-model"
+            ? "data-model"
+            : fileType === "requirements"
+            ? "requirements"
+            : fileType
+        }.md`;
+        const filePath = fileType === "requirements"
+          ? path.join(specDir, "checklists", "requirements.md")
+          : path.join(specDir, fileName);
+
+        if (!fs.existsSync(filePath)) {
+          return {
+            success: false,
+            error: `File not found: ${fileName}`,
+            code: "FILE_NOT_FOUND",
+          };
+        }
+
+        const content = fs.readFileSync(filePath, "utf-8");
+
+        // Extract sections (basic markdown parsing)
+        const sections: Array<{
+          heading: string;
+          level: number;
+          lineStart: number;
+          lineEnd: number;
+        }> = [];
+
+        const lines = content.split("\n");
+        let currentSection: {
+          heading: string;
+          level: number;
+          lineStart: number;
+        } | null = null;
+
+        for (let i = 0; i < lines.length; i++) {
+          const line = lines[i];
+          const headingMatch = line.match(/^(#{1,6})\s+(.+)$/);
+
+          if (headingMatch) {
+            if (currentSection) {
+              sections.push({
+                ...currentSection,
+                lineEnd: i,
+              });
+            }
+            currentSection = {
+              heading: headingMatch[2],
+              level: headingMatch[1].length,
+              lineStart: i + 1,
+            };
+          }
+        }
+
+        if (currentSection) {
+          sections.push({
+            ...currentSection,
+            lineEnd: lines.length,
+          });
+        }
+
+        return {
+          success: true,
+          data: {
+            content,
+            sections,
+            metadata: {
+              title: feature.title || feature.feature_name,
+              status: feature.status,
+              created: feature.created_date,
+            },
+          },
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Failed to read file",
+          code: "FILE_ERROR",
+        };
+      }
+    },
+  );
+
+  ipcMain.handle(
+    "files:read-feature-file",
+    async (
+      _event,
+      { featureId, filePath }: { featureId: number; filePath: string },
+    ) => {
+      try {
+        const feature = databaseService.getFeatureById(featureId);
+        if (!feature) {
+          return {
+            success: false,
+            error: "Feature not found",
+            code: "NOT_FOUND",
+          };
+        }
+
+        // Only spec artifacts inside the feature directory can be read
+        const featureDir = path.dirname(feature.spec_path);
+        const absolutePath = path.resolve(featureDir, filePath);
+        const relativePath = path.relative(featureDir, absolutePath);
+        if (!isIndexedFile(relativePath)) {
+          return {
+            success: false,
+            error: `Not a spec artifact: ${filePath}`,
+            code: "INVALID_PATH",
+          };
+        }
+
+        if (!fs.existsSync(absolutePath)) {
+          return {
+            success: false,
+            error: `File not found: ${filePath}`,
+            code: "FILE_NOT_FOUND",
+          };
+        }
+
+        const content = fs.readFileSync(absolutePath, "utf-8");
+        const sections = absolutePath.endsWith(".md")
+          ? extractMarkdownSections(content).filter((s) => s.level > 0)
+          : [];
+
+        return {
+          success: true,
+          data: { content, sections },
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Failed to read file",
+          code: "FILE_ERROR",
+        };
+      }
+    },
+  );
+
+  // ========================================
+  // Search Handler
+  // ========================================
+
+  ipcMain.handle(
+    "search:query",
+    async (
+      _event,
+      { projectId, query, limit }: {
+        projectId: number;
+        query: string;
+        limit?: number;
+      },
+    ) => {
+      try {
+        return {
+          success: true,
+          data: { results: searchProject(projectId, query, limit) },
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Search failed",
+          code: "DB_ERROR",
         };
       }
     },
@@ -4,7 +4,7 @@
  */
 
 import { createOpenAI } from "@ai-sdk/openai";
-import type { LanguageModel } from "ai";
+import type { EmbeddingModel, LanguageModel } from "ai";
 
 // ============================================================================
 // Types
@@ -51,6 +51,14 @@ export class OllamaProvider {
     return this.openaiCompatClient!(modelId);
   }
 
+  /**
+   * Get an embedding model for the specified model ID
+   */
+  getEmbeddingModel(modelId: string): EmbeddingModel {
+    this.initClient();
+    return this.openaiCompatClient!.embedding(modelId);
+  }
+
   /**
    * List available models from Ollama
    */
@@ -0,0 +1,102 @@
+import path from "path";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { parseDataModelContent, parseDataModelFile } from "./data-model-parser";
+
+const SPECS = path.resolve(__dirname, "../../../specs");
+
+beforeAll(() => {
+  // The parser loads remark through new Function("return import(...)"),
+  // which the vitest module runner has no import callback for
+  const NativeFunction = Function;
+  vi.stubGlobal("Function", function (...args: string[]) {
+    if (args[args.length - 1] === "return import(specifier)") {
+      return (specifier: string) => import(specifier);
+    }
+    return new NativeFunction(...args);
+  });
+});
+
+describe("parseDataModelFile", () => {
+  it("reads the Status Transitions block of the dashboard data model", async () => {
+    const model = await parseDataModelFile(
+      path.join(SPECS, "002-speckit-viz-dashboard/data-model.md"),
+    );
+    const feature = model.entities.find((entity) => entity.name === "Feature");
+    expect(feature?.stateTransitions?.transitions).toEqual([
+      { from: "draft", to: "approved", trigger: null },
+      { from: "approved", to: "in_progress", trigger: null },
+      { from: "in_progress", to: "complete", trigger: null },
+    ]);
+  });
+
+  it("does not read Lifecycle prose or checkbox mappings as states", async () => {
+    const model = await parseDataModelFile(
+      path.join(SPECS, "002-speckit-viz-dashboard/data-model.md"),
+    );
+    const withStates = model.entities
+      .filter((entity) => entity.stateTransitions)
+      .map((entity) => entity.name);
+    expect(withStates).toEqual(["Feature"]);
+  });
+
+  it("reads transitions listed with their triggers", async () => {
+    const model = await parseDataModelFile(
+      path.join(SPECS, "001-speckit-ai-visualization/data-model.md"),
+    );
+    const request = model.entities.find((entity) => entity.name.endsWith("AnalysisRequest"));
+    expect(request?.stateTransitions).toMatchObject({
+      states: ["pending", "processing", "completed", "failed"],
+      initial: "pending",
+      issues: [],
+    });
+    expect(request?.stateTransitions?.transitions[0]).toEqual({
+      from: "pending",
+      to: "processing",
+      trigger: "when analysis starts",
+    });
+    expect(model.entities.filter((entity) => entity.stateTransitions)).toHaveLength(1);
+  });
+});
+
+describe("parseDataModelContent", () => {
+  it("reports unreachable and undefined states", async () => {
+    const model = await parseDataModelContent([
+      "### Spec",
+      "",
+      "**Attributes**:",
+      "",
+      "- `status` (TEXT, enum: draft | approved | archived): Review state",
+      "",
+      "**State Transitions**:",
+      "",
+      "- draft → approved",
+      "- approved → rejected",
+    ].join("\n"));
+
+    expect(model.entities[0].stateTransitions?.issues.map((issue) => issue.type)).toEqual([
+      "undefined-state",
+      "unreachable",
+    ]);
+    expect(model.diagnostics.map((diagnostic) => diagnostic.code)).toEqual(
+      expect.arrayContaining(["data-model/undefined-state", "data-model/unreachable-state"]),
+    );
+  });
+
+  it("stops reading transitions at the next label", async () => {
+    const model = await parseDataModelContent([
+      "### Task",
+      "",
+      "**State Transitions**:",
+      "",
+      "- todo → done",
+      "",
+      "**Status Detection**:",
+      "",
+      "- Checkbox: `- [ ]` → todo, `- [x]` → done",
+    ].join("\n"));
+
+    expect(model.entities[0].stateTransitions?.transitions).toEqual([
+      { from: "todo", to: "done", trigger: null },
+    ]);
+  });
+});
@@ -4,6 +4,20 @@
  */
 
 import fs from "fs";
+import {
+  diagnosticAt,
+  type NodePosition,
+  type ParseDiagnostic,
+} from "./diagnostics";
+import {
+  buildStateMachine,
+  parseTransitionLine,
+  parseTransitionTable,
+  type StateMachine,
+  type TransitionsFound,
+} from "./state-transitions";
+
+const FILE = "data-model.md";
 
 interface EntityAttribute {
   name: string;
@@ -23,11 +37,13 @@ interface ParsedEntity {
   attributes: EntityAttribute[];
   relationships: EntityRelationship[];
   validationRules: string[];
+  stateTransitions: StateMachine | null;
 }
 
 interface ParsedDataModel {
   entities: ParsedEntity[];
   overview: string | null;
+  diagnostics: ParseDiagnostic[];
 }
 
 interface MarkdownNode {
@@ -35,6 +51,7 @@ interface MarkdownNode {
   depth?: number;
   children?: MarkdownNode[];
   value?: string;
+  position?: NodePosition;
 }
 
 /**
@@ -92,6 +109,40 @@ export async function parseDataModelContent(
   const result: ParsedDataModel = {
     entities: [],
     overview: null,
+    diagnostics: [],
+  };
+
+  // Heading node of each entity, to locate entity-level diagnostics
+  const entityNodes = new Map<ParsedEntity, MarkdownNode>();
+  // State transitions of each entity and the node of its first one
+  const transitionsFound = new Map<
+    ParsedEntity,
+    { found: TransitionsFound; node: MarkdownNode }
+  >();
+
+  const addTransitions = (
+    entity: ParsedEntity,
+    found: TransitionsFound,
+    node: MarkdownNode,
+  ) => {
+    if (found.transitions.length === 0 && !found.initial) return;
+    const existing = transitionsFound.get(entity);
+    if (!existing) {
+      transitionsFound.set(entity, { found, node });
+      return;
+    }
+    existing.found.transitions.push(...found.transitions);
+    existing.found.initial ??= found.initial;
+  };
+
+  const addTransitionLines = (
+    entity: ParsedEntity,
+    text: string,
+    node: MarkdownNode,
+  ) => {
+    for (const line of text.split("\n")) {
+      addTransitions(entity, parseTransitionLine(line), node);
+    }
   };
 
   let currentSection = "";
@@ -127,6 +178,16 @@ export async function parseDataModelContent(
     if (node.type === "heading" && node.depth === 3) {
       const text = extractText(node);
 
+      if (result.entities.some((entity) => entity.name === text.trim())) {
+        result.diagnostics.push(diagnosticAt(
+          FILE,
+          node,
+          "warning",
+          "data-model/duplicate-entity",
+          `Entity "${text.trim()}" is defined more than once; the last definition wins`,
+        ));
+      }
+
       // Create new entity
       currentEntity = {
         name: text.trim(),
@@ -134,8 +195,10 @@ export async function parseDataModelContent(
         attributes: [],
         relationships: [],
         validationRules: [],
+        stateTransitions: null,
       };
       result.entities.push(currentEntity);
+      entityNodes.set(currentEntity, node);
       currentSubSection = "";
       continue;
     }
@@ -153,6 +216,11 @@ export async function parseDataModelContent(
         text.includes("relationship") || text.includes("association")
       ) {
         currentSubSection = "relationships";
+      } else if (
+        text.includes("state") || text.includes("lifecycle") ||
+        text.includes("transition")
+      ) {
+        currentSubSection = "states";
       } else {
         currentSubSection = text;
       }
@@ -175,6 +243,17 @@ export async function parseDataModelContent(
       const text = extractText(node).trim();
       const lowerText = text.toLowerCase();
 
+      // Transitions on the same line as their label:
+      // **State Transitions**: draft → approved → published
+      const inline = text.match(
+        /^(?:state transitions?|transitions|lifecycle|states?)\s*:\s*(.+)$/is,
+      );
+      if (inline && /→|->|=>|⟶|⇒/.test(inline[1])) {
+        currentSubSection = "states";
+        addTransitionLines(currentEntity, inline[1], node);
+        continue;
+      }
+
       // Check if this looks like a section header (short text, typically ends with ":" or is a keyword)
       // The markdown parser converts **Bold**: to just "Bold:" in the text
       const isLikelySectionHeader = (
@@ -200,15 +279,20 @@ export async function parseDataModelContent(
           currentSubSection = "validation";
           continue;
         } else if (
-          lowerText.includes("lifecycle") || lowerText.includes("state")
+          lowerText.includes("state") || lowerText.includes("transition")
         ) {
-          currentSubSection = lowerText.replace(":", "").trim();
+          // A Lifecycle list is prose about when rows are created and
+          // deleted, only labelled transitions are read as states
+          currentSubSection = "states";
           continue;
         } else if (lowerText.includes("storage")) {
           // Skip storage sections, they're not parsed
           currentSubSection = "storage";
           continue;
         }
+        // Any other label ends the previous subsection, so its lists
+        // are not read as attributes or transitions
+        currentSubSection = "";
       }
     }
 
@@ -222,14 +306,25 @@ export async function parseDataModelContent(
       continue;
     }
 
+    // Transitions written as paragraphs or code blocks, one per line
+    if (
+      (node.type === "paragraph" || node.type === "code") && currentEntity &&
+      currentSubSection === "states"
+    ) {
+      addTransitionLines(currentEntity, extractText(node), node);
+      continue;
+    }
+
     // Parse attribute/relationship lists
     if (node.type === "list" && currentEntity) {
-      const items = (node.children || []).map((item) =>
-        extractText(item).trim()
+      const itemNodes = node.children || [];
+      // Join items wrapped over several lines
+      const items = itemNodes.map((item) =>
+        extractText(item).replace(/\s+/g, " ").trim()
       );
 
       if (currentSubSection === "attributes") {
-        items.forEach((item) => {
+        items.forEach((item, index) => {
           // Handle format: `name` (TYPE, CONSTRAINTS...): Description
           // or: name (TYPE, CONSTRAINTS...): Description
           const match = item.match(/^`?([^`(]+)`?\s*\(([^)]+)\)\s*:\s*(.*)$/);
@@ -258,11 +353,21 @@ export async function parseDataModelContent(
                 type: simpleMatch[2].trim(),
                 constraints: null,
               });
+            } else if (item) {
+              result.diagnostics.push(diagnosticAt(
+                FILE,
+                itemNodes[index],
+                "warning",
+                "data-model/unparsed-attribute",
+                `Attribute of ${
+                  currentEntity!.name
+                } is not in "name (type): description" form and was skipped`,
+              ));
             }
           }
         });
       } else if (currentSubSection === "relationships") {
-        items.forEach((item) => {
+        items.forEach((item, index) => {
           // Parse patterns like "has many Tasks" or "belongs to Project"
           const targetMatch = item.match(
             /(?:has|belongs|references)\s+(?:many|one|to)?\s*(\w+)/i,
@@ -273,8 +378,22 @@ export async function parseDataModelContent(
               type: parseRelationType(item),
               description: item,
             });
+          } else if (item) {
+            result.diagnostics.push(diagnosticAt(
+              FILE,
+              itemNodes[index],
+              "info",
+              "data-model/unparsed-relationship",
+              `Relationship of ${
+                currentEntity!.name
+              } names no target ("has many X", "belongs to X") and was skipped`,
+            ));
           }
         });
+      } else if (currentSubSection === "states") {
+        items.forEach((item, index) => {
+          addTransitions(currentEntity!, parseTransitionLine(item), itemNodes[index]);
+        });
       } else if (currentSubSection === "validation") {
         // Parse validation rules
         items.forEach((item) => {
@@ -306,6 +425,48 @@ export async function parseDataModelContent(
         }
       });
     }
+
+    // Parse state transition tables (From | To | Trigger)
+    if (
+      node.type === "table" && currentEntity &&
+      currentSubSection === "states"
+    ) {
+      const rows = (node.children || []).map((row) =>
+        (row.children || []).map((cell) => extractText(cell).trim())
+      );
+      addTransitions(currentEntity, parseTransitionTable(rows), node);
+    }
+  }
+
+  for (const [entity, { found, node }] of transitionsFound) {
+    entity.stateTransitions = buildStateMachine(
+      entity.name,
+      found,
+      entity.attributes,
+    );
+    for (const issue of entity.stateTransitions.issues) {
+      result.diagnostics.push(diagnosticAt(
+        FILE,
+        node,
+        "warning",
+        issue.type === "unreachable"
+          ? "data-model/unreachable-state"
+          : "data-model/undefined-state",
+        issue.message,
+      ));
+    }
+  }
+
+  for (const entity of result.entities) {
+    if (entity.attributes.length === 0) {
+      result.diagnostics.push(diagnosticAt(
+        FILE,
+        entityNodes.get(entity) ?? null,
+        "info",
+        "data-model/entity-without-attributes",
+        `Entity "${entity.name}" has no attributes`,
+      ));
+    }
   }
 
   return result;
@@ -0,0 +1,65 @@
+/**
+ * Speckit Dashboard - Parse Diagnostics
+ * Problems found while parsing spec-kit files, with their location and rule
+ */
+
+type DiagnosticSeverity = "error" | "warning" | "info";
+
+export interface ParseDiagnostic {
+  /** File the problem was found in, relative to the feature directory */
+  file: string;
+  /** 1-based line */
+  line: number;
+  /** 1-based column */
+  column: number;
+  severity: DiagnosticSeverity;
+  /** Rule code, e.g. "tasks/missing-task-id" */
+  code: string;
+  message: string;
+}
+
+/**
+ * Start position of a markdown (mdast) node
+ */
+export interface NodePosition {
+  start: { line: number; column: number };
+}
+
+/**
+ * Build a diagnostic located at the start of a markdown node
+ * Falls back to the top of the file when the node has no position
+ */
+export function diagnosticAt(
+  file: string,
+  node: { position?: NodePosition } | null,
+  severity: DiagnosticSeverity,
+  code: string,
+  message: string,
+): ParseDiagnostic {
+  return {
+    file,
+    line: node?.position?.start.line ?? 1,
+    column: node?.position?.start.column ?? 1,
+    severity,
+    code,
+    message,
+  };
+}
+
+/**
+ * Diagnostic for a file that could not be parsed at all
+ */
+export function parseFailure(file: string, error: unknown): ParseDiagnostic {
+  return {
+    file,
+    line: 1,
+    column: 1,
+    severity: "error",
+    code: `${file.replace(/\.md$/, "")}/parse-failed`,
+    message: `Could not parse ${file}: ${
+      error instanceof Error ? error.message : String(error)
+    }`,
+  };
+}
+
+export default { diagnosticAt, parseFailure };
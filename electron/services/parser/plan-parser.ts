@@ -4,6 +4,13 @@
  */
 
 import fs from "fs";
+import {
+  diagnosticAt,
+  type NodePosition,
+  type ParseDiagnostic,
+} from "./diagnostics";
+
+const FILE = "plan.md";
 
 interface ParsedPhase {
   name: string;
@@ -18,6 +25,7 @@ interface ParsedPlan {
   phases: ParsedPhase[];
   dependencies: string[];
   risks: Array<{ risk: string; mitigation: string }>;
+  diagnostics: ParseDiagnostic[];
 }
 
 interface MarkdownNode {
@@ -25,6 +33,7 @@ interface MarkdownNode {
   depth?: number;
   children?: MarkdownNode[];
   value?: string;
+  position?: NodePosition;
 }
 
 /**
@@ -71,6 +80,7 @@ export async function parsePlanContent(content: string): Promise<ParsedPlan> {
     phases: [],
     dependencies: [],
     risks: [],
+    diagnostics: [],
   };
 
   let currentSection = "";
@@ -137,13 +147,21 @@ export async function parsePlanContent(content: string): Promise<ParsedPlan> {
       } else if (currentSection === "dependencies") {
         result.dependencies.push(...items);
       } else if (currentSection === "risks") {
-        items.forEach((item) => {
+        items.forEach((item, index) => {
           const parts = item.split(/[-–:]/).map((p) => p.trim());
           if (parts.length >= 2) {
             result.risks.push({
               risk: parts[0],
               mitigation: parts.slice(1).join(": "),
             });
+          } else if (item) {
+            result.diagnostics.push(diagnosticAt(
+              FILE,
+              (node.children || [])[index],
+              "warning",
+              "plan/unparsed-risk",
+              'Risk has no mitigation ("Risk: mitigation") and was skipped',
+            ));
           }
         });
       }
@@ -164,6 +182,16 @@ export async function parsePlanContent(content: string): Promise<ParsedPlan> {
     }
   }
 
+  if (!result.summary) {
+    result.diagnostics.push(diagnosticAt(
+      FILE,
+      null,
+      "info",
+      "plan/missing-summary",
+      'No "Summary" section found',
+    ));
+  }
+
   return result;
 }
 
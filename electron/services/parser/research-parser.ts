@@ -4,6 +4,13 @@
  */
 
 import fs from "fs";
+import {
+    diagnosticAt,
+    type NodePosition,
+    type ParseDiagnostic,
+} from "./diagnostics";
+
+const FILE = "research.md";
 
 interface ParsedDecision {
     title: string;
@@ -15,6 +22,7 @@ interface ParsedDecision {
 
 interface ParsedResearch {
     decisions: ParsedDecision[];
+    diagnostics: ParseDiagnostic[];
 }
 
 interface MarkdownNode {
@@ -22,6 +30,7 @@ interface MarkdownNode {
     depth?: number;
     children?: MarkdownNode[];
     value?: string;
+    position?: NodePosition;
 }
 
 /**
@@ -68,8 +77,12 @@ export async function parseResearchContent(
 
     const result: ParsedResearch = {
         decisions: [],
+        diagnostics: [],
     };
 
+    // Heading node of each decision, to locate decision-level diagnostics
+    const decisionNodes = new Map<ParsedDecision, MarkdownNode>();
+
     let currentSection = "";
     let currentDecision: ParsedDecision | null = null;
     let currentSubsection = "";
@@ -113,6 +126,7 @@ export async function parseResearchContent(
                 alternatives: [],
                 context: null,
             };
+            decisionNodes.set(currentDecision, node);
             currentSubsection = "";
             paragraphBuffer = [];
             continue;
@@ -169,9 +183,10 @@ export async function parseResearchContent(
         if (node.type === "paragraph" && currentDecision) {
             const text = extractText(node);
 
-            // Look for "Decision:" prefix
-            if (text.match(/^\*\*Decision\*\*:/i)) {
-                const decision = text.replace(/^\*\*Decision\*\*:\s*/i, "")
+            // Look for "Decision:" prefix (bold markers are already stripped)
+            if (text.match(/^(?:\*\*)?Decision(?:\*\*)?:/i)) {
+                const decision = text
+                    .replace(/^(?:\*\*)?Decision(?:\*\*)?:\s*/i, "")
                     .trim();
                 currentDecision.decision = decision;
                 currentSubsection = "";
@@ -237,6 +252,18 @@ export async function parseResearchContent(
         result.decisions.push(currentDecision);
     }
 
+    for (const decision of result.decisions) {
+        if (!decision.decision) {
+            result.diagnostics.push(diagnosticAt(
+                FILE,
+                decisionNodes.get(decision) ?? null,
+                "warning",
+                "research/missing-decision",
+                `"${decision.title}" does not state a decision`,
+            ));
+        }
+    }
+
     return result;
 }
 
@@ -4,6 +4,16 @@
  */
 
 import fs from "fs";
+import {
+  diagnosticAt,
+  type NodePosition,
+  type ParseDiagnostic,
+} from "./diagnostics";
+
+const FILE = "spec.md";
+
+// Statuses the dashboard knows how to display
+const KNOWN_STATUSES = ["draft", "approved", "in_progress", "complete"];
 
 interface ParsedRequirement {
   id: string;
@@ -12,6 +22,8 @@ interface ParsedRequirement {
 }
 
 interface ParsedUserStory {
+  /** Story label matching the [USn] task labels in tasks.md */
+  label: string;
   title: string;
   priority: string;
   description: string;
@@ -25,6 +37,7 @@ interface ParsedSpec {
   featureBranch: string | null;
   userStories: ParsedUserStory[];
   requirements: ParsedRequirement[];
+  diagnostics: ParseDiagnostic[];
 }
 
 interface MarkdownNode {
@@ -32,6 +45,7 @@ interface MarkdownNode {
   depth?: number;
   children?: MarkdownNode[];
   value?: string;
+  position?: NodePosition;
 }
 
 /**
@@ -79,9 +93,12 @@ export async function parseSpecContent(content: string): Promise<ParsedSpec> {
     featureBranch: null,
     userStories: [],
     requirements: [],
+    diagnostics: [],
   };
 
   let currentSection = "";
+  // H3 heading within the requirements section ("Functional Requirements")
+  let requirementsSubsection = "";
   let currentStory: ParsedUserStory | null = null;
 
   const children = tree.children as MarkdownNode[];
@@ -105,12 +122,21 @@ export async function parseSpecContent(content: string): Promise<ParsedSpec> {
         currentSection = "userStories";
       } else if (headingText.includes("requirement")) {
         currentSection = "requirements";
+        requirementsSubsection = "";
       } else {
         currentSection = "";
       }
       continue;
     }
 
+    if (
+      node.type === "heading" && node.depth === 3 &&
+      currentSection === "requirements"
+    ) {
+      requirementsSubsection = extractText(node).toLowerCase();
+      continue;
+    }
+
     // Parse user story headings (H3)
     if (
       node.type === "heading" && node.depth === 3 &&
@@ -118,9 +144,42 @@ export async function parseSpecContent(content: string): Promise<ParsedSpec> {
     ) {
       const text = extractText(node);
       const priorityMatch = text.match(/\(Priority:\s*(P[123])\)/i);
+      const numberMatch = text.match(/^User\s+Story\s+(\d+)\s*[-–—:]?\s*/i);
+
+      // Other H3s in the section (e.g. "Edge Cases") are not stories
+      if (!priorityMatch && !numberMatch) {
+        currentStory = null;
+        continue;
+      }
+
+      const label = `US${
+        numberMatch ? numberMatch[1] : result.userStories.length + 1
+      }`;
+      if (result.userStories.some((story) => story.label === label)) {
+        result.diagnostics.push(diagnosticAt(
+          FILE,
+          node,
+          "warning",
+          "spec/duplicate-story",
+          `${label} is defined more than once; tasks labelled [${label}] match the last one`,
+        ));
+      }
+      if (!priorityMatch) {
+        result.diagnostics.push(diagnosticAt(
+          FILE,
+          node,
+          "info",
+          "spec/story-missing-priority",
+          `${label} has no "(Priority: P1-P3)" tag and defaults to P2`,
+        ));
+      }
 
       currentStory = {
-        title: text.replace(/\s*\(Priority:.*\)/i, "").trim(),
+        label,
+        title: text
+          .replace(/\s*\(Priority:.*\)/i, "")
+          .replace(/^User\s+Story\s+\d+\s*[-–—:]?\s*/i, "")
+          .trim(),
         priority: priorityMatch ? priorityMatch[1].toUpperCase() : "P2",
         description: "",
         acceptanceScenarios: [],
@@ -137,6 +196,17 @@ export async function parseSpecContent(content: string): Promise<ParsedSpec> {
       if (text.includes("**Status**:")) {
         const match = text.match(/\*\*Status\*\*:\s*(\w+)/i);
         if (match) result.status = match[1].toLowerCase();
+        if (match && !KNOWN_STATUSES.includes(result.status)) {
+          result.diagnostics.push(diagnosticAt(
+            FILE,
+            node,
+            "warning",
+            "spec/unknown-status",
+            `Unknown status "${match[1]}"; expected one of ${
+              KNOWN_STATUSES.join(", ")
+            }`,
+          ));
+        }
       }
       if (text.includes("**Created**:")) {
         const match = text.match(/\*\*Created\*\*:\s*([\d-]+)/);
@@ -170,25 +240,55 @@ export async function parseSpecContent(content: string): Promise<ParsedSpec> {
 
     // Parse requirements lists
     if (node.type === "list" && currentSection === "requirements") {
-      const items = (node.children || []).map((item) =>
-        extractText(item).trim()
-      );
+      // Other lists of the section (e.g. "Key Entities") hold no requirements
+      const expectsIds = !requirementsSubsection ||
+        requirementsSubsection.includes("requirement");
+
+      (node.children || []).forEach((itemNode) => {
+        const item = extractText(itemNode).trim();
 
-      items.forEach((item) => {
         // Extract FR-XXX style IDs
         const idMatch = item.match(/^(FR-\d+|NFR-\d+)/i);
         if (idMatch) {
+          const id = idMatch[1].toUpperCase();
+          if (result.requirements.some((req) => req.id === id)) {
+            result.diagnostics.push(diagnosticAt(
+              FILE,
+              itemNode,
+              "warning",
+              "spec/duplicate-requirement",
+              `${id} is defined more than once`,
+            ));
+          }
           result.requirements.push({
-            id: idMatch[1].toUpperCase(),
+            id,
             description: item.replace(idMatch[0], "").replace(/^[:\s-]+/, "")
               .trim(),
             priority: null,
           });
+        } else if (expectsIds && item) {
+          result.diagnostics.push(diagnosticAt(
+            FILE,
+            itemNode,
+            "warning",
+            "spec/requirement-missing-id",
+            "Requirement has no FR-### or NFR-### ID and was skipped",
+          ));
         }
       });
     }
   }
 
+  if (!result.title) {
+    result.diagnostics.push(diagnosticAt(
+      FILE,
+      null,
+      "warning",
+      "spec/missing-title",
+      "No H1 title found; the feature directory name is used instead",
+    ));
+  }
+
   return result;
 }
 
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildStateMachine,
+  parseTransitionLine,
+  parseTransitionTable,
+  stateKey,
+} from "./state-transitions";
+
+const statusAttribute = {
+  name: "status",
+  type: "enum(draft, approved, published, archived)",
+  constraints: null,
+};
+
+describe("parseTransitionLine", () => {
+  it("reads a chain of states", () => {
+    expect(parseTransitionLine("draft → approved → published").transitions).toEqual([
+      { from: "draft", to: "approved", trigger: null },
+      { from: "approved", to: "published", trigger: null },
+    ]);
+  });
+
+  it("expands alternatives and keeps the trigger of the last step", () => {
+    expect(parseTransitionLine("- in_progress -> done | cancelled (when closed)").transitions)
+      .toEqual([
+        { from: "in_progress", to: "done", trigger: "when closed" },
+        { from: "in_progress", to: "cancelled", trigger: "when closed" },
+      ]);
+  });
+
+  it("reads Mermaid transitions and the initial state", () => {
+    expect(parseTransitionLine("draft --> approved : submit").transitions).toEqual([
+      { from: "draft", to: "approved", trigger: "submit" },
+    ]);
+    expect(parseTransitionLine("[*] --> draft")).toEqual({ transitions: [], initial: "draft" });
+  });
+
+  it("ignores prose and markdown around arrows", () => {
+    expect(parseTransitionLine(
+      "Parse markdown checkbox: - [ ] → 'not_started', - [/] → 'in_progress', - [x] → 'done'",
+    ).transitions).toEqual([]);
+    expect(parseTransitionLine("Status: draft → approved").transitions).toEqual([]);
+    expect(parseTransitionLine("see the table below for how it moves → later").transitions)
+      .toEqual([]);
+  });
+});
+
+describe("parseTransitionTable", () => {
+  it("reads From / To / Trigger columns", () => {
+    const found = parseTransitionTable([
+      ["From", "To", "Trigger"],
+      ["[*]", "draft", ""],
+      ["draft", "approved", "review passes"],
+      ["approved", "published, archived", ""],
+    ]);
+    expect(found.initial).toBe("draft");
+    expect(found.transitions).toEqual([
+      { from: "draft", to: "approved", trigger: "review passes" },
+      { from: "approved", to: "published", trigger: null },
+      { from: "approved", to: "archived", trigger: null },
+    ]);
+  });
+
+  it("reads arrows from cells when the columns are not named", () => {
+    const found = parseTransitionTable([["Transition", "Notes"], ["draft → approved", "manual"]]);
+    expect(found.transitions).toEqual([{ from: "draft", to: "approved", trigger: null }]);
+  });
+});
+
+describe("buildStateMachine", () => {
+  it("takes the states and initial state from the status attribute", () => {
+    const machine = buildStateMachine(
+      "Spec",
+      parseTransitionLine("Draft → approved → published → archived"),
+      [statusAttribute],
+    );
+    expect(machine.attribute).toBe("status");
+    expect(machine.states).toEqual(["draft", "approved", "published", "archived"]);
+    expect(machine.initial).toBe("draft");
+    expect(machine.issues).toEqual([]);
+  });
+
+  it("flags states no transition reaches", () => {
+    const machine = buildStateMachine(
+      "Spec",
+      parseTransitionLine("draft → approved → published"),
+      [statusAttribute],
+    );
+    expect(machine.issues.map(({ type, state }) => ({ type, state }))).toEqual([
+      { type: "unreachable", state: "archived" },
+    ]);
+  });
+
+  it("flags states the status attribute does not define", () => {
+    const machine = buildStateMachine(
+      "Spec",
+      parseTransitionLine("draft → approved → rejected → archived → published"),
+      [statusAttribute],
+    );
+    expect(machine.issues.map(({ type, state }) => ({ type, state }))).toEqual([
+      { type: "undefined-state", state: "rejected" },
+    ]);
+  });
+
+  it("matches states regardless of case and separators", () => {
+    expect(stateKey("In Progress")).toBe(stateKey("in-progress"));
+    expect(stateKey("in_progress")).toBe("in_progress");
+  });
+});
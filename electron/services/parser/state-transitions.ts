@@ -0,0 +1,296 @@
+/**
+ * Speckit Dashboard - State Transitions
+ * Parse the "State Transitions" sections of data-model.md entities into a
+ * state machine and check it for unreachable and undefined states
+ */
+
+import { parseEnumValues } from "../codegen/model";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface StateTransition {
+  from: string;
+  to: string;
+  /** What causes the transition, e.g. "on approval" */
+  trigger: string | null;
+}
+
+export interface StateMachineIssue {
+  type: "unreachable" | "undefined-state";
+  state: string;
+  message: string;
+}
+
+export interface StateMachine {
+  /** Attribute holding the state, when one lists the states */
+  attribute: string | null;
+  /** Declared states first, then any others the transitions mention */
+  states: string[];
+  initial: string | null;
+  transitions: StateTransition[];
+  issues: StateMachineIssue[];
+}
+
+/**
+ * Transitions read from a section, with the initial state when the section
+ * marks one ("[*] → draft")
+ */
+export interface TransitionsFound {
+  transitions: StateTransition[];
+  initial: string | null;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+const ARROW = /\s*(?:-->|->|=>|→|⟶|⇒|➔|➜)\s*/;
+const START = "[*]";
+
+/**
+ * Name a state is matched by: "In Progress", "in-progress" and
+ * "in_progress" are the same state
+ */
+export function stateKey(state: string): string {
+  return state.trim().toLowerCase().replace(/[\s-]+/g, "_");
+}
+
+function cleanState(text: string): string {
+  if (text.trim() === START) return START;
+  return text.replace(/[`*"']/g, "").trim();
+}
+
+/**
+ * States of one side of an arrow; "approved | rejected" and
+ * "approved, rejected" are alternatives
+ * Null when the text reads as prose rather than state names
+ */
+function parseStates(text: string): string[] | null {
+  const states = text
+    .split(/\s*(?:\||,|\/|\bor\b)\s*/)
+    .map(cleanState)
+    .filter(Boolean);
+  if (states.length === 0) return null;
+  const valid = states.every((state) =>
+    state === START || /^[\w-]+(?:[ .][\w-]+){0,2}$/.test(state)
+  );
+  return valid ? states : null;
+}
+
+/**
+ * Split a segment into its states and any trailing note:
+ * "approved (on approval)", "approved: reviewer signs off"
+ * `inline` is set for notes after ":" or " - ", which only read as a
+ * trigger at the end of a line
+ */
+function splitNote(
+  segment: string,
+): { states: string; note: string | null; inline: boolean } {
+  const match = segment.match(/^([^:(]*?)\s*(?:\(([^)]*)\)?|:\s*(.*)|\s[-–—]\s+(.*))\s*$/);
+  if (!match) return { states: segment, note: null, inline: false };
+  const note = (match[2] ?? match[3] ?? match[4] ?? "").trim();
+  return {
+    states: match[1],
+    note: note || null,
+    inline: match[2] === undefined && note !== "",
+  };
+}
+
+/**
+ * Notes that are markdown rather than words, such as the checkbox in
+ * "Parse checkbox: `- [ ]` → not_started"
+ */
+function isMarkupNote(note: string): boolean {
+  return /`|\[[ xX/]?\]/.test(note);
+}
+
+/**
+ * Transitions of a line such as "draft → approved → published",
+ * "in_progress → done | cancelled (when closed)" or the Mermaid
+ * "draft --> approved : submit"
+ * A trailing note is the trigger of the last step
+ */
+export function parseTransitionLine(line: string): TransitionsFound {
+  const found: TransitionsFound = { transitions: [], initial: null };
+  const text = line.replace(/^\s*(?:[-*+]|\d+\.)\s+/, "").trim();
+  const segments = text.split(ARROW);
+  if (segments.length < 2) return found;
+
+  const steps: string[][] = [];
+  let trigger: string | null = null;
+  for (let i = 0; i < segments.length; i++) {
+    const { states, note, inline } = splitNote(segments[i]);
+    // "Label: a → b" and "a - aside → b" are prose around arrows
+    if (note && (isMarkupNote(note) || (inline && i < segments.length - 1))) {
+      return found;
+    }
+    const parsed = parseStates(states);
+    if (!parsed) return found;
+    steps.push(parsed);
+    if (i === segments.length - 1) trigger = note;
+  }
+
+  for (let i = 0; i < steps.length - 1; i++) {
+    for (const from of steps[i]) {
+      for (const to of steps[i + 1]) {
+        if (to === START) continue;
+        if (from === START) {
+          found.initial ??= to;
+          continue;
+        }
+        found.transitions.push({
+          from,
+          to,
+          trigger: i === steps.length - 2 ? trigger : null,
+        });
+      }
+    }
+  }
+  return found;
+}
+
+/**
+ * Transitions of a table with From / To / Trigger columns, or of a table
+ * whose cells hold "a → b" lines
+ */
+export function parseTransitionTable(rows: string[][]): TransitionsFound {
+  const found: TransitionsFound = { transitions: [], initial: null };
+  if (rows.length < 2) return found;
+
+  const header = rows[0].map((cell) => cell.toLowerCase());
+  const fromIndex = header.findIndex((cell) => /\b(from|source|current)\b/.test(cell));
+  const toIndex = header.findIndex((cell) => /\b(to|target|next)\b/.test(cell));
+  const triggerIndex = header.findIndex((cell) =>
+    /\b(trigger|event|action|when|condition)\b/.test(cell)
+  );
+
+  for (const row of rows.slice(1)) {
+    if (fromIndex === -1 || toIndex === -1 || fromIndex === toIndex) {
+      const cell = row.find((value) => ARROW.test(value));
+      if (!cell) continue;
+      const line = parseTransitionLine(cell);
+      found.transitions.push(...line.transitions);
+      found.initial ??= line.initial;
+      continue;
+    }
+
+    const froms = parseStates(row[fromIndex] ?? "");
+    const tos = parseStates(row[toIndex] ?? "");
+    if (!froms || !tos) continue;
+    const trigger = triggerIndex === -1 ? null : row[triggerIndex]?.trim() || null;
+    for (const from of froms) {
+      for (const to of tos) {
+        if (from === START) found.initial ??= to;
+        else found.transitions.push({ from, to, trigger });
+      }
+    }
+  }
+  return found;
+}
+
+// ============================================================================
+// State Machine
+// ============================================================================
+
+/**
+ * The state or status attribute whose values the transitions use most
+ */
+function findStateAttribute(
+  attributes: Array<{ name: string; type: string; constraints: string | null }>,
+  mentioned: Set<string>,
+): { name: string; values: string[] } | null {
+  let best: { name: string; values: string[]; overlap: number } | null = null;
+  for (const attribute of attributes) {
+    if (!/(state|status)$/i.test(attribute.name.replace(/[^a-z]/gi, ""))) continue;
+    const values = parseEnumValues(`${attribute.type}, ${attribute.constraints ?? ""}`);
+    const overlap = values.filter((value) => mentioned.has(stateKey(value))).length;
+    if (overlap > 0 && (!best || overlap > best.overlap)) {
+      best = { name: attribute.name, values, overlap };
+    }
+  }
+  return best && { name: best.name, values: best.values };
+}
+
+/**
+ * Build an entity's state machine from the transitions found for it
+ * The states of its state or status attribute are the defined states; the
+ * first of them is the initial state unless the transitions mark one
+ */
+export function buildStateMachine(
+  entityName: string,
+  found: TransitionsFound,
+  attributes: Array<{ name: string; type: string; constraints: string | null }>,
+): StateMachine {
+  const mentioned = new Map<string, string>();
+  const named = found.transitions.flatMap(({ from, to }) => [from, to]);
+  for (const state of found.initial ? [found.initial, ...named] : named) {
+    if (!mentioned.has(stateKey(state))) mentioned.set(stateKey(state), state);
+  }
+
+  const attribute = findStateAttribute(attributes, new Set(mentioned.keys()));
+  const declared = new Map((attribute?.values ?? []).map((value) => [stateKey(value), value]));
+  const states = [
+    ...declared.values(),
+    ...[...mentioned].filter(([key]) => !declared.has(key)).map(([, state]) => state),
+  ];
+  const initial = found.initial ??
+    attribute?.values[0] ??
+    found.transitions[0]?.from ??
+    null;
+
+  const machine: StateMachine = {
+    attribute: attribute?.name ?? null,
+    states,
+    initial,
+    transitions: found.transitions,
+    issues: [],
+  };
+
+  // Transitions to or from states the attribute does not list
+  if (attribute) {
+    for (const [key, state] of mentioned) {
+      if (declared.has(key)) continue;
+      machine.issues.push({
+        type: "undefined-state",
+        state,
+        message: `State "${state}" of ${entityName} is used by a transition but is not a value of ${attribute.name}`,
+      });
+    }
+  }
+
+  // States no sequence of transitions leads to from the initial state
+  if (initial) {
+    const reached = new Set([stateKey(initial)]);
+    const queue = [stateKey(initial)];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const { from, to } of found.transitions) {
+        if (stateKey(from) === current && !reached.has(stateKey(to))) {
+          reached.add(stateKey(to));
+          queue.push(stateKey(to));
+        }
+      }
+    }
+    const undefinedStates = new Set(machine.issues.map((issue) => stateKey(issue.state)));
+    for (const state of states) {
+      // An undefined state is already flagged
+      if (reached.has(stateKey(state)) || undefinedStates.has(stateKey(state))) continue;
+      machine.issues.push({
+        type: "unreachable",
+        state,
+        message: `State "${state}" of ${entityName} cannot be reached from "${initial}"`,
+      });
+    }
+  }
+
+  return machine;
+}
+
+export default {
+  parseTransitionLine,
+  parseTransitionTable,
+  buildStateMachine,
+  stateKey,
+};
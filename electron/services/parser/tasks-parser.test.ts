@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { parseTasksContent } from "./tasks-parser";
+
+const dependenciesOf = (content: string) =>
+  Object.fromEntries(
+    parseTasksContent(content).tasks.map((task) => [task.taskId, task.dependencies]),
+  );
+
+describe("parseTasksContent dependencies", () => {
+  it("reads inline references and ranges", () => {
+    expect(dependenciesOf([
+      "## Phase 1: Setup",
+      "",
+      "- [ ] T001 Create project",
+      "- [ ] T002 Add config",
+      "- [ ] T003 Add lint",
+      "- [ ] T004 Wire CI (depends on T002)",
+      "- [ ] T005 Write docs after T001-T003",
+    ].join("\n"))).toEqual({
+      T001: [],
+      T002: [],
+      T003: [],
+      T004: ["T002"],
+      T005: ["T001", "T002", "T003"],
+    });
+  });
+
+  it("orders [P] groups between the tasks around them", () => {
+    expect(dependenciesOf([
+      "## Phase 1: Models",
+      "",
+      "- [ ] T001 Create schema",
+      "- [ ] T002 [P] User model",
+      "- [ ] T003 [P] Project model",
+      "- [ ] T004 Seed data",
+    ].join("\n"))).toEqual({
+      T001: [],
+      T002: ["T001"],
+      T003: ["T001"],
+      T004: ["T002", "T003"],
+    });
+  });
+
+  it("leaves a lone [P] task unordered like an unmarked one", () => {
+    expect(dependenciesOf([
+      "## Phase 1: Models",
+      "",
+      "- [ ] T001 Create schema",
+      "- [ ] T002 [P] User model",
+      "- [ ] T003 Seed data",
+    ].join("\n"))).toEqual({
+      T001: [],
+      T002: [],
+      T003: [],
+    });
+  });
+
+  it("makes a phase wait for the phases its Dependencies note names", () => {
+    expect(dependenciesOf([
+      "## Phase 1: Setup",
+      "",
+      "- [ ] T001 Create project",
+      "- [ ] T002 Add config",
+      "",
+      "## Phase 2: Core",
+      "",
+      "**Dependencies**: Phase 1",
+      "",
+      "- [ ] T003 Build parser",
+    ].join("\n"))).toEqual({
+      T001: [],
+      T002: [],
+      T003: ["T002"],
+    });
+  });
+
+  it("warns about unknown tasks and drops them", () => {
+    const parsed = parseTasksContent("- [ ] T001 Ship it (depends on T009)");
+    expect(parsed.tasks[0].dependencies).toEqual([]);
+    expect(parsed.diagnostics.map((diagnostic) => diagnostic.code)).toEqual([
+      "tasks/unknown-dependency",
+    ]);
+  });
+});
+
+describe("parseTasksContent dependency cycles", () => {
+  it("keeps the edges of a cycle and reports it as an error", () => {
+    const parsed = parseTasksContent([
+      "- [ ] T001 Parse (depends on T003)",
+      "- [ ] T002 Store (depends on T001)",
+      "- [ ] T003 Render (depends on T002)",
+      "- [ ] T004 Ship (depends on T003)",
+    ].join("\n"));
+
+    expect(parsed.dependencyCycles).toEqual([["T001", "T003", "T002", "T001"]]);
+    expect(parsed.tasks[0].dependencies).toEqual(["T003"]);
+    expect(parsed.diagnostics).toMatchObject([
+      {
+        line: 1,
+        severity: "error",
+        code: "tasks/dependency-cycle",
+        message: "Circular task dependency: T001 → T003 → T002 → T001",
+      },
+    ]);
+  });
+
+  it("reports each cycle once", () => {
+    const parsed = parseTasksContent([
+      "- [ ] T001 A (depends on T002)",
+      "- [ ] T002 B (depends on T001)",
+      "- [ ] T003 C (depends on T001, T002)",
+    ].join("\n"));
+    expect(parsed.dependencyCycles).toHaveLength(1);
+  });
+
+  it("reports no cycle for a chain", () => {
+    const parsed = parseTasksContent([
+      "- [ ] T001 A",
+      "- [ ] T002 B (depends on T001)",
+      "- [ ] T003 C (depends on T002)",
+    ].join("\n"));
+    expect(parsed.dependencyCycles).toEqual([]);
+    expect(parsed.diagnostics).toEqual([]);
+  });
+});
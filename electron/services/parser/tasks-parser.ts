@@ -4,6 +4,9 @@
  */
 
 import fs from "fs";
+import type { ParseDiagnostic } from "./diagnostics";
+
+const FILE = "tasks.md";
 
 type TaskStatus = "not_started" | "in_progress" | "done";
 
@@ -17,14 +20,36 @@ interface ParsedTask {
   storyLabel: string | null;
   filePath: string | null;
   lineNumber: number;
+  dependencies: string[];
+  requirementRefs: string[];
 }
 
 interface ParsedTasksFile {
   title: string | null;
   tasks: ParsedTask[];
   phaseNames: string[];
+  dependencyCycles: string[][];
+  diagnostics: ParseDiagnostic[];
 }
 
+/**
+ * A dependency statement found outside of a task line, resolved once all
+ * tasks and phases are known
+ */
+interface DependencyStatement {
+  /** Phase the statement belongs to (for phase-level "Dependencies" notes) */
+  phase: string | null;
+  /** Left-hand side (who depends), empty when it refers to `phase` */
+  subject: string;
+  /** Right-hand side (what is depended on) */
+  target: string;
+}
+
+// Phrases that introduce a dependency, e.g. "depends on T003", "after T001-T004"
+const DEPENDENCY_KEYWORD =
+  /\b(?:depends?\s+on|dependent\s+on|after|blocked\s+by)\b/i;
+const TASK_REFERENCE = /\bT(\d{3})\b(?:\s*(?:-|–|to|through)\s*T(\d{3})\b)?/gi;
+
 /**
  * Parse checkbox status from markdown task item
  */
@@ -50,6 +75,15 @@ function extractStoryLabel(text: string): string | null {
   return match ? match[1].toUpperCase() : null;
 }
 
+/**
+ * Extract requirement references from task text (e.g., FR-001, NFR-002)
+ */
+function extractRequirementRefs(text: string): string[] {
+  return [...text.matchAll(/\b((?:N?FR)-\d+)\b/gi)].map((match) =>
+    match[1].toUpperCase()
+  );
+}
+
 /**
  * Check if task is marked as parallel [P]
  */
@@ -66,6 +100,56 @@ function extractFilePath(text: string): string | null {
   return match ? match[1] : null;
 }
 
+/**
+ * Expand task references such as "T001, T003-T005" into individual task IDs
+ */
+function expandTaskReferences(text: string): string[] {
+  const ids: string[] = [];
+
+  for (const match of text.matchAll(TASK_REFERENCE)) {
+    const start = parseInt(match[1], 10);
+    const end = match[2] ? parseInt(match[2], 10) : start;
+
+    for (let n = Math.min(start, end); n <= Math.max(start, end); n++) {
+      ids.push(`T${String(n).padStart(3, "0")}`);
+    }
+  }
+
+  return ids;
+}
+
+/**
+ * Extract inline dependencies from task text (e.g., "depends on T003")
+ */
+function extractInlineDependencies(text: string): string[] {
+  const dependencies: string[] = [];
+  const pattern = new RegExp(
+    `${DEPENDENCY_KEYWORD.source}\\s*:?\\s*((?:${TASK_REFERENCE.source})(?:\\s*(?:,|and|&|/)\\s*(?:${TASK_REFERENCE.source}))*)`,
+    "gi",
+  );
+
+  for (const match of text.matchAll(pattern)) {
+    dependencies.push(...expandTaskReferences(match[1]));
+  }
+
+  return dependencies;
+}
+
+/**
+ * Split a dependency note into who depends (subject) and on what (target)
+ */
+function splitDependencyStatement(
+  text: string,
+): { subject: string; target: string } | null {
+  const match = text.match(DEPENDENCY_KEYWORD);
+  if (!match || match.index === undefined) return null;
+
+  return {
+    subject: text.slice(0, match.index),
+    target: text.slice(match.index + match[0].length),
+  };
+}
+
 /**
  * Clean task description by removing markers
  */
@@ -86,6 +170,241 @@ export function parseTasksFile(filePath: string): ParsedTasksFile {
   return parseTasksContent(content);
 }
 
+interface PhaseInfo {
+  name: string;
+  number: number | null;
+  tasks: ParsedTask[];
+}
+
+/**
+ * Short display name of a phase ("Phase 1: Setup (Shared)" -> "setup")
+ */
+function phaseShortName(phase: string): string {
+  return phase
+    .replace(/^Phase\s+\d+\s*:?\s*/i, "")
+    .replace(/\(.*?\)/g, "")
+    .replace(/[^\w\s&-]/g, "")
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Resolve phase references in free text ("Phase 2", "Phases 3-5", "US1",
+ * "all user stories", "Setup")
+ */
+function resolvePhases(text: string, phases: PhaseInfo[]): PhaseInfo[] {
+  const byNumber = [...text.matchAll(/\bPhases?\s+(\d+)(?:\s*[-–]\s*(\d+))?/gi)];
+  if (byNumber.length > 0) {
+    const numbers = new Set<number>();
+    for (const match of byNumber) {
+      const start = parseInt(match[1], 10);
+      const end = match[2] ? parseInt(match[2], 10) : start;
+      for (let n = start; n <= end; n++) numbers.add(n);
+    }
+    return phases.filter((p) => p.number !== null && numbers.has(p.number));
+  }
+
+  const byStory = [...text.matchAll(/\b(?:User\s+Story\s+|US)(\d+)\b/gi)];
+  if (byStory.length > 0) {
+    const stories = byStory.map((match) => match[1]);
+    return phases.filter((p) =>
+      stories.some((story) =>
+        new RegExp(`\\bUser\\s+Story\\s+${story}\\b`, "i").test(p.name) ||
+        p.tasks.some((t) => t.storyLabel === `US${story}`)
+      )
+    );
+  }
+
+  if (/\buser\s+stor(?:y|ies)\b/i.test(text)) {
+    return phases.filter((p) => /\bUser\s+Story\b/i.test(p.name));
+  }
+
+  const lower = text.toLowerCase();
+  return phases.filter((p) => {
+    if (/\bUser\s+Story\b/i.test(p.name)) return false;
+    const shortName = phaseShortName(p.name);
+    if (!shortName) return false;
+    const firstWord = shortName.split(/\s+/)[0];
+    return lower.includes(shortName) ||
+      (firstWord.length >= 4 && new RegExp(`\\b${firstWord}\\b`).test(lower));
+  });
+}
+
+/**
+ * Tasks that start a phase: the first task, or its leading [P] group
+ */
+function entryTasks(phase: PhaseInfo): ParsedTask[] {
+  const [first] = phase.tasks;
+  if (!first) return [];
+  if (!first.isParallel) return [first];
+
+  const group: ParsedTask[] = [];
+  for (const task of phase.tasks) {
+    if (!task.isParallel) break;
+    group.push(task);
+  }
+  return group;
+}
+
+/**
+ * Tasks that finish a phase: the last task, or its trailing [P] group
+ */
+function exitTasks(phase: PhaseInfo): ParsedTask[] {
+  const last = phase.tasks[phase.tasks.length - 1];
+  if (!last) return [];
+  if (!last.isParallel) return [last];
+
+  const group: ParsedTask[] = [];
+  for (let i = phase.tasks.length - 1; i >= 0; i--) {
+    if (!phase.tasks[i].isParallel) break;
+    group.unshift(phase.tasks[i]);
+  }
+  return group;
+}
+
+/**
+ * Add dependencies implied by [P] parallel groups: members of a group start
+ * after the task preceding the group, and the task following the group waits
+ * for every member
+ * A lone [P] task has nothing to run alongside, so like an unmarked task it
+ * gets no implied ordering; [P] never adds constraints an unmarked task lacks
+ */
+function addParallelGroupDependencies(
+  phase: PhaseInfo,
+  addDependency: (task: ParsedTask, dependsOn: string) => void,
+): void {
+  let i = 0;
+  while (i < phase.tasks.length) {
+    if (!phase.tasks[i].isParallel) {
+      i++;
+      continue;
+    }
+
+    const groupStart = i;
+    while (i < phase.tasks.length && phase.tasks[i].isParallel) i++;
+    const group = phase.tasks.slice(groupStart, i);
+    if (group.length < 2) continue; // Lone [P] task, see above
+
+    const before = phase.tasks[groupStart - 1];
+    const after = phase.tasks[i];
+
+    for (const member of group) {
+      if (before) addDependency(member, before.taskId);
+      if (after) addDependency(after, member.taskId);
+    }
+  }
+}
+
+/**
+ * Resolve a dependency statement into task-level edges
+ */
+function applyDependencyStatement(
+  statement: DependencyStatement,
+  phases: PhaseInfo[],
+  taskMap: Map<string, ParsedTask>,
+  addDependency: (task: ParsedTask, dependsOn: string) => void,
+): void {
+  // Who depends: explicit tasks, referenced phases, or the enclosing phase
+  let dependents: ParsedTask[] = expandTaskReferences(statement.subject)
+    .map((id) => taskMap.get(id))
+    .filter((task): task is ParsedTask => task !== undefined);
+
+  if (dependents.length === 0 && statement.subject.trim()) {
+    dependents = resolvePhases(statement.subject, phases).flatMap(entryTasks);
+  }
+
+  if (dependents.length === 0 && statement.phase) {
+    const phase = phases.find((p) => p.name === statement.phase);
+    if (phase && !statement.subject.trim()) dependents = entryTasks(phase);
+  }
+
+  if (dependents.length === 0) return;
+
+  // What they depend on: explicit tasks first, otherwise whole phases
+  let prerequisites = expandTaskReferences(statement.target);
+  if (prerequisites.length === 0) {
+    prerequisites = resolvePhases(statement.target, phases)
+      .flatMap(exitTasks)
+      .map((task) => task.taskId);
+  }
+
+  for (const task of dependents) {
+    for (const dependsOn of prerequisites) {
+      addDependency(task, dependsOn);
+    }
+  }
+}
+
+/**
+ * Build dependency statements from a line of a "Dependencies" section
+ */
+function parseDependencyLine(
+  text: string,
+  phase: string | null,
+): DependencyStatement[] {
+  const split = splitDependencyStatement(text);
+
+  if (!split) {
+    // Bare references inside a phase's own "Dependencies" section
+    return phase ? [{ phase, subject: "", target: text }] : [];
+  }
+
+  // "A: Can start after X - Depends on Y" yields one statement per clause
+  const rest = text.slice(split.subject.length);
+  return rest
+    .split(/\s[-–—]\s|;/)
+    .map((clause) => splitDependencyStatement(clause))
+    .filter((clause): clause is { subject: string; target: string } =>
+      clause !== null
+    )
+    .map((clause) => ({
+      phase,
+      subject: split.subject,
+      target: clause.target,
+    }));
+}
+
+/**
+ * Find dependency cycles between tasks; in each cycle every task depends on
+ * the next one and the last entry repeats the first
+ */
+function detectDependencyCycles(tasks: ParsedTask[]): string[][] {
+  const graph = new Map(tasks.map((t) => [t.taskId, t.dependencies]));
+  const state = new Map<string, "visiting" | "done">();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
+
+  const visit = (taskId: string) => {
+    state.set(taskId, "visiting");
+    stack.push(taskId);
+
+    for (const dependency of graph.get(taskId) ?? []) {
+      if (!graph.has(dependency)) continue;
+
+      if (state.get(dependency) === "visiting") {
+        const cycle = stack.slice(stack.indexOf(dependency));
+        const key = [...cycle].sort().join(",");
+        if (!seen.has(key)) {
+          seen.add(key);
+          cycles.push([...cycle, dependency]);
+        }
+      } else if (!state.has(dependency)) {
+        visit(dependency);
+      }
+    }
+
+    stack.pop();
+    state.set(taskId, "done");
+  };
+
+  for (const task of tasks) {
+    if (!state.has(task.taskId)) visit(task.taskId);
+  }
+
+  return cycles;
+}
+
 /**
  * Parse tasks.md content string
  */
@@ -96,10 +415,35 @@ export function parseTasksContent(content: string): ParsedTasksFile {
     title: null,
     tasks: [],
     phaseNames: [],
+    dependencyCycles: [],
+    diagnostics: [],
+  };
+
+  const addDiagnostic = (
+    line: number,
+    column: number,
+    severity: ParseDiagnostic["severity"],
+    code: string,
+    message: string,
+  ) => {
+    result.diagnostics.push({ file: FILE, line, column, severity, code, message });
   };
 
+  const phases: PhaseInfo[] = [];
+  const statements: DependencyStatement[] = [];
   let currentPhase: string | null = null;
   let phaseOrder = 0;
+  let lastTask: ParsedTask | null = null;
+  // Heading level of the "Dependencies" section we are in, if any
+  let dependencySectionLevel: number | null = null;
+  let dependencyItem: string | null = null;
+
+  const flushDependencyItem = () => {
+    if (dependencyItem !== null) {
+      statements.push(...parseDependencyLine(dependencyItem, currentPhase));
+      dependencyItem = null;
+    }
+  };
 
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i];
@@ -111,18 +455,67 @@ export function parseTasksContent(content: string): ParsedTasksFile {
       continue;
     }
 
-    // Track phase headings (## Phase X: Name)
-    if (line.match(/^##\s+Phase\s+\d+/i)) {
-      currentPhase = line.replace(/^##\s+/, "").trim();
-      phaseOrder++;
-      result.phaseNames.push(currentPhase);
+    const heading = line.match(/^(#{2,6})\s+(.*)$/);
+    if (heading) {
+      flushDependencyItem();
+      lastTask = null;
+      const level = heading[1].length;
+
+      if (dependencySectionLevel !== null && level <= dependencySectionLevel) {
+        dependencySectionLevel = null;
+      }
+
+      // Track phase headings (## Phase X: Name)
+      if (line.match(/^##\s+Phase\s+\d+/i)) {
+        currentPhase = line.replace(/^##\s+/, "").trim();
+        phaseOrder++;
+        result.phaseNames.push(currentPhase);
+        const number = currentPhase.match(/^Phase\s+(\d+)/i);
+        phases.push({
+          name: currentPhase,
+          number: number ? parseInt(number[1], 10) : null,
+          tasks: [],
+        });
+        continue;
+      }
+
+      // Project-wide sections end the current phase
+      if (level === 2) {
+        currentPhase = null;
+      }
+
+      if (dependencySectionLevel === null && /dependenc/i.test(heading[2])) {
+        dependencySectionLevel = level;
+      }
       continue;
     }
 
     // Parse task items (checkbox lines)
     if (line.match(/^\s*-\s*\[[x\/\s]\]/i)) {
+      flushDependencyItem();
+      lastTask = null;
       const taskId = extractTaskId(line);
-      if (!taskId) continue; // Skip non-task items
+      if (!taskId) {
+        addDiagnostic(
+          lineNumber,
+          line.search(/\S/) + 1,
+          "warning",
+          "tasks/missing-task-id",
+          "Checkbox item has no T### task ID and was skipped",
+        );
+        continue;
+      }
+
+      const duplicate = result.tasks.find((t) => t.taskId === taskId);
+      if (duplicate) {
+        addDiagnostic(
+          lineNumber,
+          line.search(/\bT\d{3}\b/i) + 1,
+          "error",
+          "tasks/duplicate-task-id",
+          `${taskId} is already used on line ${duplicate.lineNumber}`,
+        );
+      }
 
       const task: ParsedTask = {
         taskId,
@@ -134,10 +527,92 @@ export function parseTasksContent(content: string): ParsedTasksFile {
         storyLabel: extractStoryLabel(line),
         filePath: extractFilePath(line),
         lineNumber,
+        dependencies: extractInlineDependencies(line),
+        requirementRefs: extractRequirementRefs(line),
       };
 
       result.tasks.push(task);
+      phases[phases.length - 1]?.tasks.push(task);
+      lastTask = task;
+      continue;
     }
+
+    // Wrapped continuation of a task line
+    if (lastTask && /^\s{2,}\S/.test(line) && !/^\s*[-*+]\s/.test(line)) {
+      lastTask.dependencies.push(...extractInlineDependencies(line));
+      lastTask.requirementRefs.push(...extractRequirementRefs(line));
+      continue;
+    }
+    lastTask = null;
+
+    // Phase-level notes such as "**Dependencies**: Phase 2" or "**Depends on**: T010"
+    const note = line.match(/^\s*\*\*(?:Dependencies|Depends\s+on)\*\*\s*:?\s*(.*)$/i);
+    if (note && dependencySectionLevel === null) {
+      if (currentPhase) {
+        statements.push({ phase: currentPhase, subject: "", target: note[1] });
+      }
+      continue;
+    }
+
+    // Items of a "Dependencies" section, joined across wrapped lines
+    if (dependencySectionLevel !== null) {
+      if (/^\s*(?:[-*+]|\d+\.)\s+/.test(line)) {
+        flushDependencyItem();
+        dependencyItem = line.replace(/^\s*(?:[-*+]|\d+\.)\s+/, "");
+      } else if (dependencyItem !== null && line.trim()) {
+        dependencyItem += " " + line.trim();
+      } else {
+        flushDependencyItem();
+      }
+    }
+  }
+  flushDependencyItem();
+
+  // Resolve dependency statements now that all tasks and phases are known
+  const taskMap = new Map(result.tasks.map((task) => [task.taskId, task]));
+  const addDependency = (task: ParsedTask, dependsOn: string) => {
+    if (dependsOn !== task.taskId && !task.dependencies.includes(dependsOn)) {
+      task.dependencies.push(dependsOn);
+    }
+  };
+
+  for (const phase of phases) {
+    addParallelGroupDependencies(phase, addDependency);
+  }
+  for (const statement of statements) {
+    applyDependencyStatement(statement, phases, taskMap, addDependency);
+  }
+
+  // Keep only references to known tasks, without duplicates or self-references
+  for (const task of result.tasks) {
+    const dependencies = [...new Set(task.dependencies)];
+    for (const id of dependencies.filter((id) => !taskMap.has(id))) {
+      addDiagnostic(
+        task.lineNumber,
+        1,
+        "warning",
+        "tasks/unknown-dependency",
+        `${task.taskId} depends on ${id}, which is not defined`,
+      );
+    }
+
+    task.dependencies = dependencies.filter(
+      (id) => id !== task.taskId && taskMap.has(id),
+    );
+    task.requirementRefs = [...new Set(task.requirementRefs)];
+  }
+
+  result.dependencyCycles = detectDependencyCycles(result.tasks);
+
+  // Cycles are kept as edges but reported so they get fixed
+  for (const cycle of result.dependencyCycles) {
+    addDiagnostic(
+      taskMap.get(cycle[0])?.lineNumber ?? 1,
+      1,
+      "error",
+      "tasks/dependency-cycle",
+      `Circular task dependency: ${cycle.join(" → ")}`,
+    );
   }
 
   return result;
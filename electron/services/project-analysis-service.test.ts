@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from "vitest";
+import { chunkDigests, chunkDigestsOnce } from "./project-analysis-service";
+
+// Chunking works on digests already built; the provider and database
+// modules need Electron
+vi.mock("./ai-provider", () => ({ aiProviderService: {} }));
+vi.mock("./database", () => ({ databaseService: {} }));
+
+// About 1,250 tokens each, so a few fit in a chunk but not all of them
+const digests = Array.from(
+  { length: 10 },
+  (_, i) => `### Feature ${String(i + 1).padStart(3, "0")}\n${"word ".repeat(1000)}`,
+);
+
+const chunksWith = (chunks: string[], digest: string) =>
+  chunks.filter((chunk) => chunk.includes(digest.split("\n")[0]));
+
+describe("chunkDigests", () => {
+  it("keeps a small project in one chunk", () => {
+    expect(chunkDigests(digests.slice(0, 2))).toEqual([
+      digests.slice(0, 2).join("\n\n"),
+    ]);
+    expect(chunkDigests([])).toEqual([]);
+  });
+
+  it("puts every pair of features together in some chunk", () => {
+    const chunks = chunkDigests(digests);
+    expect(chunks.length).toBeGreaterThan(1);
+
+    for (let i = 0; i < digests.length; i++) {
+      for (let j = i + 1; j < digests.length; j++) {
+        const shared = chunksWith(chunks, digests[i])
+          .filter((chunk) => chunksWith([chunk], digests[j]).length > 0);
+        expect(shared.length, `features ${i + 1} and ${j + 1}`).toBeGreaterThan(0);
+      }
+    }
+  });
+
+  it("keeps every chunk within the token limit", () => {
+    for (const chunk of chunkDigests(digests)) {
+      expect(Math.ceil(chunk.length / 4)).toBeLessThanOrEqual(6_000);
+    }
+  });
+});
+
+describe("chunkDigestsOnce", () => {
+  const index = "### Entities of all features\n- 001: User\n- 002: Account";
+
+  it("sends every feature once, with the entity index in each chunk", () => {
+    const chunks = chunkDigestsOnce(digests, index);
+    expect(chunks.length).toBeLessThan(chunkDigests(digests).length);
+
+    for (const digest of digests) {
+      expect(chunksWith(chunks, digest)).toHaveLength(1);
+    }
+    for (const chunk of chunks) {
+      expect(chunk.endsWith(index)).toBe(true);
+      expect(Math.ceil(chunk.length / 4)).toBeLessThanOrEqual(6_000);
+    }
+  });
+
+  it("leaves the index out when everything fits in one chunk", () => {
+    expect(chunkDigestsOnce(digests.slice(0, 2), index)).toEqual([
+      digests.slice(0, 2).join("\n\n"),
+    ]);
+  });
+});
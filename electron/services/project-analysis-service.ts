@@ -0,0 +1,683 @@
+/**
+ * Project Analysis Service
+ * AI analyses across all features of a project: overlapping or conflicting
+ * requirements, duplicated entities and statuses that disagree with task
+ * progress
+ * Features are condensed into digests and split into chunks that fit the
+ * model's context window; for conflicts every pair of features shares at
+ * least one chunk, for integrity every feature is sent once
+ */
+
+import fs from "fs";
+import path from "path";
+import { aiProviderService } from "./ai-provider";
+import type { StreamOptions } from "./ai-stream";
+import {
+  conflictsOutputSchema,
+  integrityOutputSchema,
+} from "./analysis-schemas";
+import {
+  type AnalysisModel,
+  type AnalysisValidation,
+  databaseService,
+  type DbProjectAnalysisResult,
+} from "./database";
+import { renderPrompt, resolveProjectPrompt } from "./prompt-registry";
+import {
+  combineResults,
+  generateStructured,
+  invalidOutputError,
+  type StructuredResult,
+  validationOf,
+} from "./structured-output";
+import { hashContent } from "./task-writer";
+import { usageService } from "./usage-service";
+import type { z } from "zod";
+
+// Dynamic import for uuid (ES module in CommonJS context)
+// Using Function constructor to prevent TypeScript from converting to require()
+async function generateUUID(): Promise<string> {
+  const importFn = new Function("specifier", "return import(specifier)");
+  const { v4 } = await importFn("uuid");
+  return v4();
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ProjectAnalysisType = "conflicts" | "integrity";
+
+export type RequirementConflict = z.infer<
+  typeof conflictsOutputSchema
+>["conflicts"][number];
+
+export type DuplicateEntity = z.infer<
+  typeof integrityOutputSchema
+>["duplicateEntities"][number];
+
+export type StatusMismatch = z.infer<
+  typeof integrityOutputSchema
+>["statusMismatches"][number];
+
+interface ProjectResultBase {
+  requestId: string;
+  featuresAnalyzed: number;
+  /** Model calls the features were split across */
+  chunkCount: number;
+  duration: number;
+  tokenCount?: number;
+}
+
+export interface ConflictsResult extends ProjectResultBase {
+  conflicts: RequirementConflict[];
+}
+
+export interface IntegrityResult extends ProjectResultBase {
+  duplicateEntities: DuplicateEntity[];
+  statusMismatches: StatusMismatch[];
+}
+
+export type ProjectAnalysisResult = ConflictsResult | IntegrityResult;
+
+// ============================================================================
+// Chunking
+// ============================================================================
+
+// Estimated tokens of feature digests sent per model call, leaving room for
+// the prompt and the response in an 8k-16k context window
+const CHUNK_TOKEN_LIMIT = 6_000;
+
+// Model calls one analysis may make; conflicts chunks grow with the square of
+// the number of feature groups, so large projects would run up the bill
+const MAX_CHUNKS = 15;
+
+// Contract files read from each feature's contracts/ folder
+const CONTRACT_FILE_PATTERN = /\.(md|ya?ml|json)$/i;
+
+/**
+ * Rough token count; about four characters per token for English text
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Cut a digest down to a token budget
+ */
+function truncateToTokens(text: string, tokens: number): string {
+  const maxLength = tokens * 4;
+  if (text.length <= maxLength) return text;
+  return `${text.slice(0, maxLength)}\n... (truncated)`;
+}
+
+/**
+ * Pack digests in order into groups of at most a token budget
+ */
+function packGroups(digests: string[], budget: number): string[][] {
+  const groups: string[][] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+
+  for (const digest of digests) {
+    const text = truncateToTokens(digest, budget);
+    const tokens = estimateTokens(text);
+    if (current.length > 0 && currentTokens + tokens > budget) {
+      groups.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(text);
+    currentTokens += tokens;
+  }
+  if (current.length > 0) groups.push(current);
+
+  return groups;
+}
+
+/**
+ * Split digests into chunks under CHUNK_TOKEN_LIMIT such that every pair of
+ * features appears together in at least one chunk
+ * Everything fits in one chunk for most projects; otherwise digests are
+ * packed into groups of half the limit and each pair of groups is a chunk
+ */
+export function chunkDigests(digests: string[]): string[] {
+  const all = digests.join("\n\n");
+  if (estimateTokens(all) <= CHUNK_TOKEN_LIMIT) {
+    return digests.length > 0 ? [all] : [];
+  }
+
+  const groups = packGroups(digests, Math.floor(CHUNK_TOKEN_LIMIT / 2));
+  if (groups.length === 1) {
+    return [groups[0].join("\n\n")];
+  }
+
+  const chunks: string[] = [];
+  for (let i = 0; i < groups.length; i++) {
+    for (let j = i + 1; j < groups.length; j++) {
+      chunks.push([...groups[i], ...groups[j]].join("\n\n"));
+    }
+  }
+  return chunks;
+}
+
+/**
+ * Split digests into chunks under CHUNK_TOKEN_LIMIT that send every feature
+ * once, each chunk followed by an index of the entities of all features so
+ * duplicates across chunks can still be named
+ */
+export function chunkDigestsOnce(digests: string[], index: string): string[] {
+  const all = digests.join("\n\n");
+  if (estimateTokens(all) <= CHUNK_TOKEN_LIMIT) {
+    return digests.length > 0 ? [all] : [];
+  }
+
+  const indexText = truncateToTokens(index, Math.floor(CHUNK_TOKEN_LIMIT / 4));
+  return packGroups(digests, CHUNK_TOKEN_LIMIT - estimateTokens(indexText))
+    .map((group) => [...group, indexText].join("\n\n"));
+}
+
+// ============================================================================
+// Project Analysis Service Class
+// ============================================================================
+
+class ProjectAnalysisService {
+  /**
+   * Run a project analysis, reusing the latest result while the features,
+   * prompt and model are unchanged unless forced
+   */
+  async analyzeProject(
+    projectId: number,
+    analysisType: ProjectAnalysisType,
+    force: boolean = false,
+    options: StreamOptions = {},
+  ): Promise<ProjectAnalysisResult> {
+    const project = databaseService.getProjectById(projectId);
+    if (!project) {
+      throw new Error(`Project with ID ${projectId} not found`);
+    }
+
+    const digests = this.buildDigests(projectId, analysisType);
+    if (digests.length === 0) {
+      throw new Error("No features found for this project");
+    }
+
+    const chunks = this.chunk(projectId, analysisType, digests);
+    const template = resolveProjectPrompt(analysisType, project.root_path);
+    const inputs = {
+      inputHash: this.hashDigests(digests),
+      promptVersion: template.version,
+    };
+
+    if (!force) {
+      const reusable = this.findReusableResult(projectId, analysisType, inputs);
+      if (reusable) {
+        try {
+          return JSON.parse(reusable.content) as ProjectAnalysisResult;
+        } catch (err) {
+          console.error("Failed to parse cached project analysis from DB", err);
+        }
+      }
+    }
+
+    if (chunks.length > MAX_CHUNKS) {
+      throw new Error(
+        `This project needs ${chunks.length} model calls for a ${analysisType} analysis, more than the limit of ${MAX_CHUNKS}`,
+      );
+    }
+
+    const startTime = Date.now();
+    const requestId = options.requestId ?? await generateUUID();
+
+    // Refuse to start once a monthly budget is used up
+    usageService.assertProjectWithinBudget(projectId);
+
+    const route = await aiProviderService.resolveModel(
+      analysisType,
+      options.signal,
+    );
+    const producedBy = { provider: route.provider, model: route.modelId };
+    const schema = analysisType === "conflicts"
+      ? conflictsOutputSchema
+      : integrityOutputSchema;
+
+    // One call per chunk; stop at the first chunk that never validates
+    const outputs: StructuredResult<unknown>[] = [];
+    try {
+      for (const chunk of chunks) {
+        // Earlier chunks of this run are only recorded once it ends
+        if (outputs.length > 0) {
+          usageService.assertProjectWithinBudget(
+            projectId,
+            usageService.usageOf(producedBy, combineResults(outputs)).cost ?? 0,
+          );
+        }
+
+        const output = await generateStructured<unknown>({
+          requestId,
+          model: route.model,
+          prompt: renderPrompt(template.template, { features: chunk }),
+          temperature: 0.3,
+          schema,
+          structuredOutput: route.structuredOutput,
+          onUpdate: options.onUpdate,
+        });
+        outputs.push(output);
+        if (!output.object) break;
+      }
+    } catch (error) {
+      // The chunks that ran were paid for
+      if (outputs.length > 0) {
+        const output = combineResults(outputs);
+        this.recordInvalidResult(
+          requestId,
+          projectId,
+          analysisType,
+          output,
+          {
+            status: "invalid",
+            errors: [
+              ...output.errors,
+              `Stopped after ${outputs.length} of ${chunks.length} chunks: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+            ],
+            attempts: output.attempts,
+          },
+          Date.now() - startTime,
+          outputs.length,
+          producedBy,
+          inputs,
+        );
+      }
+      throw error;
+    }
+
+    const output = combineResults(outputs);
+    const duration = Date.now() - startTime;
+
+    if (!output.object) {
+      this.recordInvalidResult(
+        requestId,
+        projectId,
+        analysisType,
+        output,
+        validationOf(output),
+        duration,
+        outputs.length,
+        producedBy,
+        inputs,
+      );
+      throw invalidOutputError(output);
+    }
+
+    const base: ProjectResultBase = {
+      requestId,
+      featuresAnalyzed: digests.length,
+      chunkCount: chunks.length,
+      duration,
+      tokenCount: output.totalTokens,
+    };
+    const result: ProjectAnalysisResult = analysisType === "conflicts"
+      ? {
+        ...base,
+        conflicts: this.mergeConflicts(
+          output.object as z.infer<typeof conflictsOutputSchema>[],
+        ),
+      }
+      : {
+        ...base,
+        ...this.mergeIntegrity(
+          output.object as z.infer<typeof integrityOutputSchema>[],
+        ),
+      };
+
+    databaseService.createProjectAnalysisResult(
+      requestId,
+      projectId,
+      analysisType,
+      JSON.stringify(result),
+      duration,
+      chunks.length,
+      output.totalTokens,
+      validationOf(output),
+      producedBy,
+      usageService.usageOf(producedBy, output),
+      inputs,
+    );
+
+    return result;
+  }
+
+  /**
+   * Get project analysis history, flagging results whose features changed
+   */
+  getHistory(
+    projectId: number,
+    analysisType?: ProjectAnalysisType,
+    limit: number = 10,
+  ): Array<{
+    id: number;
+    requestId: string;
+    analysisType: ProjectAnalysisType;
+    createdAt: number;
+    duration: number;
+    tokenCount: number | null;
+    chunkCount: number;
+    validationStatus: "valid" | "repaired" | "invalid";
+    provider: string | null;
+    model: string | null;
+    /** A feature changed since the analysis ran */
+    stale: boolean;
+    /** Parsed result; null when the response was invalid */
+    result: ProjectAnalysisResult | null;
+  }> {
+    const results = databaseService.getProjectAnalysisResults(
+      projectId,
+      analysisType,
+      limit,
+    );
+
+    // Current hash per type, computed once for the whole list
+    const currentHashes = new Map<ProjectAnalysisType, string>();
+    const currentHash = (type: ProjectAnalysisType) => {
+      if (!currentHashes.has(type)) {
+        currentHashes.set(
+          type,
+          this.hashDigests(this.buildDigests(projectId, type)),
+        );
+      }
+      return currentHashes.get(type)!;
+    };
+
+    return results.map((r) => {
+      let result: ProjectAnalysisResult | null = null;
+      if (r.validation_status !== "invalid") {
+        try {
+          result = JSON.parse(r.content) as ProjectAnalysisResult;
+        } catch {
+          result = null;
+        }
+      }
+
+      return {
+        id: r.id,
+        requestId: r.request_id,
+        analysisType: r.analysis_type,
+        createdAt: r.created_at,
+        duration: r.duration,
+        tokenCount: r.token_count,
+        chunkCount: r.chunk_count,
+        validationStatus: r.validation_status,
+        provider: r.provider,
+        model: r.model,
+        stale: r.input_hash !== null &&
+          r.input_hash !== currentHash(r.analysis_type),
+        result,
+      };
+    });
+  }
+
+  /**
+   * Chunks of the {features} variable for a project analysis
+   */
+  buildChunks(projectId: number, analysisType: ProjectAnalysisType): string[] {
+    return this.chunk(
+      projectId,
+      analysisType,
+      this.buildDigests(projectId, analysisType),
+    );
+  }
+
+  /**
+   * Conflicts compare requirements across features, so every pair of
+   * features needs a chunk; statuses are judged per feature and duplicated
+   * entities can be spotted from the entity index
+   */
+  private chunk(
+    projectId: number,
+    analysisType: ProjectAnalysisType,
+    digests: string[],
+  ): string[] {
+    return analysisType === "conflicts"
+      ? chunkDigests(digests)
+      : chunkDigestsOnce(digests, this.buildEntityIndex(projectId));
+  }
+
+  /**
+   * Keep the raw responses of a failed run with the analyses for inspection
+   * and usage accounting
+   */
+  private recordInvalidResult(
+    requestId: string,
+    projectId: number,
+    analysisType: ProjectAnalysisType,
+    output: StructuredResult<unknown>,
+    validation: AnalysisValidation,
+    duration: number,
+    chunkCount: number,
+    producedBy: AnalysisModel,
+    inputs: { inputHash: string; promptVersion: string },
+  ): void {
+    databaseService.createProjectAnalysisResult(
+      requestId,
+      projectId,
+      analysisType,
+      JSON.stringify({ rawResponse: output.text }),
+      duration,
+      chunkCount,
+      output.totalTokens,
+      validation,
+      producedBy,
+      usageService.usageOf(producedBy, output),
+      inputs,
+    );
+  }
+
+  // ========================================
+  // Feature Digests
+  // ========================================
+
+  /**
+   * Condense each feature to what an analysis type compares
+   */
+  private buildDigests(
+    projectId: number,
+    analysisType: ProjectAnalysisType,
+  ): string[] {
+    return databaseService.getFeaturesByProject(projectId).map((feature) => {
+      const heading = `### Feature ${feature.feature_number}: ${
+        feature.title || feature.feature_name
+      }`;
+      const body = analysisType === "conflicts"
+        ? this.describeRequirements(feature.id, path.dirname(feature.spec_path))
+        : this.describeModelAndStatus(feature.id, feature.status);
+
+      return `${heading}\n${body}`;
+    });
+  }
+
+  /**
+   * Requirements from spec.md and the contents of contracts/
+   */
+  private describeRequirements(featureId: number, featurePath: string): string {
+    const lines: string[] = [];
+
+    const requirements = databaseService.getRequirementsByFeature(featureId);
+    lines.push("Requirements:");
+    if (requirements.length === 0) {
+      lines.push("(none)");
+    }
+    for (const req of requirements) {
+      lines.push(`- ${req.requirement_id}: ${req.description}`);
+    }
+
+    const contractsDir = path.join(featurePath, "contracts");
+    if (fs.existsSync(contractsDir)) {
+      const files = fs.readdirSync(contractsDir)
+        .filter((f) => CONTRACT_FILE_PATTERN.test(f))
+        .sort();
+      for (const fileName of files) {
+        try {
+          const content = fs.readFileSync(
+            path.join(contractsDir, fileName),
+            "utf-8",
+          );
+          lines.push(`Contract contracts/${fileName}:`, content.trim());
+        } catch (error) {
+          console.warn(`Failed to read contracts/${fileName}:`, error);
+        }
+      }
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Status, task progress and data model entities
+   */
+  private describeModelAndStatus(featureId: number, status: string): string {
+    const tasks = databaseService.getTasksByFeature(featureId);
+    const done = tasks.filter((t) => t.status === "done").length;
+    const pct = tasks.length > 0 ? Math.round((done / tasks.length) * 100) : 0;
+    const lines = [
+      `Status: ${status}`,
+      `Tasks: ${done}/${tasks.length} done (${pct}%)`,
+      "Entities:",
+    ];
+
+    const entities = databaseService.getEntitiesByFeature(featureId);
+    if (entities.length === 0) {
+      lines.push("(none)");
+    }
+    for (const entity of entities) {
+      const attributes: Array<{ name: string; type: string }> = JSON.parse(
+        entity.attributes ?? "[]",
+      );
+      const relationships: Array<{ target: string; type: string }> = JSON
+        .parse(entity.relationships ?? "[]");
+
+      lines.push(`- ${entity.entity_name}`);
+      if (attributes.length > 0) {
+        lines.push(
+          `  attributes: ${
+            attributes.map((a) => `${a.name}: ${a.type}`).join(", ")
+          }`,
+        );
+      }
+      if (relationships.length > 0) {
+        lines.push(
+          `  relationships: ${
+            relationships.map((r) => `${r.type} ${r.target}`).join(", ")
+          }`,
+        );
+      }
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Entity names of every feature, sent with each integrity chunk
+   */
+  private buildEntityIndex(projectId: number): string {
+    const lines = databaseService.getFeaturesByProject(projectId)
+      .map((feature) => {
+        const names = databaseService.getEntitiesByFeature(feature.id)
+          .map((entity) => entity.entity_name);
+        return names.length > 0
+          ? `- ${feature.feature_number}: ${names.join(", ")}`
+          : null;
+      })
+      .filter((line): line is string => line !== null);
+
+    return ["### Entities of all features", ...lines].join("\n");
+  }
+
+  private hashDigests(digests: string[]): string {
+    return hashContent(digests.join("\n\0\n"));
+  }
+
+  // ========================================
+  // Merging Chunk Results
+  // ========================================
+
+  /**
+   * Conflicts from every chunk, once per set of features and topic
+   */
+  private mergeConflicts(
+    outputs: z.infer<typeof conflictsOutputSchema>[],
+  ): RequirementConflict[] {
+    const merged = new Map<string, RequirementConflict>();
+    for (const conflict of outputs.flatMap((o) => o.conflicts)) {
+      const key = `${[...conflict.features].sort().join(",")}:${
+        conflict.topic.toLowerCase()
+      }`;
+      if (!merged.has(key)) merged.set(key, conflict);
+    }
+    return [...merged.values()];
+  }
+
+  /**
+   * Duplicates from every chunk, combining the features of the same entity,
+   * and one status mismatch per feature
+   */
+  private mergeIntegrity(
+    outputs: z.infer<typeof integrityOutputSchema>[],
+  ): Pick<IntegrityResult, "duplicateEntities" | "statusMismatches"> {
+    const duplicates = new Map<string, DuplicateEntity>();
+    for (const duplicate of outputs.flatMap((o) => o.duplicateEntities)) {
+      const key = duplicate.entity.toLowerCase();
+      const existing = duplicates.get(key);
+      duplicates.set(
+        key,
+        existing
+          ? {
+            ...existing,
+            features: [
+              ...new Set([...existing.features, ...duplicate.features]),
+            ],
+          }
+          : duplicate,
+      );
+    }
+
+    const mismatches = new Map<string, StatusMismatch>();
+    for (const mismatch of outputs.flatMap((o) => o.statusMismatches)) {
+      if (!mismatches.has(mismatch.feature)) {
+        mismatches.set(mismatch.feature, mismatch);
+      }
+    }
+
+    return {
+      duplicateEntities: [...duplicates.values()],
+      statusMismatches: [...mismatches.values()],
+    };
+  }
+
+  /**
+   * Newest stored result generated from the same features and prompt by a
+   * model this analysis may currently run on
+   */
+  private findReusableResult(
+    projectId: number,
+    analysisType: ProjectAnalysisType,
+    inputs: { inputHash: string; promptVersion: string },
+  ): DbProjectAnalysisResult | null {
+    const candidates = aiProviderService.getRouteCandidates(analysisType);
+    const results = databaseService.getReusableProjectAnalysisResults(
+      projectId,
+      analysisType,
+      inputs.inputHash,
+      inputs.promptVersion,
+    );
+
+    return results.find((r) =>
+      candidates.some((c) => c.provider === r.provider && c.model === r.model)
+    ) ?? null;
+  }
+}
+
+// Export singleton instance
+export const projectAnalysisService = new ProjectAnalysisService();
+export default projectAnalysisService;
@@ -0,0 +1,52 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  PROMPT_IDS,
+  renderPrompt,
+  resolveProjectPrompt,
+  validateTemplate,
+} from "./prompt-registry";
+
+// Templates are checked and rendered without the database, which needs Electron
+vi.mock("./database", () => ({ databaseService: {} }));
+
+describe("validateTemplate", () => {
+  it("accepts a template using exactly its variables", () => {
+    expect(validateTemplate("summary", "Summarize:\n{content}")).toEqual([]);
+  });
+
+  it("reports missing and unknown variables", () => {
+    expect(validateTemplate("tasks", "Plan {plan} for {feature}")).toEqual([
+      "Missing variable {spec}",
+      "Unknown variable {feature}, expected {spec}, {plan}",
+    ]);
+  });
+
+  it("reports an empty template", () => {
+    expect(validateTemplate("summary", "  \n")).toEqual([
+      "Template is empty",
+      "Missing variable {content}",
+    ]);
+  });
+
+  it("does not read JSON examples as variables", () => {
+    const template = 'Read {content}\nRespond with {\n  "summary": "text"\n}';
+    expect(validateTemplate("summary", template)).toEqual([]);
+  });
+
+  it("accepts every default template", () => {
+    for (const id of PROMPT_IDS) {
+      expect(validateTemplate(id, resolveProjectPrompt(id, null).template)).toEqual([]);
+    }
+  });
+});
+
+describe("renderPrompt", () => {
+  it("replaces each variable and leaves JSON braces alone", () => {
+    expect(renderPrompt('{content}\n{"a": 1}', { content: "Spec" })).toBe('Spec\n{"a": 1}');
+  });
+
+  it("keeps unknown variables and $ sequences in values as written", () => {
+    expect(renderPrompt("{content} {other}", { content: "costs $& and $1" }))
+      .toBe("costs $& and $1 {other}");
+  });
+});
@@ -0,0 +1,542 @@
+/**
+ * Prompt Registry
+ * Default prompt templates for each analysis, with per-project overrides
+ * stored as markdown files in .specify/prompts/
+ */
+
+import fs from "fs";
+import path from "path";
+import { databaseService } from "./database";
+import { hashContent, writeFileAtomic } from "./task-writer";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PromptId =
+  | "summary"
+  | "consistency"
+  | "gaps"
+  | "architecture"
+  | "conflicts"
+  | "integrity"
+  | "tasks";
+
+export interface PromptDefinition {
+  id: PromptId;
+  label: string;
+  description: string;
+  /** Variables the template must contain, without braces */
+  variables: string[];
+  template: string;
+}
+
+export interface ResolvedPrompt {
+  id: PromptId;
+  template: string;
+  /** Short hash of the template, changing whenever its text does */
+  version: string;
+  source: "default" | "project";
+}
+
+export interface PromptInfo {
+  id: PromptId;
+  label: string;
+  description: string;
+  variables: string[];
+  defaultTemplate: string;
+  defaultVersion: string;
+  /** Project override, null when the default is used */
+  override: string | null;
+  overrideVersion: string | null;
+  /** Problems that keep the override from being used */
+  errors: string[];
+}
+
+/**
+ * Thrown when a template is missing required variables or uses unknown ones
+ */
+export class PromptValidationError extends Error {
+  constructor(readonly errors: string[]) {
+    super(`Invalid prompt template: ${errors.join("; ")}`);
+    this.name = "PromptValidationError";
+  }
+}
+
+// Overrides live in the project so they can be shared with the team
+const PROMPTS_DIR = path.join(".specify", "prompts");
+
+// A word in braces; JSON examples in the templates never match
+const VARIABLE_PATTERN = /\{([A-Za-z_]\w*)\}/g;
+
+// ============================================================================
+// Default Templates
+// ============================================================================
+
+const DEFAULT_PROMPTS: Record<PromptId, PromptDefinition> = {
+  summary: {
+    id: "summary",
+    label: "Summary",
+    description: "Summarizes a specification document",
+    variables: ["content"],
+    template: `You are analyzing a software specification document. Generate a concise summary that captures the key requirements and objectives.
+
+Document content:
+---
+{content}
+---
+
+Respond with a JSON object in this exact format:
+{
+  "summary": "A 2-3 paragraph summary of the document's main purpose and requirements",
+  "keyPoints": ["Key point 1", "Key point 2", "Key point 3", "Key point 4", "Key point 5"],
+  "wordCount": <number of words in the original document>
+}
+
+Focus on:
+- The main goal or feature being specified
+- Key user requirements and acceptance criteria
+- Important constraints or dependencies
+- Success metrics if defined`,
+  },
+  consistency: {
+    id: "consistency",
+    label: "Consistency",
+    description: "Compares the documents of a feature for discrepancies",
+    variables: ["documents"],
+    template: `You are analyzing multiple specification documents for a software feature. Check for consistency and identify any discrepancies between them.
+
+Documents to analyze:
+{documents}
+
+Respond with a JSON object in this exact format:
+{
+  "discrepancies": [
+    {
+      "type": "missing" | "mismatch" | "extra",
+      "file1": "filename1",
+      "file2": "filename2",
+      "section": "Section name where issue was found",
+      "description": "Clear description of the discrepancy",
+      "severity": "high" | "medium" | "low"
+    }
+  ],
+  "overallConsistency": <0-100 percentage score>
+}
+
+Look for:
+- Requirements in spec.md that don't have corresponding tasks
+- Tasks that reference features not in the spec
+- Mismatched terminology or naming
+- Conflicting priorities or status information
+- Missing or incomplete connections between documents`,
+  },
+  gaps: {
+    id: "gaps",
+    label: "Gap Analysis",
+    description: "Finds missing or unclear parts of a specification",
+    variables: ["content"],
+    template: `You are analyzing a software specification document to identify gaps and areas needing improvement.
+
+Document content:
+---
+{content}
+---
+
+Respond with a JSON object in this exact format:
+{
+  "gaps": [
+    {
+      "section": "Section name",
+      "issue": "Description of what's missing or unclear",
+      "suggestion": "Recommendation for improvement",
+      "severity": "critical" | "important" | "minor"
+    }
+  ],
+  "completeness": <0-100 percentage score>,
+  "sectionsAnalyzed": ["Section 1", "Section 2", ...]
+}
+
+Look for:
+- Missing acceptance criteria for requirements
+- Unclear or ambiguous requirements
+- Missing edge case handling
+- Incomplete user stories
+- Undefined success metrics
+- Missing dependencies or assumptions`,
+  },
+  architecture: {
+    id: "architecture",
+    label: "Architecture",
+    description: "Extracts actors, systems, processes and data stores",
+    variables: ["documents"],
+    template: `You are analyzing software feature documentation to extract architectural workflow information.
+
+Your task is to identify the key architectural components and their interactions:
+- **Actors**: Users, roles, or external entities that interact with the system
+- **Systems**: External systems, modules, services, or components
+- **Processes**: Actions, operations, workflows, or business logic steps
+- **Data Stores**: Databases, caches, storage systems, or data repositories
+- **Connections**: How these components interact (data flow, control flow, interactions)
+
+Documentation files:
+{documents}
+
+Respond with a JSON object in this exact format:
+{
+  "actors": [
+    {
+      "id": "unique_id",
+      "label": "Actor Name",
+      "type": "user" | "admin" | "system_user" | "external",
+      "description": "Optional description"
+    }
+  ],
+  "systems": [
+    {
+      "id": "unique_id",
+      "label": "System/Module Name",
+      "type": "external" | "internal" | "module" | "service",
+      "description": "Optional description"
+    }
+  ],
+  "processes": [
+    {
+      "id": "unique_id",
+      "label": "Process/Action Name",
+      "description": "Optional description of what this process does"
+    }
+  ],
+  "dataStores": [
+    {
+      "id": "unique_id",
+      "label": "Database/Storage Name",
+      "type": "database" | "cache" | "storage" | "queue",
+      "description": "Optional description"
+    }
+  ],
+  "connections": [
+    {
+      "id": "unique_id",
+      "from": "source_component_id",
+      "to": "target_component_id",
+      "label": "Optional description of the interaction",
+      "type": "data_flow" | "control_flow" | "interaction"
+    }
+  ]
+}
+
+Guidelines:
+- Use snake_case for IDs (e.g., "teacher_actor", "moodle_system", "score_process")
+- Be specific and concise with labels
+- Connections should link actual component IDs from actors, systems, processes, or dataStores
+- Focus on the main workflow, not every minor detail
+- If no components found in a category, return empty array
+- Ensure valid JSON format`,
+  },
+  conflicts: {
+    id: "conflicts",
+    label: "Requirement Conflicts",
+    description: "Finds overlapping or conflicting requirements across features",
+    variables: ["features"],
+    template: `You are reviewing the features of one software project for requirements that overlap or conflict across features.
+
+Each feature lists its requirements and its API or IPC contracts:
+{features}
+
+Respond with a JSON object in this exact format:
+{
+  "conflicts": [
+    {
+      "features": ["001", "002"],
+      "kind": "overlap" | "conflict",
+      "topic": "What the features overlap on, e.g. IPC channel project:sync",
+      "description": "How the features overlap or contradict each other",
+      "suggestion": "How to resolve it",
+      "severity": "high" | "medium" | "low"
+    }
+  ]
+}
+
+Look for:
+- Two features defining the same IPC channel, API endpoint or event, especially with different contracts
+- Requirements in one feature that contradict requirements in another
+- The same behavior specified twice with different details
+- Shared resources (tables, files, settings) changed in incompatible ways
+
+Only report issues between different features, identified by feature number.
+Return an empty array when there are none.`,
+  },
+  integrity: {
+    id: "integrity",
+    label: "Model & Status Integrity",
+    description: "Finds duplicated entities and statuses that disagree with task progress",
+    variables: ["features"],
+    template: `You are reviewing the features of one software project for data model duplication and status tracking problems.
+
+Each feature lists its status, task progress and the entities of its data model:
+{features}
+
+Respond with a JSON object in this exact format:
+{
+  "duplicateEntities": [
+    {
+      "entity": "Entity name",
+      "features": ["001", "002"],
+      "differences": "How the definitions differ, or that they are identical",
+      "suggestion": "Which feature should own the entity and how to reconcile the others"
+    }
+  ],
+  "statusMismatches": [
+    {
+      "feature": "001",
+      "status": "Status of the feature",
+      "taskCompletion": <0-100 percentage of tasks done>,
+      "issue": "Why the status does not match the task progress",
+      "suggestion": "Status or tasks to update"
+    }
+  ]
+}
+
+Look for:
+- Entities defined in more than one feature, including under slightly different names
+- Duplicated entities whose attributes or relationships disagree
+- Features marked complete with unfinished tasks
+- Features still in draft or planning with most tasks done
+- Features in progress with no tasks
+
+Identify features by feature number. Return empty arrays when there are no issues.`,
+  },
+  tasks: {
+    id: "tasks",
+    label: "Tasks Draft",
+    description: "Drafts tasks.md from a feature's spec and plan",
+    variables: ["spec", "plan"],
+    template: `You are breaking down a software feature into implementation tasks for its tasks.md.
+
+Specification (spec.md):
+---
+{spec}
+---
+
+Implementation plan (plan.md):
+---
+{plan}
+---
+
+Respond with a JSON object in this exact format:
+{
+  "phases": [
+    {
+      "name": "Setup",
+      "purpose": "What the phase achieves",
+      "tasks": [
+        {
+          "id": "T001",
+          "description": "Imperative description of the task",
+          "parallel": true | false,
+          "story": "US1" | null,
+          "filePath": "src/path/to/file.ts" | null,
+          "dependsOn": ["T000"]
+        }
+      ]
+    }
+  ]
+}
+
+Guidelines:
+- Start with Setup and Foundational phases, then one phase per user story in priority order, then a Polish phase
+- Name user story phases "User Story N - Title" and label their tasks with the story, e.g. "US1"
+- Number tasks T001, T002, ... in execution order across all phases, without gaps or duplicates
+- Set "parallel" only for tasks that touch different files and do not depend on unfinished tasks
+- Use the project structure and file paths from the plan; every file path needs an extension
+- Only list dependencies on tasks that come earlier; phases already run in order
+- Keep descriptions to one line, without task IDs, story labels, [P] markers or backticks`,
+  },
+};
+
+export const PROMPT_IDS = Object.keys(DEFAULT_PROMPTS) as PromptId[];
+
+// ============================================================================
+// Templates
+// ============================================================================
+
+export function isPromptId(value: string): value is PromptId {
+  return value in DEFAULT_PROMPTS;
+}
+
+/**
+ * Version of a template, changing whenever its text does
+ */
+export function promptVersion(template: string): string {
+  return hashContent(template).slice(0, 12);
+}
+
+/**
+ * Problems with a template: missing required variables and unknown ones
+ */
+export function validateTemplate(id: PromptId, template: string): string[] {
+  const { variables } = DEFAULT_PROMPTS[id];
+  const errors: string[] = [];
+
+  if (!template.trim()) {
+    errors.push("Template is empty");
+  }
+
+  for (const name of variables) {
+    if (!template.includes(`{${name}}`)) {
+      errors.push(`Missing variable {${name}}`);
+    }
+  }
+
+  const unknown = new Set(
+    [...template.matchAll(VARIABLE_PATTERN)]
+      .map((match) => match[1])
+      .filter((name) => !variables.includes(name)),
+  );
+  for (const name of unknown) {
+    errors.push(
+      `Unknown variable {${name}}, expected ${
+        variables.map((v) => `{${v}}`).join(", ")
+      }`,
+    );
+  }
+
+  return errors;
+}
+
+/**
+ * Fill in every occurrence of the template's variables
+ */
+export function renderPrompt(
+  template: string,
+  values: Record<string, string>,
+): string {
+  // A replacer function keeps "$" sequences in documents literal
+  return template.replace(
+    VARIABLE_PATTERN,
+    (match, name: string) => values[name] ?? match,
+  );
+}
+
+// ============================================================================
+// Project Overrides
+// ============================================================================
+
+function overridePath(projectPath: string, id: PromptId): string {
+  return path.join(projectPath, PROMPTS_DIR, `${id}.md`);
+}
+
+function readOverride(projectPath: string, id: PromptId): string | null {
+  try {
+    return fs.readFileSync(overridePath(projectPath, id), "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Root of the project a feature belongs to
+ */
+function projectPathOf(featureId: number): string | null {
+  const feature = databaseService.getFeatureById(featureId);
+  if (!feature) return null;
+  return databaseService.getProjectById(feature.project_id)?.root_path ?? null;
+}
+
+/**
+ * Template to use for an analysis of a feature: the project's override when
+ * it is valid, otherwise the default
+ */
+export function resolvePrompt(id: PromptId, featureId: number): ResolvedPrompt {
+  return resolveProjectPrompt(id, projectPathOf(featureId));
+}
+
+/**
+ * Template to use for an analysis in a project
+ */
+export function resolveProjectPrompt(
+  id: PromptId,
+  projectPath: string | null,
+): ResolvedPrompt {
+  const override = projectPath ? readOverride(projectPath, id) : null;
+
+  if (override !== null) {
+    const errors = validateTemplate(id, override);
+    if (errors.length === 0) {
+      return {
+        id,
+        template: override,
+        version: promptVersion(override),
+        source: "project",
+      };
+    }
+    console.warn(`Ignoring invalid ${id} prompt override:`, errors);
+  }
+
+  const { template } = DEFAULT_PROMPTS[id];
+  return { id, template, version: promptVersion(template), source: "default" };
+}
+
+/**
+ * Every prompt with its default and the project's override
+ */
+export function listPrompts(projectPath: string): PromptInfo[] {
+  return PROMPT_IDS.map((id) => {
+    const { label, description, variables, template } = DEFAULT_PROMPTS[id];
+    const override = readOverride(projectPath, id);
+
+    return {
+      id,
+      label,
+      description,
+      variables,
+      defaultTemplate: template,
+      defaultVersion: promptVersion(template),
+      override,
+      overrideVersion: override === null ? null : promptVersion(override),
+      errors: override === null ? [] : validateTemplate(id, override),
+    };
+  });
+}
+
+/**
+ * Store a project override; saving the default text removes the override
+ */
+export function saveOverride(
+  projectPath: string,
+  id: PromptId,
+  template: string,
+): void {
+  const errors = validateTemplate(id, template);
+  if (errors.length > 0) {
+    throw new PromptValidationError(errors);
+  }
+
+  if (template === DEFAULT_PROMPTS[id].template) {
+    deleteOverride(projectPath, id);
+    return;
+  }
+
+  fs.mkdirSync(path.join(projectPath, PROMPTS_DIR), { recursive: true });
+  writeFileAtomic(overridePath(projectPath, id), template);
+}
+
+/**
+ * Remove a project override so the default is used again
+ */
+export function deleteOverride(projectPath: string, id: PromptId): void {
+  fs.rmSync(overridePath(projectPath, id), { force: true });
+}
+
+export default {
+  isPromptId,
+  promptVersion,
+  validateTemplate,
+  renderPrompt,
+  resolvePrompt,
+  resolveProjectPrompt,
+  listPrompts,
+  saveOverride,
+  deleteOverride,
+};
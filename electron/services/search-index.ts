@@ -0,0 +1,225 @@
+/**
+ * Speckit Dashboard - Search Index Service
+ * Full-text index of a feature's spec artifacts, one entry per markdown section
+ */
+
+import fs from "fs";
+import path from "path";
+import { databaseService } from "./database";
+
+/**
+ * Markdown heading section of a file
+ */
+export interface MarkdownSection {
+  heading: string;
+  level: number;
+  lineStart: number;
+  lineEnd: number;
+}
+
+/**
+ * Section matching a search query
+ */
+export interface SearchResult {
+  featureId: number;
+  featureNumber: string;
+  featureTitle: string | null;
+  filePath: string;
+  heading: string;
+  lineStart: number;
+  lineEnd: number;
+  snippet: string;
+}
+
+// Top-level files of a feature directory that get indexed
+const INDEXED_FILES = [
+  "spec.md",
+  "plan.md",
+  "tasks.md",
+  "data-model.md",
+  "research.md",
+];
+
+// Subdirectories whose files get indexed
+const INDEXED_DIRS = ["checklists", "contracts"];
+
+// Contract files are often OpenAPI or JSON schemas rather than markdown
+const CONTRACT_EXTENSIONS = [".md", ".yaml", ".yml", ".json"];
+
+// Private-use characters wrapping matched terms in snippets
+export const SEARCH_MARK_START = "\uE000";
+export const SEARCH_MARK_END = "\uE001";
+
+const DEFAULT_LIMIT = 50;
+
+/**
+ * Split markdown into heading sections with 1-based line ranges
+ * Headings inside fenced code blocks are ignored; text before the first
+ * heading becomes a level 0 section without a heading
+ */
+export function extractMarkdownSections(content: string): MarkdownSection[] {
+  const sections: MarkdownSection[] = [];
+  const lines = content.split("\n");
+  let current: Omit<MarkdownSection, "lineEnd"> | null = null;
+  let inFence = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    const headingMatch = line.match(/^(#{1,6})\s+(.+)$/);
+    if (headingMatch) {
+      if (current) {
+        sections.push({ ...current, lineEnd: i });
+      } else if (lines.slice(0, i).some((l) => l.trim())) {
+        sections.push({ heading: "", level: 0, lineStart: 1, lineEnd: i });
+      }
+      current = {
+        heading: headingMatch[2].trim(),
+        level: headingMatch[1].length,
+        lineStart: i + 1,
+      };
+    }
+  }
+
+  if (current) {
+    sections.push({ ...current, lineEnd: lines.length });
+  } else if (content.trim()) {
+    sections.push({ heading: "", level: 0, lineStart: 1, lineEnd: lines.length });
+  }
+
+  return sections;
+}
+
+/**
+ * Whether a path relative to the feature directory belongs in the index
+ */
+export function isIndexedFile(relativePath: string): boolean {
+  const parts = relativePath.split(/[/\\]/);
+  if (parts.length === 1) return INDEXED_FILES.includes(parts[0]);
+  if (parts.length !== 2 || !INDEXED_DIRS.includes(parts[0])) return false;
+
+  const extension = path.extname(parts[1]).toLowerCase();
+  return parts[0] === "contracts"
+    ? CONTRACT_EXTENSIONS.includes(extension)
+    : extension === ".md";
+}
+
+/**
+ * Index (or re-index) a single file of a feature
+ */
+export function indexFeatureFile(
+  projectId: number,
+  featureId: number,
+  featurePath: string,
+  filePath: string,
+): void {
+  const relativePath = path.relative(featurePath, filePath).replace(/\\/g, "/");
+  if (!isIndexedFile(relativePath)) return;
+
+  if (!fs.existsSync(filePath)) {
+    databaseService.deleteSearchSections(featureId, relativePath);
+    return;
+  }
+
+  const content = fs.readFileSync(filePath, "utf-8");
+  const lines = content.split("\n");
+
+  // Only markdown has headings; other contract files are a single section
+  const sections = relativePath.endsWith(".md")
+    ? extractMarkdownSections(content)
+    : [{ heading: "", level: 0, lineStart: 1, lineEnd: lines.length }];
+
+  databaseService.replaceSearchSections(
+    projectId,
+    featureId,
+    relativePath,
+    sections.map((section) => ({
+      heading: section.heading || path.basename(relativePath),
+      content: lines.slice(section.lineStart - 1, section.lineEnd).join("\n"),
+      lineStart: section.lineStart,
+      lineEnd: section.lineEnd,
+    })),
+  );
+}
+
+/**
+ * Rebuild the index for every artifact of a feature directory
+ */
+export function indexFeatureDirectory(
+  projectId: number,
+  featureId: number,
+  featurePath: string,
+): void {
+  databaseService.deleteSearchSections(featureId);
+
+  const files = INDEXED_FILES.map((name) => path.join(featurePath, name));
+  for (const dir of INDEXED_DIRS) {
+    const dirPath = path.join(featurePath, dir);
+    if (!fs.existsSync(dirPath)) continue;
+    for (const entry of fs.readdirSync(dirPath, { withFileTypes: true })) {
+      if (entry.isFile()) files.push(path.join(dirPath, entry.name));
+    }
+  }
+
+  for (const filePath of files) {
+    if (fs.existsSync(filePath)) {
+      indexFeatureFile(projectId, featureId, featurePath, filePath);
+    }
+  }
+}
+
+/**
+ * Turn free text into an FTS5 match expression
+ * Every word must match; the last one also matches as a prefix so results
+ * show up while typing
+ */
+function toMatchExpression(query: string): string | null {
+  const words = query.match(/[\p{L}\p{N}_]+/gu);
+  if (!words || words.length === 0) return null;
+
+  return words
+    .map((word, index) =>
+      `"${word}"${index === words.length - 1 ? "*" : ""}`
+    )
+    .join(" ");
+}
+
+/**
+ * Search a project's indexed sections
+ */
+export function searchProject(
+  projectId: number,
+  query: string,
+  limit = DEFAULT_LIMIT,
+): SearchResult[] {
+  const matchExpression = toMatchExpression(query);
+  if (!matchExpression) return [];
+
+  return databaseService.searchSections(projectId, matchExpression, {
+    limit,
+    markStart: SEARCH_MARK_START,
+    markEnd: SEARCH_MARK_END,
+  }).map((row) => ({
+    featureId: row.feature_id,
+    featureNumber: row.feature_number,
+    featureTitle: row.feature_title,
+    filePath: row.file_path,
+    heading: row.heading,
+    lineStart: row.line_start,
+    lineEnd: row.line_end,
+    snippet: row.snippet,
+  }));
+}
+
+export default {
+  extractMarkdownSections,
+  indexFeatureFile,
+  indexFeatureDirectory,
+  searchProject,
+};
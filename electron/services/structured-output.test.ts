@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+  combineResults,
+  extractJSON,
+  type StructuredResult,
+  validateResponse,
+  validationOf,
+} from "./structured-output";
+
+const schema = z.object({
+  summary: z.string(),
+  keyPoints: z.array(z.string()),
+});
+
+const result = (
+  fields: Partial<StructuredResult<string>> = {},
+): StructuredResult<string> => ({
+  object: "ok",
+  text: "{}",
+  totalTokens: 10,
+  promptTokens: 8,
+  completionTokens: 2,
+  attempts: 1,
+  errors: [],
+  ...fields,
+});
+
+describe("extractJSON", () => {
+  it("takes the content of a fenced code block", () => {
+    expect(extractJSON('Here:\n```json\n{"a": 1}\n```\nDone')).toBe('{"a": 1}');
+    expect(extractJSON('```\n{"a": 1}\n```')).toBe('{"a": 1}');
+  });
+
+  it("takes the outermost object from surrounding prose", () => {
+    expect(extractJSON('Result: {"a": {"b": 2}} as requested')).toBe('{"a": {"b": 2}}');
+  });
+
+  it("returns text without JSON unchanged", () => {
+    expect(extractJSON("no json here")).toBe("no json here");
+  });
+});
+
+describe("validateResponse", () => {
+  it("returns the parsed object when it matches", () => {
+    expect(validateResponse('{"summary": "S", "keyPoints": ["a"]}', schema)).toEqual({
+      success: true,
+      data: { summary: "S", keyPoints: ["a"] },
+    });
+  });
+
+  it("reports invalid JSON", () => {
+    const validation = validateResponse("{summary: S}", schema);
+    expect(validation.success).toBe(false);
+    expect(validation.success ? [] : validation.errors[0]).toMatch(
+      /^Response is not valid JSON: /,
+    );
+  });
+
+  it("reports schema mismatches with their paths", () => {
+    const errorsOf = (text: string) => {
+      const validation = validateResponse(text, schema);
+      return validation.success ? [] : validation.errors;
+    };
+
+    expect(errorsOf('{"keyPoints": [1]}')).toEqual([
+      expect.stringMatching(/^summary: /),
+      expect.stringMatching(/^keyPoints\.0: /),
+    ]);
+    expect(errorsOf("[]")).toEqual([expect.stringMatching(/^\(root\): /)]);
+  });
+});
+
+describe("validationOf", () => {
+  it("grades results by object and attempts", () => {
+    expect(validationOf(result()).status).toBe("valid");
+    expect(validationOf(result({ attempts: 2 })).status).toBe("repaired");
+    expect(validationOf(result({ object: null, attempts: 3 })).status).toBe("invalid");
+  });
+});
+
+describe("combineResults", () => {
+  it("sums tokens and keeps the most attempts", () => {
+    expect(combineResults([
+      result({ object: "a", text: "A" }),
+      result({ object: "b", text: "B", attempts: 2, totalTokens: 5 }),
+    ])).toEqual({
+      object: ["a", "b"],
+      text: "A\n\nB",
+      totalTokens: 15,
+      promptTokens: 16,
+      completionTokens: 4,
+      attempts: 2,
+      errors: [],
+    });
+  });
+
+  it("is invalid when any chunk is, prefixing errors with the chunk", () => {
+    const combined = combineResults([
+      result(),
+      result({ object: null, errors: ["Attempt 1: summary: Required"] }),
+    ]);
+    expect(combined.object).toBeNull();
+    expect(combined.errors).toEqual(["Chunk 2: Attempt 1: summary: Required"]);
+  });
+
+  it("keeps a single result's errors as they are", () => {
+    expect(combineResults([result({ errors: ["Attempt 1: bad"] })]).errors)
+      .toEqual(["Attempt 1: bad"]);
+  });
+
+  it("leaves token counts undefined when no chunk reported them", () => {
+    const combined = combineResults([
+      result({
+        totalTokens: undefined,
+        promptTokens: undefined,
+        completionTokens: undefined,
+      }),
+    ]);
+    expect(combined.totalTokens).toBeUndefined();
+    expect(combined.promptTokens).toBeUndefined();
+  });
+});
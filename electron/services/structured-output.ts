@@ -0,0 +1,247 @@
+/**
+ * Structured Output
+ * Generates model output that must match a zod schema, using the provider's
+ * structured output mode where available and re-prompting with the
+ * validation errors otherwise
+ */
+
+import type { LanguageModel } from "ai";
+import type { z } from "zod";
+import { aiStreamService, type StreamUpdate } from "./ai-stream";
+import type { AnalysisValidation } from "./database";
+
+// Attempts per analysis, including the first one
+export const MAX_ATTEMPTS = 3;
+
+export interface StructuredRequest<T> {
+  requestId: string;
+  model: LanguageModel;
+  prompt: string;
+  temperature: number;
+  schema: z.ZodType<T>;
+  /** Ask the provider to constrain output to the schema */
+  structuredOutput: boolean;
+  onUpdate?: (update: StreamUpdate) => void;
+}
+
+export interface StructuredResult<T> {
+  /** Validated output, or null when every attempt failed validation */
+  object: T | null;
+  /** Raw text of the last attempt */
+  text: string;
+  /** Tokens used across all attempts */
+  totalTokens?: number;
+  promptTokens?: number;
+  completionTokens?: number;
+  attempts: number;
+  /** Validation errors of the failed attempts, prefixed with the attempt */
+  errors: string[];
+}
+
+type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: string[] };
+
+/**
+ * Extract JSON from text that may contain markdown code blocks
+ */
+export function extractJSON(text: string): string {
+  // Try to find JSON in markdown code blocks
+  const jsonMatch = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (jsonMatch) {
+    return jsonMatch[1].trim();
+  }
+
+  // Try to find raw JSON object
+  const objectMatch = text.match(/\{[\s\S]*\}/);
+  if (objectMatch) {
+    return objectMatch[0];
+  }
+
+  return text;
+}
+
+/**
+ * Parse a model response and check it against a schema
+ */
+export function validateResponse<T>(
+  text: string,
+  schema: z.ZodType<T>,
+): ValidationResult<T> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJSON(text));
+  } catch (error) {
+    return {
+      success: false,
+      errors: [
+        `Response is not valid JSON: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      ],
+    };
+  }
+
+  const result = schema.safeParse(parsed);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    errors: result.error.issues.map((issue) =>
+      `${issue.path.length > 0 ? issue.path.join(".") : "(root)"}: ${issue.message}`
+    ),
+  };
+}
+
+/**
+ * Prompt asking the model to fix its previous response
+ */
+function buildRepairPrompt(
+  prompt: string,
+  response: string,
+  errors: string[],
+): string {
+  return `${prompt}
+
+Your previous response was:
+---
+${response}
+---
+
+It does not match the required format:
+${errors.map((e) => `- ${e}`).join("\n")}
+
+Respond again with only the corrected JSON object.`;
+}
+
+/**
+ * Generate output matching a schema, re-prompting with the validation errors
+ * up to MAX_ATTEMPTS times
+ * Cancellation (AnalysisCancelledError) and provider errors are not retried
+ */
+export async function generateStructured<T>(
+  request: StructuredRequest<T>,
+): Promise<StructuredResult<T>> {
+  const errors: string[] = [];
+  let prompt = request.prompt;
+  let text = "";
+  let totalTokens: number | undefined;
+  let promptTokens: number | undefined;
+  let completionTokens: number | undefined;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const completion = await aiStreamService.streamCompletion({
+      requestId: request.requestId,
+      model: request.model,
+      prompt,
+      temperature: request.temperature,
+      schema: request.structuredOutput ? request.schema : undefined,
+      onUpdate: request.onUpdate,
+    });
+
+    text = completion.text;
+    if (completion.usage?.totalTokens !== undefined) {
+      totalTokens = (totalTokens ?? 0) + completion.usage.totalTokens;
+    }
+    if (completion.usage?.inputTokens !== undefined) {
+      promptTokens = (promptTokens ?? 0) + completion.usage.inputTokens;
+    }
+    if (completion.usage?.outputTokens !== undefined) {
+      completionTokens = (completionTokens ?? 0) +
+        completion.usage.outputTokens;
+    }
+
+    const validation = validateResponse(text, request.schema);
+    if (validation.success) {
+      return {
+        object: validation.data,
+        text,
+        totalTokens,
+        promptTokens,
+        completionTokens,
+        attempts: attempt,
+        errors,
+      };
+    }
+
+    errors.push(...validation.errors.map((e) => `Attempt ${attempt}: ${e}`));
+    prompt = buildRepairPrompt(request.prompt, text, validation.errors);
+  }
+
+  return {
+    object: null,
+    text,
+    totalTokens,
+    promptTokens,
+    completionTokens,
+    attempts: MAX_ATTEMPTS,
+    errors,
+  };
+}
+
+/**
+ * Validation outcome to store alongside an analysis result
+ */
+export function validationOf(
+  result: StructuredResult<unknown>,
+): AnalysisValidation {
+  return {
+    status: result.object === null
+      ? "invalid"
+      : result.attempts > 1
+      ? "repaired"
+      : "valid",
+    errors: result.errors,
+    attempts: result.attempts,
+  };
+}
+
+/**
+ * Combine the results of an analysis whose input was split into chunks
+ * Valid only when every chunk is; attempts are those of the chunk that
+ * needed the most
+ */
+export function combineResults<T>(
+  results: StructuredResult<T>[],
+): StructuredResult<T[]> {
+  const sum = (pick: (result: StructuredResult<T>) => number | undefined) =>
+    results.some((result) => pick(result) !== undefined)
+      ? results.reduce((total, result) => total + (pick(result) ?? 0), 0)
+      : undefined;
+  const objects = results.map((result) => result.object);
+
+  return {
+    object: objects.every((object): object is T => object !== null)
+      ? objects
+      : null,
+    text: results.map((result) => result.text).join("\n\n"),
+    totalTokens: sum((result) => result.totalTokens),
+    promptTokens: sum((result) => result.promptTokens),
+    completionTokens: sum((result) => result.completionTokens),
+    attempts: Math.max(...results.map((result) => result.attempts)),
+    errors: results.length === 1 ? results[0].errors : results.flatMap(
+      (result, index) => result.errors.map((e) => `Chunk ${index + 1}: ${e}`),
+    ),
+  };
+}
+
+/**
+ * Error reported when no attempt matched the schema
+ */
+export function invalidOutputError(result: StructuredResult<unknown>): Error {
+  const lastError = result.errors[result.errors.length - 1];
+  return new Error(
+    `The AI response did not match the expected format after ${result.attempts} attempts (${lastError})`,
+  );
+}
+
+export default {
+  extractJSON,
+  validateResponse,
+  generateStructured,
+  validationOf,
+  combineResults,
+  invalidOutputError,
+};
@@ -0,0 +1,77 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { hashContent, writeTaskStatus } from "./task-writer";
+
+const CONTENT = [
+  "# Tasks",
+  "",
+  "- [ ] T001 Create project",
+  "  - [x] T002 Add config",
+  "Notes about T003",
+].join("\n");
+
+describe("writeTaskStatus", () => {
+  let dir: string;
+  let tasksPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "task-writer-"));
+    tasksPath = path.join(dir, "tasks.md");
+    fs.writeFileSync(tasksPath, CONTENT);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("rewrites only the checkbox of the task's line", () => {
+    const result = writeTaskStatus(
+      tasksPath,
+      "T002",
+      4,
+      "in_progress",
+      hashContent(CONTENT),
+    );
+
+    const written = fs.readFileSync(tasksPath, "utf-8");
+    expect(written.split("\n")[3]).toBe("  - [/] T002 Add config");
+    expect(written.replace("[/]", "[x]")).toBe(CONTENT);
+    expect(result).toEqual({ success: true, contentHash: hashContent(written) });
+  });
+
+  it("refuses when the file changed since its hash was taken", () => {
+    fs.writeFileSync(tasksPath, `${CONTENT}\n- [ ] T004 Added elsewhere`);
+
+    expect(writeTaskStatus(tasksPath, "T001", 3, "done", hashContent(CONTENT)))
+      .toMatchObject({ success: false, code: "CONFLICT" });
+    expect(fs.readFileSync(tasksPath, "utf-8")).toContain("- [ ] T001");
+  });
+
+  it("refuses when the line holds another task or no checkbox", () => {
+    const hash = hashContent(CONTENT);
+    expect(writeTaskStatus(tasksPath, "T002", 3, "done", hash))
+      .toMatchObject({ success: false, code: "CONFLICT" });
+    expect(writeTaskStatus(tasksPath, "T003", 5, "done", hash))
+      .toMatchObject({ success: false, code: "CONFLICT" });
+    expect(writeTaskStatus(tasksPath, "T001", 40, "done", hash))
+      .toMatchObject({ success: false, code: "CONFLICT" });
+    expect(fs.readFileSync(tasksPath, "utf-8")).toBe(CONTENT);
+  });
+
+  it("does not match a task ID inside a longer one", () => {
+    const content = "- [ ] T0010 Wider task";
+    fs.writeFileSync(tasksPath, content);
+    expect(writeTaskStatus(tasksPath, "T001", 1, "done", hashContent(content)))
+      .toMatchObject({ success: false, code: "CONFLICT" });
+  });
+
+  it("reports a missing file", () => {
+    fs.rmSync(tasksPath);
+    expect(writeTaskStatus(tasksPath, "T001", 3, "done", "")).toMatchObject({
+      success: false,
+      code: "NOT_FOUND",
+    });
+  });
+});
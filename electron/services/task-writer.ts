@@ -0,0 +1,107 @@
+/**
+ * Speckit Dashboard - Task Writer Service
+ * Write task status changes back to tasks.md checkboxes
+ */
+
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+type TaskStatus = "not_started" | "in_progress" | "done";
+
+/**
+ * Checkbox mark written for each task status
+ */
+const STATUS_MARKS: Record<TaskStatus, string> = {
+  not_started: " ",
+  in_progress: "/",
+  done: "x",
+};
+
+/**
+ * Result of a task status write
+ */
+export type TaskWriteResult =
+  | { success: true; contentHash: string }
+  | { success: false; error: string; code: "CONFLICT" | "NOT_FOUND" };
+
+/**
+ * Hash file content so concurrent edits can be detected
+ */
+export function hashContent(content: string): string {
+  return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Write a file atomically by renaming a temporary sibling over it
+ */
+export function writeFileAtomic(
+  filePath: string,
+  content: string | Buffer,
+): void {
+  const tempPath = path.join(
+    path.dirname(filePath),
+    `.${path.basename(filePath)}.${process.pid}.${Date.now()}.tmp`,
+  );
+
+  try {
+    fs.writeFileSync(tempPath, content, "utf-8");
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    if (fs.existsSync(tempPath)) {
+      fs.unlinkSync(tempPath);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Rewrite the checkbox of a task on its line in tasks.md
+ * Refuses when the file no longer matches the expected content hash or the
+ * line no longer holds the task
+ */
+export function writeTaskStatus(
+  tasksPath: string,
+  taskId: string,
+  lineNumber: number,
+  status: TaskStatus,
+  expectedHash: string,
+): TaskWriteResult {
+  if (!fs.existsSync(tasksPath)) {
+    return { success: false, error: "tasks.md not found", code: "NOT_FOUND" };
+  }
+
+  const content = fs.readFileSync(tasksPath, "utf-8");
+  if (hashContent(content) !== expectedHash) {
+    return {
+      success: false,
+      error: "tasks.md changed on disk since it was loaded. Reload and try again.",
+      code: "CONFLICT",
+    };
+  }
+
+  const lines = content.split("\n");
+  const line = lines[lineNumber - 1];
+  const checkbox = /^(\s*-\s*)\[[x/\s]\]/i;
+
+  if (
+    line === undefined ||
+    !checkbox.test(line) ||
+    !new RegExp(`\\b${taskId}\\b`, "i").test(line)
+  ) {
+    return {
+      success: false,
+      error: `Task ${taskId} was not found on line ${lineNumber} of tasks.md`,
+      code: "CONFLICT",
+    };
+  }
+
+  lines[lineNumber - 1] = line.replace(checkbox, `$1[${STATUS_MARKS[status]}]`);
+  const updated = lines.join("\n");
+
+  writeFileAtomic(tasksPath, updated);
+
+  return { success: true, contentHash: hashContent(updated) };
+}
+
+export default { hashContent, writeFileAtomic, writeTaskStatus };
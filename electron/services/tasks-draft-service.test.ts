@@ -0,0 +1,122 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  renderTasksMarkdown,
+  roundTripIssues,
+  tasksDraftSchema,
+  type TasksDraft,
+} from "./tasks-draft-service";
+import { parseTasksContent } from "./parser/tasks-parser";
+
+// Rendering and validation never reach a model; the provider module
+// reads its settings through electron-store, which needs Electron
+vi.mock("./ai-provider", () => ({ aiProviderService: {} }));
+
+const task = (
+  id: string,
+  description: string,
+  fields: Partial<TasksDraft["phases"][number]["tasks"][number]> = {},
+) => ({
+  id,
+  description,
+  parallel: false,
+  story: null,
+  filePath: null,
+  dependsOn: [],
+  ...fields,
+});
+
+const draft: TasksDraft = {
+  phases: [
+    {
+      name: "Setup",
+      purpose: "Project skeleton",
+      tasks: [task("T001", "Create the package", { filePath: "package.json" })],
+    },
+    {
+      name: "Phase 2: User Story 1",
+      tasks: [
+        task("T002", "Add the board model", {
+          parallel: true,
+          story: "US1",
+          filePath: "src/board.ts",
+          dependsOn: ["T001"],
+        }),
+        task("T003", "Add the card model", {
+          parallel: true,
+          story: "US1",
+          filePath: "src/card.ts",
+        }),
+        task("T004", "Render the board", { story: "US1" }),
+      ],
+    },
+  ],
+};
+
+describe("renderTasksMarkdown", () => {
+  it("renders the format the tasks parser reads", () => {
+    const content = renderTasksMarkdown(draft, "Kanban");
+    expect(content).toContain("## Phase 2: User Story 1\n");
+    expect(content).toContain(
+      "- [ ] T002 [P] [US1] Add the board model in `src/board.ts` (depends on T001)",
+    );
+
+    const parsed = parseTasksContent(content);
+    expect(parsed.title).toBe("Tasks: Kanban");
+    expect(parsed.phaseNames).toEqual(["Phase 1: Setup", "Phase 2: User Story 1"]);
+    expect(parsed.tasks.map((t) => [t.taskId, t.isParallel, t.storyLabel, t.filePath]))
+      .toEqual([
+        ["T001", false, null, "package.json"],
+        ["T002", true, "US1", "src/board.ts"],
+        ["T003", true, "US1", "src/card.ts"],
+        ["T004", false, "US1", null],
+      ]);
+  });
+});
+
+describe("roundTripIssues", () => {
+  it("finds nothing lost in a well-formed draft", () => {
+    expect(roundTripIssues(draft, renderTasksMarkdown(draft, ""))).toEqual([]);
+  });
+
+  it("locates markers written into descriptions", () => {
+    const broken: TasksDraft = {
+      phases: [{
+        name: "Setup",
+        tasks: [
+          task("T001", "[P] Create the package"),
+          task("T002", "Configure lint", { dependsOn: ["T009"] }),
+        ],
+      }],
+    };
+
+    expect(roundTripIssues(broken, renderTasksMarkdown(broken, ""))).toEqual([
+      {
+        path: ["phases", 0, "tasks", 0, "parallel"],
+        message: "Read back as true; keep [P] out of the description",
+      },
+      {
+        path: ["phases", 0, "tasks", 1, "dependsOn"],
+        message: "T009 is not another task of the draft",
+      },
+    ]);
+  });
+});
+
+describe("tasksDraftSchema", () => {
+  it("rejects drafts whose tasks form a dependency cycle", () => {
+    const result = tasksDraftSchema.safeParse({
+      phases: [{
+        name: "Setup",
+        tasks: [
+          { id: "T001", description: "First", dependsOn: ["T002"] },
+          { id: "T002", description: "Second", dependsOn: ["T001"] },
+        ],
+      }],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.success ? [] : result.error.issues.map((issue) => issue.message)).toEqual([
+      "Circular task dependency: T001 → T002 → T001",
+    ]);
+  });
+});
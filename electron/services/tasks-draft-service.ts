@@ -0,0 +1,312 @@
+/**
+ * Tasks Draft Service
+ * Drafts a tasks.md for a feature from its spec.md and plan.md
+ * The model returns phases and tasks as JSON, which are rendered in the
+ * format the tasks parser reads and parsed back to check nothing was lost
+ */
+
+import fs from "fs";
+import path from "path";
+import type { z } from "zod";
+import { aiProviderService } from "./ai-provider";
+import type { StreamOptions } from "./ai-stream";
+import { tasksDraftOutputSchema } from "./analysis-schemas";
+import { databaseService } from "./database";
+import { parseTasksContent } from "./parser/tasks-parser";
+import { renderPrompt, resolvePrompt } from "./prompt-registry";
+import {
+  generateStructured,
+  invalidOutputError,
+  validationOf,
+} from "./structured-output";
+import { hashContent, writeFileAtomic } from "./task-writer";
+import { usageService } from "./usage-service";
+
+// Dynamic import for uuid (ES module in CommonJS context)
+// Using Function constructor to prevent TypeScript from converting to require()
+async function generateUUID(): Promise<string> {
+  const importFn = new Function("specifier", "return import(specifier)");
+  const { v4 } = await importFn("uuid");
+  return v4();
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TasksDraft = z.infer<typeof tasksDraftOutputSchema>;
+
+export interface TasksDraftResult {
+  requestId: string;
+  /** Rendered tasks.md */
+  content: string;
+  taskCount: number;
+  phaseNames: string[];
+  /** Parser warnings on the rendered draft */
+  warnings: string[];
+  provider: string;
+  model: string;
+  duration: number;
+  tokenCount?: number;
+}
+
+interface DraftIssue {
+  path: Array<string | number>;
+  message: string;
+}
+
+export type TasksDraftWriteResult =
+  | { success: true; contentHash: string }
+  | {
+    success: false;
+    error: string;
+    code: "CONFLICT" | "NOT_FOUND" | "INVALID_DRAFT";
+  };
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Render a draft as tasks.md, numbering its phases in order
+ */
+export function renderTasksMarkdown(draft: TasksDraft, title: string): string {
+  const lines = [
+    `# Tasks: ${title}`,
+    "",
+    "**Input**: Design documents from spec.md and plan.md",
+    "**Prerequisites**: plan.md (required), spec.md (required for user stories)",
+  ];
+
+  draft.phases.forEach((phase, index) => {
+    const name = phase.name.replace(/^Phase\s+\d+\s*:?\s*/i, "").trim();
+    lines.push("", `## Phase ${index + 1}: ${name}`, "");
+    if (phase.purpose) {
+      lines.push(`**Purpose**: ${phase.purpose}`, "");
+    }
+
+    for (const task of phase.tasks) {
+      let line = `- [ ] ${task.id}`;
+      if (task.parallel) line += " [P]";
+      if (task.story) line += ` [${task.story}]`;
+      line += ` ${task.description.trim()}`;
+      if (task.filePath && !task.description.includes(`\`${task.filePath}\``)) {
+        line += ` in \`${task.filePath}\``;
+      }
+      if (task.dependsOn.length > 0) {
+        line += ` (depends on ${task.dependsOn.join(", ")})`;
+      }
+      lines.push(line);
+    }
+  });
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Differences between a draft and what the tasks parser reads from its
+ * rendering, located at the draft field so the model can fix them
+ */
+export function roundTripIssues(
+  draft: TasksDraft,
+  content: string,
+): DraftIssue[] {
+  const parsed = parseTasksContent(content);
+  const issues: DraftIssue[] = parsed.diagnostics
+    .filter((d) => d.severity === "error")
+    .map((d) => ({ path: [], message: d.message }));
+
+  const expected = draft.phases.flatMap((phase, phaseIndex) =>
+    phase.tasks.map((task, taskIndex) => ({
+      task,
+      phaseIndex,
+      path: ["phases", phaseIndex, "tasks", taskIndex],
+    }))
+  );
+
+  if (parsed.phaseNames.length !== draft.phases.length) {
+    issues.push({
+      path: ["phases"],
+      message: `${draft.phases.length} phases were drafted but ${parsed.phaseNames.length} were read back`,
+    });
+  }
+  if (parsed.tasks.length !== expected.length) {
+    issues.push({
+      path: ["phases"],
+      message: `${expected.length} tasks were drafted but ${parsed.tasks.length} were read back`,
+    });
+    return issues;
+  }
+
+  expected.forEach(({ task, phaseIndex, path: at }, index) => {
+    const read = parsed.tasks[index];
+    if (read.taskId !== task.id) {
+      issues.push({ path: [...at, "id"], message: `Read back as ${read.taskId}` });
+    }
+    if (read.phase !== parsed.phaseNames[phaseIndex]) {
+      issues.push({ path: at, message: `Read back in phase "${read.phase}"` });
+    }
+    if (read.isParallel !== task.parallel) {
+      issues.push({
+        path: [...at, "parallel"],
+        message: `Read back as ${read.isParallel}; keep [P] out of the description`,
+      });
+    }
+    if (read.storyLabel !== task.story) {
+      issues.push({
+        path: [...at, "story"],
+        message: `Read back as ${read.storyLabel}; keep story labels out of the description`,
+      });
+    }
+    if (read.filePath !== task.filePath) {
+      issues.push({
+        path: [...at, "filePath"],
+        message: `Read back as ${read.filePath}; use one path with a file extension and no backticks in the description`,
+      });
+    }
+    for (const id of task.dependsOn) {
+      if (!read.dependencies.includes(id)) {
+        issues.push({
+          path: [...at, "dependsOn"],
+          message: `${id} is not another task of the draft`,
+        });
+      }
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Draft schema that also rejects drafts the tasks parser would read
+ * differently, so the validation errors are sent back to the model
+ * The title does not change how tasks are read, so none is rendered
+ */
+export const tasksDraftSchema = tasksDraftOutputSchema.superRefine(
+  (draft, ctx) => {
+    const content = renderTasksMarkdown(draft, "");
+    for (const issue of roundTripIssues(draft, content)) {
+      ctx.addIssue({ code: "custom", ...issue });
+    }
+  },
+);
+
+// ============================================================================
+// Tasks Draft Service
+// ============================================================================
+
+class TasksDraftService {
+  /**
+   * Draft tasks.md for a feature that has a spec and a plan but no tasks
+   * Nothing is written; the draft is returned for review
+   */
+  async generateDraft(
+    featureId: number,
+    options: StreamOptions = {},
+  ): Promise<TasksDraftResult> {
+    const feature = databaseService.getFeatureById(featureId);
+    if (!feature) {
+      throw new Error(`Feature with ID ${featureId} not found`);
+    }
+
+    const featurePath = path.dirname(feature.spec_path);
+    const planPath = path.join(featurePath, "plan.md");
+    if (!fs.existsSync(feature.spec_path) || !fs.existsSync(planPath)) {
+      throw new Error("A tasks draft needs both spec.md and plan.md");
+    }
+    if (fs.existsSync(path.join(featurePath, "tasks.md"))) {
+      throw new Error("This feature already has a tasks.md");
+    }
+
+    const startTime = Date.now();
+    const requestId = options.requestId ?? await generateUUID();
+    const title = feature.title || feature.feature_name;
+
+    // Refuse to start once a monthly budget is used up
+    usageService.assertWithinBudget(featureId);
+
+    const route = await aiProviderService.resolveModel("tasks", options.signal);
+    const template = resolvePrompt("tasks", featureId);
+    const result = await generateStructured({
+      requestId,
+      model: route.model,
+      prompt: renderPrompt(template.template, {
+        spec: fs.readFileSync(feature.spec_path, "utf-8"),
+        plan: fs.readFileSync(planPath, "utf-8"),
+      }),
+      temperature: 0.3,
+      schema: tasksDraftSchema,
+      structuredOutput: route.structuredOutput,
+      onUpdate: options.onUpdate,
+    });
+
+    // Every attempt was paid for, including drafts that never matched
+    const producedBy = { provider: route.provider, model: route.modelId };
+    databaseService.recordTasksDraft(
+      requestId,
+      featureId,
+      validationOf(result),
+      Date.now() - startTime,
+      producedBy,
+      usageService.usageOf(producedBy, result),
+      result.totalTokens,
+    );
+
+    if (result.object === null) {
+      throw invalidOutputError(result);
+    }
+
+    const content = renderTasksMarkdown(result.object, title);
+    const parsed = parseTasksContent(content);
+
+    return {
+      requestId,
+      content,
+      taskCount: parsed.tasks.length,
+      phaseNames: parsed.phaseNames,
+      warnings: parsed.diagnostics.map((d) => `Line ${d.line}: ${d.message}`),
+      provider: route.provider,
+      model: route.modelId,
+      duration: Date.now() - startTime,
+      tokenCount: result.totalTokens,
+    };
+  }
+
+  /**
+   * Write a reviewed draft as the feature's tasks.md
+   * Never replaces an existing tasks.md
+   */
+  writeDraft(featureId: number, content: string): TasksDraftWriteResult {
+    const feature = databaseService.getFeatureById(featureId);
+    if (!feature) {
+      return { success: false, error: "Feature not found", code: "NOT_FOUND" };
+    }
+
+    const parsed = parseTasksContent(content);
+    const problems = parsed.diagnostics.filter((d) => d.severity === "error");
+    if (parsed.tasks.length === 0 || problems.length > 0) {
+      return {
+        success: false,
+        error: parsed.tasks.length === 0
+          ? "The draft has no tasks"
+          : `The draft does not parse cleanly: ${problems[0].message}`,
+        code: "INVALID_DRAFT",
+      };
+    }
+
+    const tasksPath = path.join(path.dirname(feature.spec_path), "tasks.md");
+    if (fs.existsSync(tasksPath)) {
+      return {
+        success: false,
+        error: "tasks.md was created since the draft was generated",
+        code: "CONFLICT",
+      };
+    }
+
+    writeFileAtomic(tasksPath, content);
+    return { success: true, contentHash: hashContent(content) };
+  }
+}
+
+export const tasksDraftService = new TasksDraftService();
+export default tasksDraftService;
@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from "vitest";
+import { buildTraceLinks } from "./traceability";
+
+// Link building is pure; the database module needs Electron to load
+vi.mock("./database", () => ({ databaseService: {} }));
+
+const story = (label: string, title: string, description = "", acceptanceScenarios: string[] = []) => ({
+  label,
+  title,
+  description,
+  acceptanceScenarios,
+});
+
+const task = (taskId: string, storyLabel: string | null, requirementRefs: string[] = []) => ({
+  taskId,
+  storyLabel,
+  requirementRefs,
+});
+
+describe("buildTraceLinks", () => {
+  it("links tasks that reference a requirement ID", () => {
+    expect(buildTraceLinks(
+      [{ id: "FR-001", description: "Persist projects" }],
+      [],
+      [task("T001", null, ["FR-001"]), task("T002", null, ["FR-999"])],
+    )).toEqual([{ requirementId: "FR-001", taskId: "T001", source: "explicit" }]);
+  });
+
+  it("links the tasks of a story the requirement names, or that names it", () => {
+    expect(buildTraceLinks(
+      [
+        { id: "FR-001", description: "Show the kanban board (US1)" },
+        { id: "FR-002", description: "Export reports" },
+      ],
+      [
+        story("US1", "Kanban board"),
+        story("US2", "Reports", "", ["Given FR-002 is met, the report downloads"]),
+      ],
+      [task("T001", "US1"), task("T002", "US2"), task("T003", null)],
+    )).toEqual([
+      { requirementId: "FR-001", taskId: "T001", source: "story" },
+      { requirementId: "FR-002", taskId: "T002", source: "story" },
+    ]);
+  });
+
+  it("infers the story sharing the most key terms", () => {
+    const links = buildTraceLinks(
+      [{ id: "NFR-001", description: "Gantt timeline renders dependency arrows quickly" }],
+      [
+        story("US1", "Gantt timeline", "See dependency arrows between tasks"),
+        story("US2", "Timeline export", "Export the timeline as an image"),
+      ],
+      [task("T001", "US1"), task("T002", "US2")],
+    );
+    expect(links).toEqual([{ requirementId: "NFR-001", taskId: "T001", source: "inferred" }]);
+  });
+
+  it("needs more than one shared term to infer a link", () => {
+    expect(buildTraceLinks(
+      [{ id: "FR-001", description: "Dark theme everywhere" }],
+      [story("US1", "Theme picker")],
+      [task("T001", "US1")],
+    )).toEqual([]);
+  });
+
+  it("keeps the strongest source for a pair and sorts by ID", () => {
+    expect(buildTraceLinks(
+      [
+        { id: "FR-10", description: "Filter tasks (US1)" },
+        { id: "FR-2", description: "Search tasks (US1)" },
+      ],
+      [story("US1", "Find tasks")],
+      [task("T002", "US1", ["FR-10"]), task("T001", "US1")],
+    )).toEqual([
+      { requirementId: "FR-2", taskId: "T001", source: "story" },
+      { requirementId: "FR-2", taskId: "T002", source: "story" },
+      { requirementId: "FR-10", taskId: "T001", source: "story" },
+      { requirementId: "FR-10", taskId: "T002", source: "explicit" },
+    ]);
+  });
+});
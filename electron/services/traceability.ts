@@ -0,0 +1,203 @@
+/**
+ * Speckit Dashboard - Traceability Service
+ * Deterministically link spec requirements (FR-/NFR-) to tasks
+ */
+
+import { databaseService } from "./database";
+
+/**
+ * How a requirement was linked to a task, strongest first:
+ * - explicit: the task references the requirement ID
+ * - story: the requirement and the task's [USn] story reference each other
+ * - inferred: the requirement shares key terms with the task's user story
+ */
+export type TraceLinkSource = "explicit" | "story" | "inferred";
+
+export interface TraceLink {
+  requirementId: string;
+  taskId: string;
+  source: TraceLinkSource;
+}
+
+interface TraceRequirement {
+  id: string;
+  description: string;
+}
+
+interface TraceUserStory {
+  label: string;
+  title: string;
+  description: string;
+  acceptanceScenarios: string[];
+}
+
+interface TraceTask {
+  taskId: string;
+  storyLabel: string | null;
+  requirementRefs: string[];
+}
+
+const SOURCE_RANK: Record<TraceLinkSource, number> = {
+  explicit: 0,
+  story: 1,
+  inferred: 2,
+};
+
+// Words too common in specs to indicate a shared topic
+const STOP_WORDS = new Set([
+  "system", "must", "should", "shall", "able", "user", "users", "story",
+  "with", "from", "that", "this", "when", "then", "into", "their", "there",
+  "each", "have", "will", "allow", "allows", "provide", "display", "support",
+  "based", "using", "view", "data", "feature", "features",
+]);
+
+// Minimum shared key terms before a requirement is inferred to belong to a story
+const MIN_SHARED_TERMS = 2;
+
+/**
+ * Extract significant lowercase terms from text
+ */
+function keyTerms(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length >= 4 && !STOP_WORDS.has(word)),
+  );
+}
+
+/**
+ * Build requirement-to-task links
+ * Pure and deterministic: links are sorted by requirement ID, then task ID
+ */
+export function buildTraceLinks(
+  requirements: TraceRequirement[],
+  userStories: TraceUserStory[],
+  tasks: TraceTask[],
+): TraceLink[] {
+  const links = new Map<string, TraceLink>();
+  const requirementIds = new Set(requirements.map((r) => r.id));
+
+  const addLink = (
+    requirementId: string,
+    taskId: string,
+    source: TraceLinkSource,
+  ) => {
+    const key = `${requirementId}:${taskId}`;
+    const existing = links.get(key);
+    if (!existing || SOURCE_RANK[source] < SOURCE_RANK[existing.source]) {
+      links.set(key, { requirementId, taskId, source });
+    }
+  };
+
+  // Explicit FR-/NFR- references in tasks.md
+  for (const task of tasks) {
+    for (const ref of task.requirementRefs) {
+      if (requirementIds.has(ref)) addLink(ref, task.taskId, "explicit");
+    }
+  }
+
+  // Requirement <-> user story, then story -> tasks labelled [USn]
+  const stories = userStories.map((story) => ({
+    label: story.label,
+    text: [story.label, story.title, story.description, ...story.acceptanceScenarios].join(
+      " ",
+    ),
+    terms: keyTerms(`${story.title} ${story.description}`),
+  }));
+
+  const tasksByStory = new Map<string, string[]>();
+  for (const task of tasks) {
+    if (!task.storyLabel) continue;
+    const list = tasksByStory.get(task.storyLabel) ?? [];
+    list.push(task.taskId);
+    tasksByStory.set(task.storyLabel, list);
+  }
+
+  for (const requirement of requirements) {
+    const mentioned = new Set(
+      [...requirement.description.matchAll(/\b(?:User\s+Story\s+|US)(\d+)\b/gi)]
+        .map((match) => `US${match[1]}`),
+    );
+    const idPattern = new RegExp(`\\b${requirement.id}\\b`, "i");
+    for (const story of stories) {
+      if (idPattern.test(story.text)) mentioned.add(story.label);
+    }
+
+    let source: TraceLinkSource = "story";
+    let storyLabels = [...mentioned];
+
+    // Fall back to the user story with the most shared key terms
+    if (storyLabels.length === 0) {
+      const terms = keyTerms(requirement.description);
+      let best = 0;
+      for (const story of stories) {
+        const shared = [...story.terms].filter((t) => terms.has(t)).length;
+        if (shared < MIN_SHARED_TERMS || shared < best) continue;
+        if (shared > best) {
+          best = shared;
+          storyLabels = [];
+        }
+        storyLabels.push(story.label);
+      }
+      source = "inferred";
+    }
+
+    for (const label of storyLabels) {
+      for (const taskId of tasksByStory.get(label) ?? []) {
+        addLink(requirement.id, taskId, source);
+      }
+    }
+  }
+
+  return [...links.values()].sort((a, b) =>
+    a.requirementId.localeCompare(b.requirementId, undefined, {
+      numeric: true,
+    }) || a.taskId.localeCompare(b.taskId, undefined, { numeric: true })
+  );
+}
+
+/**
+ * Build a feature's links from its synced requirements, user stories and
+ * tasks, so they always match the tasks shown next to them
+ */
+export function computeFeatureTraceLinks(featureId: number): TraceLink[] {
+  const requirements = databaseService.getRequirementsByFeature(featureId).map(
+    (r) => ({ id: r.requirement_id, description: r.description }),
+  );
+
+  const userStories = databaseService.getUserStoriesByFeature(featureId).map(
+    (s) => ({
+      label: s.story_label,
+      title: s.title,
+      description: s.description ?? "",
+      acceptanceScenarios: s.acceptance_scenarios
+        ? JSON.parse(s.acceptance_scenarios)
+        : [],
+    }),
+  );
+
+  const tasks = databaseService.getTasksByFeature(featureId).map((t) => ({
+    taskId: t.task_id,
+    storyLabel: t.story_label,
+    requirementRefs: t.requirement_refs ? JSON.parse(t.requirement_refs) : [],
+  }));
+
+  return buildTraceLinks(requirements, userStories, tasks);
+}
+
+/**
+ * Recompute links and store them in requirements.linked_tasks
+ */
+export function syncRequirementLinks(featureId: number): void {
+  const links = computeFeatureTraceLinks(featureId);
+
+  for (const requirement of databaseService.getRequirementsByFeature(featureId)) {
+    const linkedTasks = links
+      .filter((link) => link.requirementId === requirement.requirement_id)
+      .map((link) => link.taskId);
+    databaseService.updateRequirementLinkedTasks(requirement.id, linkedTasks);
+  }
+}
+
+export default { buildTraceLinks, computeFeatureTraceLinks, syncRequirementLinks };
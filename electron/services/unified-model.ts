@@ -0,0 +1,289 @@
+/**
+ * Speckit Dashboard - Unified Data Model
+ * Merges the data-model.md entities of every feature of a project by name,
+ * tracking which features introduce or modify each entity and where their
+ * definitions disagree
+ */
+
+import { databaseService } from "./database";
+import { typeKind } from "./codegen/model";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface SourceAttribute {
+  name: string;
+  type: string;
+  constraints?: string | null;
+}
+
+interface SourceRelationship {
+  target: string;
+  type: string;
+  description?: string | null;
+}
+
+/**
+ * How a feature's definition relates to the definitions before it
+ */
+export type DefinitionChange = "introduced" | "modified" | "unchanged";
+
+export interface UnifiedDefinition {
+  featureId: number;
+  featureNumber: string;
+  featureName: string;
+  entityId: number;
+  entityName: string;
+  change: DefinitionChange;
+  /** Attribute names compared with the previous definition */
+  added: string[];
+  removed: string[];
+  retyped: string[];
+}
+
+export interface UnifiedAttribute {
+  name: string;
+  /** The attribute as each defining feature writes it */
+  variants: Array<{
+    featureId: number;
+    type: string;
+    constraints: string | null;
+  }>;
+  /**
+   * type: features give it types of different kinds
+   * missing: some features defining the entity leave it out
+   */
+  conflict: "type" | "missing" | null;
+}
+
+export interface UnifiedRelationship {
+  /** Key of the target entity, or null when no feature defines it */
+  targetKey: string | null;
+  target: string;
+  type: string;
+  featureIds: number[];
+}
+
+export interface UnifiedEntity {
+  /** Name normalized for matching across features */
+  key: string;
+  name: string;
+  description: string | null;
+  definitions: UnifiedDefinition[];
+  attributes: UnifiedAttribute[];
+  relationships: UnifiedRelationship[];
+  conflictCount: number;
+}
+
+export interface UnifiedModel {
+  features: Array<{
+    id: number;
+    featureNumber: string;
+    featureName: string;
+    entityCount: number;
+  }>;
+  entities: UnifiedEntity[];
+  conflictCount: number;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function parseJsonArray<T>(value: string | null): T[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Entity name as matched across features: case, separators and a plural
+ * ending do not make a different entity
+ */
+function entityKey(name: string): string {
+  const key = name.toLowerCase().replace(/[^a-z0-9]/g, "");
+  if (key.endsWith("ies")) return `${key.slice(0, -3)}y`;
+  if (/(ss|us|x|ch|sh)es$/.test(key)) return key.slice(0, -2);
+  if (/[^su]s$/.test(key)) return key.slice(0, -1);
+  return key;
+}
+
+/**
+ * Attribute name as matched across features: project_id and projectId
+ * are the same attribute
+ */
+function attributeKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Type compared across features: its kind when known, otherwise the type
+ * as written
+ */
+function typeSignature(type: string): string {
+  const list = /\[\]|^(array|list)\b/i.test(type.trim()) ? "[]" : "";
+  return `${typeKind(type) ?? type.trim().toLowerCase()}${list}`;
+}
+
+// ============================================================================
+// Merging
+// ============================================================================
+
+/**
+ * Compare a definition with the one before it
+ */
+function compareDefinitions(
+  previous: SourceAttribute[] | null,
+  current: SourceAttribute[],
+): Pick<UnifiedDefinition, "change" | "added" | "removed" | "retyped"> {
+  if (!previous) {
+    return { change: "introduced", added: [], removed: [], retyped: [] };
+  }
+
+  const before = new Map(previous.map((a) => [attributeKey(a.name), a]));
+  const after = new Map(current.map((a) => [attributeKey(a.name), a]));
+  const added = current
+    .filter((a) => !before.has(attributeKey(a.name)))
+    .map((a) => a.name);
+  const removed = previous
+    .filter((a) => !after.has(attributeKey(a.name)))
+    .map((a) => a.name);
+  const retyped = current
+    .filter((a) => {
+      const old = before.get(attributeKey(a.name));
+      return old && typeSignature(old.type) !== typeSignature(a.type);
+    })
+    .map((a) => a.name);
+
+  const changed = added.length + removed.length + retyped.length > 0;
+  return { change: changed ? "modified" : "unchanged", added, removed, retyped };
+}
+
+/**
+ * Merge the entities of every feature of a project by name
+ * Features are taken in feature-number order, so the first definition of an
+ * entity is the one that introduces it
+ */
+export function buildUnifiedModel(projectId: number): UnifiedModel {
+  const features = databaseService.getFeaturesByProject(projectId)
+    .sort((a, b) =>
+      a.feature_number.localeCompare(b.feature_number, undefined, { numeric: true })
+    );
+
+  const groups = new Map<string, Array<{
+    feature: (typeof features)[number];
+    entity: ReturnType<typeof databaseService.getEntitiesByFeature>[number];
+    attributes: SourceAttribute[];
+    relationships: SourceRelationship[];
+  }>>();
+  const entityCounts = new Map<number, number>();
+
+  for (const feature of features) {
+    const entities = databaseService.getEntitiesByFeature(feature.id);
+    entityCounts.set(feature.id, entities.length);
+    for (const entity of entities) {
+      const key = entityKey(entity.entity_name);
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push({
+        feature,
+        entity,
+        attributes: parseJsonArray<SourceAttribute>(entity.attributes),
+        relationships: parseJsonArray<SourceRelationship>(entity.relationships),
+      });
+    }
+  }
+
+  const entities: UnifiedEntity[] = [];
+  for (const [key, group] of groups) {
+    // Definitions, each compared with the one before it
+    const definitions = group.map((item, index): UnifiedDefinition => ({
+      featureId: item.feature.id,
+      featureNumber: item.feature.feature_number,
+      featureName: item.feature.feature_name,
+      entityId: item.entity.id,
+      entityName: item.entity.entity_name,
+      ...compareDefinitions(
+        index > 0 ? group[index - 1].attributes : null,
+        item.attributes,
+      ),
+    }));
+
+    // Attributes across definitions, in the order they first appear
+    const attributes = new Map<string, UnifiedAttribute>();
+    for (const item of group) {
+      for (const attribute of item.attributes) {
+        const attrKey = attributeKey(attribute.name);
+        if (!attributes.has(attrKey)) {
+          attributes.set(attrKey, { name: attribute.name, variants: [], conflict: null });
+        }
+        const merged = attributes.get(attrKey)!;
+        if (!merged.variants.some((v) => v.featureId === item.feature.id)) {
+          merged.variants.push({
+            featureId: item.feature.id,
+            type: attribute.type,
+            constraints: attribute.constraints ?? null,
+          });
+        }
+      }
+    }
+    const definingFeatures = new Set(group.map((item) => item.feature.id)).size;
+    for (const attribute of attributes.values()) {
+      const signatures = new Set(attribute.variants.map((v) => typeSignature(v.type)));
+      if (signatures.size > 1) attribute.conflict = "type";
+      else if (attribute.variants.length < definingFeatures) attribute.conflict = "missing";
+    }
+
+    // Relationships, one per target and type
+    const relationships = new Map<string, UnifiedRelationship>();
+    for (const item of group) {
+      for (const relationship of item.relationships) {
+        const targetKey = entityKey(relationship.target);
+        const relKey = `${targetKey}|${relationship.type}`;
+        if (!relationships.has(relKey)) {
+          relationships.set(relKey, {
+            targetKey: groups.has(targetKey) ? targetKey : null,
+            target: relationship.target,
+            type: relationship.type,
+            featureIds: [],
+          });
+        }
+        const merged = relationships.get(relKey)!;
+        if (!merged.featureIds.includes(item.feature.id)) {
+          merged.featureIds.push(item.feature.id);
+        }
+      }
+    }
+
+    const mergedAttributes = [...attributes.values()];
+    const latest = group[group.length - 1];
+    entities.push({
+      key,
+      name: latest.entity.entity_name,
+      description: latest.entity.description ??
+        group.find((item) => item.entity.description)?.entity.description ?? null,
+      definitions,
+      attributes: mergedAttributes,
+      relationships: [...relationships.values()],
+      conflictCount: mergedAttributes.filter((a) => a.conflict).length,
+    });
+  }
+
+  entities.sort((a, b) => a.name.localeCompare(b.name));
+  return {
+    features: features.map((feature) => ({
+      id: feature.id,
+      featureNumber: feature.feature_number,
+      featureName: feature.feature_name,
+      entityCount: entityCounts.get(feature.id) ?? 0,
+    })),
+    entities,
+    conflictCount: entities.reduce((sum, e) => sum + e.conflictCount, 0),
+  };
+}
+
+export default { buildUnifiedModel };
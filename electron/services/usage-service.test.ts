@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from "vitest";
+import { usageService } from "./usage-service";
+
+// Prices come from the database, which needs Electron
+vi.mock("./database", () => ({
+  databaseService: {
+    getModelPrice: (model: string) =>
+      model === "gpt-4o-mini"
+        ? { model, prompt_price: 0.15, completion_price: 0.6 }
+        : null,
+  },
+}));
+
+const openai = { provider: "openai", model: "gpt-4o-mini" };
+
+describe("usageService.usageOf", () => {
+  it("prices prompt and completion tokens per million", () => {
+    expect(usageService.usageOf(openai, {
+      promptTokens: 2_000_000,
+      completionTokens: 500_000,
+    })).toEqual({
+      promptTokens: 2_000_000,
+      completionTokens: 500_000,
+      cost: 0.6,
+    });
+  });
+
+  it("costs nothing on local providers", () => {
+    expect(usageService.usageOf(
+      { provider: "ollama", model: "llama3" },
+      { promptTokens: 100, completionTokens: 50 },
+    ).cost).toBe(0);
+  });
+
+  it("leaves the cost unknown without a price or a token split", () => {
+    expect(usageService.usageOf(
+      { provider: "openrouter", model: "unpriced/model" },
+      { promptTokens: 100, completionTokens: 50 },
+    ).cost).toBeNull();
+    expect(usageService.usageOf(openai, { promptTokens: 100 })).toEqual({
+      promptTokens: 100,
+      completionTokens: undefined,
+      cost: null,
+    });
+  });
+});
@@ -0,0 +1,331 @@
+/**
+ * Usage Service
+ * Costs analyses from the model pricing table, enforces monthly budgets and
+ * summarizes token usage and spend
+ */
+
+import {
+  type AnalysisModel,
+  type AnalysisUsage,
+  databaseService,
+  type DbUsageRow,
+  type UsageGroup,
+} from "./database";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ModelPrice {
+  model: string;
+  /** USD per million prompt tokens */
+  promptPrice: number;
+  /** USD per million completion tokens */
+  completionPrice: number;
+  source: "manual" | "openrouter";
+  updatedAt: number;
+}
+
+export interface UsageBudget {
+  /** null for the budget covering all projects */
+  projectId: number | null;
+  monthlyLimit: number;
+  /** Spend in the current calendar month */
+  spent: number;
+}
+
+export interface UsageBreakdownRow {
+  key: string;
+  label: string;
+  analyses: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+  /** Analyses that used tokens on a model without a price */
+  unpriced: number;
+}
+
+export interface UsageSummary {
+  since: number;
+  totals: Omit<UsageBreakdownRow, "key" | "label">;
+  byProject: UsageBreakdownRow[];
+  byFeature: UsageBreakdownRow[];
+  byType: UsageBreakdownRow[];
+  byDay: UsageBreakdownRow[];
+  byModel: UsageBreakdownRow[];
+}
+
+/**
+ * Thrown when starting an analysis would exceed a monthly budget
+ */
+export class BudgetExceededError extends Error {
+  constructor(scope: string, limit: number, spent: number) {
+    super(
+      `Monthly AI budget for ${scope} reached ($${spent.toFixed(2)} of $${
+        limit.toFixed(2)
+      })`,
+    );
+    this.name = "BudgetExceededError";
+  }
+}
+
+// Providers whose models run locally and cost nothing
+const FREE_PROVIDERS = ["ollama"];
+
+const OPENROUTER_MODELS_URL = "https://openrouter.ai/api/v1/models";
+
+/**
+ * Start of the current calendar month, local time
+ */
+function startOfMonth(): number {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+}
+
+function toBreakdownRow(row: DbUsageRow): UsageBreakdownRow {
+  return {
+    key: row.key,
+    label: row.label,
+    analyses: row.analyses,
+    promptTokens: row.prompt_tokens,
+    completionTokens: row.completion_tokens,
+    totalTokens: row.total_tokens,
+    cost: row.cost,
+    unpriced: row.unpriced,
+  };
+}
+
+// ============================================================================
+// Usage Service Class
+// ============================================================================
+
+class UsageService {
+  // ========================================
+  // Costing
+  // ========================================
+
+  /**
+   * Token split and cost of an analysis, priced at the current rates
+   */
+  usageOf(
+    producedBy: AnalysisModel,
+    tokens: { promptTokens?: number; completionTokens?: number },
+  ): AnalysisUsage {
+    const { promptTokens, completionTokens } = tokens;
+
+    if (promptTokens === undefined || completionTokens === undefined) {
+      return { promptTokens, completionTokens, cost: null };
+    }
+
+    if (FREE_PROVIDERS.includes(producedBy.provider)) {
+      return { promptTokens, completionTokens, cost: 0 };
+    }
+
+    const price = databaseService.getModelPrice(producedBy.model);
+    if (!price) {
+      return { promptTokens, completionTokens, cost: null };
+    }
+
+    return {
+      promptTokens,
+      completionTokens,
+      cost: (promptTokens * price.prompt_price +
+        completionTokens * price.completion_price) / 1_000_000,
+    };
+  }
+
+  // ========================================
+  // Budgets
+  // ========================================
+
+  /**
+   * Throw BudgetExceededError if the feature's project or all projects have
+   * used up their budget for this month
+   */
+  assertWithinBudget(featureId: number): void {
+    const feature = databaseService.getFeatureById(featureId);
+    this.assertProjectWithinBudget(feature?.project_id ?? null);
+  }
+
+  /**
+   * Throw BudgetExceededError if the project or all projects have used up
+   * their budget for this month
+   * `pending` is what a running analysis has spent without recording it yet
+   */
+  assertProjectWithinBudget(
+    projectId: number | null,
+    pending: number = 0,
+  ): void {
+    const budgets = databaseService.getUsageBudgets();
+    if (budgets.length === 0) return;
+
+    const since = startOfMonth();
+
+    for (const budget of budgets) {
+      if (budget.project_id !== null && budget.project_id !== projectId) {
+        continue;
+      }
+
+      const spent = databaseService.getSpendSince(
+        since,
+        budget.project_id ?? undefined,
+      ) + pending;
+      if (spent >= budget.monthly_limit) {
+        throw new BudgetExceededError(
+          budget.project_id === null ? "all projects" : "this project",
+          budget.monthly_limit,
+          spent,
+        );
+      }
+    }
+  }
+
+  /**
+   * All budgets with their spend this month
+   */
+  getBudgets(): UsageBudget[] {
+    const since = startOfMonth();
+    return databaseService.getUsageBudgets().map((budget) => ({
+      projectId: budget.project_id,
+      monthlyLimit: budget.monthly_limit,
+      spent: databaseService.getSpendSince(
+        since,
+        budget.project_id ?? undefined,
+      ),
+    }));
+  }
+
+  /**
+   * Set or remove (null limit) a monthly budget
+   */
+  setBudget(projectId: number | null, monthlyLimit: number | null): void {
+    if (monthlyLimit !== null && (!(monthlyLimit >= 0) || !isFinite(monthlyLimit))) {
+      throw new Error("Budget must be a non-negative amount");
+    }
+    databaseService.setUsageBudget(projectId, monthlyLimit);
+  }
+
+  // ========================================
+  // Pricing
+  // ========================================
+
+  getPricing(): ModelPrice[] {
+    return databaseService.getModelPricing().map((row) => ({
+      model: row.model,
+      promptPrice: row.prompt_price,
+      completionPrice: row.completion_price,
+      source: row.source,
+      updatedAt: row.updated_at,
+    }));
+  }
+
+  /**
+   * Set a model's price by hand, in USD per million tokens
+   */
+  setPricing(model: string, promptPrice: number, completionPrice: number): void {
+    if (!model.trim()) {
+      throw new Error("Model is required");
+    }
+    if (!(promptPrice >= 0) || !(completionPrice >= 0)) {
+      throw new Error("Prices must be non-negative");
+    }
+    databaseService.upsertModelPricing(
+      model.trim(),
+      promptPrice,
+      completionPrice,
+      "manual",
+    );
+  }
+
+  deletePricing(model: string): void {
+    databaseService.deleteModelPricing(model);
+  }
+
+  /**
+   * Import prices from the public OpenRouter models list
+   * Manually entered prices are kept; returns the number of models imported
+   */
+  async syncOpenRouterPricing(): Promise<number> {
+    const response = await fetch(OPENROUTER_MODELS_URL, {
+      signal: AbortSignal.timeout(15000),
+    });
+    if (!response.ok) {
+      throw new Error(`OpenRouter returned status ${response.status}`);
+    }
+
+    const data = (await response.json()) as {
+      data?: {
+        id: string;
+        pricing?: { prompt?: string; completion?: string };
+      }[];
+    };
+
+    let imported = 0;
+    for (const model of data.data ?? []) {
+      // Prices are USD per token as strings
+      const prompt = Number(model.pricing?.prompt);
+      const completion = Number(model.pricing?.completion);
+      if (!isFinite(prompt) || !isFinite(completion) || prompt < 0 || completion < 0) {
+        continue;
+      }
+
+      databaseService.upsertModelPricing(
+        model.id,
+        prompt * 1_000_000,
+        completion * 1_000_000,
+        "openrouter",
+      );
+      imported++;
+    }
+
+    return imported;
+  }
+
+  // ========================================
+  // Reporting
+  // ========================================
+
+  /**
+   * Tokens and spend since a timestamp, optionally for one project
+   */
+  getSummary(since: number, projectId?: number): UsageSummary {
+    const breakdown = (groupBy: UsageGroup) =>
+      databaseService.getUsageBreakdown(groupBy, since, projectId)
+        .map(toBreakdownRow);
+
+    const byType = breakdown("type");
+    const totals = byType.reduce(
+      (sum, row) => ({
+        analyses: sum.analyses + row.analyses,
+        promptTokens: sum.promptTokens + row.promptTokens,
+        completionTokens: sum.completionTokens + row.completionTokens,
+        totalTokens: sum.totalTokens + row.totalTokens,
+        cost: sum.cost + row.cost,
+        unpriced: sum.unpriced + row.unpriced,
+      }),
+      {
+        analyses: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+        cost: 0,
+        unpriced: 0,
+      },
+    );
+
+    return {
+      since,
+      totals,
+      byProject: breakdown("project"),
+      byFeature: breakdown("feature"),
+      byType,
+      byDay: breakdown("day"),
+      byModel: breakdown("model"),
+    };
+  }
+}
+
+// Export singleton instance
+export const usageService = new UsageService();
+export default usageService;
@@ -0,0 +1,81 @@
+/**
+ * Speckit Dashboard - Window Manager
+ * Create app windows, each of which can be opened on its own project
+ */
+
+import { BrowserWindow } from "electron";
+import path from "path";
+import isDev from "electron-is-dev";
+
+class WindowManager {
+  private mainWindow: BrowserWindow | null = null;
+
+  /**
+   * Create an app window
+   * The project ID is passed to the renderer in the URL; the window binds to
+   * that project once it selects it
+   */
+  createWindow(projectId?: number): BrowserWindow {
+    const window = new BrowserWindow({
+      width: 1400,
+      height: 900,
+      minWidth: 1024,
+      minHeight: 700,
+      webPreferences: {
+        preload: path.join(__dirname, "..", "preload.js"),
+        contextIsolation: true,
+        nodeIntegration: false,
+        sandbox: false, // Required for better-sqlite3 native module
+      },
+      // titleBarStyle: "hiddenInset",
+      show: false,
+      backgroundColor: "#1f2937", // gray-800
+    });
+
+    const query = projectId !== undefined
+      ? { projectId: String(projectId) }
+      : undefined;
+
+    // Load the app
+    if (isDev) {
+      const search = query ? `?${new URLSearchParams(query).toString()}` : "";
+      window.loadURL(`http://localhost:5173/${search}`);
+      window.webContents.openDevTools();
+    } else {
+      window.loadFile(path.join(__dirname, "..", "..", "dist", "index.html"), {
+        query,
+      });
+    }
+
+    // Show window when ready to avoid visual flash
+    window.once("ready-to-show", () => {
+      window.show();
+    });
+
+    // The first window receives app-wide notifications such as updates
+    if (!this.mainWindow) {
+      this.mainWindow = window;
+    }
+
+    window.on("closed", () => {
+      if (this.mainWindow === window) {
+        this.mainWindow = BrowserWindow.getAllWindows().find((w) =>
+          w !== window && !w.isDestroyed()
+        ) ?? null;
+      }
+    });
+
+    return window;
+  }
+
+  /**
+   * Window that receives app-wide notifications
+   */
+  getMainWindow(): BrowserWindow | null {
+    return this.mainWindow;
+  }
+}
+
+// Export singleton instance
+export const windowManager = new WindowManager();
+export default windowManager;
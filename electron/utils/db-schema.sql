@@ -24,6 +24,8 @@ CREATE TABLE IF NOT EXISTS features (
   priority TEXT,
   created_date TEXT,
   task_completion_pct REAL DEFAULT 0.0,
+  dependency_errors TEXT, -- JSON array of task dependency problems (e.g. cycles)
+  tasks_hash TEXT, -- SHA-256 of tasks.md as last synced
   created_at INTEGER NOT NULL,
   updated_at INTEGER NOT NULL,
   FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE,
@@ -44,6 +46,7 @@ CREATE TABLE IF NOT EXISTS tasks (
   story_label TEXT,
   file_path TEXT,
   line_number INTEGER,
+  requirement_refs TEXT, -- JSON array of FR-/NFR- IDs the task names
   created_at INTEGER NOT NULL,
   updated_at INTEGER NOT NULL,
   FOREIGN KEY (feature_id) REFERENCES features(id) ON DELETE CASCADE,
@@ -82,6 +85,36 @@ CREATE TABLE IF NOT EXISTS requirements (
   UNIQUE(feature_id, requirement_id)
 );
 
+-- User stories table: stores parsed user stories from spec.md
+CREATE TABLE IF NOT EXISTS user_stories (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  feature_id INTEGER NOT NULL,
+  story_label TEXT NOT NULL, -- e.g. US1, matches tasks.story_label
+  title TEXT NOT NULL,
+  priority TEXT NOT NULL DEFAULT 'P2',
+  description TEXT,
+  acceptance_scenarios TEXT, -- JSON array
+  story_order INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  FOREIGN KEY (feature_id) REFERENCES features(id) ON DELETE CASCADE,
+  UNIQUE(feature_id, story_label)
+);
+
+-- Parse diagnostics table: problems found while parsing a feature's files
+CREATE TABLE IF NOT EXISTS parse_diagnostics (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  feature_id INTEGER NOT NULL,
+  file_path TEXT NOT NULL, -- relative to the feature directory
+  line_number INTEGER NOT NULL DEFAULT 1,
+  column_number INTEGER NOT NULL DEFAULT 1,
+  severity TEXT NOT NULL CHECK(severity IN ('error', 'warning', 'info')),
+  rule_code TEXT NOT NULL, -- e.g. tasks/missing-task-id
+  message TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (feature_id) REFERENCES features(id) ON DELETE CASCADE
+);
+
 -- Plans table: stores parsed plan.md data
 CREATE TABLE IF NOT EXISTS plans (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -117,6 +150,8 @@ CREATE INDEX IF NOT EXISTS idx_tasks_feature ON tasks(feature_id);
 CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status);
 CREATE INDEX IF NOT EXISTS idx_entities_feature ON entities(feature_id);
 CREATE INDEX IF NOT EXISTS idx_requirements_feature ON requirements(feature_id);
+CREATE INDEX IF NOT EXISTS idx_user_stories_feature ON user_stories(feature_id);
+CREATE INDEX IF NOT EXISTS idx_parse_diagnostics_feature ON parse_diagnostics(feature_id, file_path);
 CREATE INDEX IF NOT EXISTS idx_plans_feature ON plans(feature_id);
 CREATE INDEX IF NOT EXISTS idx_research_feature ON research_decisions(feature_id);
 
@@ -126,10 +161,21 @@ CREATE TABLE IF NOT EXISTS analysis_results (
   request_id TEXT UNIQUE NOT NULL,
   feature_id INTEGER NOT NULL,
   file_path TEXT, -- Nullable for checks involving multiple files
-  analysis_type TEXT NOT NULL CHECK(analysis_type IN ('summary', 'consistency', 'gaps')),
-  content TEXT NOT NULL, -- JSON formatted result
+  analysis_type TEXT NOT NULL CHECK(analysis_type IN ('summary', 'consistency', 'gaps', 'architecture')),
+  content TEXT NOT NULL, -- JSON formatted result, or the raw response when invalid
   token_count INTEGER,
   duration INTEGER NOT NULL,
+  validation_status TEXT NOT NULL DEFAULT 'valid' CHECK(validation_status IN ('valid', 'repaired', 'invalid')),
+  validation_errors TEXT, -- JSON array of schema violations
+  attempts INTEGER NOT NULL DEFAULT 1, -- Model calls including re-prompts
+  provider TEXT, -- Provider that produced the result (e.g. 'openai', 'custom:<id>')
+  model TEXT, -- Model ID used by that provider
+  prompt_tokens INTEGER,
+  completion_tokens INTEGER,
+  cost REAL, -- USD at the prices in effect when recorded, NULL when unpriced
+  input_files TEXT, -- JSON array of the files analyzed
+  input_hash TEXT, -- Hash of those files' content when analyzed
+  prompt_version TEXT, -- Hash of the prompt template used
   created_at INTEGER NOT NULL,
   FOREIGN KEY (feature_id) REFERENCES features(id) ON DELETE CASCADE
 );
@@ -137,4 +183,177 @@ CREATE TABLE IF NOT EXISTS analysis_results (
 -- Additional indexes for analysis results
 CREATE INDEX IF NOT EXISTS idx_analysis_feature ON analysis_results(feature_id);
 CREATE INDEX IF NOT EXISTS idx_analysis_request ON analysis_results(request_id);
+CREATE INDEX IF NOT EXISTS idx_analysis_created ON analysis_results(created_at);
+
+-- Project analysis results table: AI analyses across all features of a project
+CREATE TABLE IF NOT EXISTS project_analysis_results (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  request_id TEXT UNIQUE NOT NULL,
+  project_id INTEGER NOT NULL,
+  analysis_type TEXT NOT NULL CHECK(analysis_type IN ('conflicts', 'integrity')),
+  content TEXT NOT NULL, -- JSON formatted result, or the raw responses when invalid
+  token_count INTEGER,
+  duration INTEGER NOT NULL,
+  validation_status TEXT NOT NULL DEFAULT 'valid' CHECK(validation_status IN ('valid', 'repaired', 'invalid')),
+  validation_errors TEXT, -- JSON array of schema violations
+  attempts INTEGER NOT NULL DEFAULT 1,
+  provider TEXT,
+  model TEXT,
+  prompt_tokens INTEGER,
+  completion_tokens INTEGER,
+  cost REAL,
+  chunk_count INTEGER NOT NULL DEFAULT 1, -- Model calls the features were split across
+  input_hash TEXT, -- Hash of the feature digests analyzed
+  prompt_version TEXT,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_analysis_project ON project_analysis_results(project_id);
+
+-- Model pricing table: USD per million tokens, used to cost analyses
+CREATE TABLE IF NOT EXISTS model_pricing (
+  model TEXT PRIMARY KEY,
+  prompt_price REAL NOT NULL,
+  completion_price REAL NOT NULL,
+  source TEXT NOT NULL CHECK(source IN ('manual', 'openrouter')) DEFAULT 'manual',
+  updated_at INTEGER NOT NULL
+);
+
+-- Usage budgets table: monthly spend limits, project_id NULL is the global limit
+CREATE TABLE IF NOT EXISTS usage_budgets (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  project_id INTEGER UNIQUE,
+  monthly_limit REAL NOT NULL,
+  updated_at INTEGER NOT NULL,
+  FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+);
+
+
+-- Project snapshots table: stores ProjectStats over time for trends and burn-up charts
+CREATE TABLE IF NOT EXISTS project_snapshots (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  project_id INTEGER NOT NULL,
+  total_features INTEGER NOT NULL DEFAULT 0,
+  features_draft INTEGER NOT NULL DEFAULT 0,
+  features_approved INTEGER NOT NULL DEFAULT 0,
+  features_in_progress INTEGER NOT NULL DEFAULT 0,
+  features_complete INTEGER NOT NULL DEFAULT 0,
+  avg_task_completion REAL NOT NULL DEFAULT 0.0,
+  total_tasks INTEGER NOT NULL DEFAULT 0,
+  tasks_not_started INTEGER NOT NULL DEFAULT 0,
+  tasks_in_progress INTEGER NOT NULL DEFAULT 0,
+  tasks_done INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_snapshots_project ON project_snapshots(project_id, created_at);
+
+-- Search index: full-text index of spec artifacts, one row per markdown section
+CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+  heading,
+  content,
+  project_id UNINDEXED,
+  feature_id UNINDEXED,
+  file_path UNINDEXED, -- relative to the feature directory
+  line_start UNINDEXED,
+  line_end UNINDEXED,
+  tokenize = 'porter unicode61'
+);
+
+-- Tasks drafts: model calls that drafted a tasks.md, kept for usage accounting
+CREATE TABLE IF NOT EXISTS tasks_drafts (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  request_id TEXT UNIQUE NOT NULL,
+  feature_id INTEGER NOT NULL,
+  validation_status TEXT NOT NULL CHECK(validation_status IN ('valid', 'repaired', 'invalid')),
+  attempts INTEGER NOT NULL DEFAULT 1, -- Model calls including re-prompts
+  provider TEXT,
+  model TEXT,
+  prompt_tokens INTEGER,
+  completion_tokens INTEGER,
+  token_count INTEGER,
+  cost REAL,
+  duration INTEGER NOT NULL,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (feature_id) REFERENCES features(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_tasks_drafts_created ON tasks_drafts(created_at);
 
+-- Prompt test runs: model calls made while editing a prompt, kept for usage accounting
+CREATE TABLE IF NOT EXISTS prompt_tests (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  request_id TEXT UNIQUE NOT NULL,
+  feature_id INTEGER NOT NULL,
+  prompt_id TEXT NOT NULL,
+  validation_status TEXT NOT NULL CHECK(validation_status IN ('valid', 'repaired', 'invalid')),
+  attempts INTEGER NOT NULL DEFAULT 1, -- Model calls including re-prompts
+  provider TEXT,
+  model TEXT,
+  prompt_tokens INTEGER,
+  completion_tokens INTEGER,
+  token_count INTEGER,
+  cost REAL,
+  duration INTEGER NOT NULL,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (feature_id) REFERENCES features(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_prompt_tests_created ON prompt_tests(created_at);
+
+-- Chat conversations: questions about a feature, or the whole project when feature_id is NULL
+CREATE TABLE IF NOT EXISTS chat_conversations (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  project_id INTEGER NOT NULL,
+  feature_id INTEGER,
+  title TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE,
+  FOREIGN KEY (feature_id) REFERENCES features(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_conversations_scope ON chat_conversations(project_id, feature_id);
+
+-- Chat messages, assistant answers keep the sources they cite and their usage
+CREATE TABLE IF NOT EXISTS chat_messages (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  conversation_id INTEGER NOT NULL,
+  role TEXT NOT NULL CHECK(role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  citations TEXT, -- JSON array of cited sources with file and line
+  provider TEXT,
+  model TEXT,
+  prompt_tokens INTEGER,
+  completion_tokens INTEGER,
+  token_count INTEGER,
+  cost REAL,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (conversation_id) REFERENCES chat_conversations(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_conversation ON chat_messages(conversation_id);
+
+-- Embedding cache: vectors of retrieved passages, keyed by content and model
+CREATE TABLE IF NOT EXISTS chat_embeddings (
+  content_hash TEXT NOT NULL,
+  model TEXT NOT NULL, -- '<provider>:<model id>'
+  vector BLOB NOT NULL, -- Float32 values
+  created_at INTEGER NOT NULL,
+  PRIMARY KEY (content_hash, model)
+);
+
+-- Diagram layouts: node positions and view settings saved per feature and diagram
+CREATE TABLE IF NOT EXISTS diagram_layouts (
+  feature_id INTEGER NOT NULL,
+  diagram TEXT NOT NULL CHECK(diagram IN ('schema', 'architecture')),
+  direction TEXT NOT NULL CHECK(direction IN ('TB', 'LR')),
+  positions TEXT NOT NULL, -- JSON object of node key to {x, y}
+  collapsed TEXT NOT NULL, -- JSON array of collapsed node or group keys
+  viewport TEXT, -- JSON {x, y, zoom}, NULL fits the diagram to the view
+  updated_at INTEGER NOT NULL,
+  PRIMARY KEY (feature_id, diagram),
+  FOREIGN KEY (feature_id) REFERENCES features(id) ON DELETE CASCADE
+);
@@ -14,6 +14,12 @@ import FeatureSummaryView from './views/FeatureSummaryView';
 import ArchitectureView from './views/ArchitectureView';
 import AIAnalysis from './views/AIAnalysis';
 import SchemaView from './views/SchemaView';
+import TraceabilityView from './views/TraceabilityView';
+import DocumentView from './views/DocumentView';
+import ProblemsView from './views/ProblemsView';
+import DataModelView from './views/DataModelView';
+import UsageView from './views/UsageView';
+import ProjectAnalysisView from './views/ProjectAnalysisView';
 import AISettings from './components/AISettings';
 import Navbar from './components/Navbar';
 import ProjectConfigModal from './components/ProjectConfigModal';
@@ -72,6 +78,24 @@ function App() {
                   {/* Schema View for a specific feature */}
                   <Route path="/features/:featureId/schema" element={<SchemaView />} />
 
+                  {/* Traceability matrix for a specific feature */}
+                  <Route path="/features/:featureId/traceability" element={<TraceabilityView />} />
+
+                  {/* Spec artifact reader, opened from search results */}
+                  <Route path="/features/:featureId/documents" element={<DocumentView />} />
+
+                  {/* Parse problems across the project */}
+                  <Route path="/problems" element={<ProblemsView />} />
+
+                  {/* Entities merged across all features */}
+                  <Route path="/data-model" element={<DataModelView />} />
+
+                  {/* AI analyses across all features */}
+                  <Route path="/project-analysis" element={<ProjectAnalysisView />} />
+
+                  {/* AI token usage, spend and budgets */}
+                  <Route path="/usage" element={<UsageView />} />
+
                   {/* Settings - AI Configuration */}
                   <Route path="/settings/ai" element={<AISettings />} />
 
@@ -0,0 +1,305 @@
+/**
+ * Custom Provider Configuration Component
+ * Form for a named OpenAI-compatible endpoint profile (LM Studio, vLLM,
+ * llama.cpp server, corporate gateways)
+ */
+
+import { useState, useCallback } from 'react';
+import { Card, CardBody, Button } from '../ui';
+import { useAIProvider, type SafeCustomProfile } from '../../contexts/AIProviderContext';
+
+interface CustomProviderConfigProps {
+  isActive: boolean;
+  /** Undefined when creating a new profile */
+  profile?: SafeCustomProfile;
+  onSaved: (profileId: string) => void;
+  onDeleted: () => void;
+}
+
+interface HeaderRow {
+  name: string;
+  value: string;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-400 focus:ring-2 focus:ring-violet-500 focus:border-transparent';
+
+export function CustomProviderConfig({ isActive, profile, onSaved, onDeleted }: CustomProviderConfigProps) {
+  const { saveCustomProfile, deleteCustomProfile, testConnection } = useAIProvider();
+
+  const [name, setName] = useState(profile?.name || '');
+  const [baseURL, setBaseURL] = useState(profile?.baseURL || 'http://localhost:1234/v1');
+  const [model, setModel] = useState(profile?.model || '');
+  const [apiKey, setApiKey] = useState('');
+  const [headers, setHeaders] = useState<HeaderRow[]>(() =>
+    Object.entries(profile?.headers || {}).map(([headerName, value]) => ({ name: headerName, value }))
+  );
+  const [structuredOutput, setStructuredOutput] = useState(profile?.structuredOutput || false);
+  const [availableModels, setAvailableModels] = useState<string[]>([]);
+  const [isLoadingModels, setIsLoadingModels] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saveSuccess, setSaveSuccess] = useState(false);
+
+  const loadModels = useCallback(async () => {
+    if (!profile) return;
+
+    setIsLoadingModels(true);
+    setSaveError(null);
+    const result = await testConnection(`custom:${profile.id}`);
+    if (result.available && result.models) {
+      setAvailableModels(result.models);
+    } else {
+      setSaveError(result.error || 'Failed to load models');
+    }
+    setIsLoadingModels(false);
+  }, [profile, testConnection]);
+
+  const updateHeader = (index: number, field: keyof HeaderRow, value: string) => {
+    setHeaders((rows) => rows.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const handleSave = useCallback(async () => {
+    if (!name.trim() || !baseURL.trim() || !model.trim()) {
+      setSaveError('Name, base URL and model are required');
+      return;
+    }
+
+    setIsSaving(true);
+    setSaveError(null);
+    setSaveSuccess(false);
+
+    const profileId = await saveCustomProfile({
+      id: profile?.id,
+      name,
+      baseURL,
+      model,
+      // Empty keeps the stored key when there is one, otherwise no key is sent
+      apiKey: apiKey || (profile?.hasApiKey ? '__EXISTING_KEY__' : undefined),
+      headers: Object.fromEntries(
+        headers
+          .filter((row) => row.name.trim())
+          .map((row) => [row.name.trim(), row.value])
+      ),
+      structuredOutput,
+    });
+
+    setIsSaving(false);
+
+    if (profileId) {
+      setApiKey('');
+      setSaveSuccess(true);
+      setTimeout(() => setSaveSuccess(false), 3000);
+      onSaved(profileId);
+    } else {
+      setSaveError('Failed to save configuration');
+    }
+  }, [name, baseURL, model, apiKey, headers, structuredOutput, profile, saveCustomProfile, onSaved]);
+
+  const handleDelete = useCallback(async () => {
+    if (!profile) return;
+    if (!window.confirm(`Delete the "${profile.name}" endpoint?`)) return;
+
+    if (await deleteCustomProfile(profile.id)) {
+      onDeleted();
+    }
+  }, [profile, deleteCustomProfile, onDeleted]);
+
+  return (
+    <Card>
+      <CardBody className="space-y-4">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+            {profile ? profile.name : 'New Custom Endpoint'}
+          </h3>
+          {isActive && (
+            <span className="inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300">
+              Active
+            </span>
+          )}
+        </div>
+
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Any server implementing the OpenAI chat completions API, such as LM Studio, vLLM or llama.cpp.
+        </p>
+
+        {/* Name */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Name
+          </label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="LM Studio"
+            className={inputClassName}
+          />
+        </div>
+
+        {/* Base URL */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Base URL
+          </label>
+          <input
+            type="url"
+            value={baseURL}
+            onChange={(e) => setBaseURL(e.target.value)}
+            placeholder="http://localhost:1234/v1"
+            className={inputClassName}
+          />
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            Including the version path, e.g. /v1
+          </p>
+        </div>
+
+        {/* Model */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Model
+          </label>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
+              placeholder="qwen2.5-7b-instruct"
+              list="custom-provider-models"
+              className={inputClassName}
+            />
+            {profile && (
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={loadModels}
+                disabled={isLoadingModels}
+              >
+                {isLoadingModels ? 'Loading...' : 'Fetch Models'}
+              </Button>
+            )}
+          </div>
+          <datalist id="custom-provider-models">
+            {availableModels.map((m) => (
+              <option key={m} value={m} />
+            ))}
+          </datalist>
+          {availableModels.length > 0 && (
+            <p className="mt-1 text-xs text-green-600 dark:text-green-400">
+              ✓ {availableModels.length} models available
+            </p>
+          )}
+        </div>
+
+        {/* API Key */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            API Key (optional)
+          </label>
+          <input
+            type="password"
+            value={apiKey}
+            onChange={(e) => setApiKey(e.target.value)}
+            placeholder={profile?.hasApiKey ? '••••••••••••••••' : 'Leave empty if the server needs no key'}
+            className={inputClassName}
+          />
+          {profile?.hasApiKey && (
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Leave empty to keep the current key
+            </p>
+          )}
+        </div>
+
+        {/* Headers */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Extra Headers
+          </label>
+          <div className="space-y-2">
+            {headers.map((row, index) => (
+              <div key={index} className="flex gap-2">
+                <input
+                  type="text"
+                  value={row.name}
+                  onChange={(e) => updateHeader(index, 'name', e.target.value)}
+                  placeholder="Header"
+                  className={inputClassName}
+                />
+                <input
+                  type="text"
+                  value={row.value}
+                  onChange={(e) => updateHeader(index, 'value', e.target.value)}
+                  placeholder="Value"
+                  className={inputClassName}
+                />
+                <Button
+                  variant="flat"
+                  size="sm"
+                  onClick={() => setHeaders((rows) => rows.filter((_, i) => i !== index))}
+                >
+                  Remove
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => setHeaders((rows) => [...rows, { name: '', value: '' }])}
+            >
+              Add Header
+            </Button>
+          </div>
+        </div>
+
+        {/* Structured Output */}
+        <label className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={structuredOutput}
+            onChange={(e) => setStructuredOutput(e.target.checked)}
+            className="mt-0.5 accent-violet-600"
+          />
+          <span>
+            Supports JSON schema output
+            <span className="block text-xs text-gray-500 dark:text-gray-400">
+              Enable if the server honours response_format json_schema; responses are validated either way
+            </span>
+          </span>
+        </label>
+
+        {/* Error/Success Messages */}
+        {saveError && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+            <p className="text-red-600 dark:text-red-400 text-sm">{saveError}</p>
+          </div>
+        )}
+
+        {saveSuccess && (
+          <div className="p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg">
+            <p className="text-green-600 dark:text-green-400 text-sm">
+              Configuration saved successfully!
+            </p>
+          </div>
+        )}
+
+        {/* Save/Delete Buttons */}
+        <div className="pt-2 flex gap-2">
+          <Button
+            variant="primary"
+            onClick={handleSave}
+            disabled={isSaving}
+            className="w-full sm:w-auto"
+          >
+            {isSaving ? 'Saving...' : 'Save Configuration'}
+          </Button>
+          {profile && (
+            <Button variant="outline" onClick={handleDelete}>
+              Delete
+            </Button>
+          )}
+        </div>
+      </CardBody>
+    </Card>
+  );
+}
+
+export default CustomProviderConfig;
@@ -0,0 +1,190 @@
+/**
+ * Model Routing Component
+ * Maps each analysis kind to a provider and model, with fallbacks used when
+ * the primary provider fails its connection test
+ */
+
+import { useState, useCallback, useMemo } from 'react';
+import { Card, CardBody, Button } from '../ui';
+import {
+  useAIProvider,
+  type AIProviderType,
+  type AnalysisKind,
+  type AnalysisRouting,
+  type RouteTarget,
+} from '../../contexts/AIProviderContext';
+
+const ANALYSIS_KINDS: { kind: AnalysisKind; label: string; hint: string }[] = [
+  { kind: 'summary', label: 'Summary', hint: 'Short, frequent - a small model is usually enough' },
+  { kind: 'consistency', label: 'Consistency', hint: 'Compares several documents' },
+  { kind: 'gaps', label: 'Gap Analysis', hint: 'Reviews a single document in depth' },
+  { kind: 'architecture', label: 'Architecture', hint: 'Reads every document of a feature' },
+  { kind: 'conflicts', label: 'Requirement Conflicts', hint: 'Project-wide; a large context window means fewer calls' },
+  { kind: 'integrity', label: 'Model & Status Integrity', hint: 'Project-wide; compares entities across features' },
+  { kind: 'tasks', label: 'Tasks Draft', hint: 'Writes tasks.md from spec and plan; benefits from a strong model' },
+  { kind: 'chat', label: 'Chat', hint: 'Answers questions from retrieved documents; a fast model keeps replies snappy' },
+];
+
+const inputClassName = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-400 focus:ring-2 focus:ring-violet-500 focus:border-transparent';
+
+export function ModelRouting() {
+  const { config, setRouting } = useAIProvider();
+
+  const [routing, setLocalRouting] = useState<AnalysisRouting>(() => config?.routing || {});
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saveSuccess, setSaveSuccess] = useState(false);
+
+  // Providers that can be routed to, with the model they use by default
+  const providers = useMemo(() => {
+    const list: { id: AIProviderType; label: string; model: string }[] = [];
+    if (config?.openai) list.push({ id: 'openai', label: 'OpenAI', model: config.openai.model });
+    if (config?.ollama) list.push({ id: 'ollama', label: 'Ollama (Local)', model: config.ollama.model });
+    if (config?.openrouter) list.push({ id: 'openrouter', label: 'OpenRouter', model: config.openrouter.model });
+    for (const profile of config?.customProfiles || []) {
+      list.push({ id: `custom:${profile.id}`, label: profile.name, model: profile.model });
+    }
+    return list;
+  }, [config]);
+
+  const updateTargets = (kind: AnalysisKind, update: (targets: RouteTarget[]) => RouteTarget[]) => {
+    setLocalRouting((current) => ({ ...current, [kind]: update(current[kind] || []) }));
+  };
+
+  const handleSave = useCallback(async () => {
+    setIsSaving(true);
+    setSaveError(null);
+    setSaveSuccess(false);
+
+    const success = await setRouting(routing);
+
+    setIsSaving(false);
+
+    if (success) {
+      setSaveSuccess(true);
+      setTimeout(() => setSaveSuccess(false), 3000);
+    } else {
+      setSaveError('Failed to save routing');
+    }
+  }, [routing, setRouting]);
+
+  return (
+    <Card>
+      <CardBody className="space-y-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+            Model Routing
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Choose a provider and model per analysis. Fallbacks are tried in order when a provider is unreachable;
+            analyses without a route use the active provider.
+          </p>
+        </div>
+
+        {providers.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Configure a provider above to set up routing.
+          </p>
+        ) : (
+          ANALYSIS_KINDS.map(({ kind, label, hint }) => {
+            const targets = routing[kind] || [];
+
+            return (
+              <div key={kind} className="pt-4 border-t border-gray-200 dark:border-gray-700 first:border-t-0 first:pt-0">
+                <div className="flex items-baseline justify-between mb-2">
+                  <div>
+                    <span className="font-medium text-gray-900 dark:text-white">{label}</span>
+                    <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{hint}</span>
+                  </div>
+                  {targets.length === 0 && (
+                    <span className="text-xs text-gray-500 dark:text-gray-400">Active provider</span>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  {targets.map((target, index) => {
+                    const provider = providers.find((p) => p.id === target.provider);
+
+                    return (
+                      <div key={index} className="flex items-center gap-2">
+                        <span className="w-20 text-xs text-gray-500 dark:text-gray-400">
+                          {index === 0 ? 'Primary' : `Fallback ${index}`}
+                        </span>
+                        <select
+                          value={target.provider}
+                          onChange={(e) => updateTargets(kind, (list) =>
+                            list.map((t, i) => (i === index ? { provider: e.target.value as AIProviderType } : t))
+                          )}
+                          className={`${inputClassName} flex-1`}
+                        >
+                          {!provider && <option value={target.provider}>Unknown provider</option>}
+                          {providers.map((p) => (
+                            <option key={p.id} value={p.id}>{p.label}</option>
+                          ))}
+                        </select>
+                        <input
+                          type="text"
+                          value={target.model || ''}
+                          onChange={(e) => updateTargets(kind, (list) =>
+                            list.map((t, i) => (i === index ? { ...t, model: e.target.value } : t))
+                          )}
+                          placeholder={provider?.model || 'Model'}
+                          className={`${inputClassName} flex-1`}
+                        />
+                        <Button
+                          variant="flat"
+                          size="sm"
+                          onClick={() => updateTargets(kind, (list) => list.filter((_, i) => i !== index))}
+                        >
+                          Remove
+                        </Button>
+                      </div>
+                    );
+                  })}
+
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => updateTargets(kind, (list) => [...list, { provider: providers[0].id }])}
+                  >
+                    {targets.length === 0 ? 'Add Route' : 'Add Fallback'}
+                  </Button>
+                </div>
+              </div>
+            );
+          })
+        )}
+
+        {/* Error/Success Messages */}
+        {saveError && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+            <p className="text-red-600 dark:text-red-400 text-sm">{saveError}</p>
+          </div>
+        )}
+
+        {saveSuccess && (
+          <div className="p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg">
+            <p className="text-green-600 dark:text-green-400 text-sm">
+              Routing saved successfully!
+            </p>
+          </div>
+        )}
+
+        {providers.length > 0 && (
+          <div className="pt-2">
+            <Button
+              variant="primary"
+              onClick={handleSave}
+              disabled={isSaving}
+              className="w-full sm:w-auto"
+            >
+              {isSaving ? 'Saving...' : 'Save Routing'}
+            </Button>
+          </div>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
+
+export default ModelRouting;
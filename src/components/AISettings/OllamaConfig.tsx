@@ -10,6 +10,7 @@ import { useAIProvider } from '../../contexts/AIProviderContext';
 interface SafeOllamaConfig {
   baseURL: string;
   model: string;
+  embeddingModel: string;
   isRunning: boolean;
 }
 
@@ -31,6 +32,7 @@ export function OllamaConfig({ isActive, config }: OllamaConfigProps) {
 
   const [baseURL, setBaseURL] = useState(config?.baseURL || 'http://localhost:11434');
   const [model, setModel] = useState(config?.model || 'llama3.2');
+  const [embeddingModel, setEmbeddingModel] = useState(config?.embeddingModel || 'nomic-embed-text');
   const [availableModels, setAvailableModels] = useState<string[]>([]);
   const [isRunning, setIsRunning] = useState(config?.isRunning || false);
   const [isSaving, setIsSaving] = useState(false);
@@ -58,7 +60,7 @@ export function OllamaConfig({ isActive, config }: OllamaConfigProps) {
     setSaveError(null);
     setSaveSuccess(false);
 
-    const success = await configureOllama(baseURL, model);
+    const success = await configureOllama(baseURL, model, embeddingModel);
 
     setIsSaving(false);
 
@@ -68,7 +70,7 @@ export function OllamaConfig({ isActive, config }: OllamaConfigProps) {
     } else {
       setSaveError('Failed to save configuration');
     }
-  }, [baseURL, model, configureOllama]);
+  }, [baseURL, model, embeddingModel, configureOllama]);
 
   return (
     <Card>
@@ -179,6 +181,29 @@ export function OllamaConfig({ isActive, config }: OllamaConfigProps) {
           )}
         </div>
 
+        {/* Embedding Model */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Embedding Model
+          </label>
+          <input
+            type="text"
+            value={embeddingModel}
+            onChange={(e) => setEmbeddingModel(e.target.value)}
+            placeholder="nomic-embed-text"
+            list="ollama-embedding-models"
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-400 focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+          />
+          <datalist id="ollama-embedding-models">
+            {availableModels.map((m) => (
+              <option key={m} value={m} />
+            ))}
+          </datalist>
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            Used to find relevant documents for chat. Pull it first, e.g. ollama pull nomic-embed-text
+          </p>
+        </div>
+
         {/* Refresh Button */}
         <Button
           variant="secondary"
@@ -0,0 +1,300 @@
+/**
+ * Prompt Library Component
+ * Edits the active project's prompt overrides, compares them with the
+ * defaults and test-runs a template on a feature before saving it
+ */
+
+import { useState, useEffect } from 'react';
+import { Card, CardBody, Button, Chip } from '../ui';
+import LineDiff from '../LineDiff';
+import { useProject } from '../../contexts/ProjectContext';
+import type { Feature, PromptId, PromptInfo, PromptTestResult } from '../../types';
+
+const inputClassName = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-400 focus:ring-2 focus:ring-violet-500 focus:border-transparent';
+
+export function PromptLibrary() {
+  const { activeProject } = useProject();
+
+  const [prompts, setPrompts] = useState<PromptInfo[]>([]);
+  const [features, setFeatures] = useState<Feature[]>([]);
+  const [selectedId, setSelectedId] = useState<PromptId>('summary');
+  const [draft, setDraft] = useState('');
+  const [showDiff, setShowDiff] = useState(false);
+  const [testFeatureId, setTestFeatureId] = useState<number | null>(null);
+  const [testResult, setTestResult] = useState<PromptTestResult | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const selected = prompts.find((p) => p.id === selectedId);
+
+  // Show a prompt list, loading the effective template of a prompt into the editor
+  const showPrompts = (list: PromptInfo[], id: PromptId) => {
+    const prompt = list.find((p) => p.id === id);
+    setPrompts(list);
+    setDraft(prompt ? prompt.override ?? prompt.defaultTemplate : '');
+  };
+
+  useEffect(() => {
+    if (!activeProject) return;
+
+    window.electronAPI.listPrompts(activeProject.id).then((response) => {
+      if (response.success && response.data) {
+        const prompt = response.data.prompts.find((p) => p.id === 'summary');
+        setPrompts(response.data.prompts);
+        setSelectedId('summary');
+        setDraft(prompt ? prompt.override ?? prompt.defaultTemplate : '');
+      } else if (!response.success) {
+        setError(response.error);
+      }
+    });
+
+    window.electronAPI.listFeatures(activeProject.id).then((response) => {
+      if (response.success && response.data) {
+        setFeatures(response.data.features);
+        setTestFeatureId(response.data.features[0]?.id ?? null);
+      }
+    });
+  }, [activeProject]);
+
+  const handleSelect = (id: PromptId) => {
+    setSelectedId(id);
+    showPrompts(prompts, id);
+    setTestResult(null);
+    setError(null);
+    setMessage(null);
+  };
+
+  const applyResponse = (
+    response: Awaited<ReturnType<typeof window.electronAPI.savePrompt>>,
+    success: string
+  ) => {
+    if (response.success && response.data) {
+      showPrompts(response.data.prompts, selectedId);
+      setMessage(success);
+    } else if (!response.success) {
+      setError(response.error);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!activeProject) return;
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+    const response = await window.electronAPI.savePrompt(activeProject.id, selectedId, draft);
+    setIsSaving(false);
+    applyResponse(response, 'Prompt saved to .specify/prompts/');
+  };
+
+  const handleReset = async () => {
+    if (!activeProject) return;
+    setError(null);
+    setMessage(null);
+    const response = await window.electronAPI.resetPrompt(activeProject.id, selectedId);
+    applyResponse(response, 'Prompt reset to default');
+  };
+
+  const handleTest = async () => {
+    if (!testFeatureId) return;
+    setIsTesting(true);
+    setError(null);
+    setTestResult(null);
+    const response = await window.electronAPI.testPrompt(testFeatureId, selectedId, draft);
+    setIsTesting(false);
+    if (response.success && response.data) {
+      setTestResult(response.data);
+    } else if (!response.success) {
+      setError(response.error);
+    }
+  };
+
+  if (!activeProject) {
+    return (
+      <Card>
+        <CardBody className="py-8 text-center">
+          <p className="text-gray-500 dark:text-gray-400">
+            Select a project to customize its prompts.
+          </p>
+        </CardBody>
+      </Card>
+    );
+  }
+
+  if (!selected) {
+    return (
+      <Card>
+        <CardBody className="py-8 text-center">
+          {error
+            ? <p className="text-red-500 text-sm">{error}</p>
+            : <p className="text-gray-500 dark:text-gray-400">Loading prompts...</p>}
+        </CardBody>
+      </Card>
+    );
+  }
+
+  const effective = selected.override ?? selected.defaultTemplate;
+
+  return (
+    <Card>
+      <CardBody className="space-y-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+            Prompt Templates
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Overrides are stored in <code>.specify/prompts/</code> of {activeProject.name} and can be
+            committed with the project. Changing a prompt invalidates its cached analyses.
+          </p>
+        </div>
+
+        {/* Prompt selection */}
+        <div className="flex flex-wrap gap-2">
+          {prompts.map((prompt) => (
+            <button
+              key={prompt.id}
+              onClick={() => handleSelect(prompt.id)}
+              className={`px-3 py-1.5 text-sm rounded-lg border transition-colors ${prompt.id === selectedId
+                ? 'border-violet-500 bg-violet-50 dark:bg-violet-900/20 text-violet-700 dark:text-violet-300'
+                : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:border-violet-400'
+                }`}
+            >
+              {prompt.label}
+              {prompt.override !== null && (
+                <span className="ml-1 text-xs text-violet-500" title="Customized for this project">●</span>
+              )}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+          <span>{selected.description}</span>
+          <span>·</span>
+          <span>
+            {selected.override !== null ? 'Project override' : 'Default'} version{' '}
+            <code>{selected.overrideVersion ?? selected.defaultVersion}</code>
+          </span>
+          <span>·</span>
+          <span>Variables:</span>
+          {selected.variables.map((name) => (
+            <Chip
+              key={name}
+              size="sm"
+              variant="flat"
+              color={draft.includes(`{${name}}`) ? 'success' : 'danger'}
+            >
+              {`{${name}}`}
+            </Chip>
+          ))}
+        </div>
+
+        {selected.errors.length > 0 && (
+          <div className="p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg">
+            <p className="text-amber-700 dark:text-amber-300 text-sm">
+              The saved override is invalid and the default is used instead: {selected.errors.join('; ')}
+            </p>
+          </div>
+        )}
+
+        {/* Editor or diff */}
+        {showDiff ? (
+          <LineDiff before={selected.defaultTemplate} after={draft} className="max-h-96 py-2" />
+        ) : (
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            spellCheck={false}
+            rows={18}
+            className={`${inputClassName} w-full font-mono text-xs`}
+          />
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            variant="primary"
+            size="sm"
+            onClick={handleSave}
+            disabled={isSaving || draft === effective}
+          >
+            {isSaving ? 'Saving...' : 'Save Override'}
+          </Button>
+          <Button variant="secondary" size="sm" onClick={() => setShowDiff((value) => !value)}>
+            {showDiff ? 'Edit' : 'Diff Against Default'}
+          </Button>
+          {draft !== effective && (
+            <Button variant="flat" size="sm" onClick={() => setDraft(effective)}>
+              Discard Changes
+            </Button>
+          )}
+          {selected.override !== null && (
+            <Button variant="flat" size="sm" onClick={handleReset}>
+              Reset to Default
+            </Button>
+          )}
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+            <p className="text-red-600 dark:text-red-400 text-sm">{error}</p>
+          </div>
+        )}
+        {message && (
+          <p className="text-sm text-green-600 dark:text-green-400">{message}</p>
+        )}
+
+        {/* Test run */}
+        <div className="pt-4 border-t border-gray-200 dark:border-gray-700 space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-medium text-gray-900 dark:text-white">Test run on</span>
+            <select
+              value={testFeatureId ?? ''}
+              onChange={(e) => setTestFeatureId(parseInt(e.target.value, 10))}
+              className={`${inputClassName} text-sm flex-1 min-w-[12rem]`}
+            >
+              {features.map((feature) => (
+                <option key={feature.id} value={feature.id}>
+                  {feature.featureNumber} {feature.title || feature.featureName}
+                </option>
+              ))}
+            </select>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={handleTest}
+              disabled={isTesting || !testFeatureId}
+            >
+              {isTesting ? 'Running...' : 'Run Prompt'}
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Runs the template in the editor without saving it or the result.
+          </p>
+
+          {testResult && (
+            <div className="space-y-2">
+              <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                <Chip size="sm" variant="flat" color={testResult.output ? 'success' : 'danger'}>
+                  {testResult.output ? 'Valid output' : 'Invalid output'}
+                </Chip>
+                <span>🤖 {testResult.model}</span>
+                <span>⏱️ {(testResult.duration / 1000).toFixed(1)}s</span>
+                {testResult.tokenCount && <span>🔢 {testResult.tokenCount.toLocaleString()} tokens</span>}
+              </div>
+              {testResult.errors.length > 0 && (
+                <ul className="text-xs text-amber-600 dark:text-amber-400 list-disc pl-5">
+                  {testResult.errors.map((err, index) => <li key={index}>{err}</li>)}
+                </ul>
+              )}
+              <pre className="max-h-80 overflow-auto p-3 text-xs font-mono rounded-lg bg-gray-50 dark:bg-gray-900 text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+                {testResult.output ? JSON.stringify(testResult.output, null, 2) : testResult.rawResponse}
+              </pre>
+            </div>
+          )}
+        </div>
+      </CardBody>
+    </Card>
+  );
+}
+
+export default PromptLibrary;
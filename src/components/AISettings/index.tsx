@@ -10,9 +10,15 @@ import { useSettings } from '../../contexts/SettingsContext';
 import OpenAIConfig from './OpenAIConfig';
 import OllamaConfig from './OllamaConfig';
 import OpenRouterConfig from './OpenRouterConfig';
+import CustomProviderConfig from './CustomProviderConfig';
 import ConnectionTest from './ConnectionTest';
+import ModelRouting from './ModelRouting';
+import PromptLibrary from './PromptLibrary';
 
-type SettingsTab = 'providers' | 'general';
+type SettingsTab = 'providers' | 'prompts' | 'general';
+
+// Select value for the form creating a new custom endpoint
+const NEW_CUSTOM_PROFILE: AIProviderType = 'custom:new';
 
 export function AISettings() {
   const { config, activeProvider, isLoading, error, switchProvider } = useAIProvider();
@@ -33,7 +39,15 @@ export function AISettings() {
     }
   };
 
+  const customProfiles = config?.customProfiles || [];
+  const selectedCustomProfile = customProfiles.find((p) => `custom:${p.id}` === selectedProvider);
+  const isCustomSelected = selectedProvider === NEW_CUSTOM_PROFILE || !!selectedCustomProfile;
+
   const getProviderLabel = (provider: AIProviderType): string => {
+    if (provider.startsWith('custom:')) {
+      return customProfiles.find((p) => `custom:${p.id}` === provider)?.name || 'Custom endpoint';
+    }
+
     switch (provider) {
       case 'openai':
         return 'OpenAI';
@@ -83,6 +97,15 @@ export function AISettings() {
           >
             AI Providers
           </button>
+          <button
+            onClick={() => setActiveTab('prompts')}
+            className={`py-3 px-1 text-sm font-medium border-b-2 transition-colors ${activeTab === 'prompts'
+              ? 'border-violet-500 text-violet-600 dark:text-violet-400'
+              : 'border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300'
+              }`}
+          >
+            Prompts
+          </button>
           {/* <button
             onClick={() => setActiveTab('general')}
             className={`py-3 px-1 text-sm font-medium border-b-2 transition-colors ${activeTab === 'general'
@@ -104,7 +127,9 @@ export function AISettings() {
 
       {/* Tab Content */}
       <div className="pt-2">
-        {activeTab === 'general' ? (
+        {activeTab === 'prompts' ? (
+          <PromptLibrary />
+        ) : activeTab === 'general' ? (
           <div className="space-y-6">
             <Card>
               <CardBody>
@@ -165,6 +190,14 @@ export function AISettings() {
                         <option value="openai">OpenAI</option>
                         <option value="ollama">Ollama (Local)</option>
                         <option value="openrouter">OpenRouter</option>
+                        <optgroup label="Custom endpoints">
+                          {customProfiles.map((profile) => (
+                            <option key={profile.id} value={`custom:${profile.id}`}>
+                              {profile.name}
+                            </option>
+                          ))}
+                          <option value={NEW_CUSTOM_PROFILE}>+ New custom endpoint</option>
+                        </optgroup>
                       </select>
                     </div>
 
@@ -179,7 +212,7 @@ export function AISettings() {
                   </div>
 
                   {/* Switch Provider Button */}
-                  {selectedProvider !== activeProvider && (
+                  {selectedProvider !== activeProvider && selectedProvider !== NEW_CUSTOM_PROFILE && (
                     <div className="pt-2">
                       <Button
                         variant="primary"
@@ -219,9 +252,26 @@ export function AISettings() {
               />
             )}
 
+            {isCustomSelected && (
+              <CustomProviderConfig
+                key={selectedCustomProfile?.id || 'new'}
+                isActive={activeProvider === selectedProvider}
+                profile={selectedCustomProfile}
+                onSaved={(profileId) => setSelectedProvider(`custom:${profileId}`)}
+                onDeleted={() => setSelectedProvider(activeProvider || 'openai')}
+              />
+            )}
+
             {/* Connection Test */}
+            {selectedProvider !== NEW_CUSTOM_PROFILE && (
+              <div className="mt-6">
+                <ConnectionTest provider={selectedProvider} />
+              </div>
+            )}
+
+            {/* Per-analysis Routing */}
             <div className="mt-6">
-              <ConnectionTest provider={selectedProvider} />
+              <ModelRouting key={JSON.stringify(config?.routing || {})} />
             </div>
           </>
         )}
@@ -0,0 +1,319 @@
+/**
+ * Speckit Dashboard - Chat Panel Component
+ * Questions about a feature, or a whole project, answered from its documents
+ * with citations that open the cited file at the cited line
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { Card, CardBody, Button, Chip } from './ui';
+import MarkdownContentModal, { toMarkdownFileType } from './MarkdownContentModal';
+import { useAIAnalysis } from '../hooks/useAIAnalysis';
+import type { ChatCitation, ChatConversation, ChatMessage } from '../types';
+
+interface ChatPanelProps {
+  projectId: number;
+  /** null asks about every feature of the project */
+  featureId: number | null;
+}
+
+const CITATION_ICONS: Record<ChatCitation['kind'], string> = {
+  section: '📄',
+  requirement: '📋',
+  task: '✅',
+  decision: '🧭',
+};
+
+function CitationChips({
+  citations,
+  showFeature,
+  onOpen,
+}: {
+  citations: ChatCitation[];
+  showFeature: boolean;
+  onOpen: (citation: ChatCitation) => void;
+}) {
+  if (citations.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2 mt-2">
+      {citations.map((citation) => {
+        const label = `[${citation.index}] ${showFeature ? `${citation.featureNumber} / ` : ''}${citation.filePath} L${citation.line}`;
+        const canOpen = toMarkdownFileType(citation.filePath) !== null;
+        return (
+          <button
+            key={citation.index}
+            type="button"
+            onClick={() => onOpen(citation)}
+            disabled={!canOpen}
+            title={citation.heading}
+            className="inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded border border-violet-200 dark:border-violet-800 bg-violet-50 dark:bg-violet-900/20 text-violet-700 dark:text-violet-300 enabled:hover:bg-violet-100 dark:enabled:hover:bg-violet-900/40 disabled:opacity-60 disabled:cursor-default"
+          >
+            <span>{CITATION_ICONS[citation.kind]}</span>
+            {label}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+export function ChatPanel({ projectId, featureId }: ChatPanelProps) {
+  const { askQuestion, cancel, isLoading, partialText, error, clearError } = useAIAnalysis();
+  const [conversations, setConversations] = useState<ChatConversation[]>([]);
+  const [activeId, setActiveId] = useState<number | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [question, setQuestion] = useState('');
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+  const [semanticSearch, setSemanticSearch] = useState<boolean | null>(null);
+  const [opened, setOpened] = useState<ChatCitation | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const loadConversations = useCallback(async (): Promise<ChatConversation[]> => {
+    try {
+      const response = await window.electronAPI.listChatConversations(projectId, featureId);
+      if (response.success && response.data) {
+        setConversations(response.data.conversations);
+        return response.data.conversations;
+      }
+    } catch {
+      // No conversations to show
+    }
+    return [];
+  }, [projectId, featureId]);
+
+  const loadMessages = useCallback(async (conversationId: number) => {
+    try {
+      const response = await window.electronAPI.getChatMessages(conversationId);
+      if (response.success && response.data) {
+        setMessages(response.data.messages);
+      }
+    } catch {
+      setMessages([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    setActiveId(null);
+    setMessages([]);
+    loadConversations().then((list) => setActiveId(list[0]?.id ?? null));
+  }, [loadConversations]);
+
+  useEffect(() => {
+    if (activeId === null) {
+      setMessages([]);
+    } else {
+      loadMessages(activeId);
+    }
+  }, [activeId, loadMessages]);
+
+  // Keep the latest message in view
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages, partialText, pendingQuestion]);
+
+  const handleNew = () => {
+    setActiveId(null);
+    setSemanticSearch(null);
+    clearError();
+  };
+
+  const handleDelete = async (conversationId: number) => {
+    try {
+      await window.electronAPI.deleteChatConversation(conversationId);
+    } finally {
+      const list = await loadConversations();
+      if (activeId === conversationId) {
+        setActiveId(list[0]?.id ?? null);
+      }
+    }
+  };
+
+  const handleSend = async () => {
+    const text = question.trim();
+    if (!text || isLoading) return;
+
+    let conversationId = activeId;
+    if (conversationId === null) {
+      const response = await window.electronAPI.createChatConversation(projectId, featureId);
+      if (!response.success || !response.data) return;
+      conversationId = response.data.id;
+      setActiveId(conversationId);
+    }
+
+    setQuestion('');
+    setPendingQuestion(text);
+    const reply = await askQuestion(conversationId, text);
+    setPendingQuestion(null);
+    if (reply) {
+      setSemanticSearch(reply.semanticSearch);
+    }
+
+    // The question is kept even when answering fails
+    await loadMessages(conversationId);
+    await loadConversations();
+  };
+
+  const openedFileType = opened ? toMarkdownFileType(opened.filePath) : null;
+
+  return (
+    <Card>
+      <CardBody className="p-0">
+        <div className="flex min-h-[28rem] max-h-[70vh]">
+          {/* Conversations */}
+          <div className="w-56 shrink-0 border-r border-gray-200 dark:border-gray-700 flex flex-col">
+            <div className="p-3">
+              <Button size="sm" variant="secondary" onPress={handleNew} className="w-full">
+                New chat
+              </Button>
+            </div>
+            <div className="flex-1 overflow-y-auto px-2 pb-2 space-y-1">
+              {conversations.map((conversation) => (
+                <div
+                  key={conversation.id}
+                  className={`group flex items-center gap-1 rounded-lg px-2 py-1.5 text-sm cursor-pointer ${conversation.id === activeId
+                    ? 'bg-violet-100 dark:bg-violet-900/30 text-violet-700 dark:text-violet-300'
+                    : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800'
+                    }`}
+                  onClick={() => setActiveId(conversation.id)}
+                >
+                  <span className="flex-1 truncate" title={conversation.title}>{conversation.title}</span>
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDelete(conversation.id);
+                    }}
+                    className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-500"
+                    title="Delete conversation"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Messages */}
+          <div className="flex-1 flex flex-col min-w-0">
+            <div className="flex-1 overflow-y-auto p-4 space-y-4">
+              {messages.length === 0 && !pendingQuestion && (
+                <div className="text-center py-12 text-sm text-gray-500 dark:text-gray-400">
+                  <p className="text-3xl mb-2">💬</p>
+                  <p>
+                    Ask about {featureId === null ? 'any feature of this project' : 'this feature'}:
+                    requirements, tasks, decisions or the data model.
+                  </p>
+                  <p className="mt-1">Answers cite the documents they come from.</p>
+                </div>
+              )}
+
+              {messages.map((message) => (
+                message.role === 'user' ? (
+                  <div key={message.id} className="flex justify-end">
+                    <div className="max-w-[80%] rounded-lg px-4 py-2 bg-violet-600 text-white text-sm whitespace-pre-wrap">
+                      {message.content}
+                    </div>
+                  </div>
+                ) : (
+                  <div key={message.id} className="max-w-[90%]">
+                    <div className="rounded-lg px-4 py-3 bg-gray-50 dark:bg-gray-800/60 border border-gray-200 dark:border-gray-700">
+                      <div className="prose prose-sm prose-violet dark:prose-invert max-w-none">
+                        <ReactMarkdown remarkPlugins={[remarkGfm]}>{message.content}</ReactMarkdown>
+                      </div>
+                      <CitationChips
+                        citations={message.citations}
+                        showFeature={featureId === null}
+                        onOpen={setOpened}
+                      />
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-gray-400 dark:text-gray-500">
+                      {message.model && <span>🤖 {message.model}</span>}
+                      {message.tokenCount && <span>🔢 {message.tokenCount.toLocaleString()} tokens</span>}
+                    </div>
+                  </div>
+                )
+              ))}
+
+              {pendingQuestion && (
+                <>
+                  <div className="flex justify-end">
+                    <div className="max-w-[80%] rounded-lg px-4 py-2 bg-violet-600 text-white text-sm whitespace-pre-wrap">
+                      {pendingQuestion}
+                    </div>
+                  </div>
+                  <div className="max-w-[90%] rounded-lg px-4 py-3 bg-gray-50 dark:bg-gray-800/60 border border-gray-200 dark:border-gray-700">
+                    {partialText ? (
+                      <div className="prose prose-sm prose-violet dark:prose-invert max-w-none">
+                        <ReactMarkdown remarkPlugins={[remarkGfm]}>{partialText}</ReactMarkdown>
+                      </div>
+                    ) : (
+                      <p className="text-sm text-gray-500 dark:text-gray-400">Searching documents...</p>
+                    )}
+                  </div>
+                </>
+              )}
+              <div ref={bottomRef} />
+            </div>
+
+            {error && (
+              <div className="mx-4 mb-2 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg flex items-center justify-between gap-4">
+                <p className="text-red-600 dark:text-red-400 text-sm">{error}</p>
+                <Button size="sm" variant="flat" onPress={clearError}>
+                  Dismiss
+                </Button>
+              </div>
+            )}
+
+            {/* Input */}
+            <div className="border-t border-gray-200 dark:border-gray-700 p-3 space-y-2">
+              <div className="flex items-end gap-2">
+                <textarea
+                  value={question}
+                  onChange={(e) => setQuestion(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                      e.preventDefault();
+                      handleSend();
+                    }
+                  }}
+                  rows={2}
+                  placeholder="Ask a question... (Enter to send, Shift+Enter for a new line)"
+                  className="flex-1 resize-none px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-400 focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+                />
+                {isLoading ? (
+                  <Button size="sm" variant="outline" onPress={cancel}>
+                    Cancel
+                  </Button>
+                ) : (
+                  <Button size="sm" variant="primary" onPress={handleSend} disabled={!question.trim()}>
+                    Send
+                  </Button>
+                )}
+              </div>
+              {semanticSearch === false && (
+                <Chip size="sm" variant="flat" color="warning">
+                  Keyword search only: no embedding model was available
+                </Chip>
+              )}
+            </div>
+          </div>
+        </div>
+      </CardBody>
+
+      {opened && openedFileType && (
+        <MarkdownContentModal
+          isOpen={true}
+          onClose={() => setOpened(null)}
+          featureId={opened.featureId}
+          fileType={openedFileType}
+          fileName={`${opened.featureNumber} / ${opened.filePath}`}
+          line={opened.line}
+        />
+      )}
+    </Card>
+  );
+}
+
+export default ChatPanel;
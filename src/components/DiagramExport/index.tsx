@@ -0,0 +1,147 @@
+/**
+ * Diagram Export Menu Component
+ * ReactFlow panel that saves the diagram as it is currently laid out to SVG
+ * or PNG, and its Mermaid text to a file or the clipboard
+ */
+
+import { useState } from 'react';
+import { Panel, useReactFlow, type Node, type PanelPosition } from 'reactflow';
+import { Button } from '../ui';
+import { useTheme } from '../../contexts/ThemeContext';
+import {
+  DIAGRAM_THEMES,
+  renderDiagramSvg,
+  svgToPngBase64,
+  type DiagramBox,
+} from './svg';
+
+export type { DiagramBox } from './svg';
+export { architectureToMermaid, entitiesToMermaid } from './mermaid';
+
+interface DiagramExportMenuProps {
+  featureId: number;
+  /** File name without extension, e.g. "schema" */
+  fileBaseName: string;
+  /** Box to draw for a laid-out node, with its rendered size */
+  toBox: (node: Node, size: { width: number; height: number }, theme: 'light' | 'dark') => DiagramBox;
+  edgeColor: string;
+  /** Mermaid text for the diagram */
+  toMermaid: () => string;
+  position?: PanelPosition;
+}
+
+type ExportFormat = 'svg' | 'png' | 'mermaid' | 'copy';
+
+export function DiagramExportMenu({
+  featureId,
+  fileBaseName,
+  toBox,
+  edgeColor,
+  toMermaid,
+  position = 'top-center',
+}: DiagramExportMenuProps) {
+  const { getNodes, getEdges } = useReactFlow();
+  const { resolvedTheme } = useTheme();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const renderSvg = () => {
+    const boxes = getNodes().filter((node) => !node.hidden).map((node) =>
+      toBox(
+        node,
+        { width: node.width ?? 240, height: node.height ?? 160 },
+        resolvedTheme,
+      )
+    );
+    const links = getEdges().map((edge) => ({
+      source: edge.source,
+      target: edge.target,
+      label: typeof edge.label === 'string' ? edge.label : undefined,
+    }));
+    return renderDiagramSvg(boxes, links, { ...DIAGRAM_THEMES[resolvedTheme], edge: edgeColor });
+  };
+
+  const save = async (fileName: string, content: string, encoding: 'utf-8' | 'base64') => {
+    const response = await window.electronAPI.saveDiagram(featureId, fileName, content, encoding);
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+    return response.data?.filePath ?? null;
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsOpen(false);
+    setIsExporting(true);
+    setMessage(null);
+    try {
+      let filePath: string | null = null;
+      if (format === 'svg') {
+        filePath = await save(`${fileBaseName}.svg`, renderSvg().svg, 'utf-8');
+      } else if (format === 'png') {
+        const { svg, width, height } = renderSvg();
+        filePath = await save(`${fileBaseName}.png`, await svgToPngBase64(svg, width, height), 'base64');
+      } else if (format === 'mermaid') {
+        filePath = await save(`${fileBaseName}.mmd`, toMermaid(), 'utf-8');
+      } else {
+        // Fenced so it renders when pasted into a PR or wiki page
+        await navigator.clipboard.writeText(`\`\`\`mermaid\n${toMermaid()}\`\`\`\n`);
+        setMessage({ text: 'Mermaid copied to clipboard', isError: false });
+      }
+      if (filePath) {
+        setMessage({ text: `Saved to ${filePath}`, isError: false });
+      }
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Export failed', isError: true });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Panel position={position} className="!m-4">
+      <div className="relative flex flex-col items-center gap-1">
+        <Button
+          size="sm"
+          variant="flat"
+          onPress={() => setIsOpen((open) => !open)}
+          isLoading={isExporting}
+          className="shadow-md"
+        >
+          Export
+        </Button>
+        {isOpen && (
+          <div className="absolute top-full mt-1 w-48 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 py-1 z-10">
+            {([
+              ['svg', 'Save as SVG…'],
+              ['png', 'Save as PNG…'],
+              ['mermaid', 'Save as Mermaid…'],
+              ['copy', 'Copy Mermaid'],
+            ] as Array<[ExportFormat, string]>).map(([format, label]) => (
+              <button
+                key={format}
+                type="button"
+                onClick={() => handleExport(format)}
+                className="w-full text-left px-3 py-1.5 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+        {message && !isOpen && (
+          <p
+            className={`max-w-xs truncate text-xs px-2 py-1 rounded bg-white dark:bg-gray-800 shadow ${
+              message.isError ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'
+            }`}
+            title={message.text}
+          >
+            {message.text}
+          </p>
+        )}
+      </div>
+    </Panel>
+  );
+}
+
+export default DiagramExportMenu;
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import type { ArchitectureResult } from "../../types";
+import {
+  architectureToMermaid,
+  entitiesToMermaid,
+  type MermaidEntity,
+  reverseCardinality,
+} from "./mermaid";
+
+const entity = (
+  entityName: string,
+  fields: Partial<MermaidEntity> = {},
+): MermaidEntity => ({ entityName, attributes: [], relationships: [], ...fields });
+
+describe("reverseCardinality", () => {
+  it("mirrors the ends and flips the crow's feet", () => {
+    expect(reverseCardinality("||--o{")).toBe("}o--||");
+    expect(reverseCardinality("}o--||")).toBe("||--o{");
+    expect(reverseCardinality("||--||")).toBe("||--||");
+    expect(reverseCardinality("}o--o{")).toBe("}o--o{");
+  });
+});
+
+describe("entitiesToMermaid", () => {
+  it("writes a relationship declared from both sides once", () => {
+    const diagram = entitiesToMermaid([
+      entity("User", {
+        relationships: [{ target: "Orders", type: "one-to-many", description: "places" }],
+      }),
+      entity("Order", {
+        relationships: [{ target: "User", type: "N:1", description: "placed by" }],
+      }),
+    ]);
+
+    expect(diagram.split("\n").filter((line) => line.includes("--"))).toEqual([
+      '    Order }o--|| User : "places"',
+    ]);
+  });
+
+  it("escapes names into unique identifiers", () => {
+    const diagram = entitiesToMermaid([
+      entity("Order Item", {
+        attributes: [{ name: "unit price", type: "decimal(10,2)", constraints: "unique" }],
+      }),
+      entity("1st-Step"),
+      entity("order item"),
+      entity("!!!"),
+    ]);
+
+    expect(diagram).toBe([
+      "erDiagram",
+      "    Order_Item {",
+      "        decimal_10_2 unit_price UK",
+      "    }",
+      "    _1st_Step",
+      "    order_item_2",
+      "    Entity",
+      "",
+    ].join("\n"));
+  });
+});
+
+describe("architectureToMermaid", () => {
+  it("escapes node ids and quotes in labels", () => {
+    const architecture: ArchitectureResult = {
+      requestId: "r1",
+      actors: [{ id: "end", label: 'The "end" user', type: "user" }],
+      systems: [],
+      processes: [{ id: "sync-job", label: "Sync" }],
+      dataStores: [],
+      connections: [{ id: "c1", from: "end", to: "sync-job", label: "starts", type: "control_flow" }],
+      duration: 0,
+    };
+
+    const lines = architectureToMermaid(architecture).split("\n");
+    expect(lines.slice(0, 4)).toEqual([
+      "flowchart TB",
+      '    end_(["The #quot;end#quot; user"])',
+      '    sync_job("Sync")',
+      '    end_ ==>|"starts"| sync_job',
+    ]);
+  });
+});
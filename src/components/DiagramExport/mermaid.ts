@@ -0,0 +1,196 @@
+/**
+ * Mermaid Export
+ * Text versions of the schema and architecture diagrams that render in
+ * markdown: an erDiagram for entities and a flowchart for architecture
+ */
+
+import type { ArchitectureResult } from "../../types";
+
+export interface MermaidEntity {
+  entityName: string;
+  attributes: Array<{ name: string; type: string; constraints?: string | null }>;
+  relationships: Array<{ target: string; type: string; description?: string | null }>;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Identifier Mermaid accepts, keeping word characters only
+ */
+function toIdentifier(text: string, fallback: string): string {
+  const identifier = text.trim().replace(/[^\w]+/g, "_").replace(/^_+|_+$/g, "");
+  if (!identifier) return fallback;
+  return /^\d/.test(identifier) ? `_${identifier}` : identifier;
+}
+
+/**
+ * Quoted label; Mermaid has no escape for quotes other than entity codes
+ */
+function quoteLabel(text: string): string {
+  return `"${text.replace(/"/g, "#quot;").replace(/\s+/g, " ").trim()}"`;
+}
+
+function uniqueIds<T>(items: T[], base: (item: T) => string): Map<T, string> {
+  const ids = new Map<T, string>();
+  const taken = new Set<string>();
+  for (const item of items) {
+    let id = base(item);
+    for (let i = 2; taken.has(id.toLowerCase()); i++) {
+      id = `${base(item)}_${i}`;
+    }
+    taken.add(id.toLowerCase());
+    ids.set(item, id);
+  }
+  return ids;
+}
+
+// ============================================================================
+// Entity Relationship Diagram
+// ============================================================================
+
+const CARDINALITIES: Record<string, string> = {
+  "1:1": "||--||",
+  "one-to-one": "||--||",
+  "1:N": "||--o{",
+  "one-to-many": "||--o{",
+  "N:1": "}o--||",
+  "many-to-one": "}o--||",
+  "N:N": "}o--o{",
+  "many-to-many": "}o--o{",
+};
+
+/**
+ * The same relationship read from the other entity, e.g. ||--o{ as }o--||
+ */
+export function reverseCardinality(cardinality: string): string {
+  return cardinality.split("").reverse().join("")
+    .replace(/[{}]/g, (c) => (c === "{" ? "}" : "{"));
+}
+
+function attributeKeys(constraints: string | null | undefined): string {
+  const text = constraints ?? "";
+  const keys = [
+    /\b(primary key|pk)\b/i.test(text) && "PK",
+    /\b(foreign key|fk|references)\b/i.test(text) && "FK",
+    /\bunique\b/i.test(text) && "UK",
+  ].filter(Boolean);
+  return keys.length > 0 ? ` ${keys.join(", ")}` : "";
+}
+
+/**
+ * erDiagram with the attributes and relationships of each entity; a
+ * relationship declared from both sides is written once
+ */
+export function entitiesToMermaid(entities: MermaidEntity[]): string {
+  const ids = uniqueIds(entities, (entity) => toIdentifier(entity.entityName, "Entity"));
+  const resolve = (target: string): MermaidEntity | undefined => {
+    const name = target.trim().toLowerCase();
+    return entities.find((e) => e.entityName.toLowerCase() === name) ??
+      entities.find((e) => e.entityName.toLowerCase() === name.replace(/(es|s)$/, "")) ??
+      entities.find((e) => `${e.entityName.toLowerCase()}s` === name);
+  };
+
+  const lines = ["erDiagram"];
+  const seen = new Set<string>();
+  for (const entity of entities) {
+    for (const relationship of entity.relationships) {
+      const target = resolve(relationship.target);
+      if (!target) continue;
+
+      let left = ids.get(entity)!;
+      let right = ids.get(target)!;
+      let cardinality = CARDINALITIES[relationship.type] ??
+        CARDINALITIES[relationship.type.toLowerCase()] ?? "}o--o{";
+      if (left > right) {
+        [left, right] = [right, left];
+        cardinality = reverseCardinality(cardinality);
+      }
+
+      const key = `${left} ${cardinality} ${right}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const description = relationship.description?.trim() ?? "";
+      const label = description && description.length <= 40 ? description : relationship.type;
+      lines.push(`    ${key} : ${quoteLabel(label)}`);
+    }
+  }
+
+  for (const entity of entities) {
+    if (entity.attributes.length === 0) {
+      lines.push(`    ${ids.get(entity)!}`);
+      continue;
+    }
+    lines.push(`    ${ids.get(entity)!} {`);
+    for (const attribute of entity.attributes) {
+      const type = toIdentifier(attribute.type.replace(/\[\]$/, "_list"), "string");
+      const name = toIdentifier(attribute.name, "field");
+      lines.push(`        ${type} ${name}${attributeKeys(attribute.constraints)}`);
+    }
+    lines.push("    }");
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+// ============================================================================
+// Architecture Flowchart
+// ============================================================================
+
+const ARROWS: Record<string, string> = {
+  data_flow: "-->",
+  control_flow: "==>",
+  interaction: "-.->",
+};
+
+/**
+ * Flowchart of the actors, systems, processes and data stores of an
+ * architecture analysis, styled like the diagram's legend
+ */
+export function architectureToMermaid(architecture: ArchitectureResult): string {
+  const components = [
+    ...architecture.actors.map((c) => ({ ...c, kind: "actor", open: "([", close: "])" })),
+    ...architecture.systems.map((c) => ({ ...c, kind: "system", open: "[[", close: "]]" })),
+    ...architecture.processes.map((c) => ({ ...c, kind: "process", open: "(", close: ")" })),
+    ...architecture.dataStores.map((c) => ({ ...c, kind: "data", open: "[(", close: ")]" })),
+  ];
+  const ids = uniqueIds(components, (c) => {
+    const id = toIdentifier(c.id, "node");
+    // "end" closes subgraphs in Mermaid
+    return id.toLowerCase() === "end" ? `${id}_` : id;
+  });
+  const byId = new Map(components.map((c) => [c.id, ids.get(c)!]));
+
+  const lines = ["flowchart TB"];
+  for (const component of components) {
+    lines.push(`    ${ids.get(component)!}${component.open}${quoteLabel(component.label)}${component.close}`);
+  }
+  for (const connection of architecture.connections) {
+    const from = byId.get(connection.from);
+    const to = byId.get(connection.to);
+    if (!from || !to) continue;
+    const arrow = ARROWS[connection.type ?? ""] ?? "-->";
+    lines.push(
+      connection.label
+        ? `    ${from} ${arrow}|${quoteLabel(connection.label)}| ${to}`
+        : `    ${from} ${arrow} ${to}`,
+    );
+  }
+
+  lines.push(
+    "    classDef actor fill:#dbeafe,stroke:#3b82f6,color:#1e3a8a",
+    "    classDef system fill:#f3e8ff,stroke:#a855f7,color:#581c87",
+    "    classDef process fill:#ffedd5,stroke:#f97316,color:#7c2d12",
+    "    classDef data fill:#d1fae5,stroke:#10b981,color:#064e3b",
+  );
+  for (const kind of ["actor", "system", "process", "data"]) {
+    const members = components.filter((c) => c.kind === kind).map((c) => ids.get(c)!);
+    if (members.length > 0) {
+      lines.push(`    class ${members.join(",")} ${kind}`);
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
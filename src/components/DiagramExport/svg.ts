@@ -0,0 +1,234 @@
+/**
+ * Diagram SVG Rendering
+ * Draws laid-out diagram nodes and edges as a standalone SVG document and
+ * rasterizes it to PNG
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A node as drawn: its position and size come from the rendered diagram
+ */
+export interface DiagramBox {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  title: string;
+  /** Small caption under the title, e.g. a node type */
+  subtitle?: string;
+  /** Body lines; lines that do not fit the box are dropped */
+  lines: string[];
+  headerFill: string;
+  headerText: string;
+  border: string;
+}
+
+export interface DiagramLink {
+  source: string;
+  target: string;
+  label?: string;
+}
+
+export interface DiagramTheme {
+  background: string;
+  nodeFill: string;
+  text: string;
+  mutedText: string;
+  edge: string;
+  labelFill: string;
+}
+
+export const DIAGRAM_THEMES: Record<"light" | "dark", Omit<DiagramTheme, "edge">> = {
+  light: {
+    background: "#f9fafb",
+    nodeFill: "#ffffff",
+    text: "#111827",
+    mutedText: "#6b7280",
+    labelFill: "#ffffff",
+  },
+  dark: {
+    background: "#111827",
+    nodeFill: "#1f2937",
+    text: "#f9fafb",
+    mutedText: "#9ca3af",
+    labelFill: "#1f2937",
+  },
+};
+
+const PADDING = 40;
+const HEADER_HEIGHT = 36;
+const SUBTITLE_HEIGHT = 14;
+const LINE_HEIGHT = 16;
+const FONT = "ui-sans-serif, system-ui, -apple-system, 'Segoe UI', sans-serif";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Shorten text to roughly fit a width, assuming an average glyph width
+ */
+function fitText(text: string, width: number, fontSize: number): string {
+  const maxChars = Math.floor(width / (fontSize * 0.58));
+  return text.length > maxChars ? `${text.slice(0, Math.max(maxChars - 1, 1))}…` : text;
+}
+
+/**
+ * Point where the line from a box's center towards (x, y) leaves the box
+ */
+function borderPoint(box: DiagramBox, x: number, y: number): { x: number; y: number } {
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+  const dx = x - cx;
+  const dy = y - cy;
+  if (dx === 0 && dy === 0) return { x: cx, y: cy };
+
+  const scale = Math.min(
+    dx === 0 ? Infinity : (box.width / 2) / Math.abs(dx),
+    dy === 0 ? Infinity : (box.height / 2) / Math.abs(dy),
+  );
+  return { x: cx + dx * scale, y: cy + dy * scale };
+}
+
+function renderBox(box: DiagramBox, theme: DiagramTheme): string {
+  const headerHeight = HEADER_HEIGHT + (box.subtitle ? SUBTITLE_HEIGHT : 0);
+  const textWidth = box.width - 24;
+  const maxLines = Math.max(Math.floor((box.height - headerHeight - 12) / LINE_HEIGHT), 0);
+  const lines = box.lines.slice(0, maxLines);
+
+  return [
+    `<g transform="translate(${box.x} ${box.y})">`,
+    `<rect width="${box.width}" height="${box.height}" rx="8" fill="${theme.nodeFill}" stroke="${box.border}" stroke-width="2"/>`,
+    `<path d="M0 8a8 8 0 0 1 8-8h${box.width - 16}a8 8 0 0 1 8 8v${headerHeight - 8}h-${box.width}z" fill="${box.headerFill}"/>`,
+    `<text x="12" y="23" font-size="13" font-weight="600" fill="${box.headerText}">${
+      escapeXml(fitText(box.title, textWidth, 13))
+    }</text>`,
+    box.subtitle
+      ? `<text x="12" y="${HEADER_HEIGHT + 4}" font-size="10" fill="${box.headerText}" opacity="0.8">${
+        escapeXml(fitText(box.subtitle, textWidth, 10))
+      }</text>`
+      : "",
+    ...lines.map((line, index) =>
+      `<text x="12" y="${headerHeight + 18 + index * LINE_HEIGHT}" font-size="11" fill="${theme.mutedText}">${
+        escapeXml(fitText(line, textWidth, 11))
+      }</text>`
+    ),
+    "</g>",
+  ].join("");
+}
+
+function renderLink(
+  link: DiagramLink,
+  boxes: Map<string, DiagramBox>,
+  theme: DiagramTheme,
+): string {
+  const source = boxes.get(link.source);
+  const target = boxes.get(link.target);
+  if (!source || !target) return "";
+
+  let path: string;
+  let labelX: number;
+  let labelY: number;
+  if (source === target) {
+    // Self-reference: a loop over the top right corner
+    const x = source.x + source.width;
+    const y = source.y;
+    path = `M${x - 40} ${y} C${x - 40} ${y - 50} ${x + 50} ${y + 40} ${x} ${y + 40}`;
+    labelX = x + 10;
+    labelY = y - 10;
+  } else {
+    const start = borderPoint(
+      source,
+      target.x + target.width / 2,
+      target.y + target.height / 2,
+    );
+    const end = borderPoint(
+      target,
+      source.x + source.width / 2,
+      source.y + source.height / 2,
+    );
+    path = `M${start.x} ${start.y} L${end.x} ${end.y}`;
+    labelX = (start.x + end.x) / 2;
+    labelY = (start.y + end.y) / 2;
+  }
+
+  const label = link.label
+    ? (() => {
+      const text = escapeXml(fitText(link.label, 200, 11));
+      const width = Math.min(link.label.length, 34) * 6.4 + 10;
+      return `<rect x="${labelX - width / 2}" y="${labelY - 9}" width="${width}" height="18" rx="4" fill="${theme.labelFill}"/>` +
+        `<text x="${labelX}" y="${labelY + 4}" font-size="11" text-anchor="middle" fill="${theme.mutedText}">${text}</text>`;
+    })()
+    : "";
+
+  return `<path d="${path}" fill="none" stroke="${theme.edge}" stroke-width="2" marker-end="url(#arrow)"/>${label}`;
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Standalone SVG document for a diagram, cropped to its nodes
+ */
+export function renderDiagramSvg(
+  boxes: DiagramBox[],
+  links: DiagramLink[],
+  theme: DiagramTheme,
+): { svg: string; width: number; height: number } {
+  const minX = Math.min(...boxes.map((b) => b.x)) - PADDING;
+  const minY = Math.min(...boxes.map((b) => b.y)) - PADDING;
+  const width = Math.ceil(Math.max(...boxes.map((b) => b.x + b.width)) + PADDING - minX);
+  const height = Math.ceil(Math.max(...boxes.map((b) => b.y + b.height)) + PADDING - minY);
+  const byId = new Map(boxes.map((box) => [box.id, box]));
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${minX} ${minY} ${width} ${height}" font-family="${FONT}">`,
+    `<defs><marker id="arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M0 0L10 5L0 10z" fill="${theme.edge}"/></marker></defs>`,
+    `<rect x="${minX}" y="${minY}" width="${width}" height="${height}" fill="${theme.background}"/>`,
+    ...links.map((link) => renderLink(link, byId, theme)),
+    ...boxes.map((box) => renderBox(box, theme)),
+    "</svg>",
+  ].join("\n");
+
+  return { svg, width, height };
+}
+
+/**
+ * Rasterize an SVG document to a base64-encoded PNG at the given scale
+ */
+export async function svgToPngBase64(
+  svg: string,
+  width: number,
+  height: number,
+  scale = 2,
+): Promise<string> {
+  const image = new Image();
+  await new Promise<void>((resolve, reject) => {
+    image.onload = () => resolve();
+    image.onerror = () => reject(new Error("Failed to render diagram image"));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width * scale;
+  canvas.height = height * scale;
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Canvas is not available");
+  }
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL("image/png").replace(/^data:image\/png;base64,/, "");
+}
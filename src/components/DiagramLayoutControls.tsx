@@ -0,0 +1,63 @@
+/**
+ * Diagram Layout Controls Component
+ * ReactFlow panel to switch the layout direction and return to the
+ * automatic layout
+ */
+
+import { Panel, useReactFlow, type PanelPosition } from 'reactflow';
+import { Button } from './ui';
+import type { LayoutDirection } from '../types';
+
+interface DiagramLayoutControlsProps {
+  direction: LayoutDirection;
+  onDirectionChange: (direction: LayoutDirection) => void;
+  onReset: () => void;
+  position?: PanelPosition;
+}
+
+export function DiagramLayoutControls({
+  direction,
+  onDirectionChange,
+  onReset,
+  position = 'top-right',
+}: DiagramLayoutControlsProps) {
+  const { fitView } = useReactFlow();
+
+  // Nodes move on the next render; fit the view once they have
+  const refit = () => {
+    window.setTimeout(() => fitView({ padding: 0.2, duration: 300 }), 50);
+  };
+
+  return (
+    <Panel position={position} className="!m-4">
+      <div className="flex items-center gap-1 bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-1">
+        {(['TB', 'LR'] as LayoutDirection[]).map((value) => (
+          <Button
+            key={value}
+            size="sm"
+            variant={direction === value ? 'primary' : 'flat'}
+            onPress={() => {
+              if (value === direction) return;
+              onDirectionChange(value);
+              refit();
+            }}
+          >
+            {value === 'TB' ? 'Top → Bottom' : 'Left → Right'}
+          </Button>
+        ))}
+        <Button
+          size="sm"
+          variant="outline"
+          onPress={() => {
+            onReset();
+            refit();
+          }}
+        >
+          Reset to Auto Layout
+        </Button>
+      </div>
+    </Panel>
+  );
+}
+
+export default DiagramLayoutControls;
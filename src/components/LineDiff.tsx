@@ -0,0 +1,80 @@
+/**
+ * Line Diff Component
+ * Line-by-line comparison of two texts, with added and removed lines
+ * highlighted
+ */
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+interface LineDiffProps {
+  before: string;
+  after: string;
+  className?: string;
+}
+
+/**
+ * Diff two texts by line using their longest common subsequence
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // lengths[i][j]: common subsequence length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+
+  return lines;
+}
+
+const LINE_STYLES: Record<DiffLine['type'], { prefix: string; className: string }> = {
+  same: { prefix: ' ', className: 'text-gray-600 dark:text-gray-300' },
+  added: { prefix: '+', className: 'bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300' },
+  removed: { prefix: '-', className: 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300' },
+};
+
+export function LineDiff({ before, after, className = '' }: LineDiffProps) {
+  const lines = diffLines(before, after);
+
+  return (
+    <pre className={`text-xs font-mono overflow-auto rounded-lg border border-gray-200 dark:border-gray-700 ${className}`}>
+      {lines.map((line, index) => {
+        const style = LINE_STYLES[line.type];
+        return (
+          <div key={index} className={`px-3 whitespace-pre-wrap ${style.className}`}>
+            {style.prefix} {line.text}
+          </div>
+        );
+      })}
+    </pre>
+  );
+}
+
+export default LineDiff;
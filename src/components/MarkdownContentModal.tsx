@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Card, Button } from './ui';
 import LoadingSpinner from './LoadingSpinner';
 import ReactMarkdown from 'react-markdown';
@@ -7,12 +7,26 @@ import rehypeHighlight from 'rehype-highlight';
 import rehypeRaw from 'rehype-raw';
 import 'highlight.js/styles/github-dark.css';
 
+export type MarkdownFileType = "spec" | "plan" | "tasks" | "data-model" | "research" | "requirements";
+
+/**
+ * File type the modal opens for a path relative to the feature directory,
+ * or null when it cannot open the file
+ */
+export function toMarkdownFileType(filePath: string): MarkdownFileType | null {
+  if (filePath === 'checklists/requirements.md') return 'requirements';
+  const match = filePath.match(/^(spec|plan|tasks|data-model|research)\.md$/);
+  return match ? (match[1] as MarkdownFileType) : null;
+}
+
 interface MarkdownContentModalProps {
   isOpen: boolean;
   onClose: () => void;
   featureId: number;
-  fileType: "spec" | "plan" | "tasks" | "data-model" | "requirements";
+  fileType: MarkdownFileType;
   fileName: string;
+  /** 1-based line to highlight; opens the source view scrolled to it */
+  line?: number;
 }
 
 export function MarkdownContentModal({
@@ -20,18 +34,30 @@ export function MarkdownContentModal({
   onClose,
   featureId,
   fileType,
-  fileName
+  fileName,
+  line
 }: MarkdownContentModalProps) {
   const [content, setContent] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<'preview' | 'source'>('preview');
+  const targetLineRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     if (isOpen) {
+      if (line) {
+        setViewMode('source');
+      }
       loadContent();
     }
-  }, [isOpen, featureId, fileType]);
+  }, [isOpen, featureId, fileType, line]);
+
+  // Bring the requested line into view once the source is rendered
+  useEffect(() => {
+    if (!isLoading && viewMode === 'source') {
+      targetLineRef.current?.scrollIntoView({ block: 'center' });
+    }
+  }, [isLoading, viewMode, content, line]);
 
   const loadContent = async () => {
     setIsLoading(true);
@@ -117,8 +143,19 @@ export function MarkdownContentModal({
           ) : (
             <div className="p-6 sm:p-10">
               {viewMode === 'source' ? (
-                <pre className="text-sm font-mono text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-words bg-white dark:bg-gray-900 p-6 rounded-lg border border-gray-200 dark:border-gray-800">
-                  {content}
+                <pre className="text-sm font-mono text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-900 py-6 pr-6 rounded-lg border border-gray-200 dark:border-gray-800">
+                  {(content || '').split('\n').map((text, index) => (
+                    <div
+                      key={index}
+                      ref={index + 1 === line ? targetLineRef : undefined}
+                      className={`flex ${index + 1 === line ? 'bg-amber-100 dark:bg-amber-500/20' : ''}`}
+                    >
+                      <span className="w-14 shrink-0 pr-4 text-right text-gray-400 dark:text-gray-600 select-none">
+                        {index + 1}
+                      </span>
+                      <span className="flex-1 whitespace-pre-wrap break-words">{text || ' '}</span>
+                    </div>
+                  ))}
                 </pre>
               ) : (
                 <div className="prose prose-violet dark:prose-invert max-w-none bg-white dark:bg-gray-900 p-8 sm:p-12 rounded-lg border border-gray-200 dark:border-gray-800">
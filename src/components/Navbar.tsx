@@ -9,6 +9,7 @@ import { useProject } from '../contexts/ProjectContext';
 import { useTheme } from '../contexts/ThemeContext';
 import ProjectConfigModal from './ProjectConfigModal';
 import SyncButton from './SyncButton';
+import SearchPalette from './SearchPalette';
 
 // Icons (inline SVG for independence)
 const ChartIcon = () => (
@@ -23,6 +24,30 @@ const ListIcon = () => (
   </svg>
 );
 
+const WarningIcon = () => (
+  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+  </svg>
+);
+
+const DatabaseIcon = () => (
+  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4m0 5c0 2.21-3.582 4-8 4s-8-1.79-8-4" />
+  </svg>
+);
+
+const InsightIcon = () => (
+  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" />
+  </svg>
+);
+
+const CoinIcon = () => (
+  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+  </svg>
+);
+
 const SunIcon = () => (
   <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 3v1m0 16v1m9-9h-1M4 12H3m15.364 6.364l-.707-.707M6.343 6.343l-.707-.707m12.728 0l-.707.707M6.343 17.657l-.707.707M16 12a4 4 0 11-8 0 4 4 0 018 0z" />
@@ -53,16 +78,41 @@ const ChevronDownIcon = () => (
   </svg>
 );
 
+const SearchIcon = () => (
+  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+  </svg>
+);
+
 const TrashIcon = () => (
   <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
   </svg>
 );
 
+const ExternalWindowIcon = () => (
+  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
+  </svg>
+);
+
 export function Navbar() {
-  const { activeProject, projects, selectProject, removeProject } = useProject();
+  const { activeProject, projects, selectProject, removeProject, openProjectWindow } = useProject();
   const { resolvedTheme, toggleTheme } = useTheme();
   const [showConfigModal, setShowConfigModal] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+
+  // Open search with Ctrl+K / Cmd+K
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setShowSearch((prev) => !prev);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
   // Re-initialize Preline dropdowns when component updates
   useEffect(() => {
@@ -113,10 +163,77 @@ export function Navbar() {
                 <ListIcon />
                 <span className="hidden md:inline">Features</span>
               </NavLink>
+
+              <NavLink
+                to="/problems"
+                className={({ isActive }) =>
+                  `flex items-center gap-2 px-3 py-2 rounded-lg transition-colors ${isActive
+                    ? 'bg-primary-100 dark:bg-primary-900/30 text-primary-600 dark:text-primary-400'
+                    : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'
+                  }`
+                }
+                title="Problems"
+              >
+                <WarningIcon />
+                <span className="hidden md:inline">Problems</span>
+              </NavLink>
+
+              <NavLink
+                to="/data-model"
+                className={({ isActive }) =>
+                  `flex items-center gap-2 px-3 py-2 rounded-lg transition-colors ${isActive
+                    ? 'bg-primary-100 dark:bg-primary-900/30 text-primary-600 dark:text-primary-400'
+                    : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'
+                  }`
+                }
+                title="Project Data Model"
+              >
+                <DatabaseIcon />
+                <span className="hidden md:inline">Data Model</span>
+              </NavLink>
+
+              <NavLink
+                to="/project-analysis"
+                className={({ isActive }) =>
+                  `flex items-center gap-2 px-3 py-2 rounded-lg transition-colors ${isActive
+                    ? 'bg-primary-100 dark:bg-primary-900/30 text-primary-600 dark:text-primary-400'
+                    : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'
+                  }`
+                }
+                title="Project Insights"
+              >
+                <InsightIcon />
+                <span className="hidden md:inline">Insights</span>
+              </NavLink>
+
+              <NavLink
+                to="/usage"
+                className={({ isActive }) =>
+                  `flex items-center gap-2 px-3 py-2 rounded-lg transition-colors ${isActive
+                    ? 'bg-primary-100 dark:bg-primary-900/30 text-primary-600 dark:text-primary-400'
+                    : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'
+                  }`
+                }
+                title="AI Usage"
+              >
+                <CoinIcon />
+                <span className="hidden md:inline">Usage</span>
+              </NavLink>
             </div>
 
             {/* Right Side Actions */}
             <div className="flex items-center gap-3">
+              {/* Search */}
+              <button
+                onClick={() => setShowSearch(true)}
+                className="inline-flex items-center gap-2 h-9 px-3 text-sm rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-500 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                title="Search (Ctrl+K)"
+              >
+                <SearchIcon />
+                <span className="hidden lg:inline">Search</span>
+                <kbd className="hidden lg:inline text-xs border border-gray-200 dark:border-gray-600 rounded px-1">⌘K</kbd>
+              </button>
+
               {/* Project Selector Dropdown */}
               <div className="hs-dropdown relative inline-flex">
                 <button
@@ -155,6 +272,16 @@ export function Navbar() {
                           </span>
                         </div>
                       </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          openProjectWindow(project.id);
+                        }}
+                        className="p-1 text-gray-400 hover:text-primary-500 hover:bg-primary-50 dark:hover:bg-primary-900/20 rounded opacity-0 group-hover:opacity-100 transition-all"
+                        title="Open in new window"
+                      >
+                        <ExternalWindowIcon />
+                      </button>
                       <button
                         onClick={(e) => {
                           e.stopPropagation();
@@ -215,6 +342,13 @@ export function Navbar() {
 
       {/* Project Config Modal */}
       <ProjectConfigModal isOpen={showConfigModal} onClose={() => setShowConfigModal(false)} />
+
+      {/* Search Palette */}
+      <SearchPalette
+        isOpen={showSearch}
+        onClose={() => setShowSearch(false)}
+        projectId={activeProject?.id || null}
+      />
     </>
   );
 }
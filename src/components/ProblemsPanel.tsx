@@ -0,0 +1,148 @@
+/**
+ * Speckit Dashboard - Problems Panel Component
+ * Parse diagnostics of a feature or a whole project, opening the file at the
+ * problem's line
+ */
+
+import { useMemo, useState } from 'react';
+import { Card, CardBody, CardHeader, Chip } from './ui';
+import MarkdownContentModal, { toMarkdownFileType } from './MarkdownContentModal';
+import type { DiagnosticSeverity, ParseDiagnostic } from '../types';
+
+interface ProblemsPanelProps {
+  diagnostics: ParseDiagnostic[];
+  /** Group by feature as well as file (project-wide list) */
+  showFeature?: boolean;
+  title?: string;
+}
+
+const SEVERITIES: DiagnosticSeverity[] = ['error', 'warning', 'info'];
+
+const severityColors: Record<DiagnosticSeverity, 'danger' | 'warning' | 'default'> = {
+  error: 'danger',
+  warning: 'warning',
+  info: 'default',
+};
+
+const severityLabels: Record<DiagnosticSeverity, string> = {
+  error: 'Errors',
+  warning: 'Warnings',
+  info: 'Info',
+};
+
+export function ProblemsPanel({ diagnostics, showFeature = false, title = 'Problems' }: ProblemsPanelProps) {
+  const [hidden, setHidden] = useState<Set<DiagnosticSeverity>>(new Set());
+  const [opened, setOpened] = useState<ParseDiagnostic | null>(null);
+
+  const toggleSeverity = (severity: DiagnosticSeverity) => {
+    setHidden((prev) => {
+      const next = new Set(prev);
+      if (next.has(severity)) {
+        next.delete(severity);
+      } else {
+        next.add(severity);
+      }
+      return next;
+    });
+  };
+
+  const counts = useMemo(() => {
+    const result: Record<DiagnosticSeverity, number> = { error: 0, warning: 0, info: 0 };
+    diagnostics.forEach((d) => {
+      result[d.severity]++;
+    });
+    return result;
+  }, [diagnostics]);
+
+  // Group visible problems by file (and feature for the project-wide list)
+  const groups = useMemo(() => {
+    const map = new Map<string, ParseDiagnostic[]>();
+    diagnostics
+      .filter((d) => !hidden.has(d.severity))
+      .forEach((d) => {
+        const key = showFeature ? `${d.featureNumber} / ${d.filePath}` : d.filePath;
+        if (!map.has(key)) map.set(key, []);
+        map.get(key)!.push(d);
+      });
+    return Array.from(map.entries());
+  }, [diagnostics, hidden, showFeature]);
+
+  const openedFileType = opened ? toMarkdownFileType(opened.filePath) : null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2 flex items-center justify-between gap-4">
+        <h2 className="text-lg font-semibold">
+          {title} ({diagnostics.length})
+        </h2>
+        <div className="flex items-center gap-2">
+          {SEVERITIES.map((severity) => (
+            <button
+              key={severity}
+              onClick={() => toggleSeverity(severity)}
+              aria-pressed={!hidden.has(severity)}
+              className={hidden.has(severity) ? 'opacity-40' : ''}
+            >
+              <Chip color={severityColors[severity]} variant="flat" size="sm">
+                {counts[severity]} {severityLabels[severity]}
+              </Chip>
+            </button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardBody>
+        {diagnostics.length === 0 ? (
+          <p className="text-sm text-gray-400">No problems found while parsing</p>
+        ) : groups.length === 0 ? (
+          <p className="text-sm text-gray-400">All problems are filtered out</p>
+        ) : (
+          <div className="space-y-4">
+            {groups.map(([group, items]) => (
+              <div key={group}>
+                <p className="text-xs font-mono text-gray-500 dark:text-gray-400 mb-1">{group}</p>
+                <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+                  {items.map((diagnostic) => {
+                    const canOpen = toMarkdownFileType(diagnostic.filePath) !== null;
+                    return (
+                      <li key={diagnostic.id}>
+                        <button
+                          onClick={() => canOpen && setOpened(diagnostic)}
+                          disabled={!canOpen}
+                          className="w-full flex items-start gap-3 py-2 text-left rounded hover:bg-gray-50 dark:hover:bg-gray-800/50 disabled:cursor-default disabled:hover:bg-transparent"
+                        >
+                          <Chip color={severityColors[diagnostic.severity]} variant="flat" size="sm">
+                            {diagnostic.severity}
+                          </Chip>
+                          <span className="flex-1 text-sm text-gray-800 dark:text-gray-200">
+                            {diagnostic.message}
+                            <span className="ml-2 text-xs font-mono text-gray-400">{diagnostic.code}</span>
+                          </span>
+                          <span className="text-xs font-mono text-gray-500 dark:text-gray-400 shrink-0">
+                            L{diagnostic.line}:{diagnostic.column}
+                          </span>
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardBody>
+
+      {opened && openedFileType && (
+        <MarkdownContentModal
+          isOpen={true}
+          onClose={() => setOpened(null)}
+          featureId={opened.featureId}
+          fileType={openedFileType}
+          fileName={`${opened.featureNumber} / ${opened.filePath}`}
+          line={opened.line}
+        />
+      )}
+    </Card>
+  );
+}
+
+export default ProblemsPanel;
@@ -0,0 +1,200 @@
+/**
+ * Speckit Dashboard - Search Palette Component
+ * Command-palette style full-text search across the project's spec artifacts
+ */
+
+import { Fragment, useEffect, useRef, useState, KeyboardEvent } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card } from './ui';
+import LoadingSpinner from './LoadingSpinner';
+import { SEARCH_MARK_START, SEARCH_MARK_END, type SearchResult } from '../types';
+
+interface SearchPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: number | null;
+}
+
+// Delay before querying while the user is typing
+const SEARCH_DEBOUNCE_MS = 200;
+
+/**
+ * Render a snippet with its matched terms highlighted
+ */
+function Snippet({ text }: { text: string }) {
+  const parts = text.split(SEARCH_MARK_START);
+
+  return (
+    <>
+      {parts.map((part, index) => {
+        if (index === 0) return <Fragment key={index}>{part}</Fragment>;
+        const [match, rest = ''] = part.split(SEARCH_MARK_END);
+        return (
+          <Fragment key={index}>
+            <mark className="bg-amber-200 dark:bg-amber-500/40 text-inherit rounded px-0.5">{match}</mark>
+            {rest}
+          </Fragment>
+        );
+      })}
+    </>
+  );
+}
+
+export function SearchPalette({ isOpen, onClose, projectId }: SearchPaletteProps) {
+  const navigate = useNavigate();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset and focus the input whenever the palette opens
+  useEffect(() => {
+    if (isOpen) {
+      setQuery('');
+      setResults([]);
+      setError(null);
+      setTimeout(() => inputRef.current?.focus(), 0);
+    }
+  }, [isOpen]);
+
+  // Debounced search
+  useEffect(() => {
+    if (!isOpen || !projectId || !query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const response = await window.electronAPI.searchQuery(projectId, query);
+        if (cancelled) return;
+        if (response.success && response.data) {
+          setResults(response.data.results);
+          setSelectedIndex(0);
+          setError(null);
+        } else if (!response.success) {
+          setError(response.error);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Search failed');
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isOpen, projectId, query]);
+
+  const openResult = (result: SearchResult) => {
+    const params = new URLSearchParams({
+      file: result.filePath,
+      line: String(result.lineStart),
+    });
+    navigate(`/features/${result.featureId}/documents?${params.toString()}`);
+    onClose();
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setSelectedIndex((prev) => Math.min(prev + 1, results.length - 1));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setSelectedIndex((prev) => Math.max(prev - 1, 0));
+        break;
+      case 'Enter':
+        if (results[selectedIndex]) {
+          openResult(results[selectedIndex]);
+        }
+        break;
+      case 'Escape':
+        onClose();
+        break;
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-start justify-center p-4 pt-[12vh]">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-gray-900/70" onClick={onClose} />
+
+      <Card className="relative w-full max-w-2xl shadow-lg bg-white dark:bg-gray-900 overflow-hidden">
+        {/* Query Input */}
+        <div className="flex items-center gap-3 px-4 border-b border-gray-100 dark:border-gray-800">
+          <svg className="w-5 h-5 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+          </svg>
+          <input
+            ref={inputRef}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={projectId ? 'Search specs, plans, tasks, contracts...' : 'Select a project to search'}
+            disabled={!projectId}
+            className="flex-1 py-4 bg-transparent text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none"
+          />
+          {isLoading && <LoadingSpinner size="sm" />}
+          <kbd className="text-xs text-gray-400 border border-gray-200 dark:border-gray-700 rounded px-1.5 py-0.5">Esc</kbd>
+        </div>
+
+        {/* Results */}
+        <div className="max-h-[60vh] overflow-y-auto">
+          {error ? (
+            <p className="p-6 text-sm text-red-500">{error}</p>
+          ) : results.length === 0 ? (
+            query.trim() && !isLoading && (
+              <p className="p-6 text-sm text-center text-gray-500 dark:text-gray-400">
+                No matches for &ldquo;{query}&rdquo;
+              </p>
+            )
+          ) : (
+            <ul className="py-2">
+              {results.map((result, index) => (
+                <li key={`${result.featureId}-${result.filePath}-${result.lineStart}`}>
+                  <button
+                    onClick={() => openResult(result)}
+                    onMouseEnter={() => setSelectedIndex(index)}
+                    className={`w-full text-left px-4 py-3 ${index === selectedIndex
+                      ? 'bg-primary-50 dark:bg-primary-900/20'
+                      : ''
+                      }`}
+                  >
+                    <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                      <span className="font-mono">{result.featureNumber}</span>
+                      <span>/</span>
+                      <span className="font-mono">{result.filePath}</span>
+                      <span className="ml-auto">L{result.lineStart}</span>
+                    </div>
+                    <p className="text-sm font-medium text-gray-900 dark:text-white mt-0.5">
+                      {result.heading}
+                    </p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 mt-1 line-clamp-2">
+                      <Snippet text={result.snippet} />
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </Card>
+    </div>
+  );
+}
+
+export default SearchPalette;
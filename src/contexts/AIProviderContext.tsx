@@ -9,7 +9,8 @@ import { createContext, useContext, useState, useEffect, useCallback, useMemo, R
 // Types
 // ============================================================================
 
-export type AIProviderType = 'openai' | 'ollama' | 'openrouter';
+// Custom OpenAI-compatible endpoints are selected as "custom:<profileId>"
+export type AIProviderType = 'openai' | 'ollama' | 'openrouter' | `custom:${string}`;
 
 interface SafeOpenAIConfig {
   model: string;
@@ -20,6 +21,7 @@ interface SafeOpenAIConfig {
 interface SafeOllamaConfig {
   baseURL: string;
   model: string;
+  embeddingModel: string;
   isRunning: boolean;
 }
 
@@ -30,11 +32,44 @@ interface SafeOpenRouterConfig {
   appName?: string;
 }
 
+export interface SafeCustomProfile {
+  id: string;
+  name: string;
+  baseURL: string;
+  model: string;
+  hasApiKey: boolean;
+  headers: Record<string, string>;
+  structuredOutput: boolean;
+}
+
+export interface CustomProfileInput {
+  id?: string;
+  name: string;
+  baseURL: string;
+  model: string;
+  apiKey?: string;
+  headers: Record<string, string>;
+  structuredOutput: boolean;
+}
+
+export type AnalysisKind = 'summary' | 'consistency' | 'gaps' | 'architecture' | 'conflicts' | 'integrity' | 'tasks' | 'chat';
+
+export interface RouteTarget {
+  provider: AIProviderType;
+  /** Overrides the provider's configured model */
+  model?: string;
+}
+
+// First target is the primary, the rest are fallbacks
+export type AnalysisRouting = Partial<Record<AnalysisKind, RouteTarget[]>>;
+
 interface AIProviderConfig {
   activeProvider: AIProviderType | null;
   openai?: SafeOpenAIConfig;
   ollama?: SafeOllamaConfig;
   openrouter?: SafeOpenRouterConfig;
+  customProfiles: SafeCustomProfile[];
+  routing: AnalysisRouting;
 }
 
 interface TestConnectionResult {
@@ -52,8 +87,11 @@ interface AIProviderContextValue {
   isConfigured: boolean;
   refreshConfig: () => Promise<void>;
   configureOpenAI: (apiKey: string, model: string, baseURL?: string) => Promise<boolean>;
-  configureOllama: (baseURL: string, model: string) => Promise<boolean>;
+  configureOllama: (baseURL: string, model: string, embeddingModel?: string) => Promise<boolean>;
   configureOpenRouter: (apiKey: string, model: string, siteUrl?: string, appName?: string) => Promise<boolean>;
+  saveCustomProfile: (profile: CustomProfileInput) => Promise<string | null>;
+  deleteCustomProfile: (profileId: string) => Promise<boolean>;
+  setRouting: (routing: AnalysisRouting) => Promise<boolean>;
   switchProvider: (provider: AIProviderType) => Promise<boolean>;
   testConnection: (provider: AIProviderType) => Promise<TestConnectionResult>;
 }
@@ -125,11 +163,12 @@ export function AIProviderProvider({ children }: AIProviderProviderProps) {
     }
   }, [refreshConfig]);
 
-  const configureOllama = useCallback(async (baseURL: string, model: string): Promise<boolean> => {
+  const configureOllama = useCallback(async (baseURL: string, model: string, embeddingModel?: string): Promise<boolean> => {
     try {
       const response = await window.electronAPI.configureAIProvider('ollama', {
         baseURL,
         model,
+        embeddingModel,
       });
 
       if (response.success) {
@@ -172,6 +211,57 @@ export function AIProviderProvider({ children }: AIProviderProviderProps) {
     }
   }, [refreshConfig]);
 
+  const saveCustomProfile = useCallback(async (profile: CustomProfileInput): Promise<string | null> => {
+    try {
+      const response = await window.electronAPI.saveCustomProviderProfile(profile);
+
+      if (response.success && response.data) {
+        await refreshConfig();
+        return response.data.profileId;
+      }
+
+      setError('error' in response ? response.error : 'Failed to save custom provider');
+      return null;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Configuration failed');
+      return null;
+    }
+  }, [refreshConfig]);
+
+  const deleteCustomProfile = useCallback(async (profileId: string): Promise<boolean> => {
+    try {
+      const response = await window.electronAPI.deleteCustomProviderProfile(profileId);
+
+      if (response.success) {
+        await refreshConfig();
+        return true;
+      }
+
+      setError(response.error || 'Failed to delete custom provider');
+      return false;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Delete failed');
+      return false;
+    }
+  }, [refreshConfig]);
+
+  const setRouting = useCallback(async (routing: AnalysisRouting): Promise<boolean> => {
+    try {
+      const response = await window.electronAPI.setAnalysisRouting(routing);
+
+      if (response.success) {
+        await refreshConfig();
+        return true;
+      }
+
+      setError(response.error || 'Failed to save routing');
+      return false;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Save failed');
+      return false;
+    }
+  }, [refreshConfig]);
+
   const switchProvider = useCallback(async (provider: AIProviderType): Promise<boolean> => {
     try {
       const response = await window.electronAPI.switchAIProvider(provider);
@@ -216,11 +306,18 @@ export function AIProviderProvider({ children }: AIProviderProviderProps) {
     isLoading,
     error,
     activeProvider: config?.activeProvider || null,
-    isConfigured: !!(config?.openai?.hasApiKey || config?.ollama),
+    isConfigured: !!(
+      config?.openai?.hasApiKey ||
+      config?.ollama ||
+      config?.activeProvider?.startsWith('custom:')
+    ),
     refreshConfig,
     configureOpenAI,
     configureOllama,
     configureOpenRouter,
+    saveCustomProfile,
+    deleteCustomProfile,
+    setRouting,
     switchProvider,
     testConnection,
   }), [
@@ -231,6 +328,9 @@ export function AIProviderProvider({ children }: AIProviderProviderProps) {
     configureOpenAI,
     configureOllama,
     configureOpenRouter,
+    saveCustomProfile,
+    deleteCustomProfile,
+    setRouting,
     switchProvider,
     testConnection
   ]);
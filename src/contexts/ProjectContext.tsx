@@ -1,6 +1,8 @@
 /**
  * Speckit Dashboard - Project Context
  * Global state management for active project and project list
+ * Each window has its own active project, which the main process watches and
+ * routes file events for
  */
 
 import { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react';
@@ -15,10 +17,15 @@ interface ProjectContextValue {
   selectProject: (projectId: number) => Promise<void>;
   configureProject: (rootPath: string) => Promise<Project | null>;
   removeProject: (projectId: number) => Promise<void>;
+  openProjectWindow: (projectId: number) => Promise<void>;
 }
 
 const ProjectContext = createContext<ProjectContextValue | null>(null);
 
+// Project this window was opened for ("Open in new window"), read before the
+// router rewrites the URL
+const windowProjectId = Number(new URLSearchParams(window.location.search).get('projectId')) || null;
+
 interface ProjectProviderProps {
   children: ReactNode;
 }
@@ -39,10 +46,11 @@ export function ProjectProvider({ children }: ProjectProviderProps) {
       if (response.success && response.data) {
         setProjects(response.data.projects);
 
-        // Auto-select most recent project
+        // Auto-select the window's project, or the most recent one
         if (response.data.projects.length > 0 && !activeProject) {
+          const windowProject = response.data.projects.find((p) => p.id === windowProjectId);
           const lastProject = response.data.projects[0]; // Already sorted by last_opened_at
-          setActiveProject(lastProject);
+          setActiveProject(windowProject ?? lastProject);
         }
       } else if (!response.success) {
         setError(response.error);
@@ -54,26 +62,31 @@ export function ProjectProvider({ children }: ProjectProviderProps) {
     }
   }, [activeProject]);
 
-  // Select a project
+  // Select a project; the window is bound to it by the effect below
   const selectProject = useCallback(async (projectId: number) => {
+    setError(null);
+
+    const project = projects.find((p) => p.id === projectId);
+    if (project) {
+      setActiveProject(project);
+      // Persist to localStorage
+      localStorage.setItem('speckit-last-project', String(projectId));
+    }
+  }, [projects]);
+
+  // Open a project in a separate window
+  const openProjectWindow = useCallback(async (projectId: number) => {
     try {
       setError(null);
 
-      const response = await window.electronAPI.selectProject(projectId);
-      if (response.success) {
-        const project = projects.find((p) => p.id === projectId);
-        if (project) {
-          setActiveProject(project);
-          // Persist to localStorage
-          localStorage.setItem('speckit-last-project', String(projectId));
-        }
-      } else if (!response.success) {
+      const response = await window.electronAPI.openProjectWindow(projectId);
+      if (!response.success) {
         setError(response.error);
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to select project');
+      setError(err instanceof Error ? err.message : 'Failed to open project window');
     }
-  }, [projects]);
+  }, []);
 
   // Configure a new project
   const configureProject = useCallback(async (rootPath: string): Promise<Project | null> => {
@@ -136,10 +149,32 @@ export function ProjectProvider({ children }: ProjectProviderProps) {
     loadProjects();
   }, [loadProjects]);
 
+  // Bind this window to the active project so the main process watches it
+  // and sends its file events here
+  const activeProjectId = activeProject?.id;
+  useEffect(() => {
+    if (activeProjectId === undefined) return;
+
+    window.electronAPI.selectProject(activeProjectId)
+      .then((response) => {
+        if (!response.success) {
+          setError(response.error);
+        }
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : 'Failed to select project');
+      });
+  }, [activeProjectId]);
+
+  // Tell windows apart by their project
+  useEffect(() => {
+    document.title = activeProject ? `${activeProject.name} - Speckit Dashboard` : 'Speckit Dashboard';
+  }, [activeProject]);
+
   // Restore last project from localStorage
   useEffect(() => {
     const lastProjectId = localStorage.getItem('speckit-last-project');
-    if (lastProjectId && projects.length > 0 && !activeProject) {
+    if (lastProjectId && !windowProjectId && projects.length > 0 && !activeProject) {
       const project = projects.find((p) => p.id === Number(lastProjectId));
       if (project) {
         setActiveProject(project);
@@ -156,6 +191,7 @@ export function ProjectProvider({ children }: ProjectProviderProps) {
     selectProject,
     configureProject,
     removeProject,
+    openProjectWindow,
   };
 
   return <ProjectContext.Provider value={value}>{children}</ProjectContext.Provider>;
@@ -1,10 +1,18 @@
 /**
  * AI Analysis Hook
  * Provides methods for AI-powered document analysis
+ * Analyses stream their partial result and can be cancelled
  */
 
-import { useCallback, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { useAIProvider } from "../contexts/AIProviderContext";
+import type { IPCResponse } from "../types/ipc";
+import type {
+  ChatReply,
+  ProjectAnalysisResult,
+  ProjectAnalysisType,
+  TasksDraftResult,
+} from "../types/ai";
 
 // ============================================================================
 // Types
@@ -60,6 +68,10 @@ export interface AnalysisRecord {
   createdAt: number;
   duration: number;
   tokenCount: number | null;
+  validationStatus: "valid" | "repaired" | "invalid";
+  provider: string | null;
+  model: string | null;
+  stale: boolean;
   preview: string;
 }
 
@@ -67,6 +79,10 @@ interface UseAIAnalysisReturn {
   isLoading: boolean;
   error: string | null;
   isConfigured: boolean;
+  /** Best-effort parse of the response streamed so far */
+  partialResult: unknown;
+  /** Text streamed so far, for responses that are not JSON */
+  partialText: string;
   generateSummary: (
     featureId: number,
     filePath: string,
@@ -75,8 +91,24 @@ interface UseAIAnalysisReturn {
   checkConsistency: (
     featureId: number,
     files: string[],
+    force?: boolean,
   ) => Promise<ConsistencyResult | null>;
-  findGaps: (featureId: number, filePath: string) => Promise<GapResult | null>;
+  findGaps: (
+    featureId: number,
+    filePath: string,
+    force?: boolean,
+  ) => Promise<GapResult | null>;
+  runProjectAnalysis: (
+    projectId: number,
+    analysisType: ProjectAnalysisType,
+    force?: boolean,
+  ) => Promise<ProjectAnalysisResult | null>;
+  generateTasksDraft: (featureId: number) => Promise<TasksDraftResult | null>;
+  askQuestion: (
+    conversationId: number,
+    question: string,
+  ) => Promise<ChatReply | null>;
+  cancel: () => Promise<void>;
   getHistory: (
     featureId: number,
     type?: string,
@@ -94,56 +126,114 @@ export function useAIAnalysis(): UseAIAnalysisReturn {
   const { isConfigured } = useAIProvider();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [partialResult, setPartialResult] = useState<unknown>(null);
+  const [partialText, setPartialText] = useState("");
+  const requestIdRef = useRef<string | null>(null);
 
   const clearError = useCallback(() => setError(null), []);
 
-  const generateSummary = useCallback(
-    async (
-      featureId: number,
-      filePath: string,
-      force: boolean = false,
-    ): Promise<SummaryResult | null> => {
-      if (!isConfigured && force) { // Only require configuration if generating fresh
-        setError(
-          "AI provider not configured. Please configure OpenAI or Ollama in settings.",
-        );
-        return null;
+  // Stop any analysis still streaming when the component goes away
+  useEffect(() => {
+    return () => {
+      if (requestIdRef.current) {
+        window.electronAPI.cancelAnalysis(requestIdRef.current);
+      }
+    };
+  }, []);
+
+  /**
+   * Run a streamed analysis, replacing any analysis still running
+   * Resolves with null on failure or cancellation
+   */
+  const runAnalysis = useCallback(
+    async <T>(
+      invoke: (requestId: string) => Promise<IPCResponse<unknown>>,
+      failureMessage: string,
+      errorMessage: string,
+    ): Promise<T | null> => {
+      if (requestIdRef.current) {
+        window.electronAPI.cancelAnalysis(requestIdRef.current);
       }
 
+      const requestId = crypto.randomUUID();
+      requestIdRef.current = requestId;
       setIsLoading(true);
       setError(null);
+      setPartialResult(null);
+      setPartialText("");
+
+      const unsubscribe = window.electronAPI.onAnalysisStream(
+        requestId,
+        (event) => {
+          setPartialResult(event.partial ?? null);
+          setPartialText((text) => text + event.delta);
+        },
+      );
 
       try {
-        const response = await window.electronAPI.generateSummary(
-          featureId,
-          filePath,
-          force,
-        );
+        const response = await invoke(requestId);
 
         if (response.success && response.data) {
-          return response.data as SummaryResult;
+          return response.data as T;
         }
 
-        setError(
-          "error" in response ? response.error : "Failed to generate summary",
-        );
+        // Cancelled on request, nothing to report
+        if (!response.success && response.code === "CANCELLED") {
+          return null;
+        }
+
+        setError("error" in response ? response.error : failureMessage);
         return null;
       } catch (err) {
+        setError(err instanceof Error ? err.message : errorMessage);
+        return null;
+      } finally {
+        unsubscribe();
+        // A newer analysis may have taken over in the meantime
+        if (requestIdRef.current === requestId) {
+          requestIdRef.current = null;
+          setIsLoading(false);
+          setPartialResult(null);
+          setPartialText("");
+        }
+      }
+    },
+    [],
+  );
+
+  const generateSummary = useCallback(
+    async (
+      featureId: number,
+      filePath: string,
+      force: boolean = false,
+    ): Promise<SummaryResult | null> => {
+      if (!isConfigured && force) { // Only require configuration if generating fresh
         setError(
-          err instanceof Error ? err.message : "Summary generation failed",
+          "AI provider not configured. Please configure OpenAI or Ollama in settings.",
         );
         return null;
-      } finally {
-        setIsLoading(false);
       }
+
+      return runAnalysis<SummaryResult>(
+        (requestId) =>
+          window.electronAPI.generateSummary(
+            featureId,
+            filePath,
+            force,
+            requestId,
+          ),
+        "Failed to generate summary",
+        "Summary generation failed",
+      );
     },
-    [isConfigured],
+    [isConfigured, runAnalysis],
   );
 
   const checkConsistency = useCallback(
     async (
       featureId: number,
       files: string[],
+      force: boolean = false,
     ): Promise<ConsistencyResult | null> => {
       if (!isConfigured) {
         setError(
@@ -152,37 +242,74 @@ export function useAIAnalysis(): UseAIAnalysisReturn {
         return null;
       }
 
-      setIsLoading(true);
-      setError(null);
-
-      try {
-        const response = await window.electronAPI.checkConsistency(
-          featureId,
-          files,
-        );
-
-        if (response.success && response.data) {
-          return response.data as ConsistencyResult;
-        }
+      return runAnalysis<ConsistencyResult>(
+        (requestId) =>
+          window.electronAPI.checkConsistency(
+            featureId,
+            files,
+            force,
+            requestId,
+          ),
+        "Failed to check consistency",
+        "Consistency check failed",
+      );
+    },
+    [isConfigured, runAnalysis],
+  );
 
+  const findGaps = useCallback(
+    async (
+      featureId: number,
+      filePath: string,
+      force: boolean = false,
+    ): Promise<GapResult | null> => {
+      if (!isConfigured) {
         setError(
-          "error" in response ? response.error : "Failed to check consistency",
+          "AI provider not configured. Please configure OpenAI or Ollama in settings.",
         );
         return null;
-      } catch (err) {
+      }
+
+      return runAnalysis<GapResult>(
+        (requestId) =>
+          window.electronAPI.findGaps(featureId, filePath, force, requestId),
+        "Failed to find gaps",
+        "Gap analysis failed",
+      );
+    },
+    [isConfigured, runAnalysis],
+  );
+
+  const runProjectAnalysis = useCallback(
+    async (
+      projectId: number,
+      analysisType: ProjectAnalysisType,
+      force: boolean = false,
+    ): Promise<ProjectAnalysisResult | null> => {
+      if (!isConfigured) {
         setError(
-          err instanceof Error ? err.message : "Consistency check failed",
+          "AI provider not configured. Please configure OpenAI or Ollama in settings.",
         );
         return null;
-      } finally {
-        setIsLoading(false);
       }
+
+      return runAnalysis<ProjectAnalysisResult>(
+        (requestId) =>
+          window.electronAPI.runProjectAnalysis(
+            projectId,
+            analysisType,
+            force,
+            requestId,
+          ),
+        "Failed to analyze project",
+        "Project analysis failed",
+      );
     },
-    [isConfigured],
+    [isConfigured, runAnalysis],
   );
 
-  const findGaps = useCallback(
-    async (featureId: number, filePath: string): Promise<GapResult | null> => {
+  const generateTasksDraft = useCallback(
+    async (featureId: number): Promise<TasksDraftResult | null> => {
       if (!isConfigured) {
         setError(
           "AI provider not configured. Please configure OpenAI or Ollama in settings.",
@@ -190,28 +317,52 @@ export function useAIAnalysis(): UseAIAnalysisReturn {
         return null;
       }
 
-      setIsLoading(true);
-      setError(null);
-
-      try {
-        const response = await window.electronAPI.findGaps(featureId, filePath);
-
-        if (response.success && response.data) {
-          return response.data as GapResult;
-        }
+      return runAnalysis<TasksDraftResult>(
+        (requestId) =>
+          window.electronAPI.generateTasksDraft(featureId, requestId),
+        "Failed to draft tasks",
+        "Tasks draft generation failed",
+      );
+    },
+    [isConfigured, runAnalysis],
+  );
 
-        setError("error" in response ? response.error : "Failed to find gaps");
-        return null;
-      } catch (err) {
-        setError(err instanceof Error ? err.message : "Gap analysis failed");
+  const askQuestion = useCallback(
+    async (
+      conversationId: number,
+      question: string,
+    ): Promise<ChatReply | null> => {
+      if (!isConfigured) {
+        setError(
+          "AI provider not configured. Please configure OpenAI or Ollama in settings.",
+        );
         return null;
-      } finally {
-        setIsLoading(false);
       }
+
+      return runAnalysis<ChatReply>(
+        (requestId) =>
+          window.electronAPI.sendChatMessage(
+            conversationId,
+            question,
+            requestId,
+          ),
+        "Failed to answer the question",
+        "Chat failed",
+      );
     },
-    [isConfigured],
+    [isConfigured, runAnalysis],
   );
 
+  const cancel = useCallback(async (): Promise<void> => {
+    if (!requestIdRef.current) return;
+
+    try {
+      await window.electronAPI.cancelAnalysis(requestIdRef.current);
+    } catch {
+      // The analysis finishes on its own
+    }
+  }, []);
+
   const getHistory = useCallback(
     async (
       featureId: number,
@@ -258,9 +409,15 @@ export function useAIAnalysis(): UseAIAnalysisReturn {
     isLoading,
     error,
     isConfigured,
+    partialResult,
+    partialText,
     generateSummary,
     checkConsistency,
     findGaps,
+    runProjectAnalysis,
+    generateTasksDraft,
+    askQuestion,
+    cancel,
     getHistory,
     getResult,
     clearError,
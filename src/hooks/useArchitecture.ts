@@ -3,7 +3,7 @@
  * Custom hook for triggering AI-powered architecture analysis
  */
 
-import { useCallback, useState } from 'react';
+import { useCallback, useRef, useState } from 'react';
 import type { ArchitectureResult } from '../types/architecture';
 
 interface UseArchitectureReturn {
@@ -11,6 +11,7 @@ interface UseArchitectureReturn {
     error: string | null;
     data: ArchitectureResult | null;
     analyzeArchitecture: (featureId: number, force?: boolean) => Promise<ArchitectureResult | null>;
+    cancel: () => Promise<void>;
     clearError: () => void;
 }
 
@@ -18,22 +19,30 @@ export function useArchitecture(): UseArchitectureReturn {
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [data, setData] = useState<ArchitectureResult | null>(null);
+    const requestIdRef = useRef<string | null>(null);
 
     const clearError = useCallback(() => setError(null), []);
 
     const analyzeArchitecture = useCallback(
         async (featureId: number, force: boolean = false): Promise<ArchitectureResult | null> => {
+            const requestId = crypto.randomUUID();
+            requestIdRef.current = requestId;
             setIsLoading(true);
             setError(null);
 
             try {
-                const response = await window.electronAPI.analyzeArchitecture(featureId, force);
+                const response = await window.electronAPI.analyzeArchitecture(featureId, force, requestId);
 
                 if (response.success && response.data) {
                     setData(response.data as ArchitectureResult);
                     return response.data as ArchitectureResult;
                 }
 
+                // Cancelled on request, nothing to report
+                if (!response.success && response.code === 'CANCELLED') {
+                    return null;
+                }
+
                 const errorMessage = 'error' in response ? response.error : 'Failed to analyze architecture';
                 setError(errorMessage);
                 return null;
@@ -42,17 +51,31 @@ export function useArchitecture(): UseArchitectureReturn {
                 setError(errorMessage);
                 return null;
             } finally {
+                if (requestIdRef.current === requestId) {
+                    requestIdRef.current = null;
+                }
                 setIsLoading(false);
             }
         },
         [],
     );
 
+    const cancel = useCallback(async (): Promise<void> => {
+        if (!requestIdRef.current) return;
+
+        try {
+            await window.electronAPI.cancelAnalysis(requestIdRef.current);
+        } catch {
+            // The analysis finishes on its own
+        }
+    }, []);
+
     return {
         isLoading,
         error,
         data,
         analyzeArchitecture,
+        cancel,
         clearError,
     };
 }
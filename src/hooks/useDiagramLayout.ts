@@ -0,0 +1,254 @@
+/**
+ * Diagram Layout Hook
+ * Arranges diagram nodes from the layout saved for a feature and keeps that
+ * layout up to date as nodes are dragged, collapsed or the view moves
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Edge, Node } from "reactflow";
+import {
+  getLayoutedElements,
+  type LayoutOptions,
+} from "../views/ArchitectureView/layout-utils";
+import type {
+  DiagramKind,
+  DiagramLayout,
+  DiagramViewport,
+  LayoutDirection,
+  Position,
+} from "../types";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface UseDiagramLayoutOptions {
+  featureId: number | null;
+  diagram: DiagramKind;
+  defaultDirection: LayoutDirection;
+  layoutOptions?: Omit<LayoutOptions, "direction">;
+  /** Key of a node that stays the same when the diagram is regenerated */
+  nodeKey?: (node: Node) => string;
+}
+
+interface UseDiagramLayoutReturn {
+  /** The saved layout has been loaded; render the diagram after this */
+  isLoaded: boolean;
+  direction: LayoutDirection;
+  collapsed: string[];
+  /** Viewport saved when the layout was loaded */
+  initialViewport: DiagramViewport | null;
+  /** Changes whenever nodes need arranging again */
+  layoutVersion: number;
+  arrange: <T>(nodes: Node<T>[], edges: Edge[]) => Node<T>[];
+  savePositions: (nodes: Node[]) => void;
+  saveViewport: (viewport: DiagramViewport) => void;
+  setDirection: (direction: LayoutDirection) => void;
+  toggleCollapsed: (key: string) => void;
+  resetLayout: () => void;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function emptyLayout(direction: LayoutDirection): DiagramLayout {
+  return { direction, positions: {}, collapsed: [], viewport: null };
+}
+
+const byId = (node: Node) => node.id;
+
+/**
+ * Positions for nodes without a saved one: their automatic positions, moved
+ * as a group past the saved nodes so they do not overlap them
+ */
+function placeNewNodes<T>(
+  saved: Array<{ node: Node<T>; position: Position }>,
+  added: Node<T>[],
+  direction: LayoutDirection,
+  separation: number,
+): Map<string, Position> {
+  const placed = new Map<string, Position>();
+  if (added.length === 0) return placed;
+
+  const axis = direction === "TB" ? "y" : "x";
+  const savedEnd = Math.max(
+    ...saved.map(({ position }) => position[axis]),
+  );
+  const addedStart = Math.min(...added.map((node) => node.position[axis]));
+  const offset = saved.length > 0 ? savedEnd + separation - addedStart : 0;
+
+  for (const node of added) {
+    placed.set(node.id, {
+      ...node.position,
+      [axis]: node.position[axis] + offset,
+    });
+  }
+  return placed;
+}
+
+// ============================================================================
+// Hook
+// ============================================================================
+
+export function useDiagramLayout({
+  featureId,
+  diagram,
+  defaultDirection,
+  layoutOptions,
+  nodeKey = byId,
+}: UseDiagramLayoutOptions): UseDiagramLayoutReturn {
+  const [layout, setLayout] = useState<DiagramLayout>(() => emptyLayout(defaultDirection));
+  const [initialViewport, setInitialViewport] = useState<DiagramViewport | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [layoutVersion, setLayoutVersion] = useState(0);
+
+  // Arranging and saving read the latest values without re-creating callbacks
+  const layoutRef = useRef(layout);
+  const optionsRef = useRef({ layoutOptions, nodeKey });
+  optionsRef.current = { layoutOptions, nodeKey };
+
+  const persist = useCallback((next: DiagramLayout) => {
+    layoutRef.current = next;
+    setLayout(next);
+    if (!featureId) return;
+    window.electronAPI.saveDiagramLayout(featureId, diagram, next).catch(() => {
+      // Saved again with the next change
+    });
+  }, [featureId, diagram]);
+
+  // Load the saved layout for the feature
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoaded(false);
+
+    const load = async () => {
+      let saved: DiagramLayout | null = null;
+      if (featureId) {
+        try {
+          const response = await window.electronAPI.getDiagramLayout(featureId, diagram);
+          if (response.success && response.data) {
+            saved = response.data.layout;
+          }
+        } catch {
+          // Fall back to the automatic layout
+        }
+      }
+      if (cancelled) return;
+
+      const next = saved ?? emptyLayout(defaultDirection);
+      layoutRef.current = next;
+      setLayout(next);
+      setInitialViewport(next.viewport);
+      setIsLoaded(true);
+      setLayoutVersion((version) => version + 1);
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [featureId, diagram, defaultDirection]);
+
+  const arrange = useCallback(<T>(nodes: Node<T>[], edges: Edge[]): Node<T>[] => {
+    const current = layoutRef.current;
+    const { layoutOptions: options, nodeKey: keyOf } = optionsRef.current;
+    const { nodes: automatic } = getLayoutedElements(nodes, edges, {
+      ...options,
+      direction: current.direction,
+    });
+
+    const savedKeys = Object.keys(current.positions);
+    if (savedKeys.length === 0) return automatic;
+
+    const saved: Array<{ node: Node<T>; position: Position }> = [];
+    const added: Node<T>[] = [];
+    for (const node of automatic) {
+      const position = current.positions[keyOf(node)];
+      if (position) saved.push({ node, position });
+      else added.push(node);
+    }
+
+    const placed = placeNewNodes(
+      saved,
+      added,
+      current.direction,
+      (options?.rankSeparation ?? 150) + (current.direction === "TB"
+        ? options?.nodeHeight ?? 200
+        : options?.nodeWidth ?? 280),
+    );
+    const arranged = automatic.map((node) => ({
+      ...node,
+      position: current.positions[keyOf(node)] ?? placed.get(node.id) ?? node.position,
+    }));
+
+    // Reconcile: pin new nodes where they were placed, forget removed ones
+    const keys = new Set(arranged.map(keyOf));
+    if (added.length > 0 || savedKeys.some((key) => !keys.has(key))) {
+      persist({
+        ...current,
+        positions: Object.fromEntries(arranged.map((node) => [keyOf(node), node.position])),
+      });
+    }
+    return arranged;
+  }, [persist]);
+
+  const savePositions = useCallback((nodes: Node[]) => {
+    const { nodeKey: keyOf } = optionsRef.current;
+    persist({
+      ...layoutRef.current,
+      positions: {
+        ...layoutRef.current.positions,
+        ...Object.fromEntries(nodes.map((node) => [keyOf(node), node.position])),
+      },
+    });
+  }, [persist]);
+
+  const saveViewport = useCallback((viewport: DiagramViewport) => {
+    persist({ ...layoutRef.current, viewport });
+  }, [persist]);
+
+  // A new direction lays every node out again
+  const setDirection = useCallback((direction: LayoutDirection) => {
+    persist({ ...layoutRef.current, direction, positions: {}, viewport: null });
+    setLayoutVersion((version) => version + 1);
+  }, [persist]);
+
+  const toggleCollapsed = useCallback((key: string) => {
+    const { collapsed } = layoutRef.current;
+    persist({
+      ...layoutRef.current,
+      collapsed: collapsed.includes(key)
+        ? collapsed.filter((k) => k !== key)
+        : [...collapsed, key],
+    });
+  }, [persist]);
+
+  const resetLayout = useCallback(() => {
+    const next = emptyLayout(defaultDirection);
+    layoutRef.current = next;
+    setLayout(next);
+    setLayoutVersion((version) => version + 1);
+    if (featureId) {
+      window.electronAPI.resetDiagramLayout(featureId, diagram).catch(() => {
+        // The stale layout is replaced by the next save
+      });
+    }
+  }, [featureId, diagram, defaultDirection]);
+
+  return {
+    isLoaded,
+    direction: layout.direction,
+    collapsed: layout.collapsed,
+    initialViewport,
+    layoutVersion,
+    arrange,
+    savePositions,
+    saveViewport,
+    setDirection,
+    toggleCollapsed,
+    resetLayout,
+  };
+}
+
+export default useDiagramLayout;
@@ -0,0 +1,54 @@
+/**
+ * Speckit Dashboard - useFeatureUpdates Hook
+ * React hook to refresh views when the main process re-syncs a feature
+ */
+
+import { useEffect, useRef } from "react";
+import type { FeatureUpdatedEvent } from "../types";
+
+interface UseFeatureUpdatesOptions {
+  /**
+   * Filter to specific feature ID
+   */
+  featureId?: number;
+  /**
+   * Whether the hook is enabled
+   */
+  enabled?: boolean;
+}
+
+/**
+ * Hook to subscribe to feature updated events from the Electron main process
+ */
+export function useFeatureUpdates(
+  onFeatureUpdated: (event: FeatureUpdatedEvent) => void,
+  options: UseFeatureUpdatesOptions = {},
+) {
+  const { featureId, enabled = true } = options;
+
+  // Keep the latest callback without re-subscribing on every render
+  const callbackRef = useRef(onFeatureUpdated);
+  callbackRef.current = onFeatureUpdated;
+
+  useEffect(() => {
+    if (!enabled || !window.electronAPI?.onFeatureUpdated) {
+      return;
+    }
+
+    const unsubscribe = window.electronAPI.onFeatureUpdated((event) => {
+      // If filtering by feature ID, check if the event matches
+      if (featureId !== undefined && event.featureId !== featureId) {
+        return;
+      }
+
+      callbackRef.current(event);
+    });
+
+    // Cleanup on unmount
+    return () => {
+      unsubscribe();
+    };
+  }, [enabled, featureId]);
+}
+
+export default useFeatureUpdates;
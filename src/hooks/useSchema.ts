@@ -5,6 +5,7 @@
 
 import { useCallback, useState } from "react";
 import type { Edge, Node } from "reactflow";
+import type { StateMachine } from "../types";
 
 // ============================================================================
 // Types
@@ -43,6 +44,7 @@ export interface EntityDetail {
     description?: string;
   }>;
   validationRules: string[];
+  stateTransitions: StateMachine | null;
   sourceFile: string | null;
   lineNumber: number | null;
 }
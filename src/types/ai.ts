@@ -9,8 +9,13 @@
 
 /**
  * Supported AI provider types
+ * Custom OpenAI-compatible endpoints are selected as "custom:<profileId>"
  */
-export type AIProviderType = "openai" | "ollama";
+export type AIProviderType =
+  | "openai"
+  | "ollama"
+  | "openrouter"
+  | `custom:${string}`;
 
 /**
  * Analysis types supported by the system
@@ -38,9 +43,45 @@ export interface OpenAIConfig {
 export interface OllamaConfig {
   baseURL: string;
   model: string;
+  /** Local model used to embed documents for chat */
+  embeddingModel?: string;
   timeout?: number;
 }
 
+/**
+ * Provider and optional model override used for an analysis
+ */
+export interface AnalysisRouteTarget {
+  provider: AIProviderType;
+  model?: string;
+}
+
+/**
+ * Provider chain per analysis kind: the first entry is the primary, the rest
+ * are fallbacks used when it fails a connection test
+ */
+export type AnalysisRouting = Partial<
+  Record<
+    AnalysisType | "architecture" | ProjectAnalysisType | "tasks" | "chat",
+    AnalysisRouteTarget[]
+  >
+>;
+
+/**
+ * Custom OpenAI-compatible endpoint profile, as sent when saving
+ */
+export interface CustomProviderProfileConfig {
+  /** Omitted when creating a new profile */
+  id?: string;
+  name: string;
+  baseURL: string;
+  model: string;
+  /** Optional; "__EXISTING_KEY__" keeps the stored key */
+  apiKey?: string;
+  headers?: Record<string, string>;
+  structuredOutput?: boolean;
+}
+
 /**
  * Complete AI provider configuration stored in electron-store
  */
@@ -65,9 +106,23 @@ export interface SafeOpenAIConfig {
 export interface SafeOllamaConfig {
   baseURL: string;
   model: string;
+  embeddingModel: string;
   isRunning: boolean;
 }
 
+/**
+ * Safe custom endpoint profile for renderer process
+ */
+export interface SafeCustomProviderProfile {
+  id: string;
+  name: string;
+  baseURL: string;
+  model: string;
+  hasApiKey: boolean;
+  headers: Record<string, string>;
+  structuredOutput: boolean;
+}
+
 /**
  * Provider configuration response for renderer
  */
@@ -75,6 +130,8 @@ export interface AIProviderConfigResponse {
   activeProvider: AIProviderType | null;
   openai?: SafeOpenAIConfig;
   ollama?: SafeOllamaConfig;
+  customProfiles: SafeCustomProviderProfile[];
+  routing: AnalysisRouting;
 }
 
 // ============================================================================
@@ -183,6 +240,13 @@ export interface AnalysisRecord {
   createdAt: number;
   duration: number;
   tokenCount: number | null;
+  /** "repaired" needed re-prompting, "invalid" never matched the schema */
+  validationStatus: "valid" | "repaired" | "invalid";
+  /** Provider and model that produced the result; null for older rows */
+  provider: string | null;
+  model: string | null;
+  /** An input document changed since the analysis ran */
+  stale: boolean;
   preview: string;
 }
 
@@ -228,6 +292,9 @@ export interface TestConnectionResult {
 export interface GenerateSummaryRequest {
   featureId: number;
   filePath: string;
+  force?: boolean;
+  /** Stream partial output on "ai-analysis:stream:<requestId>" */
+  requestId?: string;
 }
 
 /**
@@ -236,6 +303,8 @@ export interface GenerateSummaryRequest {
 export interface CheckConsistencyRequest {
   featureId: number;
   files: string[];
+  /** Stream partial output on "ai-analysis:stream:<requestId>" */
+  requestId?: string;
 }
 
 /**
@@ -244,6 +313,8 @@ export interface CheckConsistencyRequest {
 export interface FindGapsRequest {
   featureId: number;
   filePath: string;
+  /** Stream partial output on "ai-analysis:stream:<requestId>" */
+  requestId?: string;
 }
 
 /**
@@ -262,6 +333,24 @@ export interface GetAnalysisResultRequest {
   requestId: string;
 }
 
+/**
+ * Cancel a streamed analysis request
+ */
+export interface CancelAnalysisRequest {
+  requestId: string;
+}
+
+/**
+ * Partial output of a streamed analysis
+ */
+export interface AnalysisStreamEvent {
+  requestId: string;
+  /** Text received since the previous event */
+  delta: string;
+  /** Best-effort parse of the JSON response received so far */
+  partial: unknown;
+}
+
 // ============================================================================
 // Cache Types
 // ============================================================================
@@ -285,3 +374,247 @@ export interface CacheStats {
   misses: number;
   hitRate: number;
 }
+
+// ============================================================================
+// Project Analysis Types
+// ============================================================================
+
+/**
+ * Analyses across all features of a project
+ * "conflicts" finds overlapping or conflicting requirements; "integrity"
+ * finds duplicated entities and statuses that disagree with task progress
+ */
+export type ProjectAnalysisType = "conflicts" | "integrity";
+
+export interface RequirementConflict {
+  /** Feature numbers involved */
+  features: string[];
+  kind: "overlap" | "conflict";
+  topic: string;
+  description: string;
+  suggestion: string;
+  severity: "high" | "medium" | "low";
+}
+
+export interface DuplicateEntity {
+  entity: string;
+  features: string[];
+  differences: string;
+  suggestion: string;
+}
+
+export interface StatusMismatch {
+  feature: string;
+  status: string;
+  taskCompletion: number;
+  issue: string;
+  suggestion: string;
+}
+
+interface ProjectAnalysisResultBase {
+  requestId: string;
+  featuresAnalyzed: number;
+  /** Model calls the features were split across */
+  chunkCount: number;
+  duration: number;
+  tokenCount?: number;
+}
+
+export interface ConflictsResult extends ProjectAnalysisResultBase {
+  conflicts: RequirementConflict[];
+}
+
+export interface IntegrityResult extends ProjectAnalysisResultBase {
+  duplicateEntities: DuplicateEntity[];
+  statusMismatches: StatusMismatch[];
+}
+
+export type ProjectAnalysisResult = ConflictsResult | IntegrityResult;
+
+/**
+ * Stored project analysis
+ */
+export interface ProjectAnalysisRecord {
+  id: number;
+  requestId: string;
+  analysisType: ProjectAnalysisType;
+  createdAt: number;
+  duration: number;
+  tokenCount: number | null;
+  chunkCount: number;
+  validationStatus: "valid" | "repaired" | "invalid";
+  provider: string | null;
+  model: string | null;
+  /** A feature changed since the analysis ran */
+  stale: boolean;
+  /** null when the response never matched the schema */
+  result: ProjectAnalysisResult | null;
+}
+
+// ============================================================================
+// Tasks Draft Types
+// ============================================================================
+
+/**
+ * tasks.md drafted from a feature's spec and plan, not yet written
+ */
+export interface TasksDraftResult {
+  requestId: string;
+  /** Rendered tasks.md, already read back by the tasks parser */
+  content: string;
+  taskCount: number;
+  phaseNames: string[];
+  /** Parser warnings on the draft */
+  warnings: string[];
+  provider: string;
+  model: string;
+  duration: number;
+  tokenCount?: number;
+}
+
+// ============================================================================
+// Chat Types
+// ============================================================================
+
+/**
+ * Document passage an answer cites, numbered as in the answer text
+ */
+export interface ChatCitation {
+  index: number;
+  kind: "section" | "requirement" | "task" | "decision";
+  featureId: number;
+  featureNumber: string;
+  /** Relative to the feature directory */
+  filePath: string;
+  heading: string;
+  line: number;
+  lineEnd: number;
+}
+
+/**
+ * Conversation about a feature, or the whole project when featureId is null
+ */
+export interface ChatConversation {
+  id: number;
+  projectId: number;
+  featureId: number | null;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ChatMessage {
+  id: number;
+  conversationId: number;
+  role: "user" | "assistant";
+  content: string;
+  citations: ChatCitation[];
+  model: string | null;
+  tokenCount: number | null;
+  cost: number | null;
+  createdAt: number;
+}
+
+export interface ChatReply {
+  requestId: string;
+  question: ChatMessage;
+  answer: ChatMessage;
+  /** Whether embeddings took part in finding the sources */
+  semanticSearch: boolean;
+  duration: number;
+}
+
+// ============================================================================
+// Usage & Cost Types
+// ============================================================================
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPrice {
+  model: string;
+  promptPrice: number;
+  completionPrice: number;
+  /** "openrouter" prices are imported and refreshed by sync */
+  source: "manual" | "openrouter";
+  updatedAt: number;
+}
+
+/**
+ * Monthly spend limit; projectId null covers all projects
+ */
+export interface UsageBudget {
+  projectId: number | null;
+  monthlyLimit: number;
+  /** Spend in the current calendar month */
+  spent: number;
+}
+
+/**
+ * Tokens and spend of one group (project, feature, type, day or model)
+ */
+export interface UsageBreakdownRow {
+  key: string;
+  label: string;
+  analyses: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+  /** Analyses that used tokens on a model without a price */
+  unpriced: number;
+}
+
+export interface UsageSummary {
+  since: number;
+  totals: Omit<UsageBreakdownRow, "key" | "label">;
+  byProject: UsageBreakdownRow[];
+  byFeature: UsageBreakdownRow[];
+  byType: UsageBreakdownRow[];
+  byDay: UsageBreakdownRow[];
+  byModel: UsageBreakdownRow[];
+}
+
+// ============================================================================
+// Prompt Template Types
+// ============================================================================
+
+export type PromptId =
+  | AnalysisType
+  | "architecture"
+  | ProjectAnalysisType
+  | "tasks";
+
+/**
+ * A prompt's default template and the project's override
+ */
+export interface PromptInfo {
+  id: PromptId;
+  label: string;
+  description: string;
+  /** Variables the template must contain, without braces */
+  variables: string[];
+  defaultTemplate: string;
+  defaultVersion: string;
+  /** Stored in .specify/prompts/; null when the default is used */
+  override: string | null;
+  overrideVersion: string | null;
+  /** Problems that keep the override from being used */
+  errors: string[];
+}
+
+/**
+ * Output of a prompt run on a feature without saving it
+ */
+export interface PromptTestResult {
+  requestId: string;
+  promptId: PromptId;
+  /** Output matching the analysis schema, null when every attempt failed */
+  output: unknown | null;
+  rawResponse: string;
+  errors: string[];
+  provider: string;
+  model: string;
+  duration: number;
+  tokenCount?: number;
+}
@@ -3,6 +3,8 @@
  * TypeScript definitions for all database entities and IPC interfaces
  */
 
+import type { StateMachine } from "./schema";
+
 // ============================================
 // Database Entity Types
 // ============================================
@@ -30,6 +32,8 @@ export interface Feature {
   priority: string | null;
   createdDate: string | null;
   taskCompletionPct: number;
+  dependencyErrors?: string[];
+  tasksHash?: string | null;
   createdAt: number;
   updatedAt: number;
 }
@@ -73,7 +77,7 @@ export interface Entity {
   attributes: EntityAttribute[];
   relationships: EntityRelationship[];
   validationRules: string[] | null;
-  stateTransitions: Record<string, unknown> | null;
+  stateTransitions: StateMachine | null;
   createdAt: number;
   updatedAt: number;
 }
@@ -93,6 +97,21 @@ export interface Requirement {
   updatedAt: number;
 }
 
+export type UserStoryPriority = "P1" | "P2" | "P3";
+
+export interface UserStory {
+  id: number;
+  featureId: number;
+  /** Label used by tasks.md, e.g. "US1" */
+  storyLabel: string;
+  title: string;
+  priority: UserStoryPriority;
+  description: string | null;
+  acceptanceScenarios: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
 export interface PlanPhase {
   name: string;
   goal: string;
@@ -149,6 +168,16 @@ export interface ProjectStats {
   };
 }
 
+/**
+ * ProjectStats recorded at a point in time (after a sync)
+ */
+export interface ProjectSnapshot {
+  id: number;
+  projectId: number;
+  stats: ProjectStats;
+  createdAt: number;
+}
+
 // ============================================
 // UI State Types
 // ============================================
@@ -182,6 +211,64 @@ export interface FileChangeEvent {
   affectedFeatureId?: number;
 }
 
+/**
+ * Emitted after the main process re-synced a feature from changed files
+ */
+export interface FeatureUpdatedEvent {
+  projectId: number;
+  featureId: number;
+  featureNumber: string;
+  filePath: string;
+  eventType: FileEventType;
+  removed: boolean;
+}
+
+// ============================================
+// Search Types
+// ============================================
+
+/**
+ * Section of a spec artifact matching a search query
+ * Matched terms in the snippet are wrapped in SEARCH_MARK_START/END
+ */
+export interface SearchResult {
+  featureId: number;
+  featureNumber: string;
+  featureTitle: string | null;
+  /** Path relative to the feature directory, e.g. "contracts/api.yaml" */
+  filePath: string;
+  heading: string;
+  lineStart: number;
+  lineEnd: number;
+  snippet: string;
+}
+
+export const SEARCH_MARK_START = "\uE000";
+export const SEARCH_MARK_END = "\uE001";
+
+// ============================================
+// Diagnostics Types
+// ============================================
+
+export type DiagnosticSeverity = "error" | "warning" | "info";
+
+/**
+ * Problem found while parsing a feature's spec-kit files
+ */
+export interface ParseDiagnostic {
+  id: number;
+  featureId: number;
+  featureNumber: string;
+  /** Path relative to the feature directory, e.g. "tasks.md" */
+  filePath: string;
+  line: number;
+  column: number;
+  severity: DiagnosticSeverity;
+  /** Rule code, e.g. "tasks/missing-task-id" */
+  code: string;
+  message: string;
+}
+
 // ============================================
 // AI SDK Types (re-export from ai.ts)
 // ============================================
@@ -196,3 +283,8 @@ export * from "./schema";
 // Architecture Visualization Types (re-export from architecture.ts)
 // ============================================
 export * from "./architecture";
+
+// ============================================
+// Traceability Types (re-export from traceability.ts)
+// ============================================
+export * from "./traceability";
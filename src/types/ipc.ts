@@ -4,15 +4,45 @@
  */
 
 import type {
+  AIProviderType,
+  AnalysisRouting,
+  AnalysisStreamEvent,
+  ChatConversation,
+  ChatMessage,
+  ChatReply,
+  CodegenTarget,
+  CustomProviderProfileConfig,
+  DiagramKind,
+  DiagramLayout,
   Entity,
   Feature,
+  FeatureUpdatedEvent,
   FileChangeEvent,
+  GeneratedCode,
+  ModelPrice,
+  ParseDiagnostic,
   Plan,
   Project,
+  ProjectSnapshot,
+  ProjectAnalysisRecord,
+  ProjectAnalysisResult,
+  ProjectAnalysisType,
   ProjectStats,
+  PromptInfo,
+  PromptTestResult,
   Requirement,
   ResearchDecision,
+  SafeCustomProviderProfile,
+  SearchResult,
+  StateMachine,
   Task,
+  TaskStatus,
+  TasksDraftResult,
+  TraceabilityMatrix,
+  UnifiedModel,
+  UsageBudget,
+  UsageSummary,
+  UserStory,
 } from "./index";
 
 // ============================================
@@ -32,7 +62,11 @@ export interface ErrorResponse {
     | "NOT_FOUND"
     | "DB_ERROR"
     | "PARSE_ERROR"
-    | "FILE_SYSTEM_ERROR";
+    | "FILE_SYSTEM_ERROR"
+    | "CONFLICT"
+    | "CANCELLED"
+    | "BUDGET_EXCEEDED"
+    | "INVALID_PROMPT";
 }
 
 export type IPCResponse<T = void> = SuccessResponse<T> | ErrorResponse;
@@ -86,6 +120,7 @@ export interface FeatureGetResponse {
   tasks: Task[];
   entities: Entity[];
   requirements: Requirement[];
+  userStories: UserStory[];
   plan: Plan | null;
   researchDecisions: ResearchDecision[];
 }
@@ -103,6 +138,44 @@ export interface TasksListResponse {
   tasks: Task[];
 }
 
+export interface TaskUpdateStatusRequest {
+  taskId: number;
+  status: TaskStatus;
+  tasksHash: string;
+}
+
+export interface TaskUpdateStatusResponse {
+  tasksHash: string;
+}
+
+// ============================================
+// User Story IPC Types
+// ============================================
+
+export interface UserStoriesListRequest {
+  featureId: number;
+}
+
+export interface UserStoriesListResponse {
+  userStories: UserStory[];
+}
+
+// ============================================
+// Diagnostics IPC Types
+// ============================================
+
+export interface FeatureDiagnosticsRequest {
+  featureId: number;
+}
+
+export interface ProjectDiagnosticsRequest {
+  projectId: number;
+}
+
+export interface DiagnosticsListResponse {
+  diagnostics: ParseDiagnostic[];
+}
+
 // ============================================
 // Entity IPC Types
 // ============================================
@@ -127,6 +200,45 @@ export interface StatsOverviewResponse {
   stats: ProjectStats;
 }
 
+export interface StatsHistoryRequest {
+  projectId: number;
+  since?: number;
+}
+
+export interface StatsHistoryResponse {
+  snapshots: ProjectSnapshot[];
+}
+
+// ============================================
+// Search IPC Types
+// ============================================
+
+export interface SearchQueryRequest {
+  projectId: number;
+  query: string;
+  limit?: number;
+}
+
+export interface SearchQueryResponse {
+  results: SearchResult[];
+}
+
+// ============================================
+// File IPC Types
+// ============================================
+
+export interface DocumentSection {
+  heading: string;
+  level: number;
+  lineStart: number;
+  lineEnd: number;
+}
+
+export interface FeatureFileReadResponse {
+  content: string;
+  sections: DocumentSection[];
+}
+
 // ============================================
 // IPC Channel Names
 // ============================================
@@ -137,6 +249,7 @@ export const IPC_CHANNELS = {
   PROJECT_LIST: "project:list",
   PROJECT_SELECT: "project:select",
   PROJECT_REMOVE: "project:remove",
+  WINDOW_OPEN_PROJECT: "window:open-project",
 
   // Feature queries
   FEATURES_LIST: "features:list",
@@ -144,15 +257,84 @@ export const IPC_CHANNELS = {
 
   // Task queries
   TASKS_LIST: "tasks:list",
+  TASKS_UPDATE_STATUS: "tasks:update-status",
+
+  // User story queries
+  USER_STORIES_LIST: "stories:list",
+
+  // Parse diagnostics
+  DIAGNOSTICS_FEATURE: "diagnostics:feature",
+  DIAGNOSTICS_PROJECT: "diagnostics:project",
 
   // Entity queries
   ENTITIES_LIST: "entities:list",
 
   // Stats aggregation
   STATS_OVERVIEW: "stats:overview",
+  STATS_HISTORY: "stats:history",
+
+  // Code generated from data-model.md entities
+  CODEGEN_GENERATE: "codegen:generate",
+  CODEGEN_SAVE: "codegen:save",
+
+  // Diagram images and Mermaid text; PNG content is base64-encoded
+  DIAGRAM_SAVE: "diagram:save",
+
+  // Saved diagram layouts per feature
+  LAYOUT_GET: "layout:get",
+  LAYOUT_SAVE: "layout:save",
+  LAYOUT_RESET: "layout:reset",
+
+  // Entities merged across the features of a project
+  SCHEMA_GET_PROJECT_MODEL: "schema:get-project-model",
+
+  // Traceability
+  TRACEABILITY_GET: "traceability:get",
+
+  // Search
+  SEARCH_QUERY: "search:query",
+
+  // AI analysis; partial output arrives on
+  // `${AI_ANALYSIS_STREAM}:${requestId}`
+  AI_ANALYSIS_CANCEL: "ai-analysis:cancel",
+  AI_ANALYSIS_STREAM: "ai-analysis:stream",
+
+  // Project-wide AI analysis; streams like feature analyses
+  PROJECT_ANALYSIS_RUN: "project-analysis:run",
+  PROJECT_ANALYSIS_GET_HISTORY: "project-analysis:get-history",
+
+  // tasks.md drafts from spec and plan; written only after review
+  TASKS_DRAFT_GENERATE: "tasks-draft:generate",
+  TASKS_DRAFT_WRITE: "tasks-draft:write",
+
+  // Questions answered from a feature's or project's documents; streams
+  CHAT_LIST_CONVERSATIONS: "chat:list-conversations",
+  CHAT_CREATE_CONVERSATION: "chat:create-conversation",
+  CHAT_GET_MESSAGES: "chat:get-messages",
+  CHAT_DELETE_CONVERSATION: "chat:delete-conversation",
+  CHAT_SEND: "chat:send",
+
+  // Usage and cost accounting
+  USAGE_GET_SUMMARY: "usage:get-summary",
+  USAGE_GET_PRICING: "usage:get-pricing",
+  USAGE_SET_PRICING: "usage:set-pricing",
+  USAGE_DELETE_PRICING: "usage:delete-pricing",
+  USAGE_SYNC_OPENROUTER_PRICING: "usage:sync-openrouter-pricing",
+  USAGE_GET_BUDGETS: "usage:get-budgets",
+  USAGE_SET_BUDGET: "usage:set-budget",
+
+  // Prompt templates and project overrides
+  PROMPTS_LIST: "prompts:list",
+  PROMPTS_SAVE: "prompts:save",
+  PROMPTS_RESET: "prompts:reset",
+  PROMPTS_TEST: "prompts:test",
+
+  // File content
+  FILES_READ_FEATURE_FILE: "files:read-feature-file",
 
   // File watcher events
   FILE_WATCHER_CHANGE: "file-watcher:change",
+  FEATURE_UPDATED: "feature:updated",
 } as const;
 
 export type IPCChannelName = (typeof IPC_CHANNELS)[keyof typeof IPC_CHANNELS];
@@ -169,6 +351,7 @@ export interface ElectronAPI {
   listProjects: () => Promise<IPCResponse<ProjectListResponse>>;
   selectProject: (projectId: number) => Promise<IPCResponse<void>>;
   removeProject: (projectId: number) => Promise<IPCResponse<void>>;
+  openProjectWindow: (projectId: number) => Promise<IPCResponse<void>>;
   syncProject: (
     projectId: number,
   ) => Promise<IPCResponse<{ synced: number; errors: string[] }>>;
@@ -185,6 +368,24 @@ export interface ElectronAPI {
     featureId: number,
     groupBy?: TasksListRequest["groupBy"],
   ) => Promise<IPCResponse<TasksListResponse>>;
+  updateTaskStatus: (
+    taskId: number,
+    status: TaskUpdateStatusRequest["status"],
+    tasksHash: string,
+  ) => Promise<IPCResponse<TaskUpdateStatusResponse>>;
+
+  // User story methods
+  listUserStories: (
+    featureId: number,
+  ) => Promise<IPCResponse<UserStoriesListResponse>>;
+
+  // Diagnostics methods
+  getFeatureDiagnostics: (
+    featureId: number,
+  ) => Promise<IPCResponse<DiagnosticsListResponse>>;
+  getProjectDiagnostics: (
+    projectId: number,
+  ) => Promise<IPCResponse<DiagnosticsListResponse>>;
 
   // Entity methods
   listEntities: (
@@ -195,9 +396,16 @@ export interface ElectronAPI {
   getStatsOverview: (
     projectId: number,
   ) => Promise<IPCResponse<StatsOverviewResponse>>;
+  getStatsHistory: (
+    projectId: number,
+    since?: number,
+  ) => Promise<IPCResponse<StatsHistoryResponse>>;
 
   // File watcher listener
   onFileChange: (callback: (event: FileChangeEvent) => void) => () => void;
+  onFeatureUpdated: (
+    callback: (event: FeatureUpdatedEvent) => void,
+  ) => () => void;
 
   // AI Provider methods
   configureAIProvider: (
@@ -206,7 +414,7 @@ export interface ElectronAPI {
   ) => Promise<IPCResponse<{ activeProvider: string }>>;
   getAIProviderConfig: () => Promise<
     IPCResponse<{
-      activeProvider: "openai" | "ollama" | "openrouter" | null;
+      activeProvider: AIProviderType | null;
       openai?: { model: string; baseURL: string; hasApiKey: boolean };
       ollama?: { baseURL: string; model: string; isRunning: boolean };
       openrouter?: {
@@ -215,13 +423,15 @@ export interface ElectronAPI {
         siteUrl?: string;
         appName?: string;
       };
+      customProfiles: SafeCustomProviderProfile[];
+      routing: AnalysisRouting;
     }>
   >;
   switchAIProvider: (
-    provider: "openai" | "ollama" | "openrouter",
+    provider: AIProviderType,
   ) => Promise<IPCResponse<{ activeProvider: string }>>;
   testAIConnection: (
-    provider: "openai" | "ollama" | "openrouter",
+    provider: AIProviderType,
   ) => Promise<
     IPCResponse<{
       available: boolean;
@@ -230,12 +440,22 @@ export interface ElectronAPI {
       error?: string;
     }>
   >;
+  saveCustomProviderProfile: (
+    profile: CustomProviderProfileConfig,
+  ) => Promise<IPCResponse<{ profileId: string }>>;
+  deleteCustomProviderProfile: (
+    profileId: string,
+  ) => Promise<IPCResponse<{ deleted: boolean }>>;
+  setAnalysisRouting: (
+    routing: AnalysisRouting,
+  ) => Promise<IPCResponse<{ routing: AnalysisRouting }>>;
 
   // AI Analysis methods
   generateSummary: (
     featureId: number,
     filePath: string,
     force?: boolean,
+    requestId?: string,
   ) => Promise<
     IPCResponse<{
       requestId: string;
@@ -249,6 +469,8 @@ export interface ElectronAPI {
   checkConsistency: (
     featureId: number,
     files: string[],
+    force?: boolean,
+    requestId?: string,
   ) => Promise<
     IPCResponse<{
       requestId: string;
@@ -269,6 +491,8 @@ export interface ElectronAPI {
   findGaps: (
     featureId: number,
     filePath: string,
+    force?: boolean,
+    requestId?: string,
   ) => Promise<
     IPCResponse<{
       requestId: string;
@@ -297,6 +521,10 @@ export interface ElectronAPI {
         createdAt: number;
         duration: number;
         tokenCount: number | null;
+        validationStatus: "valid" | "repaired" | "invalid";
+        provider: string | null;
+        model: string | null;
+        stale: boolean;
         preview: string;
       }>;
     }>
@@ -304,6 +532,13 @@ export interface ElectronAPI {
   getAnalysisResult: (
     requestId: string,
   ) => Promise<IPCResponse<unknown>>;
+  cancelAnalysis: (
+    requestId: string,
+  ) => Promise<IPCResponse<{ cancelled: boolean }>>;
+  onAnalysisStream: (
+    requestId: string,
+    callback: (event: AnalysisStreamEvent) => void,
+  ) => () => void;
 
   // Schema methods
   generateSchema: (
@@ -347,22 +582,117 @@ export interface ElectronAPI {
         relationships: Array<
           { target: string; type: string; description?: string }
         >;
+        stateTransitions: StateMachine | null;
         sourceFile: string | null;
         lineNumber: number | null;
       };
     }>
   >;
 
+  getProjectDataModel: (
+    projectId: number,
+  ) => Promise<IPCResponse<UnifiedModel>>;
+
+  // Code generation methods
+  generateCode: (
+    featureId: number,
+    target: CodegenTarget,
+  ) => Promise<IPCResponse<GeneratedCode>>;
+  saveGeneratedCode: (
+    featureId: number,
+    fileName: string,
+    content: string,
+  ) => Promise<IPCResponse<{ filePath: string | null }>>;
+
+  // Diagram export methods
+  saveDiagram: (
+    featureId: number,
+    fileName: string,
+    content: string,
+    encoding: "utf-8" | "base64",
+  ) => Promise<IPCResponse<{ filePath: string | null }>>;
+
+  // Diagram layout methods
+  getDiagramLayout: (
+    featureId: number,
+    diagram: DiagramKind,
+  ) => Promise<IPCResponse<{ layout: DiagramLayout | null }>>;
+  saveDiagramLayout: (
+    featureId: number,
+    diagram: DiagramKind,
+    layout: DiagramLayout,
+  ) => Promise<IPCResponse>;
+  resetDiagramLayout: (
+    featureId: number,
+    diagram: DiagramKind,
+  ) => Promise<IPCResponse>;
+
+  // Traceability methods
+  getTraceability: (
+    featureId: number,
+  ) => Promise<IPCResponse<TraceabilityMatrix>>;
+
   // Architecture analysis methods
   analyzeArchitecture: (
     featureId: number,
     force?: boolean,
+    requestId?: string,
   ) => Promise<IPCResponse<unknown>>;
 
+  // Project analysis methods
+  runProjectAnalysis: (
+    projectId: number,
+    analysisType: ProjectAnalysisType,
+    force?: boolean,
+    requestId?: string,
+  ) => Promise<IPCResponse<ProjectAnalysisResult>>;
+  getProjectAnalysisHistory: (
+    projectId: number,
+    analysisType?: ProjectAnalysisType,
+    limit?: number,
+  ) => Promise<IPCResponse<{ analyses: ProjectAnalysisRecord[] }>>;
+
+  // Tasks draft methods
+  generateTasksDraft: (
+    featureId: number,
+    requestId?: string,
+  ) => Promise<IPCResponse<TasksDraftResult>>;
+  writeTasksDraft: (
+    featureId: number,
+    content: string,
+  ) => Promise<IPCResponse<TaskUpdateStatusResponse>>;
+
+  // Chat methods
+  listChatConversations: (
+    projectId: number,
+    featureId: number | null,
+  ) => Promise<IPCResponse<{ conversations: ChatConversation[] }>>;
+  createChatConversation: (
+    projectId: number,
+    featureId: number | null,
+  ) => Promise<IPCResponse<ChatConversation>>;
+  getChatMessages: (
+    conversationId: number,
+  ) => Promise<IPCResponse<{ messages: ChatMessage[] }>>;
+  deleteChatConversation: (
+    conversationId: number,
+  ) => Promise<IPCResponse<{ deleted: boolean }>>;
+  sendChatMessage: (
+    conversationId: number,
+    question: string,
+    requestId?: string,
+  ) => Promise<IPCResponse<ChatReply>>;
+
   // File content methods
   readSpecFile: (
     featureId: number,
-    fileType: "spec" | "plan" | "tasks" | "data-model" | "requirements",
+    fileType:
+      | "spec"
+      | "plan"
+      | "tasks"
+      | "data-model"
+      | "research"
+      | "requirements",
   ) => Promise<
     IPCResponse<{
       content: string;
@@ -379,6 +709,60 @@ export interface ElectronAPI {
       };
     }>
   >;
+  readFeatureFile: (
+    featureId: number,
+    filePath: string,
+  ) => Promise<IPCResponse<FeatureFileReadResponse>>;
+
+  // Usage methods
+  getUsageSummary: (
+    since: number,
+    projectId?: number,
+  ) => Promise<IPCResponse<UsageSummary>>;
+  getModelPricing: () => Promise<IPCResponse<{ pricing: ModelPrice[] }>>;
+  setModelPricing: (
+    model: string,
+    promptPrice: number,
+    completionPrice: number,
+  ) => Promise<IPCResponse<{ pricing: ModelPrice[] }>>;
+  deleteModelPricing: (
+    model: string,
+  ) => Promise<IPCResponse<{ pricing: ModelPrice[] }>>;
+  syncOpenRouterPricing: () => Promise<
+    IPCResponse<{ imported: number; pricing: ModelPrice[] }>
+  >;
+  getUsageBudgets: () => Promise<IPCResponse<{ budgets: UsageBudget[] }>>;
+  setUsageBudget: (
+    projectId: number | null,
+    monthlyLimit: number | null,
+  ) => Promise<IPCResponse<{ budgets: UsageBudget[] }>>;
+
+  // Prompt methods
+  listPrompts: (
+    projectId: number,
+  ) => Promise<IPCResponse<{ prompts: PromptInfo[] }>>;
+  savePrompt: (
+    projectId: number,
+    promptId: string,
+    template: string,
+  ) => Promise<IPCResponse<{ prompts: PromptInfo[] }>>;
+  resetPrompt: (
+    projectId: number,
+    promptId: string,
+  ) => Promise<IPCResponse<{ prompts: PromptInfo[] }>>;
+  testPrompt: (
+    featureId: number,
+    promptId: string,
+    template: string,
+    requestId?: string,
+  ) => Promise<IPCResponse<PromptTestResult>>;
+
+  // Search methods
+  searchQuery: (
+    projectId: number,
+    query: string,
+    limit?: number,
+  ) => Promise<IPCResponse<SearchQueryResponse>>;
 }
 
 // Augment the Window interface
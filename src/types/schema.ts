@@ -37,13 +37,47 @@ export interface ParsedEntity {
   attributes: EntityAttribute[];
   relationships: EntityRelationship[];
   validationRules?: Record<string, unknown> | null;
-  stateTransitions?: Record<string, unknown> | null;
+  stateTransitions?: StateMachine | null;
   sourceFile: string;
   lineNumber: number | null;
   createdAt: number;
   updatedAt: number;
 }
 
+/**
+ * Transition between two states of an entity
+ */
+export interface StateTransition {
+  from: string;
+  to: string;
+  /** What causes the transition, e.g. "on approval" */
+  trigger: string | null;
+}
+
+/**
+ * Problem found in an entity's state machine
+ * unreachable: no transitions lead to the state from the initial state
+ * undefined-state: a transition uses a state its state attribute does not list
+ */
+export interface StateMachineIssue {
+  type: "unreachable" | "undefined-state";
+  state: string;
+  message: string;
+}
+
+/**
+ * Lifecycle of an entity from its "State Transitions" section
+ */
+export interface StateMachine {
+  /** Attribute holding the state, when one lists the states */
+  attribute: string | null;
+  /** Declared states first, then any others the transitions mention */
+  states: string[];
+  initial: string | null;
+  transitions: StateTransition[];
+  issues: StateMachineIssue[];
+}
+
 // ============================================================================
 // Schema Graph Types (ReactFlow)
 // ============================================================================
@@ -175,6 +209,137 @@ export interface EntityDetails {
   lineNumber: number | null;
 }
 
+// ============================================================================
+// Project Data Model Types
+// ============================================================================
+
+/**
+ * How a feature's definition of an entity relates to the definitions
+ * before it
+ */
+export type DefinitionChange = "introduced" | "modified" | "unchanged";
+
+/**
+ * One feature's definition of a merged entity
+ */
+export interface UnifiedDefinition {
+  featureId: number;
+  featureNumber: string;
+  featureName: string;
+  entityId: number;
+  entityName: string;
+  change: DefinitionChange;
+  /** Attribute names compared with the previous definition */
+  added: string[];
+  removed: string[];
+  retyped: string[];
+}
+
+/**
+ * Attribute of a merged entity with each feature's version of it
+ */
+export interface UnifiedAttribute {
+  name: string;
+  variants: Array<{
+    featureId: number;
+    type: string;
+    constraints: string | null;
+  }>;
+  /**
+   * type: features give it types of different kinds
+   * missing: some features defining the entity leave it out
+   */
+  conflict: "type" | "missing" | null;
+}
+
+export interface UnifiedRelationship {
+  /** Key of the target entity, or null when no feature defines it */
+  targetKey: string | null;
+  target: string;
+  type: string;
+  featureIds: number[];
+}
+
+/**
+ * Entity merged by name across the features of a project
+ */
+export interface UnifiedEntity {
+  key: string;
+  name: string;
+  description: string | null;
+  definitions: UnifiedDefinition[];
+  attributes: UnifiedAttribute[];
+  relationships: UnifiedRelationship[];
+  conflictCount: number;
+}
+
+export interface UnifiedModel {
+  features: Array<{
+    id: number;
+    featureNumber: string;
+    featureName: string;
+    entityCount: number;
+  }>;
+  entities: UnifiedEntity[];
+  conflictCount: number;
+}
+
+// ============================================================================
+// Saved Layout Types
+// ============================================================================
+
+/**
+ * Diagram whose layout is saved per feature
+ */
+export type DiagramKind = "schema" | "architecture";
+
+export type LayoutDirection = "TB" | "LR";
+
+/**
+ * Pan and zoom of a diagram
+ */
+export interface DiagramViewport {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+/**
+ * Layout of a diagram as the user left it; nodes without a saved position
+ * are placed automatically
+ */
+export interface DiagramLayout {
+  direction: LayoutDirection;
+  /** Node positions keyed by a key that survives re-syncs */
+  positions: Record<string, Position>;
+  /** Keys of collapsed nodes or groups */
+  collapsed: string[];
+  /** Null fits the diagram to the view */
+  viewport: DiagramViewport | null;
+}
+
+// ============================================================================
+// Code Generation Types
+// ============================================================================
+
+/**
+ * Output format generated from data-model.md entities
+ */
+export type CodegenTarget = "sqlite" | "postgres" | "prisma" | "typescript" | "zod";
+
+/**
+ * Generated code for one target
+ */
+export interface GeneratedCode {
+  target: CodegenTarget;
+  code: string;
+  /** Suggested file name when saving */
+  fileName: string;
+  entityCount: number;
+  /** Attributes and relationships that could not be generated as written */
+  warnings: string[];
+}
+
 // ============================================================================
 // Cache Types
 // ============================================================================
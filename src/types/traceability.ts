@@ -0,0 +1,66 @@
+/**
+ * Traceability TypeScript Type Definitions
+ * Types for the requirement-to-task traceability matrix
+ */
+
+import type { RequirementType, TaskStatus } from "./index";
+
+// ============================================================================
+// Link Types
+// ============================================================================
+
+/**
+ * How a requirement was linked to a task
+ * - explicit: the task references the requirement ID in tasks.md
+ * - story: the requirement and the task's user story reference each other
+ * - inferred: the requirement shares key terms with the task's user story
+ */
+export type TraceLinkSource = "explicit" | "story" | "inferred";
+
+/**
+ * A single requirement-to-task link
+ */
+export interface TraceLink {
+  requirementId: string;
+  taskId: string;
+  source: TraceLinkSource;
+}
+
+// ============================================================================
+// Matrix Types
+// ============================================================================
+
+/**
+ * Requirement row of the matrix
+ */
+export interface TraceRequirement {
+  requirementId: string;
+  type: RequirementType;
+  description: string;
+}
+
+/**
+ * Task column of the matrix
+ */
+export interface TraceTask {
+  taskId: string;
+  description: string;
+  status: TaskStatus;
+  phase: string | null;
+  storyLabel: string | null;
+}
+
+/**
+ * Requirements x tasks traceability for a feature
+ */
+export interface TraceabilityMatrix {
+  requirements: TraceRequirement[];
+  tasks: TraceTask[];
+  links: TraceLink[];
+  /** Requirement IDs with no linked task */
+  orphanRequirements: string[];
+  /** Task IDs tied to no requirement */
+  orphanTasks: string[];
+  /** Percentage of requirements with at least one task */
+  coverage: number;
+}
@@ -4,8 +4,9 @@
  */
 
 import { useState, useEffect } from 'react';
-import { Card, CardBody } from '../../components/ui';
+import { Card, CardBody, Chip } from '../../components/ui';
 import { useAIAnalysis, type AnalysisRecord } from '../../hooks/useAIAnalysis';
+import { useAIProvider } from '../../contexts/AIProviderContext';
 
 interface AnalysisHistoryProps {
   featureId: number;
@@ -15,10 +16,12 @@ const ANALYSIS_TYPE_LABELS: Record<string, { label: string; icon: string }> = {
   summary: { label: 'Summary', icon: '📝' },
   consistency: { label: 'Consistency', icon: '🔍' },
   gaps: { label: 'Gap Analysis', icon: '📊' },
+  architecture: { label: 'Architecture', icon: '🏗️' },
 };
 
 export function AnalysisHistory({ featureId }: AnalysisHistoryProps) {
   const { getHistory } = useAIAnalysis();
+  const { config } = useAIProvider();
   const [records, setRecords] = useState<AnalysisRecord[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [filter, setFilter] = useState<string>('all');
@@ -48,6 +51,12 @@ export function AnalysisHistory({ featureId }: AnalysisHistoryProps) {
     return `${(ms / 1000).toFixed(1)}s`;
   };
 
+  // Custom endpoints are stored by profile ID
+  const formatProvider = (provider: string) => {
+    if (!provider.startsWith('custom:')) return provider;
+    return config?.customProfiles.find((p) => `custom:${p.id}` === provider)?.name || 'custom';
+  };
+
   return (
     <div className="space-y-6">
       {/* Filter */}
@@ -66,6 +75,7 @@ export function AnalysisHistory({ featureId }: AnalysisHistoryProps) {
               <option value="summary">Summaries</option>
               <option value="consistency">Consistency</option>
               <option value="gaps">Gap Analysis</option>
+              <option value="architecture">Architecture</option>
             </select>
           </div>
         </CardBody>
@@ -130,9 +140,20 @@ export function AnalysisHistory({ featureId }: AnalysisHistoryProps) {
 
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center justify-between mb-1">
-                        <h4 className="font-medium text-gray-900 dark:text-white">
-                          {typeInfo.label}
-                        </h4>
+                        <div className="flex items-center gap-2">
+                          <h4 className="font-medium text-gray-900 dark:text-white">
+                            {typeInfo.label}
+                          </h4>
+                          {record.validationStatus === 'invalid' && (
+                            <Chip color="danger" variant="flat" size="sm">Invalid response</Chip>
+                          )}
+                          {record.validationStatus === 'repaired' && (
+                            <Chip color="warning" variant="flat" size="sm">Repaired</Chip>
+                          )}
+                          {record.stale && (
+                            <Chip color="warning" variant="flat" size="sm">Document changed since this analysis</Chip>
+                          )}
+                        </div>
                         <span className="text-sm text-gray-500 dark:text-gray-400">
                           {formatDate(record.createdAt)}
                         </span>
@@ -145,6 +166,9 @@ export function AnalysisHistory({ featureId }: AnalysisHistoryProps) {
                       <div className="flex items-center gap-4 mt-2 text-xs text-gray-500 dark:text-gray-400">
                         <span>⏱ {formatDuration(record.duration)}</span>
                         {record.tokenCount && <span>🔢 {record.tokenCount} tokens</span>}
+                        {record.provider && record.model && (
+                          <span>🤖 {record.model} ({formatProvider(record.provider)})</span>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -38,13 +38,13 @@ export function ConsistencyView({ featureId }: ConsistencyViewProps) {
     loadFeature();
   }, [featureId]);
 
-  const handleCheck = async () => {
+  const handleCheck = async (force: boolean = false) => {
     if (!specPath || selectedFiles.length < 2) return;
 
     const basePath = specPath.replace(/spec\.md$/, '');
     const filePaths = selectedFiles.map((f) => basePath + f);
 
-    const checkResult = await checkConsistency(featureId, filePaths);
+    const checkResult = await checkConsistency(featureId, filePaths, force);
     if (checkResult) {
       setResult(checkResult);
     }
@@ -127,13 +127,24 @@ export function ConsistencyView({ featureId }: ConsistencyViewProps) {
             </div>
           </div>
 
-          <Button
-            variant="primary"
-            onClick={handleCheck}
-            disabled={isLoading || !specPath || selectedFiles.length < 2}
-          >
-            {isLoading ? 'Analyzing...' : 'Check Consistency'}
-          </Button>
+          <div className="flex gap-2">
+            <Button
+              variant="primary"
+              onClick={() => handleCheck()}
+              disabled={isLoading || !specPath || selectedFiles.length < 2}
+            >
+              {isLoading ? 'Analyzing...' : 'Check Consistency'}
+            </Button>
+            {result && !isLoading && (
+              <Button
+                variant="outline"
+                onClick={() => handleCheck(true)}
+                disabled={!specPath || selectedFiles.length < 2}
+              >
+                Re-run
+              </Button>
+            )}
+          </div>
 
           {error && (
             <div className="mt-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
@@ -1,6 +1,7 @@
 /**
  * Gap Analysis View Component
  * Identifies gaps and missing elements in specification documents
+ * Gaps are listed as they are streamed
  */
 
 import { useState, useEffect } from 'react';
@@ -30,7 +31,8 @@ const SEVERITY_STYLES: Record<string, { bg: string; text: string; icon: string }
 };
 
 export function GapAnalysisView({ featureId }: GapAnalysisViewProps) {
-  const { findGaps, isLoading, error, clearError } = useAIAnalysis();
+  const { findGaps, cancel, isLoading, partialResult, error, clearError } = useAIAnalysis();
+  const partialGaps = (partialResult as Partial<GapResult> | null)?.gaps ?? [];
   const [selectedFile, setSelectedFile] = useState<string>('spec.md');
   const [result, setResult] = useState<GapResult | null>(null);
   const [specPath, setSpecPath] = useState<string | null>(null);
@@ -50,13 +52,13 @@ export function GapAnalysisView({ featureId }: GapAnalysisViewProps) {
     loadFeature();
   }, [featureId]);
 
-  const handleAnalyze = async () => {
+  const handleAnalyze = async (force: boolean = false) => {
     if (!specPath) return;
 
     const basePath = specPath.replace(/spec\.md$/, '');
     const filePath = basePath + selectedFile;
 
-    const gapResult = await findGaps(featureId, filePath);
+    const gapResult = await findGaps(featureId, filePath, force);
     if (gapResult) {
       setResult(gapResult);
     }
@@ -126,14 +128,28 @@ export function GapAnalysisView({ featureId }: GapAnalysisViewProps) {
               </select>
             </div>
 
-            <div className="flex items-end">
+            <div className="flex items-end gap-2">
               <Button
                 variant="primary"
-                onClick={handleAnalyze}
+                onClick={() => handleAnalyze()}
                 disabled={isLoading || !specPath}
               >
                 {isLoading ? 'Analyzing...' : 'Find Gaps'}
               </Button>
+              {result && !isLoading && (
+                <Button
+                  variant="outline"
+                  onClick={() => handleAnalyze(true)}
+                  disabled={!specPath}
+                >
+                  Re-run
+                </Button>
+              )}
+              {isLoading && (
+                <Button variant="outline" onClick={cancel}>
+                  Cancel
+                </Button>
+              )}
             </div>
           </div>
 
@@ -157,11 +173,23 @@ export function GapAnalysisView({ featureId }: GapAnalysisViewProps) {
               <p className="text-gray-500 dark:text-gray-400">
                 Analyzing document for gaps...
               </p>
+              {partialGaps.length > 0 && (
+                <p className="text-sm text-gray-400 dark:text-gray-500 mt-1">
+                  {partialGaps.length} found so far
+                </p>
+              )}
             </div>
           </CardBody>
         </Card>
       )}
 
+      {/* Gaps received so far */}
+      {isLoading && partialGaps.length > 0 && (
+        <div className="space-y-4">
+          {partialGaps.map((gap, index) => renderGap(gap, index))}
+        </div>
+      )}
+
       {/* Result Display */}
       {result && !isLoading && (
         <>
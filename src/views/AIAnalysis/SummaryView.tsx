@@ -1,6 +1,7 @@
 /**
  * Summary View Component
  * Generates and displays AI-powered summaries of specification documents
+ * The summary renders while it is being streamed
  */
 
 import { useState, useEffect } from 'react';
@@ -12,7 +13,8 @@ interface SummaryViewProps {
 }
 
 export function SummaryView({ featureId }: SummaryViewProps) {
-  const { generateSummary, isLoading, error, clearError } = useAIAnalysis();
+  const { generateSummary, cancel, isLoading, partialResult, error, clearError } = useAIAnalysis();
+  const partial = partialResult as Partial<SummaryResult> | null;
   const [selectedFile, setSelectedFile] = useState<string>('spec.md');
   const [result, setResult] = useState<SummaryResult | null>(null);
   const [specPath, setSpecPath] = useState<string | null>(null);
@@ -95,7 +97,7 @@ export function SummaryView({ featureId }: SummaryViewProps) {
               </select>
             </div>
 
-            <div className="flex items-end">
+            <div className="flex items-end gap-2">
               <Button
                 variant="primary"
                 onClick={handleGenerate}
@@ -103,6 +105,11 @@ export function SummaryView({ featureId }: SummaryViewProps) {
               >
                 {isLoading ? 'Generating...' : 'Generate Summary'}
               </Button>
+              {isLoading && (
+                <Button variant="outline" onClick={cancel}>
+                  Cancel
+                </Button>
+              )}
             </div>
           </div>
 
@@ -120,8 +127,44 @@ export function SummaryView({ featureId }: SummaryViewProps) {
         </CardBody>
       </Card>
 
+      {/* Streaming State */}
+      {isLoading && partial?.summary && (
+        <Card>
+          <CardBody>
+            <div className="flex items-center gap-2 mb-4">
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-violet-600"></div>
+              <h3 className="font-medium text-gray-900 dark:text-white">
+                Writing summary...
+              </h3>
+            </div>
+
+            <div className="prose prose-sm dark:prose-invert max-w-none mb-6">
+              <p className="text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+                {partial.summary}
+              </p>
+            </div>
+
+            {partial.keyPoints && partial.keyPoints.length > 0 && (
+              <ul className="space-y-2">
+                {partial.keyPoints.map((point, index) => (
+                  <li
+                    key={index}
+                    className="flex items-start gap-2 text-gray-600 dark:text-gray-300"
+                  >
+                    <span className="w-5 h-5 rounded-full bg-violet-100 dark:bg-violet-900/30 text-violet-600 dark:text-violet-400 flex items-center justify-center text-xs flex-shrink-0 mt-0.5">
+                      {index + 1}
+                    </span>
+                    <span>{point}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardBody>
+        </Card>
+      )}
+
       {/* Loading State */}
-      {isLoading && (
+      {isLoading && !partial?.summary && (
         <Card>
           <CardBody className="py-12">
             <div className="flex flex-col items-center justify-center">
@@ -7,17 +7,20 @@ import { useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Card, CardBody, Button } from '../../components/ui';
 import { useAIProvider } from '../../contexts/AIProviderContext';
+import { useProject } from '../../contexts/ProjectContext';
+import ChatPanel from '../../components/ChatPanel';
 import SummaryView from './SummaryView';
 import ConsistencyView from './ConsistencyView';
 import GapAnalysisView from './GapAnalysisView';
 import AnalysisHistory from './AnalysisHistory';
 
-type AnalysisTab = 'summary' | 'consistency' | 'gaps' | 'history';
+type AnalysisTab = 'summary' | 'consistency' | 'gaps' | 'ask' | 'history';
 
 export function AIAnalysis() {
   const { featureId } = useParams<{ featureId: string }>();
   const navigate = useNavigate();
-  const { isConfigured, activeProvider } = useAIProvider();
+  const { config, isConfigured, activeProvider } = useAIProvider();
+  const { activeProject } = useProject();
   const [activeTab, setActiveTab] = useState<AnalysisTab>('summary');
 
   const numericFeatureId = featureId ? parseInt(featureId, 10) : null;
@@ -103,7 +106,9 @@ export function AIAnalysis() {
             AI Analysis
           </h1>
           <p className="text-gray-500 dark:text-gray-400 mt-1">
-            Powered by {activeProvider === 'openai' ? 'OpenAI' : 'Ollama'}
+            Powered by {activeProvider?.startsWith('custom:')
+              ? config?.customProfiles.find((p) => `custom:${p.id}` === activeProvider)?.name
+              : activeProvider === 'openai' ? 'OpenAI' : activeProvider === 'openrouter' ? 'OpenRouter' : 'Ollama'}
           </p>
         </div>
         <div className="flex items-center gap-2">
@@ -138,6 +143,7 @@ export function AIAnalysis() {
             { id: 'summary' as const, label: 'Summary', icon: '📝' },
             { id: 'consistency' as const, label: 'Consistency', icon: '🔍' },
             { id: 'gaps' as const, label: 'Gap Analysis', icon: '📊' },
+            { id: 'ask' as const, label: 'Ask', icon: '💬' },
             { id: 'history' as const, label: 'History', icon: '📜' },
           ].map((tab) => (
             <button
@@ -160,6 +166,9 @@ export function AIAnalysis() {
         {activeTab === 'summary' && <SummaryView featureId={numericFeatureId} />}
         {activeTab === 'consistency' && <ConsistencyView featureId={numericFeatureId} />}
         {activeTab === 'gaps' && <GapAnalysisView featureId={numericFeatureId} />}
+        {activeTab === 'ask' && activeProject && (
+          <ChatPanel projectId={activeProject.id} featureId={numericFeatureId} />
+        )}
         {activeTab === 'history' && <AnalysisHistory featureId={numericFeatureId} />}
       </div>
     </div>
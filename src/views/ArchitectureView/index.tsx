@@ -3,7 +3,7 @@
  * AI-powered architecture workflow visualization using ReactFlow
  */
 
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useMemo, useState, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import ReactFlow, {
   Node,
@@ -20,10 +20,56 @@ import 'reactflow/dist/style.css';
 import { Card, CardBody, Button, Chip } from '../../components/ui';
 import LoadingSpinner from '../../components/LoadingSpinner';
 import { architectureNodeTypes } from './nodes';
-import { getLayoutedElements } from './layout-utils';
 import { useArchitecture } from '../../hooks/useArchitecture';
+import { useDiagramLayout } from '../../hooks/useDiagramLayout';
+import DiagramExportMenu, { architectureToMermaid, type DiagramBox } from '../../components/DiagramExport';
+import DiagramLayoutControls from '../../components/DiagramLayoutControls';
 import type { Feature, ArchitectureResult } from '../../types';
 
+const NODE_COLORS: Record<string, string> = {
+  actor: '#3b82f6',   // Blue
+  system: '#a855f7',  // Purple
+  process: '#f97316', // Orange
+  data: '#10b981',    // Green
+};
+
+const LEGEND = [
+  { type: 'actor', label: 'Actors/Users', dotClass: 'bg-blue-500' },
+  { type: 'system', label: 'Systems/Modules', dotClass: 'bg-purple-500' },
+  { type: 'process', label: 'Processes/Actions', dotClass: 'bg-orange-500' },
+  { type: 'data', label: 'Data Stores', dotClass: 'bg-green-500' },
+];
+
+/**
+ * Component box for image export, with its description wrapped to the width
+ */
+function toComponentBox(node: Node, size: { width: number; height: number }): DiagramBox {
+  const color = NODE_COLORS[node.type ?? ''] ?? '#6366f1';
+  const maxChars = Math.floor((size.width - 24) / 6.4);
+  const lines: string[] = [];
+  for (const word of String(node.data.description ?? '').split(/\s+/).filter(Boolean)) {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && `${last} ${word}`.length <= maxChars) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else {
+      lines.push(word);
+    }
+  }
+
+  return {
+    id: node.id,
+    x: node.position.x,
+    y: node.position.y,
+    ...size,
+    title: node.data.label,
+    subtitle: node.data.type,
+    lines,
+    headerFill: color,
+    headerText: '#ffffff',
+    border: color,
+  };
+}
+
 export function ArchitectureView() {
   const { featureId } = useParams<{ featureId: string }>();
   const navigate = useNavigate();
@@ -31,10 +77,26 @@ export function ArchitectureView() {
   const [isLoadingFeature, setIsLoadingFeature] = useState(true);
   const [featureError, setFeatureError] = useState<string | null>(null);
 
-  const { isLoading: isAnalyzing, error: analysisError, analyzeArchitecture, clearError } = useArchitecture();
+  const { isLoading: isAnalyzing, error: analysisError, analyzeArchitecture, cancel: cancelAnalysis, clearError } = useArchitecture();
 
   const [nodes, setNodes, onNodesChange] = useNodesState([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState([]);
+  const [architecture, setArchitecture] = useState<ArchitectureResult | null>(null);
+  const [elements, setElements] = useState<{ nodes: Node[]; edges: Edge[] } | null>(null);
+
+  // Increased spacing for architectural diagrams
+  const layout = useDiagramLayout({
+    featureId: featureId ? Number(featureId) : null,
+    diagram: 'architecture',
+    defaultDirection: 'TB',
+    layoutOptions: {
+      nodeWidth: 240,
+      nodeHeight: 180,
+      rankSeparation: 180,  // More space between levels
+      nodeSeparation: 120,  // More space between nodes
+    },
+  });
+  const { isLoaded: isLayoutLoaded, layoutVersion, arrange, collapsed, toggleCollapsed } = layout;
 
   // Load feature metadata
   useEffect(() => {
@@ -138,22 +200,22 @@ export function ArchitectureView() {
       });
     });
 
-    // Apply auto-layout with increased spacing for architectural diagrams
-    const { nodes: layoutedNodes, edges: layoutedEdges } = getLayoutedElements(
-      newNodes,
-      newEdges,
-      {
-        direction: 'TB',
-        nodeWidth: 240,
-        nodeHeight: 180,
-        rankSeparation: 180,  // More vertical space between levels
-        nodeSeparation: 120,  // More horizontal space between nodes
-      },
-    );
+    setElements({ nodes: newNodes, edges: newEdges });
+  }, []);
 
-    setNodes(layoutedNodes);
-    setEdges(layoutedEdges);
-  }, [setNodes, setEdges]);
+  // Place nodes from the saved layout, automatically where there is none
+  useEffect(() => {
+    if (isLayoutLoaded && elements) {
+      setNodes(arrange(elements.nodes, elements.edges));
+      setEdges(elements.edges);
+    }
+  }, [elements, isLayoutLoaded, layoutVersion, arrange, setNodes, setEdges]);
+
+  // Collapsed groups hide their components along with their connections
+  const displayedNodes = useMemo(
+    () => nodes.map((node) => ({ ...node, hidden: collapsed.includes(node.type ?? '') })),
+    [nodes, collapsed],
+  );
 
   // Trigger architecture analysis
   const handleAnalyzeArchitecture = useCallback(async (force: boolean = false) => {
@@ -163,6 +225,7 @@ export function ArchitectureView() {
     const result = await analyzeArchitecture(Number(featureId), force);
 
     if (result) {
+      setArchitecture(result);
       convertToReactFlowElements(result);
     }
   }, [featureId, analyzeArchitecture, clearError, convertToReactFlowElements]);
@@ -179,8 +242,13 @@ export function ArchitectureView() {
 
   if (isLoading) {
     return (
-      <div className="flex items-center justify-center min-h-[60vh]">
+      <div className="flex flex-col items-center justify-center gap-4 min-h-[60vh]">
         <LoadingSpinner size="lg" label={isAnalyzing ? "AI is analyzing architecture..." : "Loading feature..."} />
+        {isAnalyzing && (
+          <Button variant="outline" size="sm" onPress={cancelAnalysis}>
+            Cancel
+          </Button>
+        )}
       </div>
     );
   }
@@ -315,50 +383,64 @@ export function ArchitectureView() {
       ) : (
         <Card className="h-[calc(100vh-200px)] overflow-hidden">
           <ReactFlow
-            nodes={nodes}
+            nodes={displayedNodes}
             edges={edges}
             onNodesChange={onNodesChange}
             onEdgesChange={onEdgesChange}
+            onNodeDragStop={(_event, _node, dragged) => layout.savePositions([...nodes, ...dragged])}
+            onMoveEnd={(event, viewport) => {
+              // Only pans and zooms by the user; fitting the view is not a choice
+              if (event) layout.saveViewport(viewport);
+            }}
             nodeTypes={architectureNodeTypes}
-            fitView
+            fitView={!layout.initialViewport}
+            defaultViewport={layout.initialViewport ?? undefined}
             attributionPosition="bottom-left"
           >
+            <DiagramLayoutControls
+              direction={layout.direction}
+              onDirectionChange={layout.setDirection}
+              onReset={layout.resetLayout}
+              position="top-left"
+            />
             <Background color="#e5e7eb" gap={16} />
             <Controls />
             <MiniMap
-              nodeColor={(node) => {
-                switch (node.type) {
-                  case 'actor': return '#3b82f6';  // Blue
-                  case 'system': return '#a855f7';  // Purple
-                  case 'process': return '#f97316'; // Orange
-                  case 'data': return '#10b981';     // Green
-                  default: return '#6366f1';
-                }
-              }}
+              nodeColor={(node) => NODE_COLORS[node.type ?? ''] ?? '#6366f1'}
               maskColor="rgba(0, 0, 0, 0.1)"
               className="bg-white dark:bg-gray-800"
             />
             <Panel position="top-right" className="bg-white dark:bg-gray-800 p-3 rounded shadow-lg">
               <div className="text-xs space-y-2">
                 <p className="font-semibold text-gray-700 dark:text-gray-300 mb-2">Legend</p>
-                <div className="flex items-center gap-2">
-                  <div className="w-3 h-3 rounded-full bg-blue-500"></div>
-                  <span className="text-gray-600 dark:text-gray-400">Actors/Users</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-3 h-3 rounded-full bg-purple-500"></div>
-                  <span className="text-gray-600 dark:text-gray-400">Systems/Modules</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-3 h-3 rounded-full bg-orange-500"></div>
-                  <span className="text-gray-600 dark:text-gray-400">Processes/Actions</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-3 h-3 rounded-full bg-green-500"></div>
-                  <span className="text-gray-600 dark:text-gray-400">Data Stores</span>
-                </div>
+                {LEGEND.map(({ type, label, dotClass }) => {
+                  const isCollapsed = collapsed.includes(type);
+                  return (
+                    <button
+                      key={type}
+                      type="button"
+                      onClick={() => toggleCollapsed(type)}
+                      className={`flex items-center gap-2 w-full text-left ${isCollapsed ? 'opacity-50' : ''}`}
+                      title={isCollapsed ? 'Show group' : 'Collapse group'}
+                    >
+                      <div className={`w-3 h-3 rounded-full ${dotClass}`}></div>
+                      <span className={`text-gray-600 dark:text-gray-400 ${isCollapsed ? 'line-through' : ''}`}>
+                        {label}
+                      </span>
+                    </button>
+                  );
+                })}
               </div>
             </Panel>
+            {architecture && (
+              <DiagramExportMenu
+                featureId={feature.id}
+                fileBaseName="architecture"
+                toBox={toComponentBox}
+                edgeColor="#64748b"
+                toMermaid={() => architectureToMermaid(architecture)}
+              />
+            )}
             <Panel position="bottom-right" className="bg-white dark:bg-gray-800 p-2 rounded shadow text-xs text-gray-500">
               Drag to pan • Scroll to zoom
             </Panel>
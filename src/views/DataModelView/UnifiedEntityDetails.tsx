@@ -0,0 +1,190 @@
+/**
+ * Unified Entity Details Panel
+ * Side panel showing how each feature defines a merged entity and the
+ * attributes they disagree on
+ */
+
+import { Link } from 'react-router-dom';
+import type { UnifiedEntity } from '../../types';
+
+interface UnifiedEntityDetailsProps {
+  entity: UnifiedEntity;
+  onClose: () => void;
+}
+
+const CHANGE_LABELS = {
+  introduced: 'Introduces',
+  modified: 'Modifies',
+  unchanged: 'Repeats',
+};
+
+export function UnifiedEntityDetails({ entity, onClose }: UnifiedEntityDetailsProps) {
+  const featureNumbers = new Map(
+    entity.definitions.map((definition) => [definition.featureId, definition.featureNumber]),
+  );
+
+  return (
+    <div className="w-96 h-full bg-white dark:bg-gray-900 border-l border-gray-200 dark:border-gray-700 overflow-y-auto">
+      {/* Header */}
+      <div className="sticky top-0 bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700 p-4 z-10">
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold text-lg text-gray-900 dark:text-white">
+            {entity.name}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-500 dark:text-gray-400"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        {entity.description && (
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            {entity.description}
+          </p>
+        )}
+      </div>
+
+      {/* Content */}
+      <div className="p-4 space-y-6">
+        {/* Features */}
+        <div>
+          <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">
+            Features ({entity.definitions.length})
+          </h3>
+          <div className="space-y-2">
+            {entity.definitions.map((definition) => (
+              <div
+                key={definition.featureId}
+                className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg text-sm"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <Link
+                    to={`/features/${definition.featureId}/schema`}
+                    className="font-medium text-violet-600 dark:text-violet-400 hover:underline truncate"
+                  >
+                    #{definition.featureNumber} {definition.featureName}
+                  </Link>
+                  <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">
+                    {CHANGE_LABELS[definition.change]}
+                  </span>
+                </div>
+                {definition.entityName !== entity.name && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Named {definition.entityName}
+                  </p>
+                )}
+                {definition.change === 'modified' && (
+                  <ul className="mt-1 space-y-0.5 text-xs font-mono">
+                    {definition.added.map((name) => (
+                      <li key={`+${name}`} className="text-green-600 dark:text-green-400">+ {name}</li>
+                    ))}
+                    {definition.removed.map((name) => (
+                      <li key={`-${name}`} className="text-red-600 dark:text-red-400">- {name}</li>
+                    ))}
+                    {definition.retyped.map((name) => (
+                      <li key={`~${name}`} className="text-amber-600 dark:text-amber-400">~ {name}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Merged Attributes */}
+        <div>
+          <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">
+            Attributes ({entity.attributes.length})
+          </h3>
+          {entity.attributes.length === 0 ? (
+            <p className="text-sm text-gray-400 dark:text-gray-500 italic">
+              No attributes defined
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {entity.attributes.map((attribute) => (
+                <div
+                  key={attribute.name}
+                  className={`p-3 rounded-lg text-sm ${
+                    attribute.conflict === 'type'
+                      ? 'bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800'
+                      : attribute.conflict === 'missing'
+                        ? 'bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800'
+                        : 'bg-gray-50 dark:bg-gray-800'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-gray-900 dark:text-white">
+                      {attribute.name}
+                    </span>
+                    {attribute.conflict === 'type' && (
+                      <span className="text-xs text-red-600 dark:text-red-400">Type conflict</span>
+                    )}
+                    {attribute.conflict === 'missing' && (
+                      <span className="text-xs text-amber-600 dark:text-amber-400">
+                        Missing in {entity.definitions.length - attribute.variants.length} feature
+                        {entity.definitions.length - attribute.variants.length === 1 ? '' : 's'}
+                      </span>
+                    )}
+                  </div>
+                  <ul className="mt-1 space-y-0.5">
+                    {attribute.variants.map((variant) => (
+                      <li key={variant.featureId} className="flex items-center gap-2 text-xs">
+                        <span className="text-gray-500 dark:text-gray-400 font-mono">
+                          #{featureNumbers.get(variant.featureId)}
+                        </span>
+                        <span className="text-violet-600 dark:text-violet-400 font-mono">
+                          {variant.type}
+                        </span>
+                        {variant.constraints && (
+                          <span className="text-gray-500 dark:text-gray-400 truncate">
+                            {variant.constraints}
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Relationships */}
+        {entity.relationships.length > 0 && (
+          <div>
+            <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">
+              Relationships ({entity.relationships.length})
+            </h3>
+            <ul className="space-y-1">
+              {entity.relationships.map((relationship) => (
+                <li
+                  key={`${relationship.target}|${relationship.type}`}
+                  className="flex items-center gap-2 text-sm"
+                >
+                  <span className="text-purple-500 font-mono text-xs">{relationship.type}</span>
+                  <span
+                    className={relationship.targetKey
+                      ? 'text-gray-700 dark:text-gray-300'
+                      : 'text-gray-400 dark:text-gray-500 italic'}
+                    title={relationship.targetKey ? undefined : 'No feature defines this entity'}
+                  >
+                    {relationship.target}
+                  </span>
+                  <span className="text-xs text-gray-400 ml-auto">
+                    {relationship.featureIds.map((id) => `#${featureNumbers.get(id)}`).join(' ')}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default UnifiedEntityDetails;
@@ -0,0 +1,96 @@
+/**
+ * Unified Entity Node Component
+ * ReactFlow node for an entity merged across features, with the features
+ * that define it and its conflicts
+ */
+
+import { memo } from 'react';
+import { Handle, Position } from 'reactflow';
+import type { NodeProps } from 'reactflow';
+import type { UnifiedEntity } from '../../types';
+
+export interface UnifiedEntityNodeData {
+  entity: UnifiedEntity;
+  /** Features the graph is filtered to; empty when showing all */
+  selectedFeatureIds: number[];
+}
+
+export const UnifiedEntityNode = memo(function UnifiedEntityNode({
+  data,
+  selected,
+}: NodeProps<UnifiedEntityNodeData>) {
+  const { entity, selectedFeatureIds } = data;
+  const hasConflicts = entity.conflictCount > 0;
+
+  return (
+    <div
+      className={`
+        relative bg-white dark:bg-gray-800 rounded-lg shadow-md border-2 transition-all
+        ${selected
+          ? 'border-violet-500 shadow-lg shadow-violet-500/20'
+          : hasConflicts
+            ? 'border-amber-300 dark:border-amber-700 hover:border-amber-400'
+            : 'border-gray-200 dark:border-gray-700 hover:border-violet-300 dark:hover:border-violet-700'
+        }
+        min-w-[220px] max-w-[280px]
+      `}
+    >
+      <Handle
+        type="target"
+        position={Position.Left}
+        className="w-3 h-3 !bg-violet-500 border-2 border-white dark:border-gray-800"
+      />
+
+      {/* Header */}
+      <div className="px-4 py-3 bg-gradient-to-r from-violet-50 to-purple-50 dark:from-violet-900/20 dark:to-purple-900/20 border-b border-gray-200 dark:border-gray-700 rounded-t-md">
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="font-semibold text-gray-900 dark:text-white text-sm">
+            {entity.name}
+          </h3>
+          {hasConflicts && (
+            <span
+              className="px-1.5 py-0.5 rounded text-[10px] font-medium bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300"
+              title="Attributes the features disagree on"
+            >
+              {entity.conflictCount} conflict{entity.conflictCount === 1 ? '' : 's'}
+            </span>
+          )}
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+          {entity.attributes.length} attributes, {entity.relationships.length} relations
+        </p>
+      </div>
+
+      {/* Defining features, in the order they touched the entity */}
+      <div className="px-3 py-2 flex flex-wrap gap-1">
+        {entity.definitions.map((definition) => {
+          const dimmed = selectedFeatureIds.length > 0 &&
+            !selectedFeatureIds.includes(definition.featureId);
+          return (
+            <span
+              key={definition.featureId}
+              className={`px-1.5 py-0.5 rounded font-mono text-[10px] ${
+                definition.change === 'introduced'
+                  ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300'
+                  : definition.change === 'modified'
+                    ? 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300'
+                    : 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300'
+              } ${dimmed ? 'opacity-40' : ''}`}
+              title={`${definition.featureName} (${definition.change})`}
+            >
+              #{definition.featureNumber}
+            </span>
+          );
+        })}
+      </div>
+
+      <Handle
+        type="source"
+        position={Position.Right}
+        className="w-3 h-3 !bg-violet-500 border-2 border-white dark:border-gray-800"
+      />
+    </div>
+  );
+});
+
+export default UnifiedEntityNode;
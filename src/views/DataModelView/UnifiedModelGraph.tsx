@@ -0,0 +1,193 @@
+/**
+ * Unified Model Graph Component
+ * ReactFlow canvas for the entities of a project merged across features
+ */
+
+import { useCallback, useEffect, useMemo } from 'react';
+import ReactFlow, {
+  Background,
+  Controls,
+  MiniMap,
+  Panel,
+  useNodesState,
+  useEdgesState,
+  type Node,
+  type Edge,
+} from 'reactflow';
+import 'reactflow/dist/style.css';
+import UnifiedEntityNode, { type UnifiedEntityNodeData } from './UnifiedEntityNode';
+import { getLayoutedElements } from '../ArchitectureView/layout-utils';
+import type { UnifiedEntity } from '../../types';
+
+interface UnifiedModelGraphProps {
+  entities: UnifiedEntity[];
+  /** Features the graph is filtered to; empty when showing all */
+  selectedFeatureIds: number[];
+  onEntitySelect: (key: string) => void;
+  selectedKey?: string;
+}
+
+// Custom node types
+const nodeTypes = {
+  unifiedEntity: UnifiedEntityNode,
+};
+
+// Default edge options
+const defaultEdgeOptions = {
+  style: {
+    strokeWidth: 2,
+    stroke: '#a78bfa', // violet-400
+  },
+  labelStyle: {
+    fill: '#6b7280',
+    fontSize: 12,
+  },
+  labelBgStyle: {
+    fill: '#ffffff',
+  },
+};
+
+const nodeId = (key: string) => `entity-${key}`;
+
+/**
+ * Nodes and edges for the entities, keeping relationships declared by the
+ * selected features only
+ */
+function buildElements(
+  entities: UnifiedEntity[],
+  selectedFeatureIds: number[],
+): { nodes: Node<UnifiedEntityNodeData>[]; edges: Edge[] } {
+  const inFilter = (featureIds: number[]) =>
+    selectedFeatureIds.length === 0 || featureIds.some((id) => selectedFeatureIds.includes(id));
+  const keys = new Set(entities.map((entity) => entity.key));
+
+  const nodes = entities.map((entity): Node<UnifiedEntityNodeData> => ({
+    id: nodeId(entity.key),
+    type: 'unifiedEntity',
+    position: { x: 0, y: 0 },
+    data: { entity, selectedFeatureIds },
+  }));
+
+  const edges: Edge[] = [];
+  const seen = new Set<string>();
+  for (const entity of entities) {
+    for (const relationship of entity.relationships) {
+      const { targetKey } = relationship;
+      if (!targetKey || !keys.has(targetKey) || !inFilter(relationship.featureIds)) continue;
+
+      // Declared from both sides, drawn once
+      const pair = [entity.key, targetKey].sort().join('|');
+      if (seen.has(pair)) continue;
+      seen.add(pair);
+
+      edges.push({
+        id: `${entity.key}-${targetKey}`,
+        source: nodeId(entity.key),
+        target: nodeId(targetKey),
+        label: relationship.type,
+      });
+    }
+  }
+
+  return getLayoutedElements(nodes, edges, {
+    direction: 'LR',
+    nodeWidth: 280,
+    nodeHeight: 140,
+    nodeSeparation: 60,
+    rankSeparation: 120,
+  });
+}
+
+export function UnifiedModelGraph({
+  entities,
+  selectedFeatureIds,
+  onEntitySelect,
+  selectedKey,
+}: UnifiedModelGraphProps) {
+  const elements = useMemo(
+    () => buildElements(entities, selectedFeatureIds),
+    [entities, selectedFeatureIds],
+  );
+
+  // Use ReactFlow state management
+  const [nodes, setNodes, onNodesChange] = useNodesState(elements.nodes);
+  const [edges, setEdges, onEdgesChange] = useEdgesState(elements.edges);
+
+  useEffect(() => {
+    setNodes(elements.nodes);
+    setEdges(elements.edges);
+  }, [elements, setNodes, setEdges]);
+
+  const onNodeClick = useCallback(
+    (_event: React.MouseEvent, node: Node<UnifiedEntityNodeData>) => {
+      onEntitySelect(node.data.entity.key);
+    },
+    [onEntitySelect]
+  );
+
+  return (
+    <div className="h-full w-full bg-gray-50 dark:bg-gray-900">
+      <ReactFlow
+        nodes={nodes}
+        edges={edges}
+        onNodesChange={onNodesChange}
+        onEdgesChange={onEdgesChange}
+        onNodeClick={onNodeClick}
+        nodeTypes={nodeTypes}
+        defaultEdgeOptions={defaultEdgeOptions}
+        fitView
+        fitViewOptions={{ padding: 0.2 }}
+        minZoom={0.2}
+        maxZoom={2}
+        proOptions={{ hideAttribution: true }}
+        className="schema-flow"
+      >
+        <Background
+          color="#e5e7eb"
+          gap={16}
+          size={1}
+        />
+        <Controls
+          showZoom
+          showFitView
+          showInteractive={false}
+          className="!bg-white dark:!bg-gray-800 !shadow-lg !border !border-gray-200 dark:!border-gray-700 !rounded-lg"
+        />
+        <MiniMap
+          nodeColor={(node: Node<UnifiedEntityNodeData>) => {
+            if (selectedKey && node.id === nodeId(selectedKey)) return '#8b5cf6'; // violet-500
+            if (node.data.entity.conflictCount > 0) return '#fcd34d'; // amber-300
+            return '#e5e7eb'; // gray-200
+          }}
+          className="!bg-white dark:!bg-gray-800 !border !border-gray-200 dark:!border-gray-700 !rounded-lg"
+          maskColor="rgba(0, 0, 0, 0.1)"
+        />
+
+        {/* Legend Panel */}
+        <Panel position="top-left" className="!m-4">
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-3">
+            <h4 className="text-xs font-semibold text-gray-500 dark:text-gray-400 mb-2 uppercase tracking-wide">
+              Legend
+            </h4>
+            <div className="space-y-2 text-xs">
+              <div className="flex items-center gap-2">
+                <span className="w-4 h-3 rounded bg-green-100 dark:bg-green-900/30"></span>
+                <span className="text-gray-600 dark:text-gray-300">Introduced by feature</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="w-4 h-3 rounded bg-blue-100 dark:bg-blue-900/30"></span>
+                <span className="text-gray-600 dark:text-gray-300">Modified by feature</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="w-4 h-3 rounded border-2 border-amber-300 dark:border-amber-700"></span>
+                <span className="text-gray-600 dark:text-gray-300">Has conflicts</span>
+              </div>
+            </div>
+          </div>
+        </Panel>
+      </ReactFlow>
+    </div>
+  );
+}
+
+export default UnifiedModelGraph;
@@ -0,0 +1,235 @@
+/**
+ * Speckit Dashboard - Data Model View
+ * Project-wide schema merging the entities of every feature by name
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Card, CardBody, Button } from '../../components/ui';
+import { useProject } from '../../contexts/ProjectContext';
+import LoadingSpinner from '../../components/LoadingSpinner';
+import useFeatureUpdates from '../../hooks/useFeatureUpdates';
+import UnifiedModelGraph from './UnifiedModelGraph';
+import UnifiedEntityDetails from './UnifiedEntityDetails';
+import type { UnifiedModel } from '../../types';
+
+export function DataModelView() {
+  const { activeProject } = useProject();
+  const [model, setModel] = useState<UnifiedModel | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedFeatureIds, setSelectedFeatureIds] = useState<number[]>([]);
+  const [conflictsOnly, setConflictsOnly] = useState(false);
+  const [selectedKey, setSelectedKey] = useState<string | undefined>();
+
+  const loadModel = useCallback(async (isRefresh = false) => {
+    if (!activeProject) {
+      setIsLoading(false);
+      return;
+    }
+
+    if (!isRefresh) {
+      setIsLoading(true);
+    }
+    setError(null);
+
+    try {
+      const response = await window.electronAPI.getProjectDataModel(activeProject.id);
+      if (response.success && response.data) {
+        setModel(response.data);
+      } else if (!response.success) {
+        setError(response.error);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the data model');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [activeProject]);
+
+  useEffect(() => {
+    setSelectedFeatureIds([]);
+    setSelectedKey(undefined);
+    loadModel();
+  }, [loadModel]);
+
+  // Merge again when a data model of the active project changes on disk
+  useFeatureUpdates((event) => {
+    if (event.projectId === activeProject?.id &&
+      (event.removed || event.filePath.endsWith('data-model.md'))) {
+      loadModel(true);
+    }
+  });
+
+  // Features without entities have nothing to filter by
+  const features = useMemo(
+    () => (model?.features ?? []).filter((feature) => feature.entityCount > 0),
+    [model],
+  );
+
+  const entities = useMemo(
+    () => (model?.entities ?? []).filter((entity) =>
+      (selectedFeatureIds.length === 0 ||
+        entity.definitions.some((d) => selectedFeatureIds.includes(d.featureId))) &&
+      (!conflictsOnly || entity.conflictCount > 0)
+    ),
+    [model, selectedFeatureIds, conflictsOnly],
+  );
+
+  const selectedEntity = entities.find((entity) => entity.key === selectedKey);
+
+  const toggleFeature = (featureId: number) => {
+    setSelectedFeatureIds((ids) =>
+      ids.includes(featureId) ? ids.filter((id) => id !== featureId) : [...ids, featureId]
+    );
+  };
+
+  if (!activeProject) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Card className="max-w-md">
+          <CardBody className="text-center py-8">
+            <h3 className="text-lg font-semibold mb-2">No Project Selected</h3>
+            <p className="text-gray-500 dark:text-gray-400">
+              Configure a Spec-kit project to see its data model.
+            </p>
+          </CardBody>
+        </Card>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <LoadingSpinner size="lg" label="Merging data models..." />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Card className="max-w-md bg-red-50 dark:bg-red-900/20">
+          <CardBody className="text-center py-8">
+            <p className="text-red-500">{error}</p>
+          </CardBody>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!model || model.entities.length === 0) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+            Data Model
+          </h1>
+          <p className="text-gray-500 dark:text-gray-400 mt-1">
+            Entities across every feature of {activeProject.name}
+          </p>
+        </div>
+
+        <Card>
+          <CardBody className="text-center py-12">
+            <h3 className="text-lg font-semibold mb-2 text-gray-900 dark:text-white">
+              No Entities Found
+            </h3>
+            <p className="text-gray-500 dark:text-gray-400 max-w-md mx-auto">
+              Add data-model.md files with entity definitions to your features to see the project data model.
+            </p>
+          </CardBody>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-[calc(100vh-200px)] flex flex-col">
+      {/* Page Header */}
+      <div className="flex items-center gap-4 mb-4">
+        <div className="flex-1">
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+            Data Model
+          </h1>
+          <p className="text-gray-500 dark:text-gray-400 mt-1">
+            {model.entities.length} entities from {features.length} features
+            {model.conflictCount > 0 && (
+              <span className="text-amber-600 dark:text-amber-400">
+                {' '}· {model.conflictCount} conflicting attribute{model.conflictCount === 1 ? '' : 's'}
+              </span>
+            )}
+          </p>
+        </div>
+        <Button
+          size="sm"
+          variant={conflictsOnly ? 'primary' : 'flat'}
+          onPress={() => setConflictsOnly((only) => !only)}
+          isDisabled={model.conflictCount === 0}
+        >
+          Conflicts Only
+        </Button>
+        <Button variant="secondary" size="sm" onPress={() => loadModel(true)}>
+          Refresh
+        </Button>
+      </div>
+
+      {/* Feature Filter */}
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <button
+          type="button"
+          onClick={() => setSelectedFeatureIds([])}
+          className={`px-3 py-1 rounded-full text-sm transition-colors ${
+            selectedFeatureIds.length === 0
+              ? 'bg-violet-600 text-white'
+              : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+          }`}
+        >
+          All features
+        </button>
+        {features.map((feature) => (
+          <button
+            key={feature.id}
+            type="button"
+            onClick={() => toggleFeature(feature.id)}
+            className={`px-3 py-1 rounded-full text-sm transition-colors ${
+              selectedFeatureIds.includes(feature.id)
+                ? 'bg-violet-600 text-white'
+                : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+            }`}
+            title={`${feature.entityCount} entities`}
+          >
+            #{feature.featureNumber} {feature.featureName}
+          </button>
+        ))}
+      </div>
+
+      {/* Graph Container */}
+      <div className="flex-1 flex overflow-hidden rounded-lg border border-gray-200 dark:border-gray-700">
+        <div className="flex-1">
+          {entities.length === 0 ? (
+            <div className="h-full flex items-center justify-center text-sm text-gray-500 dark:text-gray-400">
+              No entities match the filter
+            </div>
+          ) : (
+            <UnifiedModelGraph
+              entities={entities}
+              selectedFeatureIds={selectedFeatureIds}
+              onEntitySelect={setSelectedKey}
+              selectedKey={selectedKey}
+            />
+          )}
+        </div>
+
+        {selectedEntity && (
+          <UnifiedEntityDetails
+            entity={selectedEntity}
+            onClose={() => setSelectedKey(undefined)}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default DataModelView;
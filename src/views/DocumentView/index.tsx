@@ -0,0 +1,265 @@
+/**
+ * Speckit Dashboard - Document View
+ * Read a feature's spec artifact with a section outline, jumping to a line
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeHighlight from 'rehype-highlight';
+import { Card, CardBody, Button } from '../../components/ui';
+import LoadingSpinner from '../../components/LoadingSpinner';
+import SectionNavigator, { type Section } from '../../components/SectionNavigator';
+import useFeatureUpdates from '../../hooks/useFeatureUpdates';
+import type { Feature } from '../../types';
+import type { DocumentSection } from '../../types/ipc';
+import 'highlight.js/styles/github-dark.css';
+
+interface ContentBlock {
+  lineStart: number;
+  lineEnd: number;
+  heading: string | null;
+  text: string;
+}
+
+/**
+ * Nest flat heading sections under their parent headings
+ */
+function buildSectionTree(sections: DocumentSection[]): Section[] {
+  const roots: Section[] = [];
+  const stack: Section[] = [];
+
+  sections.forEach((section) => {
+    const node: Section = { ...section, children: [] };
+    while (stack.length > 0 && stack[stack.length - 1].level >= node.level) {
+      stack.pop();
+    }
+    if (stack.length > 0) {
+      stack[stack.length - 1].children!.push(node);
+    } else {
+      roots.push(node);
+    }
+    stack.push(node);
+  });
+
+  return roots;
+}
+
+export function DocumentView() {
+  const { featureId } = useParams<{ featureId: string }>();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const filePath = searchParams.get('file') || 'spec.md';
+  const targetLine = Number(searchParams.get('line')) || null;
+
+  const [feature, setFeature] = useState<Feature | null>(null);
+  const [content, setContent] = useState('');
+  const [sections, setSections] = useState<DocumentSection[]>([]);
+  const [activeLine, setActiveLine] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const blockRefs = useRef(new Map<number, HTMLDivElement>());
+
+  const loadDocument = useCallback(async (isRefresh = false) => {
+    if (!featureId) {
+      setIsLoading(false);
+      setError('No feature ID provided');
+      return;
+    }
+
+    if (!isRefresh) {
+      setIsLoading(true);
+    }
+    setError(null);
+
+    try {
+      const [featureResponse, fileResponse] = await Promise.all([
+        window.electronAPI.getFeature(Number(featureId)),
+        window.electronAPI.readFeatureFile(Number(featureId), filePath),
+      ]);
+
+      if (!featureResponse.success) {
+        setError(featureResponse.error);
+      } else if (!fileResponse.success) {
+        setError(fileResponse.error);
+      } else if (featureResponse.data && fileResponse.data) {
+        setFeature(featureResponse.data.feature);
+        setContent(fileResponse.data.content);
+        setSections(fileResponse.data.sections);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load document');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [featureId, filePath]);
+
+  useEffect(() => {
+    loadDocument();
+  }, [loadDocument]);
+
+  // Refresh when the feature's files change on disk
+  useFeatureUpdates((event) => {
+    if (event.removed) {
+      navigate('/features');
+      return;
+    }
+    loadDocument(true);
+  }, { featureId: featureId ? Number(featureId) : undefined });
+
+  // Split the document into one block per section so sections can be scrolled to
+  const blocks = useMemo((): ContentBlock[] => {
+    const lines = content.split('\n');
+    const result: ContentBlock[] = [];
+    const firstLine = sections.length > 0 ? sections[0].lineStart : lines.length + 1;
+
+    if (firstLine > 1) {
+      result.push({
+        lineStart: 1,
+        lineEnd: firstLine - 1,
+        heading: null,
+        text: lines.slice(0, firstLine - 1).join('\n'),
+      });
+    }
+
+    sections.forEach((section) => {
+      result.push({
+        lineStart: section.lineStart,
+        lineEnd: section.lineEnd,
+        heading: section.heading,
+        text: lines.slice(section.lineStart - 1, section.lineEnd).join('\n'),
+      });
+    });
+
+    return result;
+  }, [content, sections]);
+
+  const sectionTree = useMemo(() => buildSectionTree(sections), [sections]);
+
+  const scrollToLine = useCallback((line: number) => {
+    const block = [...blocks].reverse().find((b) => b.lineStart <= line);
+    if (!block) return;
+
+    setActiveLine(block.lineStart);
+    blockRefs.current.get(block.lineStart)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [blocks]);
+
+  // Jump to the requested line once the document is rendered
+  useEffect(() => {
+    if (!isLoading && targetLine) {
+      scrollToLine(targetLine);
+    }
+  }, [isLoading, targetLine, scrollToLine]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <LoadingSpinner size="lg" label="Loading document..." />
+      </div>
+    );
+  }
+
+  if (error || !feature) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Card className="max-w-md bg-red-50 dark:bg-red-900/20">
+          <CardBody className="text-center py-8">
+            <p className="text-red-500 mb-4">{error || 'Feature not found'}</p>
+            <Button onPress={() => navigate('/features')}>Back to Features</Button>
+          </CardBody>
+        </Card>
+      </div>
+    );
+  }
+
+  const activeHeading = blocks.find((b) => b.lineStart === activeLine)?.heading ?? undefined;
+  const isMarkdown = filePath.endsWith('.md');
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center gap-4">
+        <Button
+          isIconOnly
+          variant="flat"
+          size="sm"
+          onPress={() => navigate(-1)}
+          aria-label="Go back"
+        >
+          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </Button>
+        <div className="flex-1">
+          <p className="text-sm text-gray-500 dark:text-gray-400 font-mono">
+            {feature.featureNumber} / {filePath}
+          </p>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+            {feature.title || feature.featureName}
+          </h1>
+        </div>
+        <Button
+          variant="flat"
+          size="sm"
+          onPress={() => navigate(`/features/${featureId}/summary`)}
+        >
+          View Summary
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Outline */}
+        {isMarkdown && (
+          <div className="lg:col-span-1">
+            <div className="lg:sticky lg:top-20">
+              <SectionNavigator
+                sections={sectionTree}
+                activeSection={activeHeading}
+                onSectionClick={(section) => scrollToLine(section.lineStart)}
+                title={filePath}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Content */}
+        <div className={isMarkdown ? 'lg:col-span-3' : 'lg:col-span-4'}>
+          <Card>
+            <CardBody className="p-6 sm:p-10">
+              {isMarkdown ? (
+                blocks.map((block) => (
+                  <div
+                    key={block.lineStart}
+                    ref={(el) => {
+                      if (el) {
+                        blockRefs.current.set(block.lineStart, el);
+                      } else {
+                        blockRefs.current.delete(block.lineStart);
+                      }
+                    }}
+                    className={`scroll-mt-20 rounded-lg transition-colors ${
+                      block.lineStart === activeLine ? 'bg-violet-50 dark:bg-violet-900/10 ring-1 ring-violet-200 dark:ring-violet-800 px-4 -mx-4' : ''
+                    }`}
+                  >
+                    <div className="prose prose-violet dark:prose-invert max-w-none">
+                      <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeHighlight]}>
+                        {block.text}
+                      </ReactMarkdown>
+                    </div>
+                  </div>
+                ))
+              ) : (
+                <pre className="text-sm font-mono text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-words">
+                  {content}
+                </pre>
+              )}
+            </CardBody>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default DocumentView;
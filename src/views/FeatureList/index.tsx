@@ -3,12 +3,13 @@
  * List of all features with click-through to Kanban
  */
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Card, CardBody } from '../../components/ui';
 import { useProject } from '../../contexts/ProjectContext';
 import LoadingSpinner from '../../components/LoadingSpinner';
 import FeatureCard from '../../components/FeatureCard';
+import useFeatureUpdates from '../../hooks/useFeatureUpdates';
 import type { Feature } from '../../types';
 
 export function FeatureList() {
@@ -18,32 +19,41 @@ export function FeatureList() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  useEffect(() => {
-    async function loadFeatures() {
-      if (!activeProject) {
-        setIsLoading(false);
-        return;
-      }
+  const loadFeatures = useCallback(async (isRefresh = false) => {
+    if (!activeProject) {
+      setIsLoading(false);
+      return;
+    }
 
+    if (!isRefresh) {
       setIsLoading(true);
-      setError(null);
+    }
+    setError(null);
 
-      try {
-        const response = await window.electronAPI.listFeatures(activeProject.id);
-        if (response.success && response.data) {
-          setFeatures(response.data.features);
-        } else if (!response.success) {
-          setError(response.error);
-        }
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to load features');
-      } finally {
-        setIsLoading(false);
+    try {
+      const response = await window.electronAPI.listFeatures(activeProject.id);
+      if (response.success && response.data) {
+        setFeatures(response.data.features);
+      } else if (!response.success) {
+        setError(response.error);
       }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load features');
+    } finally {
+      setIsLoading(false);
     }
+  }, [activeProject]);
 
+  useEffect(() => {
     loadFeatures();
-  }, [activeProject]);
+  }, [loadFeatures]);
+
+  // Refresh when any feature of the active project changes on disk
+  useFeatureUpdates((event) => {
+    if (event.projectId === activeProject?.id) {
+      loadFeatures(true);
+    }
+  });
 
   const handleFeatureClick = (feature: Feature) => {
     navigate(`/features/${feature.id}/kanban`);
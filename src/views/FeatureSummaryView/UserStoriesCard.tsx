@@ -0,0 +1,112 @@
+/**
+ * Speckit Dashboard - User Stories Card Component
+ * User stories and acceptance scenarios parsed from spec.md
+ */
+
+import { useState } from 'react';
+import { Card, CardBody, CardHeader, Chip, Progress } from '../../components/ui';
+import type { Task, UserStory, UserStoryPriority } from '../../types';
+
+interface UserStoriesCardProps {
+  userStories: UserStory[];
+  tasks: Task[];
+}
+
+const priorityColors: Record<UserStoryPriority, 'danger' | 'warning' | 'default'> = {
+  P1: 'danger',
+  P2: 'warning',
+  P3: 'default',
+};
+
+export function UserStoriesCard({ userStories, tasks }: UserStoriesCardProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const toggleStory = (label: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(label)) {
+        next.delete(label);
+      } else {
+        next.add(label);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <h2 className="text-lg font-semibold">User Stories ({userStories.length})</h2>
+      </CardHeader>
+      <CardBody>
+        {userStories.length === 0 ? (
+          <p className="text-sm text-gray-400">No user stories found in spec.md</p>
+        ) : (
+          <div className="divide-y divide-gray-100 dark:divide-gray-700">
+            {userStories.map((story) => {
+              const storyTasks = tasks.filter((t) => t.storyLabel === story.storyLabel);
+              const doneCount = storyTasks.filter((t) => t.status === 'done').length;
+              const isExpanded = expanded.has(story.storyLabel);
+
+              return (
+                <div key={story.storyLabel} className="py-3 first:pt-0 last:pb-0">
+                  <button
+                    className="w-full flex items-start gap-3 text-left"
+                    onClick={() => toggleStory(story.storyLabel)}
+                    aria-expanded={isExpanded}
+                  >
+                    <span className="text-xs font-mono text-gray-400 dark:text-gray-500 pt-1 w-8 shrink-0">
+                      {story.storyLabel}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-gray-900 dark:text-white">{story.title}</span>
+                        <Chip color={priorityColors[story.priority] ?? 'default'} variant="flat" size="sm">
+                          {story.priority}
+                        </Chip>
+                      </div>
+                      {story.description && (
+                        <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{story.description}</p>
+                      )}
+                    </div>
+                    <div className="w-32 shrink-0 text-right">
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                        {doneCount}/{storyTasks.length} tasks
+                      </p>
+                      {storyTasks.length > 0 && (
+                        <Progress
+                          value={(doneCount / storyTasks.length) * 100}
+                          color={doneCount === storyTasks.length ? 'success' : 'primary'}
+                          size="sm"
+                        />
+                      )}
+                    </div>
+                  </button>
+
+                  {isExpanded && (
+                    <div className="ml-11 mt-3">
+                      <p className="text-xs font-semibold uppercase text-gray-500 dark:text-gray-400 mb-2">
+                        Acceptance Scenarios
+                      </p>
+                      {story.acceptanceScenarios.length === 0 ? (
+                        <p className="text-sm text-gray-400">None listed</p>
+                      ) : (
+                        <ol className="list-decimal list-inside space-y-1 text-sm text-gray-700 dark:text-gray-300">
+                          {story.acceptanceScenarios.map((scenario, index) => (
+                            <li key={index}>{scenario}</li>
+                          ))}
+                        </ol>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
+
+export default UserStoriesCard;
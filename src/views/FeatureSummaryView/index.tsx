@@ -1,14 +1,17 @@
 /**
  * Speckit Dashboard - Feature Summary View
- * AI-powered summaries for spec, requirements, and plan documents
+ * User stories, parse problems and AI-powered summaries for spec, requirements,
+ * and plan documents
  */
 
 import { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Card, CardBody, Button } from '../../components/ui';
 import LoadingSpinner from '../../components/LoadingSpinner';
+import ProblemsPanel from '../../components/ProblemsPanel';
 import { SummaryCard } from './SummaryCard';
-import type { Feature } from '../../types';
+import { UserStoriesCard } from './UserStoriesCard';
+import type { Feature, ParseDiagnostic, Task, UserStory } from '../../types';
 
 interface DocumentType {
   id: string;
@@ -58,6 +61,9 @@ export function FeatureSummaryView() {
   const { featureId } = useParams<{ featureId: string }>();
   const navigate = useNavigate();
   const [feature, setFeature] = useState<Feature | null>(null);
+  const [userStories, setUserStories] = useState<UserStory[]>([]);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [diagnostics, setDiagnostics] = useState<ParseDiagnostic[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -73,12 +79,20 @@ export function FeatureSummaryView() {
       setError(null);
 
       try {
-        const response = await window.electronAPI.getFeature(Number(featureId));
+        const [response, diagnosticsResponse] = await Promise.all([
+          window.electronAPI.getFeature(Number(featureId)),
+          window.electronAPI.getFeatureDiagnostics(Number(featureId)),
+        ]);
         if (response.success && response.data) {
           setFeature(response.data.feature);
+          setUserStories(response.data.userStories);
+          setTasks(response.data.tasks);
         } else if (!response.success) {
           setError(response.error);
         }
+        if (diagnosticsResponse.success && diagnosticsResponse.data) {
+          setDiagnostics(diagnosticsResponse.data.diagnostics);
+        }
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load feature');
       } finally {
@@ -161,6 +175,12 @@ export function FeatureSummaryView() {
           >
             View Schema
           </Button>
+          <Button
+            variant="flat"
+            onPress={() => navigate(`/features/${featureId}/traceability`)}
+          >
+            Traceability
+          </Button>
           <Button
             variant="flat"
             onPress={() => navigate(`/features/${featureId}/ai-analysis`)}
@@ -171,6 +191,12 @@ export function FeatureSummaryView() {
         </div>
       </div>
 
+      {/* User Stories */}
+      <UserStoriesCard userStories={userStories} tasks={tasks} />
+
+      {/* Parse Problems */}
+      {diagnostics.length > 0 && <ProblemsPanel diagnostics={diagnostics} />}
+
       {/* Summary Cards */}
       <div className="space-y-6">
         {documents.map((doc) => (
@@ -3,12 +3,13 @@
  * Visualize task phases as a timeline with plan data and dependencies
  */
 
-import { useEffect, useState, useMemo, useRef } from 'react';
+import { useCallback, useEffect, useState, useMemo, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Card, CardBody, Button, Chip, Progress } from '../../components/ui';
 import LoadingSpinner from '../../components/LoadingSpinner';
 import GanttTask from './GanttTask';
 import DependencyArrow, { DependencyArrowDefs } from './DependencyArrow';
+import useFeatureUpdates from '../../hooks/useFeatureUpdates';
 import type { Feature, Task, Plan } from '../../types';
 
 interface PhaseData {
@@ -29,35 +30,46 @@ export function GanttTimeline() {
   const [scale, setScale] = useState(1);
   const timelineRef = useRef<HTMLDivElement>(null);
 
-  useEffect(() => {
-    async function loadFeatureData() {
-      if (!featureId) {
-        setIsLoading(false);
-        setError('No feature ID provided');
-        return;
-      }
+  const loadFeatureData = useCallback(async (isRefresh = false) => {
+    if (!featureId) {
+      setIsLoading(false);
+      setError('No feature ID provided');
+      return;
+    }
 
+    if (!isRefresh) {
       setIsLoading(true);
-      setError(null);
+    }
+    setError(null);
 
-      try {
-        const response = await window.electronAPI.getFeature(Number(featureId));
-        if (response.success && response.data) {
-          setFeature(response.data.feature);
-          setTasks(response.data.tasks);
-          setPlan(response.data.plan);
-        } else if (!response.success) {
-          setError(response.error);
-        }
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to load feature');
-      } finally {
-        setIsLoading(false);
+    try {
+      const response = await window.electronAPI.getFeature(Number(featureId));
+      if (response.success && response.data) {
+        setFeature(response.data.feature);
+        setTasks(response.data.tasks);
+        setPlan(response.data.plan);
+      } else if (!response.success) {
+        setError(response.error);
       }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load feature');
+    } finally {
+      setIsLoading(false);
     }
+  }, [featureId]);
 
+  useEffect(() => {
     loadFeatureData();
-  }, [featureId]);
+  }, [loadFeatureData]);
+
+  // Refresh when the feature's files change on disk
+  useFeatureUpdates((event) => {
+    if (event.removed) {
+      navigate('/features');
+      return;
+    }
+    loadFeatureData(true);
+  }, { featureId: featureId ? Number(featureId) : undefined });
 
   // Collect all task dependencies for rendering
   const dependencies = useMemo(() => {
@@ -252,6 +264,19 @@ export function GanttTimeline() {
         </Card>
       )}
 
+      {/* Dependency Problems */}
+      {feature.dependencyErrors && feature.dependencyErrors.length > 0 && (
+        <Card className="bg-red-50 dark:bg-red-900/20">
+          <CardBody className="py-3 space-y-1">
+            {feature.dependencyErrors.map((message) => (
+              <p key={message} className="text-sm text-red-700 dark:text-red-300">
+                {message}
+              </p>
+            ))}
+          </CardBody>
+        </Card>
+      )}
+
       {/* Timeline */}
       {phases.length === 0 ? (
         <Card>
@@ -1,16 +1,19 @@
 /**
  * Speckit Dashboard - Kanban Column Component
- * Column displaying tasks of a specific status
+ * Column displaying tasks of a specific status; tasks can be dropped in to
+ * change their status
  */
 
-import { useState } from 'react';
-import TaskCard from '../../components/TaskCard';
-import type { Task } from '../../types';
+import { useState, DragEvent } from 'react';
+import TaskCard, { TASK_DRAG_TYPE } from '../../components/TaskCard';
+import type { Task, TaskStatus } from '../../types';
 
 interface KanbanColumnProps {
   title: string;
   tasks: Task[];
   color: 'gray' | 'amber' | 'emerald';
+  status?: TaskStatus;
+  onTaskDrop?: (taskId: number, status: TaskStatus) => void;
 }
 
 const colorClasses = {
@@ -28,15 +31,37 @@ const colorClasses = {
   },
 };
 
-export function KanbanColumn({ title, tasks, color }: KanbanColumnProps) {
+export function KanbanColumn({ title, tasks, color, status, onTaskDrop }: KanbanColumnProps) {
   const [limit, setLimit] = useState(5);
+  const [isDragOver, setIsDragOver] = useState(false);
   const colors = colorClasses[color];
+  const isDroppable = Boolean(status && onTaskDrop);
+
+  const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
+    if (!isDroppable || !e.dataTransfer.types.includes(TASK_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setIsDragOver(true);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    setIsDragOver(false);
+    const taskId = Number(e.dataTransfer.getData(TASK_DRAG_TYPE));
+    if (!status || !onTaskDrop || !taskId) return;
+    e.preventDefault();
+    onTaskDrop(taskId, status);
+  };
 
   const visibleTasks = tasks.slice(0, limit);
   const hasMore = tasks.length > limit;
 
   return (
-    <div className="flex flex-col space-y-3">
+    <div
+      className={`flex flex-col space-y-3 rounded-lg transition-colors ${isDragOver ? 'bg-primary-50/60 dark:bg-primary-900/20 ring-2 ring-primary-300 dark:ring-primary-700' : ''}`}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={handleDrop}
+    >
       {/* Column Header */}
       <div className={`flex items-center gap-2 px-3 py-2 rounded-lg ${colors.header}`}>
         <span className={`w-2 h-2 rounded-full ${colors.dot}`} />
@@ -53,7 +78,7 @@ export function KanbanColumn({ title, tasks, color }: KanbanColumnProps) {
         ) : (
           <>
             {visibleTasks.map((task) => (
-              <TaskCard key={task.id} task={task} />
+              <TaskCard key={task.id} task={task} draggable={isDroppable} />
             ))}
             {hasMore && (
               <button
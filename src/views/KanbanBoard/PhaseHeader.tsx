@@ -3,14 +3,17 @@
  * Header for phase sections in Kanban board
  */
 
+import { Chip } from '../../components/ui';
+
 interface PhaseHeaderProps {
   name: string;
   goal?: string;
+  priority?: string;
   isCollapsed?: boolean;
   onToggle?: () => void;
 }
 
-export function PhaseHeader({ name, goal, isCollapsed, onToggle }: PhaseHeaderProps) {
+export function PhaseHeader({ name, goal, priority, isCollapsed, onToggle }: PhaseHeaderProps) {
   return (
     <div
       className="flex items-center justify-between border-l-4 border-primary-500 pl-4 py-2 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800/50 transition-colors rounded-r-lg group"
@@ -19,6 +22,15 @@ export function PhaseHeader({ name, goal, isCollapsed, onToggle }: PhaseHeaderPr
       <div className="flex-1">
         <h2 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
           {name}
+          {priority && (
+            <Chip
+              color={priority === 'P1' ? 'danger' : priority === 'P2' ? 'warning' : 'default'}
+              variant="flat"
+              size="sm"
+            >
+              {priority}
+            </Chip>
+          )}
           <span className="text-xs font-normal text-gray-500 dark:text-gray-400 opacity-0 group-hover:opacity-100 transition-opacity">
             {isCollapsed ? '(Click to expand)' : '(Click to collapse)'}
           </span>
@@ -0,0 +1,152 @@
+/**
+ * Tasks Draft Panel Component
+ * Drafts tasks.md for a feature that has a spec and a plan but no tasks yet,
+ * previewing the draft before it is written
+ */
+
+import { useEffect, useState } from 'react';
+import { Card, CardBody, Button, Chip } from '../../components/ui';
+import LineDiff from '../../components/LineDiff';
+import { useAIAnalysis } from '../../hooks/useAIAnalysis';
+import type { TasksDraftResult } from '../../types';
+
+interface TasksDraftPanelProps {
+  featureId: number;
+  /** Called once tasks.md is written and synced */
+  onWritten: () => void;
+}
+
+export function TasksDraftPanel({ featureId, onWritten }: TasksDraftPanelProps) {
+  const { generateTasksDraft, cancel, isLoading, partialResult, error, clearError } = useAIAnalysis();
+  const [canDraft, setCanDraft] = useState(false);
+  const [draft, setDraft] = useState<TasksDraftResult | null>(null);
+  const [isWriting, setIsWriting] = useState(false);
+  const [writeError, setWriteError] = useState<string | null>(null);
+
+  // Offer a draft only when plan.md exists and tasks.md does not
+  useEffect(() => {
+    Promise.all([
+      window.electronAPI.readSpecFile(featureId, 'plan'),
+      window.electronAPI.readSpecFile(featureId, 'tasks'),
+    ])
+      .then(([plan, tasks]) => setCanDraft(plan.success && !tasks.success))
+      .catch(() => setCanDraft(false));
+  }, [featureId]);
+
+  const handleGenerate = async () => {
+    setWriteError(null);
+    const result = await generateTasksDraft(featureId);
+    if (result) {
+      setDraft(result);
+    }
+  };
+
+  const handleWrite = async () => {
+    if (!draft) return;
+    setIsWriting(true);
+    setWriteError(null);
+    try {
+      const response = await window.electronAPI.writeTasksDraft(featureId, draft.content);
+      if (response.success) {
+        setDraft(null);
+        onWritten();
+      } else {
+        setWriteError(response.error);
+      }
+    } catch (err) {
+      setWriteError(err instanceof Error ? err.message : 'Failed to write tasks.md');
+    } finally {
+      setIsWriting(false);
+    }
+  };
+
+  if (!canDraft) {
+    return (
+      <Card>
+        <CardBody className="text-center py-12">
+          <p className="text-gray-500 dark:text-gray-400">No tasks found for this feature</p>
+        </CardBody>
+      </Card>
+    );
+  }
+
+  const partialPhases = (partialResult as { phases?: Array<{ tasks?: unknown[] }> } | null)?.phases ?? [];
+  const partialTasks = partialPhases.reduce((count, phase) => count + (phase.tasks?.length ?? 0), 0);
+
+  return (
+    <Card>
+      <CardBody className="space-y-4">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h3 className="font-medium text-gray-900 dark:text-white">No tasks.md yet</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              Draft one from spec.md and plan.md. Nothing is written until you review the draft.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {isLoading ? (
+              <Button size="sm" variant="outline" onPress={cancel}>
+                Cancel
+              </Button>
+            ) : (
+              <Button size="sm" variant={draft ? 'secondary' : 'primary'} onPress={handleGenerate}>
+                {draft ? 'Regenerate' : 'Draft tasks.md'}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {isLoading && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Drafting... {partialTasks > 0 && `${partialTasks} tasks in ${partialPhases.length} phases so far`}
+          </p>
+        )}
+
+        {(error || writeError) && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg flex items-center justify-between gap-4">
+            <p className="text-red-600 dark:text-red-400 text-sm">{error || writeError}</p>
+            <Button
+              size="sm"
+              variant="flat"
+              onPress={() => {
+                clearError();
+                setWriteError(null);
+              }}
+            >
+              Dismiss
+            </Button>
+          </div>
+        )}
+
+        {draft && !isLoading && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+              <Chip size="sm" variant="flat" color="success">
+                {draft.taskCount} tasks in {draft.phaseNames.length} phases
+              </Chip>
+              <span>🤖 {draft.model}</span>
+              <span>⏱️ {(draft.duration / 1000).toFixed(1)}s</span>
+              {draft.tokenCount && <span>🔢 {draft.tokenCount.toLocaleString()} tokens</span>}
+            </div>
+            {draft.warnings.length > 0 && (
+              <ul className="text-xs text-amber-600 dark:text-amber-400 list-disc pl-5">
+                {draft.warnings.map((warning) => <li key={warning}>{warning}</li>)}
+              </ul>
+            )}
+            <LineDiff before="" after={draft.content} className="max-h-[32rem] py-2" />
+            <div className="flex items-center gap-2">
+              <Button size="sm" variant="primary" onPress={handleWrite} disabled={isWriting}>
+                {isWriting ? 'Writing...' : 'Write tasks.md'}
+              </Button>
+              <Button size="sm" variant="flat" onPress={() => setDraft(null)}>
+                Discard
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
+
+export default TasksDraftPanel;
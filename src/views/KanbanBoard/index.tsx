@@ -3,107 +3,193 @@
  * Task board with status columns for a specific feature
  */
 
-import { useEffect, useState, useMemo } from 'react';
+import { useCallback, useEffect, useState, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Card, CardBody } from '../../components/ui';
 import { Button } from '../../components/ui';
 import LoadingSpinner from '../../components/LoadingSpinner';
 import KanbanColumn from './KanbanColumn';
 import PhaseHeader from './PhaseHeader';
-import type { Feature, Task } from '../../types';
+import TasksDraftPanel from './TasksDraftPanel';
+import useFeatureUpdates from '../../hooks/useFeatureUpdates';
+import type { Feature, Task, TaskStatus, UserStory } from '../../types';
+
+type GroupBy = 'phase' | 'story';
+
+interface TaskGroup {
+  key: string;
+  name: string;
+  goal?: string;
+  priority?: string;
+  notStarted: Task[];
+  inProgress: Task[];
+  done: Task[];
+}
+
+const NO_STORY_GROUP = 'No User Story';
+
+const PRIORITY_ORDER: Record<string, number> = { P1: 0, P2: 1, P3: 2 };
 
 export function KanbanBoard() {
   const { featureId } = useParams<{ featureId: string }>();
   const navigate = useNavigate();
   const [feature, setFeature] = useState<Feature | null>(null);
   const [tasks, setTasks] = useState<Task[]>([]);
+  const [userStories, setUserStories] = useState<UserStory[]>([]);
+  const [groupBy, setGroupBy] = useState<GroupBy>('phase');
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [collapsedPhases, setCollapsedPhases] = useState<Set<string>>(new Set());
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
+  const [moveError, setMoveError] = useState<string | null>(null);
 
-  // Group tasks by phase, then by status within each phase
-  const tasksByPhase = useMemo(() => {
-    const phases = new Map<string, { notStarted: Task[]; inProgress: Task[]; done: Task[] }>();
+  // Group tasks by phase or user story, then by status within each group
+  const taskGroups = useMemo(() => {
+    const groups = new Map<string, TaskGroup>();
+    const storiesByLabel = new Map(userStories.map((s) => [s.storyLabel, s]));
 
     tasks.forEach((task) => {
-      const phase = task.phase || 'Unassigned';
-      if (!phases.has(phase)) {
-        phases.set(phase, { notStarted: [], inProgress: [], done: [] });
+      let key = task.phase || 'Unassigned';
+      if (groupBy === 'story') {
+        key = task.storyLabel || NO_STORY_GROUP;
+      }
+
+      if (!groups.has(key)) {
+        const story = groupBy === 'story' ? storiesByLabel.get(key) : undefined;
+        groups.set(key, {
+          key,
+          name: story ? `${story.storyLabel}: ${story.title}` : key,
+          goal: story?.description ?? undefined,
+          priority: story?.priority,
+          notStarted: [],
+          inProgress: [],
+          done: [],
+        });
       }
 
-      const phaseGroup = phases.get(phase)!;
+      const group = groups.get(key)!;
       switch (task.status) {
         case 'not_started':
-          phaseGroup.notStarted.push(task);
+          group.notStarted.push(task);
           break;
         case 'in_progress':
-          phaseGroup.inProgress.push(task);
+          group.inProgress.push(task);
           break;
         case 'done':
-          phaseGroup.done.push(task);
+          group.done.push(task);
           break;
       }
     });
 
+    if (groupBy === 'story') {
+      // Sort stories by priority, then spec order; unlabelled tasks go last
+      const storyOrder = (key: string) => {
+        if (key === NO_STORY_GROUP) return Number.MAX_SAFE_INTEGER;
+        const index = userStories.findIndex((s) => s.storyLabel === key);
+        if (index === -1) return Number.MAX_SAFE_INTEGER - 1;
+        return (PRIORITY_ORDER[userStories[index].priority] ?? 1) * 1000 + index;
+      };
+      return Array.from(groups.values()).sort((a, b) => storyOrder(a.key) - storyOrder(b.key));
+    }
+
     // Sort phases by order
-    return Array.from(phases.entries()).sort((a, b) => {
-      const aTask = tasks.find((t) => t.phase === a[0]);
-      const bTask = tasks.find((t) => t.phase === b[0]);
+    return Array.from(groups.values()).sort((a, b) => {
+      const aTask = tasks.find((t) => t.phase === a.key);
+      const bTask = tasks.find((t) => t.phase === b.key);
       return (aTask?.phaseOrder ?? 999) - (bTask?.phaseOrder ?? 999);
     });
-  }, [tasks]);
+  }, [tasks, userStories, groupBy]);
 
-  useEffect(() => {
-    async function loadFeatureData() {
-      if (!featureId) {
-        setIsLoading(false);
-        setError('No feature ID provided');
-        return;
-      }
+  const loadFeatureData = useCallback(async (isRefresh = false) => {
+    if (!featureId) {
+      setIsLoading(false);
+      setError('No feature ID provided');
+      return;
+    }
 
+    if (!isRefresh) {
       setIsLoading(true);
-      setError(null);
+    }
+    setError(null);
 
-      try {
-        const response = await window.electronAPI.getFeature(Number(featureId));
-        if (response.success && response.data) {
-          setFeature(response.data.feature);
-          setTasks(response.data.tasks);
+    try {
+      const response = await window.electronAPI.getFeature(Number(featureId));
+      if (response.success && response.data) {
+        setFeature(response.data.feature);
+        setTasks(response.data.tasks);
+        setUserStories(response.data.userStories);
 
-          // Default all phases to collapsed
+        // Default all phases to collapsed, but keep the user's choice on refresh
+        if (!isRefresh) {
           const phaseNames = new Set(
             response.data.tasks.map(t => t.phase || 'Unassigned')
           );
-          setCollapsedPhases(phaseNames);
-        } else if (!response.success) {
-          setError(response.error);
+          setCollapsedGroups(phaseNames);
         }
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to load feature');
-      } finally {
-        setIsLoading(false);
+      } else if (!response.success) {
+        setError(response.error);
       }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load feature');
+    } finally {
+      setIsLoading(false);
     }
+  }, [featureId]);
 
+  useEffect(() => {
     loadFeatureData();
-  }, [featureId]);
+  }, [loadFeatureData]);
+
+  // Refresh when the feature's files change on disk
+  useFeatureUpdates((event) => {
+    if (event.removed) {
+      navigate('/features');
+      return;
+    }
+    loadFeatureData(true);
+  }, { featureId: featureId ? Number(featureId) : undefined });
 
-  const togglePhase = (phase: string) => {
-    setCollapsedPhases((prev) => {
+  const toggleGroup = (key: string) => {
+    setCollapsedGroups((prev) => {
       const next = new Set(prev);
-      if (next.has(phase)) {
-        next.delete(phase);
+      if (next.has(key)) {
+        next.delete(key);
       } else {
-        next.add(phase);
+        next.add(key);
       }
       return next;
     });
   };
 
-  const expandAll = () => setCollapsedPhases(new Set());
+  // Move a task to another column and write the new checkbox to tasks.md
+  const handleTaskDrop = async (taskId: number, status: TaskStatus) => {
+    const task = tasks.find((t) => t.id === taskId);
+    if (!feature || !task || task.status === status) return;
+
+    if (!feature.tasksHash) {
+      setMoveError('tasks.md has not been synced yet. Sync the project and try again.');
+      return;
+    }
+
+    setMoveError(null);
+    setTasks((prev) => prev.map((t) => (t.id === taskId ? { ...t, status } : t)));
+
+    try {
+      const response = await window.electronAPI.updateTaskStatus(taskId, status, feature.tasksHash);
+      if (!response.success) {
+        setMoveError(response.error);
+      }
+    } catch (err) {
+      setMoveError(err instanceof Error ? err.message : 'Failed to update task');
+    }
+
+    // Reload from the re-synced database (also reverts a refused move)
+    loadFeatureData(true);
+  };
+
+  const expandAll = () => setCollapsedGroups(new Set());
   const collapseAll = () => {
-    const allPhases = tasksByPhase.map(([phase]) => phase);
-    setCollapsedPhases(new Set(allPhases));
+    const allGroups = taskGroups.map((group) => group.key);
+    setCollapsedGroups(new Set(allGroups));
   };
 
   if (isLoading) {
@@ -209,6 +295,16 @@ export function KanbanBoard() {
             </svg>
             <span className="hidden sm:inline">View Schema</span>
           </Button>
+          <Button
+            size="sm"
+            variant="flat"
+            onPress={() => navigate(`/features/${featureId}/traceability`)}
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M3 14h18m-9-4v8m-7 0h14a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
+            </svg>
+            <span className="hidden sm:inline">Traceability</span>
+          </Button>
           <Button
             size="sm"
             variant="flat"
@@ -220,6 +316,22 @@ export function KanbanBoard() {
             </svg>
             <span className="hidden sm:inline">AI Analysis</span>
           </Button>
+          <div className="flex items-center gap-1 border border-gray-200 dark:border-gray-700 rounded-lg p-1">
+            <Button
+              size="sm"
+              variant={groupBy === 'phase' ? 'primary' : 'flat'}
+              onPress={() => setGroupBy('phase')}
+            >
+              By Phase
+            </Button>
+            <Button
+              size="sm"
+              variant={groupBy === 'story' ? 'primary' : 'flat'}
+              onPress={() => setGroupBy('story')}
+            >
+              By Story
+            </Button>
+          </div>
           <Button size="sm" variant="flat" onPress={expandAll}>
             Expand All
           </Button>
@@ -229,24 +341,46 @@ export function KanbanBoard() {
         </div>
       </div>
 
-      {/* Kanban Board */}
-      {tasksByPhase.length === 0 ? (
-        <Card>
-          <CardBody className="text-center py-12">
-            <p className="text-gray-500 dark:text-gray-400">No tasks found for this feature</p>
+      {/* Dependency Problems */}
+      {feature.dependencyErrors && feature.dependencyErrors.length > 0 && (
+        <Card className="bg-red-50 dark:bg-red-900/20">
+          <CardBody className="py-3 space-y-1">
+            {feature.dependencyErrors.map((message) => (
+              <p key={message} className="text-sm text-red-700 dark:text-red-300">
+                {message}
+              </p>
+            ))}
           </CardBody>
         </Card>
+      )}
+
+      {moveError && (
+        <Card className="bg-red-50 dark:bg-red-900/20">
+          <CardBody className="py-3 flex items-center justify-between gap-4">
+            <p className="text-sm text-red-700 dark:text-red-300">{moveError}</p>
+            <Button size="sm" variant="flat" onPress={() => setMoveError(null)}>
+              Dismiss
+            </Button>
+          </CardBody>
+        </Card>
+      )}
+
+      {/* Kanban Board */}
+      {taskGroups.length === 0 ? (
+        <TasksDraftPanel featureId={feature.id} onWritten={() => loadFeatureData(true)} />
       ) : (
         <div className="space-y-4">
-          {tasksByPhase.map(([phase, tasksGroup]) => {
-            const isCollapsed = collapsedPhases.has(phase);
+          {taskGroups.map((tasksGroup) => {
+            const isCollapsed = collapsedGroups.has(tasksGroup.key);
 
             return (
-              <div key={phase} className="space-y-4">
+              <div key={tasksGroup.key} className="space-y-4">
                 <PhaseHeader
-                  name={phase}
+                  name={tasksGroup.name}
+                  goal={tasksGroup.goal}
+                  priority={tasksGroup.priority}
                   isCollapsed={isCollapsed}
-                  onToggle={() => togglePhase(phase)}
+                  onToggle={() => toggleGroup(tasksGroup.key)}
                 />
 
                 {!isCollapsed && (
@@ -255,16 +389,22 @@ export function KanbanBoard() {
                       title="Not Started"
                       tasks={tasksGroup.notStarted}
                       color="gray"
+                      status="not_started"
+                      onTaskDrop={handleTaskDrop}
                     />
                     <KanbanColumn
                       title="In Progress"
                       tasks={tasksGroup.inProgress}
                       color="amber"
+                      status="in_progress"
+                      onTaskDrop={handleTaskDrop}
                     />
                     <KanbanColumn
                       title="Done"
                       tasks={tasksGroup.done}
                       color="emerald"
+                      status="done"
+                      onTaskDrop={handleTaskDrop}
                     />
                   </div>
                 )}
@@ -0,0 +1,108 @@
+/**
+ * Speckit Dashboard - Problems View
+ * Project-wide list of problems found while parsing spec-kit files
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardBody } from '../../components/ui';
+import { useProject } from '../../contexts/ProjectContext';
+import LoadingSpinner from '../../components/LoadingSpinner';
+import ProblemsPanel from '../../components/ProblemsPanel';
+import useFeatureUpdates from '../../hooks/useFeatureUpdates';
+import type { ParseDiagnostic } from '../../types';
+
+export function ProblemsView() {
+  const { activeProject } = useProject();
+  const [diagnostics, setDiagnostics] = useState<ParseDiagnostic[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDiagnostics = useCallback(async (isRefresh = false) => {
+    if (!activeProject) {
+      setIsLoading(false);
+      return;
+    }
+
+    if (!isRefresh) {
+      setIsLoading(true);
+    }
+    setError(null);
+
+    try {
+      const response = await window.electronAPI.getProjectDiagnostics(activeProject.id);
+      if (response.success && response.data) {
+        setDiagnostics(response.data.diagnostics);
+      } else if (!response.success) {
+        setError(response.error);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load problems');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [activeProject]);
+
+  useEffect(() => {
+    loadDiagnostics();
+  }, [loadDiagnostics]);
+
+  // Refresh when any feature of the active project changes on disk
+  useFeatureUpdates((event) => {
+    if (event.projectId === activeProject?.id) {
+      loadDiagnostics(true);
+    }
+  });
+
+  if (!activeProject) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Card className="max-w-md">
+          <CardBody className="text-center py-8">
+            <h3 className="text-lg font-semibold mb-2">No Project Selected</h3>
+            <p className="text-gray-500 dark:text-gray-400">
+              Configure a Spec-kit project to see parse problems.
+            </p>
+          </CardBody>
+        </Card>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <LoadingSpinner size="lg" label="Loading problems..." />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Card className="max-w-md bg-red-50 dark:bg-red-900/20">
+          <CardBody className="text-center py-8">
+            <p className="text-red-500">{error}</p>
+          </CardBody>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+          Problems
+        </h1>
+        <p className="text-gray-500 dark:text-gray-400 mt-1">
+          Why tasks, requirements or entities may be missing from {activeProject.name}
+        </p>
+      </div>
+
+      <ProblemsPanel diagnostics={diagnostics} showFeature title="All Problems" />
+    </div>
+  );
+}
+
+export default ProblemsView;
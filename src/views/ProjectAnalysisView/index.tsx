@@ -0,0 +1,344 @@
+/**
+ * Speckit Dashboard - Project Analysis View
+ * AI analyses across all features of a project: overlapping or conflicting
+ * requirements, duplicated entities and statuses that disagree with tasks
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardBody, Button, Chip } from '../../components/ui';
+import ChatPanel from '../../components/ChatPanel';
+import { useProject } from '../../contexts/ProjectContext';
+import { useAIAnalysis } from '../../hooks/useAIAnalysis';
+import type {
+  ConflictsResult,
+  IntegrityResult,
+  ProjectAnalysisRecord,
+  ProjectAnalysisType,
+  RequirementConflict,
+} from '../../types';
+
+const SEVERITY_STYLES: Record<string, { bg: string; text: string; icon: string }> = {
+  high: {
+    bg: 'bg-red-100 dark:bg-red-900/30 border-red-200 dark:border-red-800',
+    text: 'text-red-700 dark:text-red-300',
+    icon: '🚨',
+  },
+  medium: {
+    bg: 'bg-amber-100 dark:bg-amber-900/30 border-amber-200 dark:border-amber-800',
+    text: 'text-amber-700 dark:text-amber-300',
+    icon: '⚠️',
+  },
+  low: {
+    bg: 'bg-blue-100 dark:bg-blue-900/30 border-blue-200 dark:border-blue-800',
+    text: 'text-blue-700 dark:text-blue-300',
+    icon: '💡',
+  },
+};
+
+const ANALYSES: { type: ProjectAnalysisType; title: string; description: string }[] = [
+  {
+    type: 'conflicts',
+    title: 'Requirement Conflicts',
+    description: 'Requirements and API contracts that overlap or contradict each other across features',
+  },
+  {
+    type: 'integrity',
+    title: 'Model & Status Integrity',
+    description: 'Entities defined by several features and feature statuses that disagree with task progress',
+  },
+];
+
+type LatestRuns = Partial<Record<ProjectAnalysisType, ProjectAnalysisRecord>>;
+
+function FeatureChips({ features }: { features: string[] }) {
+  return (
+    <>
+      {features.map((feature) => (
+        <Chip key={feature} size="sm" variant="flat" color="secondary">
+          {feature}
+        </Chip>
+      ))}
+    </>
+  );
+}
+
+function ConflictList({ conflicts }: { conflicts: RequirementConflict[] }) {
+  if (conflicts.length === 0) {
+    return (
+      <p className="text-sm text-green-600 dark:text-green-400">
+        No overlapping or conflicting requirements found.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {conflicts.map((conflict, index) => {
+        const style = SEVERITY_STYLES[conflict.severity] || SEVERITY_STYLES.low;
+        return (
+          <div key={index} className={`p-4 rounded-lg border ${style.bg}`}>
+            <div className="flex items-start gap-3">
+              <span className="text-xl flex-shrink-0">{style.icon}</span>
+              <div className="flex-1">
+                <div className="flex flex-wrap items-center gap-2 mb-1">
+                  <span className={`font-medium ${style.text}`}>{conflict.topic}</span>
+                  <span className={`px-2 py-0.5 text-xs font-medium rounded ${style.text} ${style.bg}`}>
+                    {conflict.kind}
+                  </span>
+                  <FeatureChips features={conflict.features} />
+                </div>
+                <p className="text-sm text-gray-700 dark:text-gray-300 mb-2">
+                  {conflict.description}
+                </p>
+                <div className="bg-white/50 dark:bg-gray-900/50 rounded p-3">
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    <span className="font-medium">Suggestion: </span>
+                    {conflict.suggestion}
+                  </p>
+                </div>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function IntegrityList({ result }: { result: Pick<IntegrityResult, 'duplicateEntities' | 'statusMismatches'> }) {
+  if (result.duplicateEntities.length === 0 && result.statusMismatches.length === 0) {
+    return (
+      <p className="text-sm text-green-600 dark:text-green-400">
+        No duplicated entities or status mismatches found.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {result.duplicateEntities.length > 0 && (
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium text-gray-900 dark:text-white">Duplicated Entities</h4>
+          {result.duplicateEntities.map((duplicate, index) => (
+            <div key={index} className="p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+              <div className="flex flex-wrap items-center gap-2 mb-1">
+                <span className="font-medium text-gray-900 dark:text-white">{duplicate.entity}</span>
+                <FeatureChips features={duplicate.features} />
+              </div>
+              <p className="text-sm text-gray-700 dark:text-gray-300 mb-1">{duplicate.differences}</p>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                <span className="font-medium">Suggestion: </span>
+                {duplicate.suggestion}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {result.statusMismatches.length > 0 && (
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium text-gray-900 dark:text-white">Status Mismatches</h4>
+          {result.statusMismatches.map((mismatch, index) => (
+            <div key={index} className="p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+              <div className="flex flex-wrap items-center gap-2 mb-1">
+                <Chip size="sm" variant="flat" color="secondary">{mismatch.feature}</Chip>
+                <Chip size="sm" variant="flat" color="warning">{mismatch.status}</Chip>
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {Math.round(mismatch.taskCompletion)}% of tasks done
+                </span>
+              </div>
+              <p className="text-sm text-gray-700 dark:text-gray-300 mb-1">{mismatch.issue}</p>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                <span className="font-medium">Suggestion: </span>
+                {mismatch.suggestion}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function ProjectAnalysisView() {
+  const { activeProject } = useProject();
+  const { runProjectAnalysis, cancel, isLoading, partialResult, error, clearError } = useAIAnalysis();
+  const [latest, setLatest] = useState<LatestRuns>({});
+  const [running, setRunning] = useState<ProjectAnalysisType | null>(null);
+
+  const loadLatest = useCallback(async () => {
+    if (!activeProject) return;
+
+    try {
+      const response = await window.electronAPI.getProjectAnalysisHistory(activeProject.id, undefined, 20);
+      if (response.success && response.data) {
+        // History is newest first
+        const runs: LatestRuns = {};
+        for (const record of response.data.analyses) {
+          runs[record.analysisType] ??= record;
+        }
+        setLatest(runs);
+      }
+    } catch {
+      // Nothing to show until an analysis runs
+    }
+  }, [activeProject]);
+
+  useEffect(() => {
+    setLatest({});
+    loadLatest();
+  }, [loadLatest]);
+
+  const handleRun = async (type: ProjectAnalysisType, force: boolean) => {
+    if (!activeProject) return;
+    setRunning(type);
+    await runProjectAnalysis(activeProject.id, type, force);
+    setRunning(null);
+    // Invalid runs are stored too
+    await loadLatest();
+  };
+
+  if (!activeProject) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Card className="max-w-md">
+          <CardBody className="text-center py-8">
+            <h3 className="text-lg font-semibold mb-2">No Project Selected</h3>
+            <p className="text-gray-500 dark:text-gray-400">
+              Configure a Spec-kit project to analyze it across features.
+            </p>
+          </CardBody>
+        </Card>
+      </div>
+    );
+  }
+
+  const renderResult = (type: ProjectAnalysisType, record: ProjectAnalysisRecord | undefined) => {
+    // Stream the chunk in progress while the analysis runs
+    if (running === type) {
+      const partial = partialResult as Partial<ConflictsResult & IntegrityResult> | null;
+      return type === 'conflicts'
+        ? <ConflictList conflicts={partial?.conflicts ?? []} />
+        : (
+          <IntegrityList
+            result={{
+              duplicateEntities: partial?.duplicateEntities ?? [],
+              statusMismatches: partial?.statusMismatches ?? [],
+            }}
+          />
+        );
+    }
+
+    if (!record) {
+      return (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Not analyzed yet.
+        </p>
+      );
+    }
+
+    if (!record.result) {
+      return (
+        <p className="text-sm text-amber-600 dark:text-amber-400">
+          The last run did not return a valid result. Run the analysis again or pick another model.
+        </p>
+      );
+    }
+
+    return type === 'conflicts'
+      ? <ConflictList conflicts={(record.result as ConflictsResult).conflicts} />
+      : <IntegrityList result={record.result as IntegrityResult} />;
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+          Project Insights
+        </h1>
+        <p className="text-gray-500 dark:text-gray-400 mt-1">
+          AI analyses across all features of {activeProject.name}
+        </p>
+      </div>
+
+      {error && (
+        <Card className="bg-red-50 dark:bg-red-900/20">
+          <CardBody className="flex items-center justify-between gap-4">
+            <p className="text-red-600 dark:text-red-400 text-sm">{error}</p>
+            <Button variant="flat" size="sm" onClick={clearError}>
+              Dismiss
+            </Button>
+          </CardBody>
+        </Card>
+      )}
+
+      {ANALYSES.map(({ type, title, description }) => {
+        const record = latest[type];
+        return (
+          <Card key={type}>
+            <CardBody className="space-y-4">
+              <div className="flex flex-wrap items-start justify-between gap-4">
+                <div>
+                  <h3 className="text-lg font-medium text-gray-900 dark:text-white">{title}</h3>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">{description}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {running === type ? (
+                    <Button variant="outline" size="sm" onClick={cancel}>
+                      Cancel
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="primary"
+                      size="sm"
+                      onClick={() => handleRun(type, !!record)}
+                      disabled={isLoading}
+                    >
+                      {record ? 'Re-run' : 'Analyze'}
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {record && running !== type && (
+                <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                  <span>{new Date(record.createdAt).toLocaleString()}</span>
+                  {record.result && <span>· {record.result.featuresAnalyzed} features</span>}
+                  {record.chunkCount > 1 && <span>· {record.chunkCount} chunks</span>}
+                  {record.model && <span>· 🤖 {record.model}</span>}
+                  <span>· ⏱️ {(record.duration / 1000).toFixed(1)}s</span>
+                  {record.tokenCount && <span>· 🔢 {record.tokenCount.toLocaleString()} tokens</span>}
+                  {record.stale && (
+                    <Chip size="sm" variant="flat" color="warning">
+                      Features changed since this analysis
+                    </Chip>
+                  )}
+                </div>
+              )}
+
+              {running === type && (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Analyzing features...</p>
+              )}
+
+              {renderResult(type, record)}
+            </CardBody>
+          </Card>
+        );
+      })}
+
+      {/* Questions across all features */}
+      <div className="space-y-2">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">Ask the Project</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Questions answered from the specs, plans, tasks and decisions of every feature
+          </p>
+        </div>
+        <ChatPanel projectId={activeProject.id} featureId={null} />
+      </div>
+    </div>
+  );
+}
+
+export default ProjectAnalysisView;
@@ -0,0 +1,149 @@
+/**
+ * Code Generation Panel Component
+ * Previews SQL, Prisma, TypeScript and zod code generated from the feature's
+ * data-model.md entities, with copy and save-to-file
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button, Chip } from '../../components/ui';
+import type { CodegenTarget, GeneratedCode } from '../../types';
+
+interface CodeGenPanelProps {
+  featureId: number;
+  onClose: () => void;
+}
+
+const TARGETS: Array<{ id: CodegenTarget; label: string }> = [
+  { id: 'sqlite', label: 'SQLite' },
+  { id: 'postgres', label: 'PostgreSQL' },
+  { id: 'prisma', label: 'Prisma' },
+  { id: 'typescript', label: 'TypeScript' },
+  { id: 'zod', label: 'Zod' },
+];
+
+export function CodeGenPanel({ featureId, onClose }: CodeGenPanelProps) {
+  const [target, setTarget] = useState<CodegenTarget>('sqlite');
+  const [generated, setGenerated] = useState<GeneratedCode | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const generate = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await window.electronAPI.generateCode(featureId, target);
+      if (response.success && response.data) {
+        setGenerated(response.data);
+      } else {
+        setGenerated(null);
+        setError(response.success ? 'Failed to generate code' : response.error);
+      }
+    } catch (err) {
+      setGenerated(null);
+      setError(err instanceof Error ? err.message : 'Failed to generate code');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [featureId, target]);
+
+  useEffect(() => {
+    generate();
+  }, [generate]);
+
+  const handleCopy = async () => {
+    if (!generated) return;
+    try {
+      await navigator.clipboard.writeText(generated.code);
+      setNotice('Copied to clipboard');
+    } catch {
+      setError('Could not copy to the clipboard');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!generated) return;
+    setNotice(null);
+    try {
+      const response = await window.electronAPI.saveGeneratedCode(
+        featureId,
+        generated.fileName,
+        generated.code,
+      );
+      if (!response.success) {
+        setError(response.error);
+      } else if (response.data?.filePath) {
+        setNotice(`Saved to ${response.data.filePath}`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save file');
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden bg-white dark:bg-gray-900">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2 p-3 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-center gap-1">
+          {TARGETS.map(({ id, label }) => (
+            <Button
+              key={id}
+              size="sm"
+              variant={target === id ? 'primary' : 'flat'}
+              onPress={() => setTarget(id)}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+        <div className="flex-1" />
+        {generated && (
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            {generated.entityCount} entities → {generated.fileName}
+          </span>
+        )}
+        <Button size="sm" variant="flat" onPress={handleCopy} isDisabled={!generated}>
+          Copy
+        </Button>
+        <Button size="sm" variant="secondary" onPress={handleSave} isDisabled={!generated}>
+          Save to file…
+        </Button>
+        <Button size="sm" variant="outline" onPress={onClose}>
+          Back to Diagram
+        </Button>
+      </div>
+
+      {notice && (
+        <p className="px-3 pt-2 text-xs text-green-600 dark:text-green-400">{notice}</p>
+      )}
+      {error && (
+        <p className="px-3 pt-2 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      {generated && generated.warnings.length > 0 && (
+        <div className="px-3 pt-2 space-y-1">
+          <Chip size="sm" variant="flat" color="warning">
+            {generated.warnings.length} {generated.warnings.length === 1 ? 'warning' : 'warnings'}
+          </Chip>
+          <ul className="text-xs text-amber-600 dark:text-amber-400 list-disc pl-5">
+            {generated.warnings.map((warning) => <li key={warning}>{warning}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {/* Preview */}
+      <div className="flex-1 overflow-auto p-3">
+        {isLoading ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Generating...</p>
+        ) : generated && (
+          <pre className="text-xs font-mono whitespace-pre text-gray-800 dark:text-gray-200 bg-gray-50 dark:bg-gray-800 rounded-lg p-4">
+            {generated.code}
+          </pre>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default CodeGenPanel;
@@ -4,6 +4,7 @@
  */
 
 import type { EntityDetail } from '../../hooks/useSchema';
+import StateDiagram from './StateDiagram';
 
 interface EntityDetailsProps {
   entity: EntityDetail;
@@ -144,6 +145,53 @@ export function EntityDetails({ entity, onClose }: EntityDetailsProps) {
           )}
         </div>
 
+        {/* State Transitions */}
+        {entity.stateTransitions && entity.stateTransitions.transitions.length > 0 && (
+          <div>
+            <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">
+              State Transitions
+              {entity.stateTransitions.attribute && (
+                <span className="ml-1 font-mono text-xs text-violet-600 dark:text-violet-400">
+                  ({entity.stateTransitions.attribute})
+                </span>
+              )}
+            </h3>
+            <div className="p-2 bg-gray-50 dark:bg-gray-800 rounded-lg">
+              <StateDiagram machine={entity.stateTransitions} />
+            </div>
+
+            {entity.stateTransitions.issues.length > 0 && (
+              <div className="mt-2 space-y-1">
+                {entity.stateTransitions.issues.map((issue) => (
+                  <div
+                    key={`${issue.type}-${issue.state}`}
+                    className={`p-2 rounded border-l-2 text-xs ${
+                      issue.type === 'undefined-state'
+                        ? 'bg-red-50 dark:bg-red-900/20 border-red-400 dark:border-red-600 text-red-800 dark:text-red-200'
+                        : 'bg-amber-50 dark:bg-amber-900/20 border-amber-400 dark:border-amber-600 text-amber-800 dark:text-amber-200'
+                    }`}
+                  >
+                    {issue.message}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <ul className="mt-2 space-y-1">
+              {entity.stateTransitions.transitions.map((transition, index) => (
+                <li key={index} className="text-xs text-gray-600 dark:text-gray-400">
+                  <span className="font-mono text-gray-800 dark:text-gray-200">{transition.from}</span>
+                  {' → '}
+                  <span className="font-mono text-gray-800 dark:text-gray-200">{transition.to}</span>
+                  {transition.trigger && (
+                    <span className="text-gray-500 dark:text-gray-400">: {transition.trigger}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Validation Rules */}
         {entity.validationRules && entity.validationRules.length > 0 && (
           <div>
@@ -26,6 +26,9 @@ export interface EntityNodeData {
   relationshipCount: number;
   attributes?: EntityAttribute[];
   relationships?: EntityRelationship[];
+  /** Collapsed entities show their header only */
+  collapsed?: boolean;
+  onToggleCollapse?: (entityName: string) => void;
 }
 
 export const EntityNode = memo(function EntityNode({ data, selected }: NodeProps<EntityNodeData>) {
@@ -51,10 +54,38 @@ export const EntityNode = memo(function EntityNode({ data, selected }: NodeProps
       />
 
       {/* Header */}
-      <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700 bg-gradient-to-r from-violet-50 to-purple-50 dark:from-violet-900/20 dark:to-purple-900/20 rounded-t-md">
-        <h3 className="font-semibold text-gray-900 dark:text-white text-sm">
-          {data.entityName}
-        </h3>
+      <div
+        className={`px-4 py-3 bg-gradient-to-r from-violet-50 to-purple-50 dark:from-violet-900/20 dark:to-purple-900/20 ${
+          data.collapsed ? 'rounded-md' : 'border-b border-gray-200 dark:border-gray-700 rounded-t-md'
+        }`}
+      >
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="font-semibold text-gray-900 dark:text-white text-sm">
+            {data.entityName}
+          </h3>
+          {data.onToggleCollapse && (
+            <button
+              type="button"
+              onClick={(event) => {
+                // Collapsing is not selecting
+                event.stopPropagation();
+                data.onToggleCollapse?.(data.entityName);
+              }}
+              className="nodrag text-gray-400 hover:text-violet-600 dark:hover:text-violet-400"
+              aria-label={data.collapsed ? 'Expand entity' : 'Collapse entity'}
+              title={data.collapsed ? 'Expand' : 'Collapse'}
+            >
+              <svg
+                className={`w-4 h-4 transition-transform ${data.collapsed ? '-rotate-90' : ''}`}
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+              </svg>
+            </button>
+          )}
+        </div>
         {data.description && (
           <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 line-clamp-2">
             {data.description}
@@ -63,36 +94,38 @@ export const EntityNode = memo(function EntityNode({ data, selected }: NodeProps
       </div>
 
       {/* Attributes Section */}
-      <div className="px-3 py-2 border-b border-gray-100 dark:border-gray-700">
-        <div className="text-xs font-semibold text-gray-400 dark:text-gray-500 uppercase tracking-wide mb-1">
-          Attributes ({data.attributeCount})
+      {!data.collapsed && (
+        <div className="px-3 py-2 border-b border-gray-100 dark:border-gray-700">
+          <div className="text-xs font-semibold text-gray-400 dark:text-gray-500 uppercase tracking-wide mb-1">
+            Attributes ({data.attributeCount})
+          </div>
+          {attributes.length === 0 ? (
+            <p className="text-xs text-gray-400 italic">No attributes defined</p>
+          ) : (
+            <ul className="space-y-0.5">
+              {attributes.slice(0, 5).map((attr, index) => (
+                <li key={index} className="flex items-center text-xs">
+                  <span className="font-medium text-gray-700 dark:text-gray-300 truncate max-w-[80px]">
+                    {attr.name}
+                  </span>
+                  <span className="text-gray-400 mx-1">:</span>
+                  <span className="text-violet-500 font-mono text-[10px] truncate max-w-[100px]">
+                    {attr.type}
+                  </span>
+                </li>
+              ))}
+              {attributes.length > 5 && (
+                <li className="text-xs text-gray-400 italic">
+                  +{attributes.length - 5} more...
+                </li>
+              )}
+            </ul>
+          )}
         </div>
-        {attributes.length === 0 ? (
-          <p className="text-xs text-gray-400 italic">No attributes defined</p>
-        ) : (
-          <ul className="space-y-0.5">
-            {attributes.slice(0, 5).map((attr, index) => (
-              <li key={index} className="flex items-center text-xs">
-                <span className="font-medium text-gray-700 dark:text-gray-300 truncate max-w-[80px]">
-                  {attr.name}
-                </span>
-                <span className="text-gray-400 mx-1">:</span>
-                <span className="text-violet-500 font-mono text-[10px] truncate max-w-[100px]">
-                  {attr.type}
-                </span>
-              </li>
-            ))}
-            {attributes.length > 5 && (
-              <li className="text-xs text-gray-400 italic">
-                +{attributes.length - 5} more...
-              </li>
-            )}
-          </ul>
-        )}
-      </div>
+      )}
 
       {/* Relationships Section */}
-      {relationships.length > 0 && (
+      {!data.collapsed && relationships.length > 0 && (
         <div className="px-3 py-2">
           <div className="text-xs font-semibold text-gray-400 dark:text-gray-500 uppercase tracking-wide mb-1">
             Relations ({data.relationshipCount})
@@ -3,7 +3,7 @@
  * ReactFlow canvas for displaying entity relationship diagrams
  */
 
-import { useCallback, useMemo } from 'react';
+import { useCallback, useEffect, useMemo } from 'react';
 import ReactFlow, {
   Background,
   Controls,
@@ -15,16 +15,13 @@ import ReactFlow, {
   type Edge,
 } from 'reactflow';
 import 'reactflow/dist/style.css';
-import EntityNode from './EntityNode';
-
-interface EntityNodeData {
-  entityName: string;
-  description: string;
-  attributeCount: number;
-  relationshipCount: number;
-}
+import EntityNode, { type EntityNodeData } from './EntityNode';
+import DiagramExportMenu, { entitiesToMermaid, type DiagramBox } from '../../components/DiagramExport';
+import DiagramLayoutControls from '../../components/DiagramLayoutControls';
+import { useDiagramLayout } from '../../hooks/useDiagramLayout';
 
 interface SchemaGraphProps {
+  featureId: number;
   nodes: Node<EntityNodeData>[];
   edges: Edge[];
   onNodeSelect: (nodeId: string) => void;
@@ -52,7 +49,39 @@ const defaultEdgeOptions = {
   },
 };
 
+const entityKey = (node: Node<EntityNodeData>) => node.data.entityName;
+
+/**
+ * Entity box for image export, listing what the node shows on screen
+ */
+function toEntityBox(
+  node: Node<EntityNodeData>,
+  size: { width: number; height: number },
+  theme: 'light' | 'dark',
+): DiagramBox {
+  const attributes = node.data.attributes || [];
+  const relationships = node.data.relationships || [];
+  const lines = attributes.slice(0, 5).map((attr) => `${attr.name}: ${attr.type}`);
+  if (attributes.length > 5) lines.push(`+${attributes.length - 5} more...`);
+  lines.push(...relationships.slice(0, 3).map((rel) => `→ ${rel.type} ${rel.target}`));
+  if (node.data.collapsed) lines.length = 0;
+
+  return {
+    id: node.id,
+    x: node.position.x,
+    y: node.position.y,
+    ...size,
+    title: node.data.entityName,
+    subtitle: node.data.description || undefined,
+    lines,
+    headerFill: theme === 'dark' ? '#2e1065' : '#f5f3ff',
+    headerText: theme === 'dark' ? '#f9fafb' : '#111827',
+    border: theme === 'dark' ? '#374151' : '#e5e7eb',
+  };
+}
+
 export function SchemaGraph({
+  featureId,
   nodes: initialNodes,
   edges: initialEdges,
   onNodeSelect,
@@ -62,15 +91,39 @@ export function SchemaGraph({
   const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
   const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
 
-  // Update nodes when initial data changes
-  useMemo(() => {
-    setNodes(initialNodes);
-  }, [initialNodes, setNodes]);
+  // Entity ids change on re-sync; names do not
+  const layout = useDiagramLayout({
+    featureId,
+    diagram: 'schema',
+    defaultDirection: 'LR',
+    layoutOptions: { nodeWidth: 280, nodeHeight: 220, nodeSeparation: 60, rankSeparation: 120 },
+    nodeKey: entityKey,
+  });
+  const { isLoaded, layoutVersion, arrange, collapsed, toggleCollapsed } = layout;
 
-  useMemo(() => {
+  // Arrange nodes from the saved layout when data or layout changes
+  useEffect(() => {
+    if (isLoaded) {
+      setNodes(arrange(initialNodes, initialEdges));
+    }
+  }, [initialNodes, initialEdges, isLoaded, layoutVersion, arrange, setNodes]);
+
+  useEffect(() => {
     setEdges(initialEdges);
   }, [initialEdges, setEdges]);
 
+  const displayedNodes = useMemo(
+    () => nodes.map((node) => ({
+      ...node,
+      data: {
+        ...node.data,
+        collapsed: collapsed.includes(entityKey(node)),
+        onToggleCollapse: toggleCollapsed,
+      },
+    })),
+    [nodes, collapsed, toggleCollapsed],
+  );
+
   // Handle node click
   const onNodeClick = useCallback(
     (_event: React.MouseEvent, node: Node) => {
@@ -81,17 +134,27 @@ export function SchemaGraph({
     [onNodeSelect]
   );
 
+  if (!isLoaded) {
+    return <div className="h-full w-full bg-gray-50 dark:bg-gray-900" />;
+  }
+
   return (
     <div className="h-full w-full bg-gray-50 dark:bg-gray-900">
       <ReactFlow
-        nodes={nodes}
+        nodes={displayedNodes}
         edges={edges}
         onNodesChange={onNodesChange}
         onEdgesChange={onEdgesChange}
         onNodeClick={onNodeClick}
+        onNodeDragStop={(_event, _node, dragged) => layout.savePositions([...nodes, ...dragged])}
+        onMoveEnd={(event, viewport) => {
+          // Only pans and zooms by the user; fitting the view is not a choice
+          if (event) layout.saveViewport(viewport);
+        }}
         nodeTypes={nodeTypes}
         defaultEdgeOptions={defaultEdgeOptions}
-        fitView
+        fitView={!layout.initialViewport}
+        defaultViewport={layout.initialViewport ?? undefined}
         fitViewOptions={{ padding: 0.2 }}
         minZoom={0.3}
         maxZoom={2}
@@ -118,6 +181,24 @@ export function SchemaGraph({
           maskColor="rgba(0, 0, 0, 0.1)"
         />
 
+        <DiagramLayoutControls
+          direction={layout.direction}
+          onDirectionChange={layout.setDirection}
+          onReset={layout.resetLayout}
+        />
+
+        <DiagramExportMenu
+          featureId={featureId}
+          fileBaseName="schema"
+          toBox={toEntityBox}
+          edgeColor="#a78bfa"
+          toMermaid={() => entitiesToMermaid(nodes.map((node) => ({
+            entityName: node.data.entityName,
+            attributes: node.data.attributes || [],
+            relationships: node.data.relationships || [],
+          })))}
+        />
+
         {/* Legend Panel */}
         <Panel position="top-left" className="!m-4">
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-3">
@@ -0,0 +1,164 @@
+/**
+ * State Diagram Component
+ * Lifecycle of an entity drawn from its state transitions, with the
+ * states its validation flags
+ */
+
+import { useMemo } from 'react';
+import dagre from 'dagre';
+import type { StateMachine } from '../../types';
+
+interface StateDiagramProps {
+  machine: StateMachine;
+}
+
+interface PlacedState {
+  key: string;
+  label: string;
+  x: number;
+  y: number;
+  width: number;
+  issue: 'unreachable' | 'undefined-state' | null;
+}
+
+const STATE_HEIGHT = 28;
+const START_RADIUS = 6;
+const START_ID = '__start__';
+
+/**
+ * Same matching as the parser: "In Progress" and "in_progress" are one state
+ */
+const stateKey = (state: string) => state.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+/**
+ * Place states top to bottom with dagre, returning the states and the
+ * points of each transition
+ */
+function layoutStates(machine: StateMachine) {
+  const graph = new dagre.graphlib.Graph({ multigraph: true });
+  graph.setGraph({ rankdir: 'TB', nodesep: 24, ranksep: 36, marginx: 8, marginy: 8 });
+  graph.setDefaultEdgeLabel(() => ({}));
+
+  const issues = new Map(machine.issues.map((issue) => [stateKey(issue.state), issue.type]));
+  for (const state of machine.states) {
+    graph.setNode(stateKey(state), {
+      label: state,
+      width: Math.max(56, state.length * 7 + 24),
+      height: STATE_HEIGHT,
+    });
+  }
+  if (machine.initial) {
+    graph.setNode(START_ID, { width: START_RADIUS * 2, height: START_RADIUS * 2 });
+    graph.setEdge(START_ID, stateKey(machine.initial), {}, 'start');
+  }
+  machine.transitions.forEach((transition, index) => {
+    graph.setEdge(stateKey(transition.from), stateKey(transition.to), {}, String(index));
+  });
+
+  dagre.layout(graph);
+
+  const states: PlacedState[] = machine.states.map((state) => {
+    const node = graph.node(stateKey(state));
+    return {
+      key: stateKey(state),
+      label: state,
+      x: node.x,
+      y: node.y,
+      width: node.width,
+      issue: issues.get(stateKey(state)) ?? null,
+    };
+  });
+  const edges = graph.edges().map((edge) => ({
+    id: `${edge.v}-${edge.w}-${edge.name}`,
+    points: graph.edge(edge).points ?? [],
+  }));
+  const start = machine.initial ? graph.node(START_ID) : null;
+  const { width = 0, height = 0 } = graph.graph();
+
+  return { states, edges, start, width, height };
+}
+
+export function StateDiagram({ machine }: StateDiagramProps) {
+  const { states, edges, start, width, height } = useMemo(() => layoutStates(machine), [machine]);
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      className="w-full h-auto max-h-96"
+      role="img"
+      aria-label="State diagram"
+    >
+      <defs>
+        <marker
+          id="state-arrow"
+          viewBox="0 0 10 10"
+          refX="9"
+          refY="5"
+          markerWidth="6"
+          markerHeight="6"
+          orient="auto-start-reverse"
+        >
+          <path d="M 0 0 L 10 5 L 0 10 z" className="fill-violet-400" />
+        </marker>
+      </defs>
+
+      {/* Transitions */}
+      {edges.map((edge) => (
+        <polyline
+          key={edge.id}
+          points={edge.points.map((point) => `${point.x},${point.y}`).join(' ')}
+          fill="none"
+          strokeWidth={1.5}
+          markerEnd="url(#state-arrow)"
+          className="stroke-violet-400"
+        />
+      ))}
+
+      {/* Initial state marker */}
+      {start && (
+        <circle cx={start.x} cy={start.y} r={START_RADIUS} className="fill-gray-700 dark:fill-gray-200" />
+      )}
+
+      {/* States */}
+      {states.map((state) => (
+        <g key={state.key}>
+          <title>
+            {state.issue === 'unreachable'
+              ? `${state.label}: cannot be reached`
+              : state.issue === 'undefined-state'
+                ? `${state.label}: not a defined state`
+                : state.label}
+          </title>
+          <rect
+            x={state.x - state.width / 2}
+            y={state.y - STATE_HEIGHT / 2}
+            width={state.width}
+            height={STATE_HEIGHT}
+            rx={STATE_HEIGHT / 2}
+            strokeWidth={1.5}
+            strokeDasharray={state.issue ? '4 3' : undefined}
+            className={
+              state.issue === 'undefined-state'
+                ? 'fill-red-50 stroke-red-400 dark:fill-red-900/30'
+                : state.issue === 'unreachable'
+                  ? 'fill-amber-50 stroke-amber-400 dark:fill-amber-900/30'
+                  : 'fill-violet-50 stroke-violet-300 dark:fill-violet-900/30 dark:stroke-violet-700'
+            }
+          />
+          <text
+            x={state.x}
+            y={state.y}
+            textAnchor="middle"
+            dominantBaseline="central"
+            fontSize={12}
+            className="fill-gray-800 dark:fill-gray-100"
+          >
+            {state.label}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+export default StateDiagram;
@@ -7,8 +7,10 @@ import { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Card, CardBody, Button } from '../../components/ui';
 import { useSchema } from '../../hooks/useSchema';
+import useFeatureUpdates from '../../hooks/useFeatureUpdates';
 import SchemaGraph from './SchemaGraph';
 import EntityDetails from './EntityDetails';
+import CodeGenPanel from './CodeGenPanel';
 
 export function SchemaView() {
   const { featureId } = useParams<{ featureId: string }>();
@@ -25,6 +27,7 @@ export function SchemaView() {
   } = useSchema();
 
   const [selectedNodeId, setSelectedNodeId] = useState<string | undefined>();
+  const [showCode, setShowCode] = useState(false);
   const navigate = useNavigate();
 
   const numericFeatureId = featureId ? parseInt(featureId, 10) : null;
@@ -36,6 +39,17 @@ export function SchemaView() {
     }
   }, [numericFeatureId, generateSchema]);
 
+  // Regenerate when data-model.md changes on disk
+  useFeatureUpdates((event) => {
+    if (event.removed) {
+      navigate('/features');
+      return;
+    }
+    if (numericFeatureId && event.filePath.endsWith('data-model.md')) {
+      generateSchema(numericFeatureId);
+    }
+  }, { featureId: numericFeatureId ?? undefined });
+
   const handleNodeSelect = (entityId: string) => {
     setSelectedNodeId(`entity-${entityId}`);
     selectEntity(parseInt(entityId, 10));
@@ -209,6 +223,13 @@ export function SchemaView() {
           >
             AI Analysis
           </Button>
+          <Button
+            size="sm"
+            variant={showCode ? 'primary' : 'flat'}
+            onPress={() => setShowCode((shown) => !shown)}
+          >
+            Generate Code
+          </Button>
           <Button
             variant="secondary"
             size="sm"
@@ -221,19 +242,26 @@ export function SchemaView() {
 
       {/* Graph Container */}
       <div className="flex-1 flex overflow-hidden rounded-lg border border-gray-200 dark:border-gray-700">
-        {/* Main Graph */}
-        <div className="flex-1">
-          <SchemaGraph
-            nodes={nodes}
-            edges={edges}
-            onNodeSelect={handleNodeSelect}
-            selectedNodeId={selectedNodeId}
-          />
-        </div>
+        {showCode ? (
+          <CodeGenPanel featureId={numericFeatureId} onClose={() => setShowCode(false)} />
+        ) : (
+          <>
+            {/* Main Graph */}
+            <div className="flex-1">
+              <SchemaGraph
+                featureId={numericFeatureId}
+                nodes={nodes}
+                edges={edges}
+                onNodeSelect={handleNodeSelect}
+                selectedNodeId={selectedNodeId}
+              />
+            </div>
 
-        {/* Entity Details Panel */}
-        {selectedEntity && (
-          <EntityDetails entity={selectedEntity} onClose={handleCloseDetails} />
+            {/* Entity Details Panel */}
+            {selectedEntity && (
+              <EntityDetails entity={selectedEntity} onClose={handleCloseDetails} />
+            )}
+          </>
         )}
       </div>
     </div>
@@ -0,0 +1,87 @@
+/**
+ * Speckit Dashboard - Burn-up Chart
+ * Line chart of total vs done tasks over time from project snapshots
+ */
+
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip, Legend } from 'recharts';
+import type { ProjectSnapshot } from '../../types';
+
+interface BurnUpChartProps {
+  snapshots: ProjectSnapshot[];
+}
+
+function toDayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+export function BurnUpChart({ snapshots }: BurnUpChartProps) {
+  // Keep the last snapshot of each day
+  const byDay = new Map<string, ProjectSnapshot>();
+  snapshots.forEach((snapshot) => {
+    byDay.set(toDayKey(snapshot.createdAt), snapshot);
+  });
+
+  const chartData = Array.from(byDay.entries()).map(([day, snapshot]) => ({
+    day,
+    label: new Date(snapshot.createdAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+    total: snapshot.stats.totalTasks,
+    done: snapshot.stats.tasksByStatus.done,
+  }));
+
+  if (chartData.length < 2) {
+    return (
+      <div className="h-64 flex items-center justify-center text-gray-400 text-center px-6">
+        Not enough history yet. Trends appear after the project has been synced on at least two days.
+      </div>
+    );
+  }
+
+  return (
+    <ResponsiveContainer width="100%" height={280}>
+      <LineChart data={chartData} margin={{ left: 0, right: 20, top: 10 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" vertical={false} />
+        <XAxis
+          dataKey="label"
+          axisLine={false}
+          tickLine={false}
+          tick={{ fill: '#6B7280', fontSize: 12 }}
+        />
+        <YAxis
+          allowDecimals={false}
+          axisLine={false}
+          tickLine={false}
+          tick={{ fill: '#6B7280', fontSize: 12 }}
+        />
+        <Tooltip
+          contentStyle={{
+            backgroundColor: 'rgba(255, 255, 255, 0.95)',
+            border: 'none',
+            borderRadius: '8px',
+            boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+          }}
+        />
+        <Legend />
+        <Line
+          type="stepAfter"
+          dataKey="total"
+          name="Total Tasks"
+          stroke="#9CA3AF"
+          strokeWidth={2}
+          strokeDasharray="5 5"
+          dot={false}
+        />
+        <Line
+          type="monotone"
+          dataKey="done"
+          name="Done"
+          stroke="#10B981"
+          strokeWidth={2}
+          dot={{ r: 3 }}
+        />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+}
+
+export default BurnUpChart;
@@ -10,6 +10,7 @@ interface ProjectHealthCardProps {
   value: number | string;
   icon: 'features' | 'tasks' | 'progress' | 'complete';
   trend: { value: number; isPositive: boolean } | null;
+  trendLabel?: string;
 }
 
 const icons = {
@@ -42,7 +43,7 @@ const iconColors = {
   complete: 'bg-emerald-100 text-emerald-600 dark:bg-emerald-900/30 dark:text-emerald-400',
 };
 
-export function ProjectHealthCard({ title, value, icon, trend }: ProjectHealthCardProps) {
+export function ProjectHealthCard({ title, value, icon, trend, trendLabel }: ProjectHealthCardProps) {
   return (
     <Card className="card-shadow">
       <CardBody className="flex flex-row items-center gap-4 p-4">
@@ -60,6 +61,9 @@ export function ProjectHealthCard({ title, value, icon, trend }: ProjectHealthCa
           {trend && (
             <p className={`text-sm ${trend.isPositive ? 'text-emerald-500' : 'text-red-500'}`}>
               {trend.isPositive ? '↑' : '↓'} {Math.abs(trend.value)}%
+              {trendLabel && (
+                <span className="ml-1 text-gray-400 dark:text-gray-500">{trendLabel}</span>
+              )}
             </p>
           )}
         </div>
@@ -3,47 +3,88 @@
  * Main dashboard landing page with project health metrics
  */
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { Card, CardBody, CardHeader } from '../../components/ui';
 import { useProject } from '../../contexts/ProjectContext';
 import LoadingSpinner from '../../components/LoadingSpinner';
 import FeatureStatusChart from './FeatureStatusChart';
 import TaskProgressChart from './TaskProgressChart';
 import ProjectHealthCard from './ProjectHealthCard';
-import type { ProjectStats } from '../../types';
+import BurnUpChart from './BurnUpChart';
+import useFeatureUpdates from '../../hooks/useFeatureUpdates';
+import type { ProjectSnapshot, ProjectStats } from '../../types';
+
+const TREND_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+type Trend = { value: number; isPositive: boolean } | null;
+
+/**
+ * Percent change between a baseline and the current value
+ */
+function computeTrend(current: number, baseline: number | undefined): Trend {
+  if (baseline === undefined || baseline === 0 || current === baseline) return null;
+  const value = Math.round(((current - baseline) / baseline) * 100);
+  return { value, isPositive: value >= 0 };
+}
+
+/**
+ * Snapshot to compare against: the latest one at least a week old, or the
+ * oldest one we have
+ */
+function findBaseline(snapshots: ProjectSnapshot[]): ProjectSnapshot | undefined {
+  const cutoff = Date.now() - TREND_WINDOW_MS;
+  const older = snapshots.filter((s) => s.createdAt <= cutoff);
+  return older.length > 0 ? older[older.length - 1] : snapshots[0];
+}
 
 export function StatsOverview() {
   const { activeProject } = useProject();
   const [stats, setStats] = useState<ProjectStats | null>(null);
+  const [snapshots, setSnapshots] = useState<ProjectSnapshot[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  useEffect(() => {
-    async function loadStats() {
-      if (!activeProject) {
-        setIsLoading(false);
-        return;
-      }
+  const loadStats = useCallback(async (isRefresh = false) => {
+    if (!activeProject) {
+      setIsLoading(false);
+      return;
+    }
 
+    if (!isRefresh) {
       setIsLoading(true);
-      setError(null);
-
-      try {
-        const response = await window.electronAPI.getStatsOverview(activeProject.id);
-        if (response.success && response.data) {
-          setStats(response.data.stats);
-        } else if (!response.success) {
-          setError(response.error);
-        }
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to load stats');
-      } finally {
-        setIsLoading(false);
+    }
+    setError(null);
+
+    try {
+      const [response, history] = await Promise.all([
+        window.electronAPI.getStatsOverview(activeProject.id),
+        window.electronAPI.getStatsHistory(activeProject.id),
+      ]);
+      if (response.success && response.data) {
+        setStats(response.data.stats);
+      } else if (!response.success) {
+        setError(response.error);
       }
+      if (history.success && history.data) {
+        setSnapshots(history.data.snapshots);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load stats');
+    } finally {
+      setIsLoading(false);
     }
+  }, [activeProject]);
 
+  useEffect(() => {
     loadStats();
-  }, [activeProject]);
+  }, [loadStats]);
+
+  // Refresh when any feature of the active project changes on disk
+  useFeatureUpdates((event) => {
+    if (event.projectId === activeProject?.id) {
+      loadStats(true);
+    }
+  });
 
   if (!activeProject) {
     return (
@@ -91,6 +132,12 @@ export function StatsOverview() {
     );
   }
 
+  const baselineSnapshot = findBaseline(snapshots);
+  const baseline = baselineSnapshot?.stats;
+  const trendLabel = baselineSnapshot && baselineSnapshot.createdAt > Date.now() - TREND_WINDOW_MS
+    ? `since ${new Date(baselineSnapshot.createdAt).toLocaleDateString()}`
+    : 'vs last week';
+
   return (
     <div className="space-y-6">
       {/* Page Header */}
@@ -109,25 +156,29 @@ export function StatsOverview() {
           title="Total Features"
           value={stats?.totalFeatures ?? 0}
           icon="features"
-          trend={null}
+          trend={computeTrend(stats?.totalFeatures ?? 0, baseline?.totalFeatures)}
+          trendLabel={trendLabel}
         />
         <ProjectHealthCard
           title="Total Tasks"
           value={stats?.totalTasks ?? 0}
           icon="tasks"
-          trend={null}
+          trend={computeTrend(stats?.totalTasks ?? 0, baseline?.totalTasks)}
+          trendLabel={trendLabel}
         />
         <ProjectHealthCard
           title="Task Completion"
           value={`${Math.round(stats?.avgTaskCompletion ?? 0)}%`}
           icon="progress"
-          trend={null}
+          trend={computeTrend(stats?.avgTaskCompletion ?? 0, baseline?.avgTaskCompletion)}
+          trendLabel={trendLabel}
         />
         <ProjectHealthCard
           title="Completed Features"
           value={stats?.featuresByStatus.complete ?? 0}
           icon="complete"
-          trend={null}
+          trend={computeTrend(stats?.featuresByStatus.complete ?? 0, baseline?.featuresByStatus.complete)}
+          trendLabel={trendLabel}
         />
       </div>
 
@@ -153,6 +204,17 @@ export function StatsOverview() {
           </CardBody>
         </Card>
       </div>
+
+      {/* Burn-up Chart */}
+      <Card className="card-shadow">
+        <CardHeader className="pb-2">
+          <h2 className="text-lg font-semibold">Burn-up</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">Tasks done over time</p>
+        </CardHeader>
+        <CardBody>
+          <BurnUpChart snapshots={snapshots} />
+        </CardBody>
+      </Card>
     </div>
   );
 }
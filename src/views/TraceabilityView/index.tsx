@@ -0,0 +1,305 @@
+/**
+ * Speckit Dashboard - Traceability View
+ * Requirements x tasks matrix with orphan requirements and orphan tasks
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { Card, CardBody, CardHeader, Button, Chip } from '../../components/ui';
+import LoadingSpinner from '../../components/LoadingSpinner';
+import useFeatureUpdates from '../../hooks/useFeatureUpdates';
+import type { Feature, TraceabilityMatrix, TraceLinkSource } from '../../types';
+
+const sourceStyles: Record<TraceLinkSource, { label: string; className: string }> = {
+  explicit: {
+    label: 'Explicit reference in tasks.md',
+    className: 'bg-emerald-500',
+  },
+  story: {
+    label: 'Linked through user story',
+    className: 'bg-blue-500',
+  },
+  inferred: {
+    label: 'Inferred from shared terms',
+    className: 'bg-amber-400',
+  },
+};
+
+export function TraceabilityView() {
+  const { featureId } = useParams<{ featureId: string }>();
+  const navigate = useNavigate();
+  const [feature, setFeature] = useState<Feature | null>(null);
+  const [matrix, setMatrix] = useState<TraceabilityMatrix | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTraceability = useCallback(async (isRefresh = false) => {
+    if (!featureId) {
+      setIsLoading(false);
+      setError('No feature ID provided');
+      return;
+    }
+
+    if (!isRefresh) {
+      setIsLoading(true);
+    }
+    setError(null);
+
+    try {
+      const [featureResponse, traceResponse] = await Promise.all([
+        window.electronAPI.getFeature(Number(featureId)),
+        window.electronAPI.getTraceability(Number(featureId)),
+      ]);
+
+      if (!featureResponse.success) {
+        setError(featureResponse.error);
+      } else if (!traceResponse.success) {
+        setError(traceResponse.error);
+      } else if (featureResponse.data && traceResponse.data) {
+        setFeature(featureResponse.data.feature);
+        setMatrix(traceResponse.data);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load traceability');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [featureId]);
+
+  useEffect(() => {
+    loadTraceability();
+  }, [loadTraceability]);
+
+  // Refresh when the feature's files change on disk
+  useFeatureUpdates((event) => {
+    if (event.removed) {
+      navigate('/features');
+      return;
+    }
+    loadTraceability(true);
+  }, { featureId: featureId ? Number(featureId) : undefined });
+
+  // Index links by requirement and task for cell lookup
+  const linkIndex = useMemo(() => {
+    const index = new Map<string, TraceLinkSource>();
+    matrix?.links.forEach((link) => {
+      index.set(`${link.requirementId}:${link.taskId}`, link.source);
+    });
+    return index;
+  }, [matrix]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <LoadingSpinner size="lg" label="Loading traceability..." />
+      </div>
+    );
+  }
+
+  if (error || !feature || !matrix) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Card className="max-w-md bg-red-50 dark:bg-red-900/20">
+          <CardBody className="text-center py-8">
+            <p className="text-red-500 mb-4">{error || 'Feature not found'}</p>
+            <Button onPress={() => navigate('/features')}>Back to Features</Button>
+          </CardBody>
+        </Card>
+      </div>
+    );
+  }
+
+  const orphanRequirements = matrix.requirements.filter((r) =>
+    matrix.orphanRequirements.includes(r.requirementId)
+  );
+  const orphanTasks = matrix.tasks.filter((t) =>
+    matrix.orphanTasks.includes(t.taskId)
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center gap-4">
+        <Button
+          isIconOnly
+          variant="flat"
+          size="sm"
+          onPress={() => navigate('/features')}
+          aria-label="Back to features"
+        >
+          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </Button>
+        <div className="flex-1">
+          <p className="text-sm text-gray-500 dark:text-gray-400 font-mono">
+            {feature.featureNumber}
+          </p>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+            {feature.title || feature.featureName} - Traceability
+          </h1>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="flat"
+            size="sm"
+            onPress={() => navigate(`/features/${featureId}/summary`)}
+          >
+            View Summary
+          </Button>
+          <Button
+            variant="flat"
+            size="sm"
+            onPress={() => navigate(`/features/${featureId}/kanban`)}
+          >
+            View Kanban
+          </Button>
+        </div>
+      </div>
+
+      {/* Coverage */}
+      <div className="flex flex-wrap items-center gap-3">
+        <Chip
+          color={matrix.coverage === 100 ? 'success' : matrix.coverage >= 50 ? 'warning' : 'danger'}
+          variant="flat"
+        >
+          {matrix.coverage}% requirements covered
+        </Chip>
+        <Chip variant="flat">{matrix.requirements.length} requirements</Chip>
+        <Chip variant="flat">{matrix.tasks.length} tasks</Chip>
+        <Chip variant="flat">{matrix.links.length} links</Chip>
+      </div>
+
+      {/* Legend */}
+      <div className="flex items-center gap-4 text-sm">
+        {(Object.keys(sourceStyles) as TraceLinkSource[]).map((source) => (
+          <div key={source} className="flex items-center gap-2">
+            <span className={`w-3 h-3 rounded ${sourceStyles[source].className}`} />
+            <span className="text-gray-600 dark:text-gray-400">{sourceStyles[source].label}</span>
+          </div>
+        ))}
+      </div>
+
+      {/* Matrix */}
+      <Card>
+        <CardHeader className="pb-2">
+          <h2 className="text-lg font-semibold">Requirements × Tasks</h2>
+        </CardHeader>
+        <CardBody>
+          {matrix.requirements.length === 0 || matrix.tasks.length === 0 ? (
+            <p className="text-gray-400 text-center py-8">
+              {matrix.requirements.length === 0
+                ? 'No FR-/NFR- requirements found in spec.md'
+                : 'No tasks found in tasks.md'}
+            </p>
+          ) : (
+            <div className="overflow-auto max-h-[60vh]">
+              <table className="text-xs border-collapse">
+                <thead>
+                  <tr>
+                    <th className="sticky top-0 left-0 z-20 bg-white dark:bg-gray-800 px-3 py-2 text-left font-semibold text-gray-700 dark:text-gray-300">
+                      Requirement
+                    </th>
+                    {matrix.tasks.map((task) => (
+                      <th
+                        key={task.taskId}
+                        title={task.description}
+                        className="sticky top-0 z-10 bg-white dark:bg-gray-800 px-1 py-2 font-mono font-medium text-gray-500 dark:text-gray-400"
+                      >
+                        {task.taskId}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {matrix.requirements.map((requirement) => (
+                    <tr
+                      key={requirement.requirementId}
+                      className="border-t border-gray-100 dark:border-gray-700"
+                    >
+                      <th
+                        title={requirement.description}
+                        className="sticky left-0 z-10 bg-white dark:bg-gray-800 px-3 py-1.5 text-left font-mono font-medium text-gray-700 dark:text-gray-300 whitespace-nowrap"
+                      >
+                        {requirement.requirementId}
+                      </th>
+                      {matrix.tasks.map((task) => {
+                        const source = linkIndex.get(`${requirement.requirementId}:${task.taskId}`);
+                        return (
+                          <td key={task.taskId} className="px-1 py-1.5 text-center">
+                            {source && (
+                              <span
+                                title={`${requirement.requirementId} → ${task.taskId}: ${sourceStyles[source].label}`}
+                                className={`inline-block w-3 h-3 rounded ${sourceStyles[source].className}`}
+                              />
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardBody>
+      </Card>
+
+      {/* Orphans */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader className="pb-2">
+            <h2 className="text-lg font-semibold">
+              Requirements Without Tasks ({orphanRequirements.length})
+            </h2>
+          </CardHeader>
+          <CardBody>
+            {orphanRequirements.length === 0 ? (
+              <p className="text-sm text-gray-400">Every requirement has at least one task.</p>
+            ) : (
+              <ul className="space-y-2">
+                {orphanRequirements.map((requirement) => (
+                  <li key={requirement.requirementId} className="text-sm">
+                    <span className="font-mono font-medium text-red-600 dark:text-red-400 mr-2">
+                      {requirement.requirementId}
+                    </span>
+                    <span className="text-gray-600 dark:text-gray-400">{requirement.description}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardBody>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <h2 className="text-lg font-semibold">
+              Tasks Without Requirements ({orphanTasks.length})
+            </h2>
+          </CardHeader>
+          <CardBody>
+            {orphanTasks.length === 0 ? (
+              <p className="text-sm text-gray-400">Every task traces back to a requirement.</p>
+            ) : (
+              <ul className="space-y-2">
+                {orphanTasks.map((task) => (
+                  <li key={task.taskId} className="text-sm">
+                    <span className="font-mono font-medium text-amber-600 dark:text-amber-400 mr-2">
+                      {task.taskId}
+                    </span>
+                    <span className="text-gray-600 dark:text-gray-400">{task.description}</span>
+                    {task.phase && (
+                      <span className="ml-2 text-xs text-gray-400">({task.phase})</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardBody>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+export default TraceabilityView;
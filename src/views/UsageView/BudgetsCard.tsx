@@ -0,0 +1,123 @@
+/**
+ * Budgets Card Component
+ * Monthly spend limits for all projects and for the active project
+ * Analyses are refused once a limit is reached
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button, Card, CardBody, CardHeader, Progress } from '../../components/ui';
+import type { UsageBudget } from '../../types';
+import { formatCost } from './UsageBreakdown';
+
+interface BudgetsCardProps {
+  projectId: number;
+  projectName: string;
+}
+
+interface BudgetRowProps {
+  label: string;
+  budget?: UsageBudget;
+  onSave: (limit: number | null) => Promise<void>;
+}
+
+const inputClassName = 'w-28 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-400 focus:ring-2 focus:ring-violet-500 focus:border-transparent';
+
+function BudgetRow({ label, budget, onSave }: BudgetRowProps) {
+  const [value, setValue] = useState(budget ? String(budget.monthlyLimit) : '');
+
+  useEffect(() => {
+    setValue(budget ? String(budget.monthlyLimit) : '');
+  }, [budget]);
+
+  const exceeded = !!budget && budget.spent >= budget.monthlyLimit;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium text-gray-900 dark:text-white">{label}</span>
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-gray-500 dark:text-gray-400">$</span>
+          <input
+            type="number"
+            min="0"
+            step="1"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder="No limit"
+            className={inputClassName}
+          />
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => onSave(value === '' ? null : parseFloat(value))}
+          >
+            Save
+          </Button>
+        </div>
+      </div>
+      {budget && (
+        <div>
+          <Progress
+            value={budget.spent}
+            maxValue={budget.monthlyLimit || 1}
+            size="sm"
+            color={exceeded ? 'danger' : budget.spent >= budget.monthlyLimit * 0.8 ? 'warning' : 'primary'}
+          />
+          <p className={`text-xs mt-1 ${exceeded ? 'text-red-500' : 'text-gray-500 dark:text-gray-400'}`}>
+            {formatCost(budget.spent)} of {formatCost(budget.monthlyLimit)} this month
+            {exceeded && ' - new analyses are blocked'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function BudgetsCard({ projectId, projectName }: BudgetsCardProps) {
+  const [budgets, setBudgets] = useState<UsageBudget[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    window.electronAPI.getUsageBudgets().then((response) => {
+      if (response.success && response.data) {
+        setBudgets(response.data.budgets);
+      }
+    });
+  }, []);
+
+  const saveBudget = useCallback(async (budgetProjectId: number | null, limit: number | null) => {
+    setError(null);
+    const response = await window.electronAPI.setUsageBudget(budgetProjectId, limit);
+    if (response.success && response.data) {
+      setBudgets(response.data.budgets);
+    } else if (!response.success) {
+      setError(response.error);
+    }
+  }, []);
+
+  return (
+    <Card>
+      <CardHeader>
+        <h3 className="font-semibold text-gray-900 dark:text-white">Monthly Budgets</h3>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Analyses are refused once a limit is reached. Leave empty for no limit.
+        </p>
+      </CardHeader>
+      <CardBody className="space-y-4">
+        <BudgetRow
+          label="All projects"
+          budget={budgets.find((b) => b.projectId === null)}
+          onSave={(limit) => saveBudget(null, limit)}
+        />
+        <BudgetRow
+          label={projectName}
+          budget={budgets.find((b) => b.projectId === projectId)}
+          onSave={(limit) => saveBudget(projectId, limit)}
+        />
+        {error && <p className="text-sm text-red-500">{error}</p>}
+      </CardBody>
+    </Card>
+  );
+}
+
+export default BudgetsCard;
@@ -0,0 +1,191 @@
+/**
+ * Pricing Table Component
+ * Editable per-model prices used to cost analyses
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button, Card, CardBody, CardHeader, Chip } from '../../components/ui';
+import type { ModelPrice } from '../../types';
+
+const inputClassName = 'px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-400 focus:ring-2 focus:ring-violet-500 focus:border-transparent';
+
+export function PricingTable() {
+  const [pricing, setPricing] = useState<ModelPrice[]>([]);
+  const [filter, setFilter] = useState('');
+  const [model, setModel] = useState('');
+  const [promptPrice, setPromptPrice] = useState('');
+  const [completionPrice, setCompletionPrice] = useState('');
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    window.electronAPI.getModelPricing().then((response) => {
+      if (response.success && response.data) {
+        setPricing(response.data.pricing);
+      }
+    });
+  }, []);
+
+  const handleSave = useCallback(async () => {
+    setError(null);
+    const response = await window.electronAPI.setModelPricing(
+      model,
+      parseFloat(promptPrice),
+      parseFloat(completionPrice)
+    );
+    if (response.success && response.data) {
+      setPricing(response.data.pricing);
+      setModel('');
+      setPromptPrice('');
+      setCompletionPrice('');
+    } else if (!response.success) {
+      setError(response.error);
+    }
+  }, [model, promptPrice, completionPrice]);
+
+  const handleDelete = useCallback(async (modelId: string) => {
+    const response = await window.electronAPI.deleteModelPricing(modelId);
+    if (response.success && response.data) {
+      setPricing(response.data.pricing);
+    }
+  }, []);
+
+  const handleSync = useCallback(async () => {
+    setIsSyncing(true);
+    setError(null);
+    setMessage(null);
+    const response = await window.electronAPI.syncOpenRouterPricing();
+    setIsSyncing(false);
+    if (response.success && response.data) {
+      setPricing(response.data.pricing);
+      setMessage(`Imported prices for ${response.data.imported} OpenRouter models`);
+    } else if (!response.success) {
+      setError(response.error);
+    }
+  }, []);
+
+  // Edit an existing price by loading it into the form
+  const handleEdit = (price: ModelPrice) => {
+    setModel(price.model);
+    setPromptPrice(String(price.promptPrice));
+    setCompletionPrice(String(price.completionPrice));
+  };
+
+  const visible = pricing.filter((p) => p.model.toLowerCase().includes(filter.toLowerCase()));
+
+  return (
+    <Card>
+      <CardHeader className="flex items-center justify-between gap-2">
+        <div>
+          <h3 className="font-semibold text-gray-900 dark:text-white">Model Pricing</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            USD per million tokens. Ollama models are always free; unpriced models are not costed.
+          </p>
+        </div>
+        <Button variant="secondary" size="sm" onClick={handleSync} disabled={isSyncing}>
+          {isSyncing ? 'Syncing...' : 'Sync OpenRouter Prices'}
+        </Button>
+      </CardHeader>
+      <CardBody className="space-y-3">
+        {/* Add / edit form */}
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={model}
+            onChange={(e) => setModel(e.target.value)}
+            placeholder="Model ID, e.g. gpt-4o-mini"
+            className={`${inputClassName} flex-1 min-w-[12rem]`}
+          />
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={promptPrice}
+            onChange={(e) => setPromptPrice(e.target.value)}
+            placeholder="Prompt $/1M"
+            className={`${inputClassName} w-32`}
+          />
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={completionPrice}
+            onChange={(e) => setCompletionPrice(e.target.value)}
+            placeholder="Completion $/1M"
+            className={`${inputClassName} w-36`}
+          />
+          <Button
+            variant="primary"
+            size="sm"
+            onClick={handleSave}
+            disabled={!model.trim() || promptPrice === '' || completionPrice === ''}
+          >
+            Save Price
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+        {message && <p className="text-sm text-green-600 dark:text-green-400">{message}</p>}
+
+        {pricing.length > 10 && (
+          <input
+            type="search"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter models..."
+            className={`${inputClassName} w-full`}
+          />
+        )}
+
+        {visible.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No prices configured</p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-white dark:bg-gray-800">
+                <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+                  <th className="py-1 font-medium">Model</th>
+                  <th className="py-1 font-medium text-right">Prompt</th>
+                  <th className="py-1 font-medium text-right">Completion</th>
+                  <th className="py-1" />
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map((price) => (
+                  <tr key={price.model} className="border-t border-gray-100 dark:border-gray-800">
+                    <td className="py-1.5 pr-2">
+                      <button
+                        onClick={() => handleEdit(price)}
+                        className="text-left text-gray-900 dark:text-white hover:underline"
+                        title="Edit price"
+                      >
+                        {price.model}
+                      </button>
+                      {price.source === 'openrouter' && (
+                        <Chip size="sm" variant="flat" color="secondary" className="ml-2">OpenRouter</Chip>
+                      )}
+                    </td>
+                    <td className="py-1.5 text-right text-gray-600 dark:text-gray-300">${price.promptPrice.toFixed(2)}</td>
+                    <td className="py-1.5 text-right text-gray-600 dark:text-gray-300">${price.completionPrice.toFixed(2)}</td>
+                    <td className="py-1.5 text-right">
+                      <button
+                        onClick={() => handleDelete(price.model)}
+                        className="text-xs text-gray-400 hover:text-red-500"
+                        title="Remove price"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
+
+export default PricingTable;
@@ -0,0 +1,84 @@
+/**
+ * Usage Breakdown Component
+ * Table of tokens and spend per group, with a bar relative to the largest row
+ */
+
+import { Card, CardBody, CardHeader } from '../../components/ui';
+import type { UsageBreakdownRow } from '../../types';
+
+interface UsageBreakdownProps {
+  title: string;
+  rows: UsageBreakdownRow[];
+  /** Optional mapping from row key to a friendlier label */
+  formatLabel?: (row: UsageBreakdownRow) => string;
+}
+
+export function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost > 0 && cost < 1 ? 4 : 2)}`;
+}
+
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
+
+export function UsageBreakdown({ title, rows, formatLabel }: UsageBreakdownProps) {
+  // Size bars by spend, or by tokens when nothing is priced
+  const byCost = rows.some((row) => row.cost > 0);
+  const measure = (row: UsageBreakdownRow) => (byCost ? row.cost : row.totalTokens);
+  const max = Math.max(...rows.map(measure), 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <h3 className="font-semibold text-gray-900 dark:text-white">{title}</h3>
+      </CardHeader>
+      <CardBody>
+        {rows.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No analyses in this period</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+                <th className="py-1 font-medium">Name</th>
+                <th className="py-1 font-medium text-right">Runs</th>
+                <th className="py-1 font-medium text-right" title="Prompt / completion tokens">Tokens</th>
+                <th className="py-1 font-medium text-right">Spend</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.key} className="border-t border-gray-100 dark:border-gray-800">
+                  <td className="py-1.5 pr-2">
+                    <div className="text-gray-900 dark:text-white truncate max-w-[16rem]" title={row.label}>
+                      {formatLabel ? formatLabel(row) : row.label}
+                    </div>
+                    <div className="h-1 mt-1 rounded-full bg-gray-100 dark:bg-gray-800">
+                      <div
+                        className="h-1 rounded-full bg-primary-500"
+                        style={{ width: `${max > 0 ? (measure(row) / max) * 100 : 0}%` }}
+                      />
+                    </div>
+                  </td>
+                  <td className="py-1.5 text-right text-gray-600 dark:text-gray-300">{row.analyses}</td>
+                  <td className="py-1.5 text-right text-gray-600 dark:text-gray-300 whitespace-nowrap">
+                    {formatTokens(row.promptTokens)} / {formatTokens(row.completionTokens)}
+                  </td>
+                  <td className="py-1.5 text-right font-medium text-gray-900 dark:text-white whitespace-nowrap">
+                    {formatCost(row.cost)}
+                    {row.unpriced > 0 && (
+                      <span className="ml-1 text-amber-500" title={`${row.unpriced} analyses on unpriced models`}>*</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
+
+export default UsageBreakdown;
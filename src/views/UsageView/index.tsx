@@ -0,0 +1,211 @@
+/**
+ * Speckit Dashboard - Usage View
+ * Token usage and spend of AI analyses, with pricing and monthly budgets
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardBody } from '../../components/ui';
+import { useProject } from '../../contexts/ProjectContext';
+import LoadingSpinner from '../../components/LoadingSpinner';
+import UsageBreakdown, { formatCost, formatTokens } from './UsageBreakdown';
+import PricingTable from './PricingTable';
+import BudgetsCard from './BudgetsCard';
+import type { UsageSummary } from '../../types';
+
+type UsagePeriod = 'month' | '30d' | '90d' | 'all';
+type UsageScope = 'project' | 'all';
+
+const PERIOD_LABELS: Record<UsagePeriod, string> = {
+  month: 'This month',
+  '30d': 'Last 30 days',
+  '90d': 'Last 90 days',
+  all: 'All time',
+};
+
+const ANALYSIS_TYPE_LABELS: Record<string, string> = {
+  summary: 'Summary',
+  consistency: 'Consistency',
+  gaps: 'Gap Analysis',
+  architecture: 'Architecture',
+  conflicts: 'Requirement Conflicts',
+  integrity: 'Model & Status Integrity',
+  tasks: 'Tasks Draft',
+  chat: 'Chat',
+};
+
+function periodStart(period: UsagePeriod): number {
+  const now = new Date();
+  switch (period) {
+    case 'month':
+      return new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+    case '30d':
+      return now.getTime() - 30 * 24 * 60 * 60 * 1000;
+    case '90d':
+      return now.getTime() - 90 * 24 * 60 * 60 * 1000;
+    default:
+      return 0;
+  }
+}
+
+const selectClassName = 'px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-violet-500 focus:border-transparent';
+
+export function UsageView() {
+  const { activeProject } = useProject();
+  const [period, setPeriod] = useState<UsagePeriod>('month');
+  const [scope, setScope] = useState<UsageScope>('project');
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSummary = useCallback(async () => {
+    if (!activeProject) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await window.electronAPI.getUsageSummary(
+        periodStart(period),
+        scope === 'project' ? activeProject.id : undefined
+      );
+      if (response.success && response.data) {
+        setSummary(response.data);
+      } else if (!response.success) {
+        setError(response.error);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load usage');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [activeProject, period, scope]);
+
+  useEffect(() => {
+    loadSummary();
+  }, [loadSummary]);
+
+  if (!activeProject) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Card className="max-w-md">
+          <CardBody className="text-center py-8">
+            <h3 className="text-lg font-semibold mb-2">No Project Selected</h3>
+            <p className="text-gray-500 dark:text-gray-400">
+              Configure a Spec-kit project to see AI usage.
+            </p>
+          </CardBody>
+        </Card>
+      </div>
+    );
+  }
+
+  const totals = summary?.totals;
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+            AI Usage
+          </h1>
+          <p className="text-gray-500 dark:text-gray-400 mt-1">
+            Tokens and spend of AI analyses
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={scope}
+            onChange={(e) => setScope(e.target.value as UsageScope)}
+            className={selectClassName}
+          >
+            <option value="project">{activeProject.name}</option>
+            <option value="all">All projects</option>
+          </select>
+          <select
+            value={period}
+            onChange={(e) => setPeriod(e.target.value as UsagePeriod)}
+            className={selectClassName}
+          >
+            {(Object.keys(PERIOD_LABELS) as UsagePeriod[]).map((p) => (
+              <option key={p} value={p}>{PERIOD_LABELS[p]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center min-h-[30vh]">
+          <LoadingSpinner size="lg" label="Loading usage..." />
+        </div>
+      ) : error ? (
+        <Card className="bg-red-50 dark:bg-red-900/20">
+          <CardBody className="text-center py-8">
+            <p className="text-red-500">{error}</p>
+          </CardBody>
+        </Card>
+      ) : summary && totals && (
+        <>
+          {/* Totals */}
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <Card>
+              <CardBody>
+                <p className="text-sm text-gray-500 dark:text-gray-400">Spend</p>
+                <p className="text-2xl font-bold text-gray-900 dark:text-white">{formatCost(totals.cost)}</p>
+              </CardBody>
+            </Card>
+            <Card>
+              <CardBody>
+                <p className="text-sm text-gray-500 dark:text-gray-400">Analyses</p>
+                <p className="text-2xl font-bold text-gray-900 dark:text-white">{totals.analyses}</p>
+              </CardBody>
+            </Card>
+            <Card>
+              <CardBody>
+                <p className="text-sm text-gray-500 dark:text-gray-400">Prompt tokens</p>
+                <p className="text-2xl font-bold text-gray-900 dark:text-white">{formatTokens(totals.promptTokens)}</p>
+              </CardBody>
+            </Card>
+            <Card>
+              <CardBody>
+                <p className="text-sm text-gray-500 dark:text-gray-400">Completion tokens</p>
+                <p className="text-2xl font-bold text-gray-900 dark:text-white">{formatTokens(totals.completionTokens)}</p>
+              </CardBody>
+            </Card>
+          </div>
+
+          {totals.unpriced > 0 && (
+            <p className="text-sm text-amber-600 dark:text-amber-400">
+              * {totals.unpriced} analyses ran on models without a price and are not included in spend.
+              Add their prices below or sync OpenRouter prices.
+            </p>
+          )}
+
+          {/* Breakdowns */}
+          <UsageBreakdown title="By Day" rows={summary.byDay} />
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <UsageBreakdown
+              title="By Analysis Type"
+              rows={summary.byType}
+              formatLabel={(row) => ANALYSIS_TYPE_LABELS[row.key] || row.label}
+            />
+            <UsageBreakdown title="By Model" rows={summary.byModel} />
+            <UsageBreakdown title="By Feature" rows={summary.byFeature} />
+            {scope === 'all' && <UsageBreakdown title="By Project" rows={summary.byProject} />}
+          </div>
+        </>
+      )}
+
+      {/* Settings */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <BudgetsCard projectId={activeProject.id} projectName={activeProject.name} />
+        <PricingTable />
+      </div>
+    </div>
+  );
+}
+
+export default UsageView;